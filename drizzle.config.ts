@@ -4,6 +4,8 @@ export default defineConfig({
   schema: './src/lib/db/schema.ts',
   out: './src/lib/db/migrations',
   dialect: 'sqlite',
+  // Leave the FTS5 search index (see src/lib/db/search-index.ts) alone
+  tablesFilter: ['!task_search*'],
   dbCredentials: {
     url: './data/tasks.db',
   },
@@ -0,0 +1,43 @@
+/**
+ * Service worker for reminder push notifications.
+ * Shows a notification for each push message and opens the task on click.
+ * Payload: { title, body?, url, tag? } (see PushPayload in src/types).
+ */
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { title: event.data.text(), url: '/' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      icon: '/favicon.ico',
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
+      // Reuse an open tab of the app if there is one
+      for (const client of clientList) {
+        if (new URL(client.url).origin === self.location.origin && 'focus' in client) {
+          return client.navigate(url).then((navigated) => (navigated || client).focus());
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -24,6 +24,7 @@ function parseTaskDates(task: Task): Task {
     ...task,
     date: task.date ? new Date(task.date) : undefined,
     deadline: task.deadline ? new Date(task.deadline) : undefined,
+    startDate: task.startDate ? new Date(task.startDate) : undefined,
     completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
     createdAt: new Date(task.createdAt),
     updatedAt: new Date(task.updatedAt),
@@ -227,6 +228,10 @@ export default function AllPage(): React.ReactElement {
     toggleCompleteMutation.mutate(taskId);
   };
 
+  const handleSnooze = (taskId: string, startDate: Date | null): void => {
+    updateTaskMutation.mutate({ id: taskId, data: { startDate } });
+  };
+
   const handleTaskClick = (task: Task): void => {
     setSelectedTask(task);
   };
@@ -315,6 +320,7 @@ export default function AllPage(): React.ReactElement {
                   tasks={scheduledTasks}
                   onTaskClick={handleTaskClick}
                   onToggleComplete={handleToggleComplete}
+                  onSnooze={handleSnooze}
                   showCompleted={showCompleted}
                   onToggleShowCompleted={handleToggleShowCompleted}
                   groupByDate={true}
@@ -333,6 +339,7 @@ export default function AllPage(): React.ReactElement {
                   tasks={unscheduledTasks}
                   onTaskClick={handleTaskClick}
                   onToggleComplete={handleToggleComplete}
+                  onSnooze={handleSnooze}
                   showCompleted={showCompleted}
                   onToggleShowCompleted={scheduledTasks.length === 0 ? handleToggleShowCompleted : undefined}
                   emptyMessage="No unscheduled tasks."
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calendarService, CalendarNotFoundError } from '@/lib/services/calendar.service';
+import type { ErrorResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/calendars/[id]/refresh
+ * Re-reads a calendar and replaces its cached busy blocks.
+ * A calendar that cannot be read is returned with its lastError set.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const source = await calendarService.refreshSource(id);
+    return NextResponse.json(source);
+  } catch (error) {
+    if (error instanceof CalendarNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    console.error('Error refreshing calendar:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to refresh calendar',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
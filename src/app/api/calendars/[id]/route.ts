@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calendarService, CalendarNotFoundError } from '@/lib/services/calendar.service';
+import type { ErrorResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/calendars/[id]
+ * Removes a calendar source and its busy blocks
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    await calendarService.deleteSource(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof CalendarNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    console.error('Error deleting calendar:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to delete calendar',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
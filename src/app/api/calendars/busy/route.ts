@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calendarService } from '@/lib/services/calendar.service';
+import type { ErrorResponse } from '@/types';
+
+/**
+ * GET /api/calendars/busy
+ * Returns the calendar busy blocks overlapping a range
+ *
+ * Query Parameters:
+ * - start: string (required) - ISO date-time for the start of the range
+ * - end: string (required) - ISO date-time for the end of the range
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const start = new Date(searchParams.get('start') ?? '');
+    const end = new Date(searchParams.get('end') ?? '');
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Start and end must be dates, with start before end',
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    const blocks = await calendarService.getBusyBlocks(start, end);
+    return NextResponse.json(blocks);
+  } catch (error) {
+    console.error('Error fetching busy blocks:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch busy blocks',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
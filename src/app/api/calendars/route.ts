@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calendarService, CalendarValidationError } from '@/lib/services/calendar.service';
+import type { CreateCalendarSourceInput, ErrorResponse } from '@/types';
+
+/**
+ * GET /api/calendars
+ * Returns all calendar sources
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const sources = await calendarService.getSources();
+    return NextResponse.json(sources);
+  } catch (error) {
+    console.error('Error fetching calendars:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch calendars',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/calendars
+ * Adds a calendar from a local .ics file path or uploaded .ics content
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+
+    const data: CreateCalendarSourceInput = {
+      name: body.name,
+      path: body.path,
+      content: body.content,
+    };
+
+    const source = await calendarService.createSource(data);
+    return NextResponse.json(source, { status: 201 });
+  } catch (error) {
+    if (error instanceof CalendarValidationError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    console.error('Error creating calendar:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to add calendar',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -62,6 +62,10 @@ export async function PUT(
       name: body.name,
       color: body.color,
       emoji: body.emoji,
+      viewMode: body.viewMode,
+      boardGrouping: body.boardGrouping,
+      rollover: body.rollover,
+      statuses: body.statuses,
     };
 
     const list = await listService.update(id, data);
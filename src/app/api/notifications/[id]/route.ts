@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  notificationService,
+  NotificationNotFoundError,
+  NotificationValidationError,
+} from '@/lib/services/notification.service';
+import type { ErrorResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/notifications/[id]
+ * Marks a notification as read or snoozes it
+ * Body: { read: true } or { snoozeMinutes: number }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    // Handle snooze request
+    if (body.snoozeMinutes !== undefined) {
+      const notification = await notificationService.snooze(id, body.snoozeMinutes);
+      return NextResponse.json(notification);
+    }
+
+    if (body.read === true) {
+      const notification = await notificationService.markRead(id);
+      return NextResponse.json(notification);
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Unsupported notification update',
+        details: { read: ['Provide read: true or snoozeMinutes'] },
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 400 });
+  } catch (error) {
+    if (error instanceof NotificationNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    if (error instanceof NotificationValidationError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    console.error('Error updating notification:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to update notification',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { notificationService } from '@/lib/services/notification.service';
+import type { ErrorResponse } from '@/types';
+
+/**
+ * GET /api/notifications
+ * Returns the notification inbox (snoozed notifications excluded), newest first
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const notifications = await notificationService.getInbox();
+    return NextResponse.json(notifications);
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch notifications',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/notifications
+ * Marks all visible notifications as read
+ * Body: { markAllRead: true }
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+
+    if (body.markAllRead !== true) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Unsupported notification update',
+          details: { markAllRead: ['markAllRead must be true'] },
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    await notificationService.markAllRead();
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error updating notifications:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to update notifications',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
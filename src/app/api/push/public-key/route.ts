@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { pushService } from '@/lib/services/push.service';
+import type { ErrorResponse } from '@/types';
+
+/**
+ * GET /api/push/public-key
+ * Returns the VAPID public key browsers use to subscribe
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    return NextResponse.json({ publicKey: pushService.getPublicKey() });
+  } catch (error) {
+    console.error('Error loading VAPID keys:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to load push public key',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ErrorResponse } from '@/types';
+
+/**
+ * A push message received by the stub push service
+ */
+interface StubPushMessage {
+  receivedAt: string;
+  contentEncoding: string | null;
+  ttl: string | null;
+  hasVapidAuthorization: boolean;
+  size: number;
+}
+
+// Keep only the most recent messages
+const MAX_STUB_MESSAGES = 50;
+const receivedMessages: StubPushMessage[] = [];
+
+function notFound(): NextResponse {
+  const errorResponse: ErrorResponse = {
+    error: {
+      code: 'NOT_FOUND',
+      message: 'The stub push service is only available in development',
+    },
+  };
+  return NextResponse.json(errorResponse, { status: 404 });
+}
+
+/**
+ * POST /api/push/stub
+ * Local stand-in for a browser vendor's push service.
+ * Accepts encrypted push messages like a real push service (201 Created)
+ * and records them so reminder delivery can be checked without a browser.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (process.env.NODE_ENV === 'production') return notFound();
+
+  const body = await request.arrayBuffer();
+
+  receivedMessages.unshift({
+    receivedAt: new Date().toISOString(),
+    contentEncoding: request.headers.get('content-encoding'),
+    ttl: request.headers.get('ttl'),
+    hasVapidAuthorization: request.headers.get('authorization')?.startsWith('vapid ') ?? false,
+    size: body.byteLength,
+  });
+  receivedMessages.splice(MAX_STUB_MESSAGES);
+
+  return new NextResponse(null, { status: 201 });
+}
+
+/**
+ * GET /api/push/stub
+ * Returns the messages received by the stub push service, newest first
+ */
+export async function GET(): Promise<NextResponse> {
+  if (process.env.NODE_ENV === 'production') return notFound();
+
+  return NextResponse.json(receivedMessages);
+}
+
+/**
+ * DELETE /api/push/stub
+ * Clears the received messages
+ */
+export async function DELETE(): Promise<NextResponse> {
+  if (process.env.NODE_ENV === 'production') return notFound();
+
+  receivedMessages.length = 0;
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pushService } from '@/lib/services/push.service';
+import { generateSubscriptionKeys } from '@/lib/utils/push';
+import type { ErrorResponse } from '@/types';
+
+/**
+ * POST /api/push/stub/subscription
+ * Registers a push subscription that points at the local stub push service,
+ * so push reminders can be tested end to end without a browser.
+ * Only available in development.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (process.env.NODE_ENV === 'production') {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'NOT_FOUND',
+        message: 'The stub push service is only available in development',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 404 });
+  }
+
+  try {
+    // The dev server usually runs on plain http
+    const subscription = await pushService.subscribe(
+      {
+        endpoint: `${request.nextUrl.origin}/api/push/stub`,
+        keys: generateSubscriptionKeys(),
+      },
+      { allowInsecureEndpoint: true }
+    );
+    return NextResponse.json(subscription, { status: 201 });
+  } catch (error) {
+    console.error('Error creating stub push subscription:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to create stub push subscription',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
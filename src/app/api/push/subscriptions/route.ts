@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  pushService,
+  PushValidationError,
+  PushSubscriptionNotFoundError,
+} from '@/lib/services/push.service';
+import type { PushSubscriptionInput, ErrorResponse } from '@/types';
+
+/**
+ * POST /api/push/subscriptions
+ * Stores a browser push subscription
+ * Body: PushSubscription.toJSON() ({ endpoint, keys: { p256dh, auth } })
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+
+    const data: PushSubscriptionInput = {
+      endpoint: body.endpoint,
+      keys: {
+        p256dh: body.keys?.p256dh,
+        auth: body.keys?.auth,
+      },
+    };
+
+    const subscription = await pushService.subscribe(data);
+    return NextResponse.json(subscription, { status: 201 });
+  } catch (error) {
+    if (error instanceof PushValidationError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    console.error('Error saving push subscription:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to save push subscription',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/push/subscriptions
+ * Removes a browser push subscription
+ * Body: { endpoint: string }
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+
+    if (typeof body.endpoint !== 'string' || !body.endpoint) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'endpoint is required',
+          details: { endpoint: ['endpoint is required'] },
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    await pushService.unsubscribe(body.endpoint);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof PushSubscriptionNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    console.error('Error removing push subscription:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to remove push subscription',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  reminderService,
+  ReminderNotFoundError,
+  ReminderValidationError,
+} from '@/lib/services/reminder.service';
+import type { UpdateReminderInput, ErrorResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/reminders/[id]
+ * Updates a reminder's offset and/or method
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const data: UpdateReminderInput = {
+      offsetMinutes: body.offsetMinutes,
+      method: body.method,
+    };
+
+    const reminder = await reminderService.updateReminder(id, data);
+    return NextResponse.json(reminder);
+  } catch (error) {
+    if (error instanceof ReminderNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    if (error instanceof ReminderValidationError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    console.error('Error updating reminder:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to update reminder',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/reminders/[id]
+ * Cancels a reminder
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    await reminderService.cancelReminder(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof ReminderNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    console.error('Error deleting reminder:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to delete reminder',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  savedSearchService,
+  SavedSearchValidationError,
+  SavedSearchNotFoundError,
+} from '@/lib/services/saved-search.service';
+import type { UpdateSavedSearchInput, ErrorResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/saved-searches/[id]
+ * Returns a single saved search by ID
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const savedSearch = await savedSearchService.getById(id);
+
+    if (!savedSearch) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: `Saved search with id "${id}" not found`,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    return NextResponse.json(savedSearch);
+  } catch (error) {
+    console.error('Error fetching saved search:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch saved search',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/saved-searches/[id]
+ * Updates a saved search
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const data: UpdateSavedSearchInput = {
+      name: body.name,
+      emoji: body.emoji,
+      query: body.query,
+    };
+
+    const savedSearch = await savedSearchService.update(id, data);
+    return NextResponse.json(savedSearch);
+  } catch (error) {
+    if (error instanceof SavedSearchNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    if (error instanceof SavedSearchValidationError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    console.error('Error updating saved search:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to update saved search',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/saved-searches/[id]
+ * Deletes a saved search; its tasks are not affected
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    await savedSearchService.delete(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof SavedSearchNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    console.error('Error deleting saved search:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to delete saved search',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
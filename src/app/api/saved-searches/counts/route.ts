@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { savedSearchService } from '@/lib/services/saved-search.service';
+import type { ErrorResponse } from '@/types';
+
+/**
+ * GET /api/saved-searches/counts
+ * Returns the number of incomplete matching tasks for each saved search,
+ * keyed by saved search ID
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const counts = await savedSearchService.getCounts();
+    return NextResponse.json(counts);
+  } catch (error) {
+    console.error('Error counting saved search tasks:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to count saved search tasks',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { savedSearchService, SavedSearchValidationError } from '@/lib/services/saved-search.service';
+import type { CreateSavedSearchInput, ErrorResponse } from '@/types';
+
+/**
+ * GET /api/saved-searches
+ * Returns all saved searches
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const savedSearches = await savedSearchService.getAll();
+    return NextResponse.json(savedSearches);
+  } catch (error) {
+    console.error('Error fetching saved searches:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch saved searches',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/saved-searches
+ * Saves a search query as a smart list
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+
+    const data: CreateSavedSearchInput = {
+      name: body.name,
+      emoji: body.emoji,
+      query: body.query,
+    };
+
+    const savedSearch = await savedSearchService.create(data);
+    return NextResponse.json(savedSearch, { status: 201 });
+  } catch (error) {
+    if (error instanceof SavedSearchValidationError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    console.error('Error creating saved search:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to create saved search',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { searchService } from '@/lib/services/search.service';
+import { SearchQueryError } from '@/lib/utils/search-query';
 import type { ErrorResponse } from '@/types';
 
 /**
  * GET /api/search?q=query
- * Searches for tasks using fuzzy matching
+ * Searches for tasks using filters and fuzzy matching.
+ * Returns results ranked by relevance, with matched ranges and a description snippet.
  * Query params:
- *   - q: search query string (required)
+ *   - q: search query string (required), e.g. `report list:Work is:overdue`
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
@@ -18,9 +20,20 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       return NextResponse.json([]);
     }
 
-    const tasks = await searchService.search(query);
-    return NextResponse.json(tasks);
+    const results = await searchService.search(query);
+    return NextResponse.json(results);
   } catch (error) {
+    if (error instanceof SearchQueryError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
     console.error('Error searching tasks:', error);
     const errorResponse: ErrorResponse = {
       error: {
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  schedulingProfileService,
+  SchedulingProfileValidationError,
+} from '@/lib/services/scheduling-profile.service';
+import type { UpdateSchedulingProfileInput, ErrorResponse } from '@/types';
+
+/**
+ * GET /api/settings/scheduling
+ * Returns the scheduling profile (working hours, breaks, days off and timezone)
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const profile = await schedulingProfileService.get();
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error('Error fetching scheduling profile:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch scheduling profile',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/settings/scheduling
+ * Updates the scheduling profile; omitted fields keep their values
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+
+    const data: UpdateSchedulingProfileInput = {
+      timezone: body.timezone,
+      workingDays: body.workingDays,
+      daysOff: body.daysOff,
+      slotMinutes: body.slotMinutes,
+      daysAhead: body.daysAhead,
+      deadlineUrgentHours: body.deadlineUrgentHours,
+      deadlineSoonHours: body.deadlineSoonHours,
+    };
+
+    const profile = await schedulingProfileService.update(data);
+    return NextResponse.json(profile);
+  } catch (error) {
+    if (error instanceof SchedulingProfileValidationError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    console.error('Error updating scheduling profile:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to update scheduling profile',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { taskService } from '@/lib/services/task.service';
+import {
+  reminderService,
+  ReminderValidationError,
+  TaskNotFoundError,
+} from '@/lib/services/reminder.service';
+import type { CreateReminderInput, ErrorResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/tasks/[id]/reminders
+ * Returns all reminders for a task
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+
+    // First check if task exists
+    const task = await taskService.getById(id);
+    if (!task) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: `Task with id "${id}" not found`,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    const reminders = await reminderService.getByTaskId(id);
+    return NextResponse.json(reminders);
+  } catch (error) {
+    console.error('Error fetching reminders:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch reminders',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/tasks/[id]/reminders
+ * Schedules a new reminder for a task
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const data: CreateReminderInput = {
+      offsetMinutes: body.offsetMinutes,
+      method: body.method,
+    };
+
+    const reminder = await reminderService.scheduleReminder(id, data);
+    return NextResponse.json(reminder, { status: 201 });
+  } catch (error) {
+    if (error instanceof TaskNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    if (error instanceof ReminderValidationError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    console.error('Error creating reminder:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to create reminder',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { taskService, TaskValidationError, TaskNotFoundError } from '@/lib/services/task.service';
+import { taskService, TaskValidationError, TaskNotFoundError, TaskBlockedError } from '@/lib/services/task.service';
 import type { UpdateTaskInput, ErrorResponse } from '@/types';
 
 interface RouteParams {
@@ -43,7 +43,8 @@ export async function GET(
 
 /**
  * PUT /api/tasks/[id]
- * Updates a task or toggles completion status
+ * Updates a task, toggles completion status, or demotes it to a subtask
+ * Demote body: { demoteTo: string } (the new parent task ID)
  */
 export async function PUT(
   request: NextRequest,
@@ -59,11 +60,18 @@ export async function PUT(
       return NextResponse.json(task);
     }
 
+    // Handle demote request
+    if (typeof body.demoteTo === 'string') {
+      const subtask = await taskService.demoteToSubtask(id, body.demoteTo);
+      return NextResponse.json(subtask);
+    }
+
     // Parse dates if provided as strings, handle null values
     const data: UpdateTaskInput = {
       ...body,
       date: body.date === null ? null : (body.date ? new Date(body.date) : undefined),
       deadline: body.deadline === null ? null : (body.deadline ? new Date(body.deadline) : undefined),
+      startDate: body.startDate === null ? null : (body.startDate ? new Date(body.startDate) : undefined),
     };
 
     const task = await taskService.update(id, data);
@@ -90,6 +98,16 @@ export async function PUT(
       return NextResponse.json(errorResponse, { status: 400 });
     }
 
+    if (error instanceof TaskBlockedError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'CONFLICT',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 409 });
+    }
+
     console.error('Error updating task:', error);
     const errorResponse: ErrorResponse = {
       error: {
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  taskService,
+  TaskNotFoundError,
+  TaskValidationError,
+  SubtaskNotFoundError,
+} from '@/lib/services/task.service';
+import type { UpdateSubtaskInput, ErrorResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string; subtaskId: string }>;
+}
+
+/**
+ * Ensures the subtask belongs to the task in the URL
+ * @throws TaskNotFoundError if the task doesn't exist
+ * @throws SubtaskNotFoundError if the subtask isn't one of the task's subtasks
+ */
+async function assertSubtaskOfTask(taskId: string, subtaskId: string): Promise<void> {
+  const task = await taskService.getById(taskId);
+  if (!task) {
+    throw new TaskNotFoundError(taskId);
+  }
+  if (!task.subtasks?.some(s => s.id === subtaskId)) {
+    throw new SubtaskNotFoundError(subtaskId);
+  }
+}
+
+/**
+ * PATCH /api/tasks/[id]/subtasks/[subtaskId]
+ * Renames a subtask and/or sets its completion status, or promotes it to a task
+ * Body: { name?: string, completed?: boolean } or { promote: true }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id, subtaskId } = await params;
+    const body = await request.json();
+
+    await assertSubtaskOfTask(id, subtaskId);
+
+    // Handle promote request
+    if (body.promote === true) {
+      const task = await taskService.promoteSubtask(subtaskId);
+      return NextResponse.json(task, { status: 201 });
+    }
+
+    const data: UpdateSubtaskInput = {
+      name: body.name,
+      completed: body.completed,
+    };
+
+    const subtask = await taskService.updateSubtask(subtaskId, data);
+    return NextResponse.json(subtask);
+  } catch (error) {
+    if (error instanceof TaskNotFoundError || error instanceof SubtaskNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    if (error instanceof TaskValidationError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    console.error('Error updating subtask:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to update subtask',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/tasks/[id]/subtasks/[subtaskId]
+ * Deletes a subtask
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id, subtaskId } = await params;
+
+    await assertSubtaskOfTask(id, subtaskId);
+    await taskService.deleteSubtask(subtaskId);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof TaskNotFoundError || error instanceof SubtaskNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    console.error('Error deleting subtask:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to delete subtask',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
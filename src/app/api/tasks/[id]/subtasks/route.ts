@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { taskService, TaskNotFoundError } from '@/lib/services/task.service';
+import { taskService, TaskNotFoundError, TaskValidationError } from '@/lib/services/task.service';
 import type { ErrorResponse } from '@/types';
 
 interface RouteParams {
@@ -52,3 +52,62 @@ export async function POST(
     return NextResponse.json(errorResponse, { status: 500 });
   }
 }
+
+/**
+ * PUT /api/tasks/[id]/subtasks
+ * Reorders all subtasks of a task
+ * Body: { subtaskIds: string[] } (every subtask of the task, in the new order)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!Array.isArray(body.subtaskIds) || !body.subtaskIds.every((s: unknown) => typeof s === 'string')) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'subtaskIds must be an array of subtask IDs',
+          details: { subtaskIds: ['subtaskIds must be an array of strings'] },
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    const subtasks = await taskService.reorderSubtasks(id, body.subtaskIds);
+    return NextResponse.json(subtasks);
+  } catch (error) {
+    if (error instanceof TaskNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    if (error instanceof TaskValidationError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    console.error('Error reordering subtasks:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to reorder subtasks',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
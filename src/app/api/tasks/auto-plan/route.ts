@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerService } from '@/lib/services/scheduler.service';
+import { TaskNotFoundError, TaskValidationError } from '@/lib/services/task.service';
+import { DAYS_AHEAD_RANGE } from '@/lib/utils/validation';
+import type { ApplyAutoPlanItem, ErrorResponse } from '@/types';
+
+/**
+ * GET /api/tasks/auto-plan
+ * Previews a plan for every incomplete task with an estimate and no time of day.
+ * Nothing is saved.
+ *
+ * Query Parameters:
+ * - days: number (optional) - Days to plan, starting today (default: the scheduling profile's days ahead)
+ *
+ * Requirements: 29.1, 29.3
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const daysStr = searchParams.get('days');
+    const days = daysStr ? Number(daysStr) : undefined;
+    if (days !== undefined && (!Number.isInteger(days) || days < DAYS_AHEAD_RANGE.min || days > DAYS_AHEAD_RANGE.max)) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Days must be a whole number from ${DAYS_AHEAD_RANGE.min} to ${DAYS_AHEAD_RANGE.max}`,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    const plan = await schedulerService.planTasks(days);
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error('Error planning tasks:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to plan tasks',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/tasks/auto-plan
+ * Saves the start times of a previewed plan
+ *
+ * Body: { assignments: Array<{ taskId: string; date: string }> }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+
+    const assignments: unknown[] = Array.isArray(body?.assignments) ? body.assignments : [];
+    const items: ApplyAutoPlanItem[] = assignments.map(item => {
+      const { taskId, date } = (item ?? {}) as { taskId?: unknown; date?: unknown };
+      return {
+        taskId: typeof taskId === 'string' ? taskId : '',
+        date: new Date(typeof date === 'string' ? date : NaN),
+      };
+    });
+
+    if (items.length === 0 || items.some(item => !item.taskId || isNaN(item.date.getTime()))) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Assignments must list a task ID and start date for each task',
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    const tasks = await schedulerService.applyPlan(items);
+    return NextResponse.json(tasks);
+  } catch (error) {
+    if (error instanceof TaskNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    if (error instanceof TaskValidationError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.errors,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    console.error('Error applying plan:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to apply plan',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
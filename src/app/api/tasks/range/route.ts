@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { taskService } from '@/lib/services/task.service';
+import type { ErrorResponse, Task } from '@/types';
+
+// Longest range served at once, enough for a six-week month grid
+const MAX_RANGE_DAYS = 62;
+
+/**
+ * GET /api/tasks/range
+ * Returns tasks scheduled within a date range
+ *
+ * Query Parameters:
+ * - start: string (required) - ISO date-time for the start of the range (inclusive)
+ * - end: string (required) - ISO date-time for the end of the range (exclusive)
+ * - includeCompleted: boolean (default: true)
+ * - includeDeadlines: boolean (default: false) - Also return tasks due within the range,
+ *   wherever they are scheduled
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const start = new Date(searchParams.get('start') ?? '');
+    const end = new Date(searchParams.get('end') ?? '');
+    const includeCompleted = searchParams.get('includeCompleted') !== 'false';
+    const includeDeadlines = searchParams.get('includeDeadlines') === 'true';
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Start and end must be dates, with start before end',
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Range must not be longer than ${MAX_RANGE_DAYS} days`,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    const tasks: Task[] = await taskService.getByDateRange(start, end, includeCompleted);
+
+    if (includeDeadlines) {
+      const scheduledIds = new Set(tasks.map(task => task.id));
+      const due = await taskService.getByDeadlineRange(start, end, includeCompleted);
+      tasks.push(...due.filter(task => !scheduledIds.has(task.id)));
+    }
+
+    return NextResponse.json(tasks);
+  } catch (error) {
+    console.error('Error fetching tasks in range:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch tasks in range',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { taskService } from '@/lib/services/task.service';
+import { rescheduleOverdueTasks } from '@/lib/services/rollover.service';
+import { VALID_RESCHEDULE_TARGETS, type RescheduleTarget } from '@/lib/utils/rollover';
+import type { ErrorResponse } from '@/types';
+
+/**
+ * GET /api/tasks/reschedule
+ * Returns the incomplete tasks scheduled before today that can be rescheduled
+ *
+ * Requirements: 12.1, 16.1
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const tasks = await taskService.getOverdueScheduled();
+    return NextResponse.json(tasks);
+  } catch (error) {
+    console.error('Error fetching overdue scheduled tasks:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch overdue tasks',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/tasks/reschedule
+ * Moves every task scheduled before today to today or tomorrow, keeping its time of day.
+ * To use the scheduler's suggestions instead, apply them through /api/tasks/auto-plan.
+ *
+ * Body: { to: 'today' | 'tomorrow' }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+
+    if (!VALID_RESCHEDULE_TARGETS.includes(body?.to)) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Target day must be one of: ${VALID_RESCHEDULE_TARGETS.join(', ')}`,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    const tasks = await rescheduleOverdueTasks(body.to as RescheduleTarget);
+    return NextResponse.json(tasks);
+  } catch (error) {
+    console.error('Error rescheduling overdue tasks:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to reschedule tasks',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
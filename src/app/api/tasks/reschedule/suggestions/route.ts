@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerService } from '@/lib/services/scheduler.service';
+import { DAYS_AHEAD_RANGE } from '@/lib/utils/validation';
+import type { ErrorResponse } from '@/types';
+
+/**
+ * GET /api/tasks/reschedule/suggestions
+ * Previews new start times for the tasks scheduled before today, packed into
+ * free working hours. Nothing is saved; apply them through /api/tasks/auto-plan.
+ *
+ * Query Parameters:
+ * - days: number (optional) - Days to plan, starting today (default: the scheduling profile's days ahead)
+ *
+ * Requirements: 29.1, 29.3
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const daysStr = searchParams.get('days');
+    const days = daysStr ? Number(daysStr) : undefined;
+    if (days !== undefined && (!Number.isInteger(days) || days < DAYS_AHEAD_RANGE.min || days > DAYS_AHEAD_RANGE.max)) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Days must be a whole number from ${DAYS_AHEAD_RANGE.min} to ${DAYS_AHEAD_RANGE.max}`,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    const plan = await schedulerService.planOverdue(days);
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error('Error planning overdue tasks:', error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to suggest new times',
+      },
+    };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { taskService, TaskValidationError } from '@/lib/services/task.service';
+import { taskService, TaskValidationError, TaskBlockedError } from '@/lib/services/task.service';
 import type { CreateTaskInput, ErrorResponse } from '@/types';
 
 /**
@@ -8,18 +8,20 @@ import type { CreateTaskInput, ErrorResponse } from '@/types';
  * Query params:
  *   - includeCompleted: boolean (default: true)
  *   - listId: string (optional, filter by list)
+ *   - includeDeferred: boolean (default: false) - include tasks whose start date hasn't come yet
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
     const { searchParams } = new URL(request.url);
     const includeCompleted = searchParams.get('includeCompleted') !== 'false';
+    const includeDeferred = searchParams.get('includeDeferred') === 'true';
     const listId = searchParams.get('listId');
 
     let tasks;
     if (listId) {
       tasks = await taskService.getByListId(listId, includeCompleted);
     } else {
-      tasks = await taskService.getAll(includeCompleted);
+      tasks = await taskService.getAll(includeCompleted, includeDeferred);
     }
 
     return NextResponse.json(tasks);
@@ -48,6 +50,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       ...body,
       date: body.date ? new Date(body.date) : undefined,
       deadline: body.deadline ? new Date(body.deadline) : undefined,
+      startDate: body.startDate ? new Date(body.startDate) : undefined,
     };
 
     const task = await taskService.create(data);
@@ -64,6 +67,16 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       return NextResponse.json(errorResponse, { status: 400 });
     }
 
+    if (error instanceof TaskBlockedError) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'CONFLICT',
+          message: error.message,
+        },
+      };
+      return NextResponse.json(errorResponse, { status: 409 });
+    }
+
     console.error('Error creating task:', error);
     const errorResponse: ErrorResponse = {
       error: {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { schedulerService } from '@/lib/services/scheduler.service';
-import type { Task, Priority } from '@/types';
+import { taskService } from '@/lib/services/task.service';
+import type { Task, Priority, TaskDependency } from '@/types';
 
 /**
  * GET /api/tasks/schedule-suggestions
@@ -10,6 +11,8 @@ import type { Task, Priority } from '@/types';
  * - estimate: number (required) - Task duration in minutes
  * - priority: Priority (optional) - Task priority level
  * - deadline: string (optional) - ISO date string for task deadline
+ * - startDate: string (optional) - ISO date string the task is deferred to
+ * - blockedBy: string (optional) - Comma-separated IDs of the tasks blocking it
  * - count: number (optional) - Number of suggestions to return (default: 5)
  * 
  * Requirements: 29.1, 29.4, 29.5
@@ -58,6 +61,19 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       }
     }
 
+    // Parse start date (optional)
+    const startDateStr = searchParams.get('startDate');
+    let startDate: Date | undefined;
+    if (startDateStr) {
+      startDate = new Date(startDateStr);
+      if (isNaN(startDate.getTime())) {
+        return NextResponse.json(
+          { error: { code: 'VALIDATION_ERROR', message: 'Invalid start date' } },
+          { status: 400 }
+        );
+      }
+    }
+
     // Parse count (optional, defaults to 5)
     const countStr = searchParams.get('count');
     const count = countStr ? parseInt(countStr, 10) : 5;
@@ -68,6 +84,13 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       );
     }
 
+    // Look up blockers so suggestions start after they are scheduled to end
+    const blockedBy: TaskDependency[] = [];
+    for (const blockerId of (searchParams.get('blockedBy') ?? '').split(',').filter(Boolean)) {
+      const blocker = await taskService.getById(blockerId);
+      if (blocker) blockedBy.push(blocker);
+    }
+
     // Create a partial task object for the scheduler service
     const taskForScheduling: Task = {
       id: 'temp',
@@ -76,9 +99,12 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       estimate,
       priority,
       deadline,
+      startDate,
+      status: 'todo',
       completed: false,
       createdAt: new Date(),
       updatedAt: new Date(),
+      blockedBy,
     };
 
     // Get suggestions from the scheduler service
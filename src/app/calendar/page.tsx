@@ -0,0 +1,297 @@
+'use client';
+
+import * as React from 'react';
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  differenceInMinutes,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfDay,
+  startOfWeek,
+} from 'date-fns';
+import { CalendarClock, ChevronLeft, ChevronRight } from 'lucide-react';
+import { AppLayout } from '@/components/layout';
+import { TimeGrid, UnscheduledTray, MonthGrid, DayPanel } from '@/components/calendar';
+import { TaskDetail } from '@/components/tasks';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Skeleton, QueryErrorFallback } from '@/components/common';
+import {
+  useTasks,
+  useTasksInRange,
+  useTaskHistory,
+  useTaskMutations,
+  useLists,
+  useLabels,
+  useBusyBlocks,
+} from '@/lib/hooks';
+import { showSuccess, showError } from '@/lib/utils/toast';
+import { WEEK_OPTIONS, getMonthGridDays } from '@/lib/utils/calendar-layout';
+import type { Task, CreateTaskInput, UpdateTaskInput } from '@/types';
+
+type CalendarView = 'day' | 'week' | 'month';
+
+const VIEWS: CalendarView[] = ['day', 'week', 'month'];
+
+/**
+ * Gets the days shown for a view around a date
+ */
+function getVisibleDays(view: CalendarView, anchor: Date): Date[] {
+  if (view === 'day') return [startOfDay(anchor)];
+  if (view === 'month') return getMonthGridDays(anchor);
+  const weekStart = startOfWeek(anchor, WEEK_OPTIONS);
+  return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+}
+
+/**
+ * Moves a date by one day, week or month
+ */
+function stepDate(view: CalendarView, date: Date, direction: 1 | -1): Date {
+  if (view === 'month') return addMonths(date, direction);
+  return addDays(date, view === 'day' ? direction : 7 * direction);
+}
+
+/**
+ * Formats the heading for the visible days
+ */
+function formatRange(view: CalendarView, anchor: Date): string {
+  if (view === 'day') return format(anchor, 'EEEE, MMMM d, yyyy');
+  if (view === 'month') return format(anchor, 'MMMM yyyy');
+  const weekStart = startOfWeek(anchor, WEEK_OPTIONS);
+  const weekEnd = endOfWeek(anchor, WEEK_OPTIONS);
+  return isSameMonth(weekStart, weekEnd)
+    ? `${format(weekStart, 'MMMM d')} – ${format(weekEnd, 'd, yyyy')}`
+    : `${format(weekStart, 'MMM d')} – ${format(weekEnd, 'MMM d, yyyy')}`;
+}
+
+/**
+ * Calendar Page Component
+ * Time-blocking view with an hour grid for a day or a week. Tasks are
+ * blocks sized by their estimate: drag a block to move it, drag its bottom
+ * edge to change the estimate, and drag tasks in from the unscheduled tray.
+ * The month view counts tasks per day, marks deadlines and overdue days,
+ * and opens a day panel when a day is clicked.
+ */
+export default function CalendarPage(): React.ReactElement {
+  const [view, setView] = React.useState<CalendarView>('week');
+  const [anchor, setAnchor] = React.useState(() => startOfDay(new Date()));
+  const [selectedTaskId, setSelectedTaskId] = React.useState<string | null>(null);
+  const [selectedDay, setSelectedDay] = React.useState<Date | null>(null);
+
+  const { data: tasks = [], isLoading, error, refetch } = useTasks();
+  const { data: lists = [] } = useLists();
+  const { data: labels = [] } = useLabels();
+  const { data: taskHistory = [] } = useTaskHistory(selectedTaskId ?? undefined);
+  const { update, remove, toggleComplete } = useTaskMutations();
+
+  const days = React.useMemo(() => getVisibleDays(view, anchor), [view, anchor]);
+  const rangeEnd = React.useMemo(() => addDays(days[days.length - 1], 1), [days]);
+  const { data: busyBlocks = [] } = useBusyBlocks(days[0], rangeEnd, view !== 'month');
+  const { data: monthTasks = [] } = useTasksInRange(days[0], rangeEnd, true, view === 'month');
+
+  const visibleTasks = tasks.filter(task => task.date && task.date >= days[0] && task.date < rangeEnd);
+  const unscheduledTasks = tasks.filter(task => !task.date && !task.completed);
+
+  // Read the selected task from the cache so it reflects moves and edits
+  const selectedTask = tasks.find(task => task.id === selectedTaskId) ?? null;
+
+  const updateTask = (id: string, data: UpdateTaskInput, message?: string): void => {
+    update.mutate({ id, data }, {
+      onSuccess: () => {
+        if (message) showSuccess(message);
+      },
+      onError: () => showError('Failed to update task'),
+    });
+  };
+
+  const handleMove = (taskId: string, date: Date): void => {
+    const task = tasks.find(t => t.id === taskId);
+    if (task?.date?.getTime() === date.getTime()) return;
+    updateTask(taskId, { date });
+  };
+
+  // Moving to another day keeps the task's time of day
+  const handleMoveToDay = (taskId: string, day: Date): void => {
+    const task = tasks.find(t => t.id === taskId);
+    const minutes = task?.date ? differenceInMinutes(task.date, startOfDay(task.date)) : 0;
+    handleMove(taskId, addMinutes(startOfDay(day), minutes));
+  };
+
+  const handleOpenDay = (day: Date): void => {
+    setAnchor(startOfDay(day));
+    setSelectedDay(null);
+    setView('day');
+  };
+
+  const handleResize = (taskId: string, estimate: number): void => {
+    updateTask(taskId, { estimate });
+  };
+
+  const handleUnschedule = (taskId: string): void => {
+    updateTask(taskId, { date: null }, 'Task unscheduled');
+  };
+
+  const handleTaskClick = (task: Task): void => {
+    setSelectedTaskId(task.id);
+  };
+
+  const handleUpdateTask = (data: CreateTaskInput | UpdateTaskInput): void => {
+    if (selectedTask) {
+      updateTask(selectedTask.id, data as UpdateTaskInput, 'Task updated');
+      setSelectedTaskId(null);
+    }
+  };
+
+  const handleDeleteTask = (): void => {
+    if (selectedTask) {
+      remove.mutate(selectedTask.id, {
+        onSuccess: () => {
+          setSelectedTaskId(null);
+          showSuccess('Task deleted');
+        },
+        onError: () => showError('Failed to delete task'),
+      });
+    }
+  };
+
+  const handleToggleSelectedTaskComplete = (): void => {
+    if (selectedTask) {
+      toggleComplete.mutate(selectedTask.id, {
+        onError: () => showError('Failed to update task'),
+      });
+    }
+  };
+
+  if (error) {
+    return (
+      <AppLayout title="Calendar">
+        <QueryErrorFallback
+          message="Failed to load tasks. Please try again."
+          onRetry={() => refetch()}
+        />
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout title="Calendar">
+      <div className="flex h-[calc(100dvh-7rem)] flex-col gap-3 sm:gap-4">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="space-y-1 min-w-0">
+            <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+              <CalendarClock className="h-5 w-5 sm:h-6 sm:w-6 shrink-0" />
+              <span className="truncate">Calendar</span>
+            </h1>
+            <p className="text-sm text-muted-foreground">{formatRange(view, anchor)}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex rounded-md border p-0.5">
+              {VIEWS.map(option => (
+                <Button
+                  key={option}
+                  variant={view === option ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setView(option)}
+                  className="h-7 capitalize"
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(startOfDay(new Date()))}>
+              Today
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setAnchor(current => stepDate(view, current, -1))}
+              aria-label={`Previous ${view}`}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setAnchor(current => stepDate(view, current, 1))}
+              aria-label={`Next ${view}`}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="min-h-0 flex-1 w-full" />
+        ) : (
+          <div className="flex min-h-0 flex-1 flex-col gap-3 lg:flex-row">
+            {view === 'month' ? (
+              <MonthGrid
+                month={anchor}
+                tasks={monthTasks}
+                selectedDay={selectedDay}
+                onDayClick={setSelectedDay}
+                onTaskClick={handleTaskClick}
+                onMoveToDay={handleMoveToDay}
+              />
+            ) : (
+              <TimeGrid
+                days={days}
+                tasks={visibleTasks}
+                busyBlocks={busyBlocks}
+                onTaskClick={handleTaskClick}
+                onMove={handleMove}
+                onResize={handleResize}
+              />
+            )}
+            {view === 'month' && selectedDay ? (
+              <DayPanel
+                day={selectedDay}
+                tasks={monthTasks}
+                onTaskClick={handleTaskClick}
+                onOpenDay={() => handleOpenDay(selectedDay)}
+                onClose={() => setSelectedDay(null)}
+                className="max-h-64 lg:max-h-none lg:w-72 shrink-0"
+              />
+            ) : (
+              <UnscheduledTray
+                tasks={unscheduledTasks}
+                onTaskClick={handleTaskClick}
+                onUnschedule={handleUnschedule}
+                className="max-h-48 lg:max-h-none lg:w-64 shrink-0"
+              />
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Task Detail Dialog */}
+      <Dialog open={!!selectedTask} onOpenChange={() => setSelectedTaskId(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader className="sr-only">
+            <DialogTitle>Task Details</DialogTitle>
+          </DialogHeader>
+          {selectedTask && (
+            <TaskDetail
+              task={selectedTask}
+              lists={lists}
+              labels={labels}
+              history={taskHistory}
+              onUpdate={handleUpdateTask}
+              onDelete={handleDeleteTask}
+              onToggleComplete={handleToggleSelectedTaskComplete}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+}
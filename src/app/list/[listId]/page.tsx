@@ -1,13 +1,20 @@
 'use client';
 
 import * as React from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Plus, Settings, Trash2 } from 'lucide-react';
+import { History, LayoutList, ListChecks, Plus, Settings, SquareKanban, Trash2 } from 'lucide-react';
 import { AppLayout } from '@/components/layout';
-import { TaskList, TaskDetail, TaskForm } from '@/components/tasks';
+import { TaskList, TaskDetail, TaskForm, TaskBoard } from '@/components/tasks';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -16,14 +23,28 @@ import {
   DialogDescription,
   DialogFooter,
 } from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
-import { ColorPicker, EmojiPicker, TaskListSkeleton, QueryErrorFallback } from '@/components/common';
+import { ColorPicker, EmojiPicker, StatusEditor, TaskListSkeleton, QueryErrorFallback } from '@/components/common';
+import { useTaskMutations } from '@/lib/hooks';
 import { showSuccess, showError } from '@/lib/utils/toast';
-import type { Task, List, Label, TaskHistoryEntry, CreateTaskInput, UpdateTaskInput, UpdateListInput } from '@/types';
+import { BOARD_GROUPING_TITLES, getBoardMove } from '@/lib/utils/board';
+import { VALID_BOARD_GROUPINGS, validateWorkflowStatuses } from '@/lib/utils/validation';
+import type {
+  Task,
+  List,
+  Label,
+  TaskHistoryEntry,
+  CreateTaskInput,
+  UpdateTaskInput,
+  UpdateListInput,
+  BoardGrouping,
+  WorkflowStatus,
+} from '@/types';
 
 /**
  * Parses dates from JSON response
@@ -33,6 +54,7 @@ function parseTaskDates(task: Task): Task {
     ...task,
     date: task.date ? new Date(task.date) : undefined,
     deadline: task.deadline ? new Date(task.deadline) : undefined,
+    startDate: task.startDate ? new Date(task.startDate) : undefined,
     completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
     createdAt: new Date(task.createdAt),
     updatedAt: new Date(task.updatedAt),
@@ -173,26 +195,32 @@ async function deleteTaskApi(taskId: string): Promise<void> {
 
 /**
  * List Detail Page Component
- * Displays tasks for a specific list with list management options.
+ * Displays tasks for a specific list with list management options,
+ * as a sorted list or a board, remembered per list.
  * 
  * Requirements: 2.2, 2.3
  */
-export default function ListDetailPage(): React.ReactElement {
+function ListDetailContent(): React.ReactElement {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const queryClient = useQueryClient();
   const listId = params.listId as string;
+  // Task to open on load (e.g. when jumping from a notification)
+  const focusTaskId = searchParams.get('task');
 
   const [showCompleted, setShowCompleted] = React.useState(true);
   const [selectedTask, setSelectedTask] = React.useState<Task | null>(null);
   const [isFormOpen, setIsFormOpen] = React.useState(false);
   const [isEditListOpen, setIsEditListOpen] = React.useState(false);
+  const [isEditStatusesOpen, setIsEditStatusesOpen] = React.useState(false);
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = React.useState(false);
 
   // Edit list form state
   const [editName, setEditName] = React.useState('');
   const [editColor, setEditColor] = React.useState<string | undefined>();
   const [editEmoji, setEditEmoji] = React.useState<string | undefined>();
+  const [editStatuses, setEditStatuses] = React.useState<WorkflowStatus[]>([]);
 
   // Fetch list details
   const { data: list, isLoading: isLoadingList, error: listError } = useQuery({
@@ -200,10 +228,14 @@ export default function ListDetailPage(): React.ReactElement {
     queryFn: () => fetchList(listId),
   });
 
+  // The board always shows completed tasks, in their own column when grouped by status
+  const isBoard = list?.viewMode === 'board';
+  const includeCompleted = showCompleted || isBoard;
+
   // Fetch tasks for this list
   const { data: tasks = [], isLoading: isLoadingTasks } = useQuery({
-    queryKey: ['tasks', 'list', listId, showCompleted],
-    queryFn: () => fetchListTasks(listId, showCompleted),
+    queryKey: ['tasks', 'list', listId, includeCompleted],
+    queryFn: () => fetchListTasks(listId, includeCompleted),
     enabled: !!list,
   });
 
@@ -225,12 +257,23 @@ export default function ListDetailPage(): React.ReactElement {
     enabled: !!selectedTask,
   });
 
+  // Open the requested task once the list's tasks have loaded
+  React.useEffect(() => {
+    if (!focusTaskId) return;
+    const task = tasks.find(t => t.id === focusTaskId);
+    if (task) {
+      setSelectedTask(task);
+      router.replace(`/list/${listId}`);
+    }
+  }, [focusTaskId, tasks, listId, router]);
+
   // Initialize edit form when list loads
   React.useEffect(() => {
     if (list) {
       setEditName(list.name);
       setEditColor(list.color);
       setEditEmoji(list.emoji);
+      setEditStatuses(list.statuses);
     }
   }, [list]);
 
@@ -248,6 +291,60 @@ export default function ListDetailPage(): React.ReactElement {
     },
   });
 
+  // Status changes can move and complete tasks, so task queries are refreshed too
+  const updateStatusesMutation = useMutation({
+    mutationFn: (statuses: WorkflowStatus[]) => updateList({ id: listId, data: { statuses } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lists'] });
+      queryClient.invalidateQueries({ queryKey: ['list', listId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['overdueCount'] });
+      setIsEditStatusesOpen(false);
+      showSuccess('Statuses updated');
+    },
+    onError: () => {
+      showError('Failed to update statuses');
+    },
+  });
+
+  const updateRolloverMutation = useMutation({
+    mutationFn: (rollover: boolean) => updateList({ id: listId, data: { rollover } }),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['lists'] });
+      queryClient.invalidateQueries({ queryKey: ['list', listId] });
+      showSuccess(updated.rollover ? 'Overdue tasks will roll over to today' : 'Rollover turned off');
+    },
+    onError: () => {
+      showError('Failed to update rollover');
+    },
+  });
+
+  // Layout changes show at once and are rolled back if saving fails
+  const updateLayoutMutation = useMutation({
+    mutationFn: (data: UpdateListInput) => updateList({ id: listId, data }),
+    onMutate: async (data) => {
+      await queryClient.cancelQueries({ queryKey: ['list', listId] });
+      const previous = queryClient.getQueryData<List>(['list', listId]);
+      if (previous) {
+        queryClient.setQueryData<List>(['list', listId], { ...previous, ...data });
+      }
+      return { previous };
+    },
+    onError: (_error, _data, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['list', listId], context.previous);
+      }
+      showError('Failed to save the list layout');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['list', listId] });
+      queryClient.invalidateQueries({ queryKey: ['lists'] });
+    },
+  });
+
+  // Board moves update the cached task at once
+  const { update: moveTaskMutation } = useTaskMutations();
+
   // Delete list mutation
   const deleteListMutation = useMutation({
     mutationFn: deleteList,
@@ -318,6 +415,10 @@ export default function ListDetailPage(): React.ReactElement {
     toggleCompleteMutation.mutate(taskId);
   };
 
+  const handleSnooze = (taskId: string, startDate: Date | null): void => {
+    updateTaskMutation.mutate({ id: taskId, data: { startDate } });
+  };
+
   const handleTaskClick = (task: Task): void => {
     setSelectedTask(task);
   };
@@ -367,6 +468,26 @@ export default function ListDetailPage(): React.ReactElement {
     });
   };
 
+  const handleUpdateStatuses = (): void => {
+    const errors = validateWorkflowStatuses(editStatuses);
+    if (errors.length > 0) {
+      showError(errors[0]);
+      return;
+    }
+    updateStatusesMutation.mutate(editStatuses);
+  };
+
+  const handleBoardMove = (task: Task, fromColumnId: string, toColumnId: string): void => {
+    const data = getBoardMove(task, list?.boardGrouping ?? 'status', fromColumnId, toColumnId);
+    if (!data) return;
+    moveTaskMutation.mutate({ id: task.id, data }, {
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: ['taskHistory', task.id] });
+      },
+      onError: () => showError('Failed to move task'),
+    });
+  };
+
   const handleDeleteList = (): void => {
     deleteListMutation.mutate(listId);
   };
@@ -405,6 +526,47 @@ export default function ListDetailPage(): React.ReactElement {
             </p>
           </div>
           <div className="flex items-center gap-2 shrink-0">
+            {list && (
+              <div className="flex rounded-md border p-0.5">
+                <Button
+                  variant={isBoard ? 'ghost' : 'secondary'}
+                  size="icon"
+                  className="h-9 w-9 sm:h-7 sm:w-7"
+                  onClick={() => updateLayoutMutation.mutate({ viewMode: 'list' })}
+                  aria-label="Show as list"
+                  aria-pressed={!isBoard}
+                >
+                  <LayoutList className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant={isBoard ? 'secondary' : 'ghost'}
+                  size="icon"
+                  className="h-9 w-9 sm:h-7 sm:w-7"
+                  onClick={() => updateLayoutMutation.mutate({ viewMode: 'board' })}
+                  aria-label="Show as board"
+                  aria-pressed={isBoard}
+                >
+                  <SquareKanban className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            {list && isBoard && (
+              <Select
+                value={list.boardGrouping}
+                onValueChange={(value) => updateLayoutMutation.mutate({ boardGrouping: value as BoardGrouping })}
+              >
+                <SelectTrigger className="h-10 w-auto gap-1 text-xs sm:h-8" aria-label="Group board by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VALID_BOARD_GROUPINGS.map(grouping => (
+                    <SelectItem key={grouping} value={grouping}>
+                      {BOARD_GROUPING_TITLES[grouping]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <Button 
               onClick={() => setIsFormOpen(true)} 
               size="sm"
@@ -413,7 +575,7 @@ export default function ListDetailPage(): React.ReactElement {
               <Plus className="h-4 w-4 sm:mr-2" />
               <span className="hidden sm:inline">Add Task</span>
             </Button>
-            {!isInbox && (
+            {list && (
               <Popover>
                 <PopoverTrigger asChild>
                   <Button variant="outline" size="icon" className="h-10 w-10 sm:h-8 sm:w-8">
@@ -421,21 +583,48 @@ export default function ListDetailPage(): React.ReactElement {
                   </Button>
                 </PopoverTrigger>
                 <PopoverContent align="end" className="w-40 p-1">
+                  {!isInbox && (
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start h-10 sm:h-8"
+                      onClick={() => setIsEditListOpen(true)}
+                    >
+                      Edit List
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     className="w-full justify-start h-10 sm:h-8"
-                    onClick={() => setIsEditListOpen(true)}
+                    onClick={() => {
+                      setEditStatuses(list.statuses);
+                      setIsEditStatusesOpen(true);
+                    }}
                   >
-                    Edit List
+                    <ListChecks className="h-4 w-4 mr-2" />
+                    Statuses
                   </Button>
-                  <Button
-                    variant="ghost"
-                    className="w-full justify-start h-10 sm:h-8 text-destructive hover:text-destructive"
-                    onClick={() => setIsDeleteConfirmOpen(true)}
+                  <label
+                    className="flex h-10 sm:h-8 w-full cursor-pointer items-center gap-2 rounded-md px-4 text-sm font-medium hover:bg-accent"
+                    title="Move overdue tasks to today every night"
                   >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete List
-                  </Button>
+                    <Checkbox
+                      checked={list.rollover}
+                      onCheckedChange={(checked) => updateRolloverMutation.mutate(checked === true)}
+                      disabled={updateRolloverMutation.isPending}
+                    />
+                    <History className="h-4 w-4" />
+                    Rollover
+                  </label>
+                  {!isInbox && (
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start h-10 sm:h-8 text-destructive hover:text-destructive"
+                      onClick={() => setIsDeleteConfirmOpen(true)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete List
+                    </Button>
+                  )}
                 </PopoverContent>
               </Popover>
             )}
@@ -445,11 +634,21 @@ export default function ListDetailPage(): React.ReactElement {
         {/* Task List */}
         {isLoading ? (
           <TaskListSkeleton count={5} />
+        ) : isBoard && list ? (
+          <TaskBoard
+            tasks={tasks}
+            grouping={list.boardGrouping}
+            labels={labels}
+            statuses={list.statuses}
+            onTaskClick={handleTaskClick}
+            onMove={handleBoardMove}
+          />
         ) : (
           <TaskList
             tasks={tasks}
             onTaskClick={handleTaskClick}
             onToggleComplete={handleToggleComplete}
+            onSnooze={handleSnooze}
             showCompleted={showCompleted}
             onToggleShowCompleted={handleToggleShowCompleted}
             emptyMessage={`No tasks in ${list?.name ?? 'this list'}.`}
@@ -472,6 +671,7 @@ export default function ListDetailPage(): React.ReactElement {
               onUpdate={handleUpdateTask}
               onDelete={handleDeleteTask}
               onToggleComplete={handleToggleSelectedTaskComplete}
+              onDemoted={() => setSelectedTask(null)}
             />
           )}
         </DialogContent>
@@ -534,6 +734,33 @@ export default function ListDetailPage(): React.ReactElement {
         </DialogContent>
       </Dialog>
 
+      {/* Edit Statuses Dialog */}
+      <Dialog open={isEditStatusesOpen} onOpenChange={setIsEditStatusesOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Statuses</DialogTitle>
+            <DialogDescription>
+              The workflow of tasks in {list?.name ?? 'this list'}, shown as columns on its board.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <StatusEditor
+              value={editStatuses}
+              onChange={setEditStatuses}
+              disabled={updateStatusesMutation.isPending}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditStatusesOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleUpdateStatuses} disabled={updateStatusesMutation.isPending}>
+              {updateStatusesMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
         <DialogContent>
@@ -560,3 +787,19 @@ export default function ListDetailPage(): React.ReactElement {
     </AppLayout>
   );
 }
+
+/**
+ * List Detail Page with Suspense boundary
+ * Required for useSearchParams() in Next.js App Router
+ */
+export default function ListDetailPage(): React.ReactElement {
+  return (
+    <React.Suspense fallback={
+      <AppLayout>
+        <TaskListSkeleton count={5} />
+      </AppLayout>
+    }>
+      <ListDetailContent />
+    </React.Suspense>
+  );
+}
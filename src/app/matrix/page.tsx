@@ -0,0 +1,155 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Grid2x2 } from 'lucide-react';
+import { AppLayout } from '@/components/layout';
+import { TaskDetail, TaskMatrix } from '@/components/tasks';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Skeleton, QueryErrorFallback } from '@/components/common';
+import {
+  useTasks,
+  useTaskHistory,
+  useTaskMutations,
+  useLists,
+  useLabels,
+  useSchedulingProfile,
+} from '@/lib/hooks';
+import { showSuccess, showError } from '@/lib/utils/toast';
+import { MATRIX_QUADRANT_INFO, getQuadrantMove, type MatrixQuadrant } from '@/lib/utils/eisenhower';
+import { DEFAULT_SCHEDULING_PROFILE } from '@/lib/utils/working-hours';
+import { isDeferred } from '@/lib/utils/defer';
+import type { Task, CreateTaskInput, UpdateTaskInput } from '@/types';
+
+/**
+ * Matrix Page Component
+ * Sorts incomplete tasks that aren't deferred into the urgent/important matrix. Importance
+ * comes from priority and urgency from the deadline, using the urgent
+ * threshold from the scheduling settings. Dragging a task to another
+ * quadrant changes its priority or deadline to match.
+ */
+export default function MatrixPage(): React.ReactElement {
+  const [selectedTaskId, setSelectedTaskId] = React.useState<string | null>(null);
+
+  const { data: tasks = [], isLoading, error, refetch } = useTasks();
+  const { data: profile = DEFAULT_SCHEDULING_PROFILE } = useSchedulingProfile();
+  const { data: lists = [] } = useLists();
+  const { data: labels = [] } = useLabels();
+  const { data: taskHistory = [] } = useTaskHistory(selectedTaskId ?? undefined);
+  const { update, remove, toggleComplete } = useTaskMutations();
+
+  const openTasks = tasks.filter(task => !task.completed && !isDeferred(task));
+
+  // Read the selected task from the cache so it reflects moves and edits
+  const selectedTask = tasks.find(task => task.id === selectedTaskId) ?? null;
+
+  const handleMove = (task: Task, to: MatrixQuadrant): void => {
+    const data = getQuadrantMove(task, to, new Date(), profile);
+    if (!data) return;
+    update.mutate({ id: task.id, data }, {
+      onSuccess: () => showSuccess(`Moved to ${MATRIX_QUADRANT_INFO[to].title}`),
+      onError: () => showError('Failed to update task'),
+    });
+  };
+
+  const handleUpdateTask = (data: CreateTaskInput | UpdateTaskInput): void => {
+    if (selectedTask) {
+      update.mutate({ id: selectedTask.id, data: data as UpdateTaskInput }, {
+        onSuccess: () => {
+          setSelectedTaskId(null);
+          showSuccess('Task updated');
+        },
+        onError: () => showError('Failed to update task'),
+      });
+    }
+  };
+
+  const handleDeleteTask = (): void => {
+    if (selectedTask) {
+      remove.mutate(selectedTask.id, {
+        onSuccess: () => {
+          setSelectedTaskId(null);
+          showSuccess('Task deleted');
+        },
+        onError: () => showError('Failed to delete task'),
+      });
+    }
+  };
+
+  const handleToggleSelectedTaskComplete = (): void => {
+    if (selectedTask) {
+      toggleComplete.mutate(selectedTask.id, {
+        onError: () => showError('Failed to update task'),
+      });
+    }
+  };
+
+  if (error) {
+    return (
+      <AppLayout title="Matrix">
+        <QueryErrorFallback
+          message="Failed to load tasks. Please try again."
+          onRetry={() => refetch()}
+        />
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout title="Matrix">
+      <div className="flex min-h-[calc(100dvh-7rem)] flex-col gap-3 sm:gap-4">
+        {/* Header */}
+        <div className="space-y-1 min-w-0">
+          <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+            <Grid2x2 className="h-5 w-5 sm:h-6 sm:w-6 shrink-0" />
+            <span className="truncate">Matrix</span>
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            High and medium priority tasks are important. Tasks due within {profile.deadlineUrgentHours} hours
+            are urgent{' '}
+            <Link href="/settings" className="underline underline-offset-2 hover:text-foreground">
+              (change)
+            </Link>
+            .
+          </p>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="min-h-80 flex-1 w-full" />
+        ) : (
+          <TaskMatrix
+            tasks={openTasks}
+            thresholds={profile}
+            onTaskClick={(task) => setSelectedTaskId(task.id)}
+            onMove={handleMove}
+          />
+        )}
+      </div>
+
+      {/* Task Detail Dialog */}
+      <Dialog open={!!selectedTask} onOpenChange={() => setSelectedTaskId(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader className="sr-only">
+            <DialogTitle>Task Details</DialogTitle>
+          </DialogHeader>
+          {selectedTask && (
+            <TaskDetail
+              task={selectedTask}
+              lists={lists}
+              labels={labels}
+              history={taskHistory}
+              onUpdate={handleUpdateTask}
+              onDelete={handleDeleteTask}
+              onToggleComplete={handleToggleSelectedTaskComplete}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+}
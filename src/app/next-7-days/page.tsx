@@ -3,9 +3,9 @@
 import * as React from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { format, addDays } from 'date-fns';
-import { Plus, Calendar } from 'lucide-react';
+import { Plus, Calendar, Wand2 } from 'lucide-react';
 import { AppLayout } from '@/components/layout';
-import { TaskList, TaskDetail, TaskForm } from '@/components/tasks';
+import { TaskList, TaskDetail, TaskForm, AutoPlanDialog } from '@/components/tasks';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -25,6 +25,7 @@ function parseTaskDates(task: Task): Task {
     ...task,
     date: task.date ? new Date(task.date) : undefined,
     deadline: task.deadline ? new Date(task.deadline) : undefined,
+    startDate: task.startDate ? new Date(task.startDate) : undefined,
     completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
     createdAt: new Date(task.createdAt),
     updatedAt: new Date(task.updatedAt),
@@ -142,6 +143,7 @@ export default function Next7DaysPage(): React.ReactElement {
   const [showCompleted, setShowCompleted] = React.useState(true);
   const [selectedTask, setSelectedTask] = React.useState<Task | null>(null);
   const [isFormOpen, setIsFormOpen] = React.useState(false);
+  const [isAutoPlanOpen, setIsAutoPlanOpen] = React.useState(false);
 
   const today = new Date();
   const endDate = addDays(today, 7);
@@ -227,6 +229,10 @@ export default function Next7DaysPage(): React.ReactElement {
     toggleCompleteMutation.mutate(taskId);
   };
 
+  const handleSnooze = (taskId: string, startDate: Date | null): void => {
+    updateTaskMutation.mutate({ id: taskId, data: { startDate } });
+  };
+
   const handleTaskClick = (task: Task): void => {
     setSelectedTask(task);
   };
@@ -284,14 +290,25 @@ export default function Next7DaysPage(): React.ReactElement {
             </h1>
             <p className="text-sm text-muted-foreground">{dateRange}</p>
           </div>
-          <Button 
-            onClick={() => setIsFormOpen(true)} 
-            size="sm"
-            className="h-10 px-4 sm:h-8 sm:px-3 shrink-0"
-          >
-            <Plus className="h-4 w-4 sm:mr-2" />
-            <span className="hidden sm:inline">Add Task</span>
-          </Button>
+          <div className="flex items-center gap-2 shrink-0">
+            <Button
+              onClick={() => setIsAutoPlanOpen(true)}
+              variant="outline"
+              size="sm"
+              className="h-10 px-4 sm:h-8 sm:px-3"
+            >
+              <Wand2 className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Auto-plan</span>
+            </Button>
+            <Button 
+              onClick={() => setIsFormOpen(true)} 
+              size="sm"
+              className="h-10 px-4 sm:h-8 sm:px-3"
+            >
+              <Plus className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Add Task</span>
+            </Button>
+          </div>
         </div>
 
         {/* Task List - grouped by date */}
@@ -302,6 +319,7 @@ export default function Next7DaysPage(): React.ReactElement {
             tasks={tasks}
             onTaskClick={handleTaskClick}
             onToggleComplete={handleToggleComplete}
+            onSnooze={handleSnooze}
             showCompleted={showCompleted}
             onToggleShowCompleted={handleToggleShowCompleted}
             groupByDate={true}
@@ -325,11 +343,15 @@ export default function Next7DaysPage(): React.ReactElement {
               onUpdate={handleUpdateTask}
               onDelete={handleDeleteTask}
               onToggleComplete={handleToggleSelectedTaskComplete}
+              onDemoted={() => setSelectedTask(null)}
             />
           )}
         </DialogContent>
       </Dialog>
 
+      {/* Auto-plan Dialog */}
+      <AutoPlanDialog open={isAutoPlanOpen} onOpenChange={setIsAutoPlanOpen} days={7} />
+
       {/* Create Task Dialog */}
       <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
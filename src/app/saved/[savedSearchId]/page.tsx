@@ -0,0 +1,432 @@
+'use client';
+
+import * as React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ListFilter, Settings, Trash2 } from 'lucide-react';
+import { AppLayout } from '@/components/layout';
+import { TaskList, TaskDetail } from '@/components/tasks';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { SavedSearchDialog, TaskListSkeleton, QueryErrorFallback } from '@/components/common';
+import { useSavedSearch, useSavedSearchMutations } from '@/lib/hooks';
+import { showSuccess, showError } from '@/lib/utils/toast';
+import type {
+  Task,
+  List,
+  Label,
+  TaskHistoryEntry,
+  UpdateTaskInput,
+  CreateTaskInput,
+  SearchResult,
+  CreateSavedSearchInput,
+} from '@/types';
+
+/**
+ * Parses dates from JSON response
+ */
+function parseTaskDates(task: Task): Task {
+  return {
+    ...task,
+    date: task.date ? new Date(task.date) : undefined,
+    deadline: task.deadline ? new Date(task.deadline) : undefined,
+    startDate: task.startDate ? new Date(task.startDate) : undefined,
+    completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+    createdAt: new Date(task.createdAt),
+    updatedAt: new Date(task.updatedAt),
+    subtasks: task.subtasks?.map(s => ({
+      ...s,
+      createdAt: new Date(s.createdAt),
+      updatedAt: new Date(s.updatedAt),
+    })),
+    labels: task.labels?.map(l => ({
+      ...l,
+      createdAt: new Date(l.createdAt),
+      updatedAt: new Date(l.updatedAt),
+    })),
+  };
+}
+
+/**
+ * Searches tasks using the search API
+ */
+async function searchTasks(query: string): Promise<SearchResult[]> {
+  const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to search tasks');
+  }
+  const data: SearchResult[] = await res.json();
+  return data.map(result => ({ ...result, task: parseTaskDates(result.task) }));
+}
+
+/**
+ * Fetches all lists
+ */
+async function fetchLists(): Promise<List[]> {
+  const res = await fetch('/api/lists');
+  if (!res.ok) throw new Error('Failed to fetch lists');
+  return res.json();
+}
+
+/**
+ * Fetches all labels
+ */
+async function fetchLabels(): Promise<Label[]> {
+  const res = await fetch('/api/labels');
+  if (!res.ok) throw new Error('Failed to fetch labels');
+  return res.json();
+}
+
+/**
+ * Fetches task history
+ */
+async function fetchTaskHistory(taskId: string): Promise<TaskHistoryEntry[]> {
+  const res = await fetch(`/api/tasks/${taskId}/history`);
+  if (!res.ok) throw new Error('Failed to fetch task history');
+  const data = await res.json();
+  return data.map((entry: TaskHistoryEntry) => ({
+    ...entry,
+    changedAt: new Date(entry.changedAt),
+  }));
+}
+
+/**
+ * Toggles task completion status
+ */
+async function toggleTaskComplete(taskId: string): Promise<Task> {
+  const res = await fetch(`/api/tasks/${taskId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ toggleComplete: true }),
+  });
+  if (!res.ok) throw new Error('Failed to toggle task');
+  return res.json();
+}
+
+/**
+ * Updates an existing task
+ */
+async function updateTask({ id, data }: { id: string; data: UpdateTaskInput }): Promise<Task> {
+  const res = await fetch(`/api/tasks/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) throw new Error('Failed to update task');
+  return res.json();
+}
+
+/**
+ * Deletes a task
+ */
+async function deleteTask(taskId: string): Promise<void> {
+  const res = await fetch(`/api/tasks/${taskId}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) throw new Error('Failed to delete task');
+}
+
+/**
+ * Saved Search Page Component
+ * Displays the tasks matching a saved search (smart list), kept up to date
+ * as tasks change, with options to edit or delete the saved search.
+ *
+ * Requirements: 17.1, 17.2
+ */
+export default function SavedSearchPage(): React.ReactElement {
+  const params = useParams();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const savedSearchId = params.savedSearchId as string;
+
+  const [showCompleted, setShowCompleted] = React.useState(false);
+  const [selectedTask, setSelectedTask] = React.useState<Task | null>(null);
+  const [isEditOpen, setIsEditOpen] = React.useState(false);
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = React.useState(false);
+
+  // Fetch the saved search
+  const { data: savedSearch, isLoading: isLoadingSavedSearch, error: savedSearchError } = useSavedSearch(savedSearchId);
+  const { update: updateSavedSearch, remove: removeSavedSearch } = useSavedSearchMutations();
+
+  // Run its query
+  const { data: results = [], isLoading: isLoadingResults, error: resultsError } = useQuery({
+    queryKey: ['search', savedSearch?.query ?? ''],
+    queryFn: () => searchTasks(savedSearch!.query),
+    enabled: !!savedSearch,
+  });
+
+  const tasks = results.map(result => result.task);
+  const openCount = tasks.filter(task => !task.completed).length;
+  const resultsByTaskId = Object.fromEntries(results.map(result => [result.task.id, result]));
+
+  // Fetch lists and labels for forms
+  const { data: lists = [] } = useQuery({
+    queryKey: ['lists'],
+    queryFn: fetchLists,
+  });
+
+  const { data: labels = [] } = useQuery({
+    queryKey: ['labels'],
+    queryFn: fetchLabels,
+  });
+
+  // Fetch history for selected task
+  const { data: taskHistory = [] } = useQuery({
+    queryKey: ['taskHistory', selectedTask?.id],
+    queryFn: () => selectedTask ? fetchTaskHistory(selectedTask.id) : Promise.resolve([]),
+    enabled: !!selectedTask,
+  });
+
+  // Toggle complete mutation
+  const toggleCompleteMutation = useMutation({
+    mutationFn: toggleTaskComplete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+      queryClient.invalidateQueries({ queryKey: ['overdueCount'] });
+    },
+    onError: () => {
+      showError('Failed to update task');
+    },
+  });
+
+  // Update task mutation
+  const updateTaskMutation = useMutation({
+    mutationFn: updateTask,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+      setSelectedTask(null);
+      showSuccess('Task updated');
+    },
+    onError: () => {
+      showError('Failed to update task');
+    },
+  });
+
+  // Delete task mutation
+  const deleteTaskMutation = useMutation({
+    mutationFn: deleteTask,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+      queryClient.invalidateQueries({ queryKey: ['overdueCount'] });
+      setSelectedTask(null);
+      showSuccess('Task deleted');
+    },
+    onError: () => {
+      showError('Failed to delete task');
+    },
+  });
+
+  const handleToggleComplete = (taskId: string): void => {
+    toggleCompleteMutation.mutate(taskId);
+  };
+
+  const handleSnooze = (taskId: string, startDate: Date | null): void => {
+    updateTaskMutation.mutate({ id: taskId, data: { startDate } });
+  };
+
+  const handleTaskClick = (task: Task): void => {
+    setSelectedTask(task);
+  };
+
+  const handleToggleShowCompleted = (): void => {
+    setShowCompleted(!showCompleted);
+  };
+
+  const handleUpdateTask = (data: CreateTaskInput | UpdateTaskInput): void => {
+    if (selectedTask) {
+      updateTaskMutation.mutate({ id: selectedTask.id, data: data as UpdateTaskInput });
+    }
+  };
+
+  const handleDeleteTask = (): void => {
+    if (selectedTask) {
+      deleteTaskMutation.mutate(selectedTask.id);
+    }
+  };
+
+  const handleToggleSelectedTaskComplete = (): void => {
+    if (selectedTask) {
+      toggleCompleteMutation.mutate(selectedTask.id);
+    }
+  };
+
+  const handleUpdateSavedSearch = (data: CreateSavedSearchInput): void => {
+    updateSavedSearch.mutate({ id: savedSearchId, data }, {
+      onSuccess: () => {
+        setIsEditOpen(false);
+        showSuccess('Saved search updated');
+      },
+      onError: (error) => {
+        showError(error.message);
+      },
+    });
+  };
+
+  const handleDeleteSavedSearch = (): void => {
+    removeSavedSearch.mutate(savedSearchId, {
+      onSuccess: () => {
+        showSuccess('Saved search deleted');
+        router.push('/today');
+      },
+      onError: () => {
+        showError('Failed to delete saved search');
+      },
+    });
+  };
+
+  const handleRetry = (): void => {
+    queryClient.invalidateQueries({ queryKey: ['savedSearches'] });
+    queryClient.invalidateQueries({ queryKey: ['search'] });
+  };
+
+  if (savedSearchError || resultsError) {
+    return (
+      <AppLayout title="Saved Search">
+        <QueryErrorFallback
+          message={resultsError?.message ?? 'Saved search not found or failed to load.'}
+          onRetry={handleRetry}
+        />
+      </AppLayout>
+    );
+  }
+
+  const isLoading = isLoadingSavedSearch || isLoadingResults;
+
+  return (
+    <AppLayout title={savedSearch?.name ?? 'Saved Search'}>
+      <div className="space-y-4 sm:space-y-6">
+        {/* Header */}
+        <div className="flex items-start sm:items-center justify-between gap-4">
+          <div className="space-y-1 min-w-0">
+            <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+              {savedSearch?.emoji ? (
+                <span className="shrink-0">{savedSearch.emoji}</span>
+              ) : (
+                <ListFilter className="h-5 w-5 sm:h-6 sm:w-6 shrink-0" />
+              )}
+              <span className="truncate">{savedSearch?.name ?? 'Loading...'}</span>
+            </h1>
+            <p className="text-sm text-muted-foreground truncate">
+              {openCount} task{openCount !== 1 ? 's' : ''}
+              {savedSearch && <span className="font-mono"> · {savedSearch.query}</span>}
+            </p>
+          </div>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="icon" className="h-10 w-10 sm:h-8 sm:w-8 shrink-0">
+                <Settings className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-48 p-1">
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-10 sm:h-8"
+                onClick={() => setIsEditOpen(true)}
+              >
+                Edit Saved Search
+              </Button>
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-10 sm:h-8 text-destructive hover:text-destructive"
+                onClick={() => setIsDeleteConfirmOpen(true)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Saved Search
+              </Button>
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {/* Task List */}
+        {isLoading ? (
+          <TaskListSkeleton count={5} />
+        ) : (
+          <TaskList
+            tasks={tasks}
+            onTaskClick={handleTaskClick}
+            onToggleComplete={handleToggleComplete}
+            onSnooze={handleSnooze}
+            showCompleted={showCompleted}
+            onToggleShowCompleted={handleToggleShowCompleted}
+            searchResults={resultsByTaskId}
+            emptyMessage="No tasks match this search."
+          />
+        )}
+      </div>
+
+      {/* Task Detail Dialog */}
+      <Dialog open={!!selectedTask} onOpenChange={() => setSelectedTask(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader className="sr-only">
+            <DialogTitle>Task Details</DialogTitle>
+          </DialogHeader>
+          {selectedTask && (
+            <TaskDetail
+              task={selectedTask}
+              lists={lists}
+              labels={labels}
+              history={taskHistory}
+              onUpdate={handleUpdateTask}
+              onDelete={handleDeleteTask}
+              onToggleComplete={handleToggleSelectedTaskComplete}
+              onDemoted={() => setSelectedTask(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Saved Search Dialog */}
+      {savedSearch && (
+        <SavedSearchDialog
+          open={isEditOpen}
+          onOpenChange={setIsEditOpen}
+          title="Edit Saved Search"
+          defaultValues={{ name: savedSearch.name, emoji: savedSearch.emoji, query: savedSearch.query }}
+          editableQuery
+          isPending={updateSavedSearch.isPending}
+          onSubmit={handleUpdateSavedSearch}
+        />
+      )}
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Saved Search</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete &quot;{savedSearch?.name}&quot;? Its tasks will not be affected.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteSavedSearch}
+              disabled={removeSavedSearch.isPending}
+            >
+              {removeSavedSearch.isPending ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+}
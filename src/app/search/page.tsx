@@ -2,20 +2,29 @@
 
 import * as React from 'react';
 import { Suspense } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Search } from 'lucide-react';
+import { Search, ArrowUpDown, BookmarkPlus } from 'lucide-react';
 import { AppLayout } from '@/components/layout';
 import { TaskList, TaskDetail } from '@/components/tasks';
+import { Button } from '@/components/ui/button';
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { showSuccess, showError } from '@/lib/utils/toast';
-import { TaskListSkeleton, QueryErrorFallback } from '@/components/common';
-import type { Task, List, Label, TaskHistoryEntry, CreateTaskInput, UpdateTaskInput } from '@/types';
+import { TaskListSkeleton, QueryErrorFallback, SavedSearchDialog } from '@/components/common';
+import { useSavedSearchMutations } from '@/lib/hooks';
+import type { Task, List, Label, TaskHistoryEntry, CreateTaskInput, UpdateTaskInput, SearchResult, CreateSavedSearchInput } from '@/types';
 
 /**
  * Parses dates from JSON response
@@ -25,6 +34,7 @@ function parseTaskDates(task: Task): Task {
     ...task,
     date: task.date ? new Date(task.date) : undefined,
     deadline: task.deadline ? new Date(task.deadline) : undefined,
+    startDate: task.startDate ? new Date(task.startDate) : undefined,
     completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
     createdAt: new Date(task.createdAt),
     updatedAt: new Date(task.updatedAt),
@@ -44,12 +54,15 @@ function parseTaskDates(task: Task): Task {
 /**
  * Searches tasks using the search API
  */
-async function searchTasks(query: string): Promise<Task[]> {
+async function searchTasks(query: string): Promise<SearchResult[]> {
   if (!query.trim()) return [];
   const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
-  if (!res.ok) throw new Error('Failed to search tasks');
-  const data = await res.json();
-  return data.map(parseTaskDates);
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to search tasks');
+  }
+  const data: SearchResult[] = await res.json();
+  return data.map(result => ({ ...result, task: parseTaskDates(result.task) }));
 }
 
 /**
@@ -119,26 +132,37 @@ async function deleteTask(taskId: string): Promise<void> {
   if (!res.ok) throw new Error('Failed to delete task');
 }
 
+// Order of search results: server ranking, or grouped by task date
+type SearchSort = 'relevance' | 'date';
+
 /**
  * Search Results Content Component
- * Displays search results ranked by relevance.
+ * Displays search results ranked by relevance or grouped by date,
+ * highlighting where each task matched. The query can be saved as a smart list.
  * 
- * Requirements: 17.2
+ * Requirements: 17.1, 17.2
  */
 function SearchContent(): React.ReactElement {
   const searchParams = useSearchParams();
+  const router = useRouter();
   const queryClient = useQueryClient();
   const query = searchParams.get('q') ?? '';
 
   const [selectedTask, setSelectedTask] = React.useState<Task | null>(null);
+  const [sortBy, setSortBy] = React.useState<SearchSort>('relevance');
+  const [isSaveOpen, setIsSaveOpen] = React.useState(false);
+  const { create: createSavedSearch } = useSavedSearchMutations();
 
   // Search tasks
-  const { data: tasks = [], isLoading, error } = useQuery({
+  const { data: results = [], isLoading, error } = useQuery({
     queryKey: ['search', query],
     queryFn: () => searchTasks(query),
     enabled: query.length > 0,
   });
 
+  const tasks = results.map(result => result.task);
+  const resultsByTaskId = Object.fromEntries(results.map(result => [result.task.id, result]));
+
   // Fetch lists and labels for forms
   const { data: lists = [] } = useQuery({
     queryKey: ['lists'],
@@ -203,6 +227,10 @@ function SearchContent(): React.ReactElement {
     toggleCompleteMutation.mutate(taskId);
   };
 
+  const handleSnooze = (taskId: string, startDate: Date | null): void => {
+    updateTaskMutation.mutate({ id: taskId, data: { startDate } });
+  };
+
   const handleTaskClick = (task: Task): void => {
     setSelectedTask(task);
   };
@@ -225,6 +253,19 @@ function SearchContent(): React.ReactElement {
     }
   };
 
+  const handleSaveSearch = (data: CreateSavedSearchInput): void => {
+    createSavedSearch.mutate(data, {
+      onSuccess: (savedSearch) => {
+        setIsSaveOpen(false);
+        showSuccess('Search saved');
+        router.push(`/saved/${savedSearch.id}`);
+      },
+      onError: (error) => {
+        showError(error.message);
+      },
+    });
+  };
+
   const handleRetry = (): void => {
     queryClient.invalidateQueries({ queryKey: ['search', query] });
   };
@@ -233,7 +274,7 @@ function SearchContent(): React.ReactElement {
     return (
       <AppLayout title="Search">
         <QueryErrorFallback 
-          message="Search failed. Please try again."
+          message={error.message}
           onRetry={handleRetry}
         />
       </AppLayout>
@@ -245,14 +286,41 @@ function SearchContent(): React.ReactElement {
       <div className="space-y-4 sm:space-y-6">
         {/* Header */}
         <div className="space-y-1">
-          <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
-            <Search className="h-5 w-5 sm:h-6 sm:w-6 shrink-0" />
-            <span className="truncate">Search Results</span>
-          </h1>
+          <div className="flex items-center justify-between gap-4">
+            <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2 min-w-0">
+              <Search className="h-5 w-5 sm:h-6 sm:w-6 shrink-0" />
+              <span className="truncate">Search Results</span>
+            </h1>
+            {query && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-10 px-4 sm:h-8 sm:px-3 shrink-0"
+                onClick={() => setIsSaveOpen(true)}
+              >
+                <BookmarkPlus className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">Save Search</span>
+              </Button>
+            )}
+          </div>
           {query && (
-            <p className="text-sm text-muted-foreground">
-              {isLoading ? 'Searching...' : `${tasks.length} result${tasks.length !== 1 ? 's' : ''} for "${query}"`}
-            </p>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {isLoading ? 'Searching...' : `${tasks.length} result${tasks.length !== 1 ? 's' : ''} for "${query}"`}
+              </p>
+              {tasks.length > 1 && (
+                <Select value={sortBy} onValueChange={(v) => setSortBy(v as SearchSort)}>
+                  <SelectTrigger className="h-8 w-auto gap-1 text-xs">
+                    <ArrowUpDown className="h-3.5 w-3.5" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="relevance">Relevance</SelectItem>
+                    <SelectItem value="date">Date</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
           )}
         </div>
 
@@ -273,7 +341,10 @@ function SearchContent(): React.ReactElement {
             tasks={tasks}
             onTaskClick={handleTaskClick}
             onToggleComplete={handleToggleComplete}
+            onSnooze={handleSnooze}
             showCompleted={true}
+            groupByDate={sortBy === 'date'}
+            searchResults={resultsByTaskId}
             emptyMessage="No results found."
           />
         )}
@@ -294,10 +365,21 @@ function SearchContent(): React.ReactElement {
               onUpdate={handleUpdateTask}
               onDelete={handleDeleteTask}
               onToggleComplete={handleToggleSelectedTaskComplete}
+              onDemoted={() => setSelectedTask(null)}
             />
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Save Search Dialog */}
+      <SavedSearchDialog
+        open={isSaveOpen}
+        onOpenChange={setIsSaveOpen}
+        title="Save Search"
+        defaultValues={{ name: query, query }}
+        isPending={createSavedSearch.isPending}
+        onSubmit={handleSaveSearch}
+      />
     </AppLayout>
   );
 }
@@ -0,0 +1,492 @@
+'use client';
+
+import * as React from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Settings, Plus, X, CalendarDays, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { AppLayout } from '@/components/layout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DatePicker, Skeleton, QueryErrorFallback } from '@/components/common';
+import {
+  useSchedulingProfile,
+  useSchedulingProfileMutations,
+  useCalendarSources,
+  useCalendarMutations,
+} from '@/lib/hooks';
+import { showSuccess, showError } from '@/lib/utils/toast';
+import type { SchedulingProfile, WorkingDay } from '@/types';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Monday first, as most work weeks are written
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const SLOT_OPTIONS = [15, 30, 45, 60];
+
+const DEFAULT_BREAK = { start: '12:00', end: '13:00' };
+
+/**
+ * Gets the timezones the browser knows about, including the current one
+ */
+function getTimezones(current: string): string[] {
+  const timezones = Intl.supportedValuesOf('timeZone');
+  return timezones.includes(current) ? timezones : [current, ...timezones];
+}
+
+/**
+ * Editable copy of the profile, mounted once it has loaded
+ */
+function SchedulingProfileForm({ profile }: { profile: SchedulingProfile }): React.ReactElement {
+  const { update } = useSchedulingProfileMutations();
+
+  const [timezone, setTimezone] = React.useState(profile.timezone);
+  const [workingDays, setWorkingDays] = React.useState<WorkingDay[]>(profile.workingDays);
+  const [daysOff, setDaysOff] = React.useState<string[]>(profile.daysOff);
+  const [slotMinutes, setSlotMinutes] = React.useState(profile.slotMinutes);
+  const [daysAhead, setDaysAhead] = React.useState(String(profile.daysAhead));
+  const [urgentHours, setUrgentHours] = React.useState(String(profile.deadlineUrgentHours));
+  const [soonHours, setSoonHours] = React.useState(String(profile.deadlineSoonHours));
+
+  const timezones = React.useMemo(() => getTimezones(profile.timezone), [profile.timezone]);
+
+  const updateDay = (weekday: number, changes: Partial<WorkingDay>): void => {
+    setWorkingDays(days => days.map((day, index) => (index === weekday ? { ...day, ...changes } : day)));
+  };
+
+  const handleAddDayOff = (date: Date | undefined): void => {
+    if (!date) return;
+    const key = format(date, 'yyyy-MM-dd');
+    setDaysOff(current => (current.includes(key) ? current : [...current, key].sort()));
+  };
+
+  const handleSave = (e: React.FormEvent): void => {
+    e.preventDefault();
+    update.mutate(
+      {
+        timezone,
+        workingDays,
+        daysOff,
+        slotMinutes,
+        daysAhead: parseInt(daysAhead, 10),
+        deadlineUrgentHours: parseInt(urgentHours, 10),
+        deadlineSoonHours: parseInt(soonHours, 10),
+      },
+      {
+        onSuccess: () => showSuccess('Working hours saved'),
+        onError: (error) => showError(error.message),
+      }
+    );
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-6 sm:space-y-8">
+      {/* Timezone */}
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Timezone</h2>
+        <p className="text-sm text-muted-foreground">
+          Working hours and days off are read in this timezone.
+        </p>
+        <Select value={timezone} onValueChange={setTimezone}>
+          <SelectTrigger className="w-full sm:w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="max-h-72">
+            {timezones.map(zone => (
+              <SelectItem key={zone} value={zone}>
+                {zone.replace(/_/g, ' ')}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </section>
+
+      {/* Working hours */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Working Hours</h2>
+        <p className="text-sm text-muted-foreground">
+          Suggested time slots fall within these hours and never overlap a break.
+        </p>
+        <div className="divide-y rounded-md border">
+          {WEEKDAY_ORDER.map(weekday => {
+            const day = workingDays[weekday];
+            return (
+              <div key={weekday} className="space-y-2 p-3">
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="flex w-32 items-center gap-2 text-sm font-medium">
+                    <Checkbox
+                      checked={day.enabled}
+                      onCheckedChange={(checked) => updateDay(weekday, { enabled: checked === true })}
+                    />
+                    {WEEKDAYS[weekday]}
+                  </label>
+                  {day.enabled ? (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        value={day.start}
+                        onChange={(e) => updateDay(weekday, { start: e.target.value })}
+                        className="w-28"
+                        aria-label={`${WEEKDAYS[weekday]} start`}
+                      />
+                      <span className="text-sm text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        value={day.end}
+                        onChange={(e) => updateDay(weekday, { end: e.target.value })}
+                        className="w-28"
+                        aria-label={`${WEEKDAYS[weekday]} end`}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateDay(weekday, { breaks: [...day.breaks, DEFAULT_BREAK] })}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Break
+                      </Button>
+                    </div>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Not working</span>
+                  )}
+                </div>
+                {day.enabled && day.breaks.map((range, index) => (
+                  <div key={index} className="flex items-center gap-2 sm:pl-35">
+                    <span className="w-12 text-xs text-muted-foreground">Break</span>
+                    <Input
+                      type="time"
+                      value={range.start}
+                      onChange={(e) => updateDay(weekday, {
+                        breaks: day.breaks.map((b, i) => (i === index ? { ...b, start: e.target.value } : b)),
+                      })}
+                      className="w-28"
+                      aria-label={`${WEEKDAYS[weekday]} break start`}
+                    />
+                    <span className="text-sm text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      value={range.end}
+                      onChange={(e) => updateDay(weekday, {
+                        breaks: day.breaks.map((b, i) => (i === index ? { ...b, end: e.target.value } : b)),
+                      })}
+                      className="w-28"
+                      aria-label={`${WEEKDAYS[weekday]} break end`}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => updateDay(weekday, { breaks: day.breaks.filter((_, i) => i !== index) })}
+                      aria-label="Remove break"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      {/* Days off */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Days Off</h2>
+        <p className="text-sm text-muted-foreground">
+          Holidays and other dates with no time slots suggested.
+        </p>
+        <DatePicker
+          value={undefined}
+          onChange={handleAddDayOff}
+          placeholder="Add a day off"
+          clearable={false}
+          className="w-full sm:w-56"
+        />
+        {daysOff.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {daysOff.map(date => (
+              <span
+                key={date}
+                className="inline-flex items-center gap-1 rounded-full bg-muted py-1 pl-3 pr-1 text-sm"
+              >
+                {format(new Date(`${date}T00:00:00`), 'EEE, MMM d, yyyy')}
+                <button
+                  type="button"
+                  onClick={() => setDaysOff(current => current.filter(d => d !== date))}
+                  className="rounded-full p-0.5 hover:bg-background"
+                  aria-label={`Remove ${date}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Suggestions */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Suggestions</h2>
+        <div className="flex flex-wrap gap-6">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Slot spacing</label>
+            <Select value={String(slotMinutes)} onValueChange={(value) => setSlotMinutes(parseInt(value, 10))}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(SLOT_OPTIONS.includes(slotMinutes) ? SLOT_OPTIONS : [...SLOT_OPTIONS, slotMinutes].sort((a, b) => a - b))
+                  .map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      Every {minutes} min
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="days-ahead">Days ahead</label>
+            <Input
+              id="days-ahead"
+              type="number"
+              min={1}
+              max={60}
+              value={daysAhead}
+              onChange={(e) => setDaysAhead(e.target.value)}
+              className="w-24"
+            />
+          </div>
+        </div>
+      </section>
+
+      {/* Deadline urgency */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Deadline Urgency</h2>
+        <p className="text-sm text-muted-foreground">
+          Tasks due within the urgent window count as urgent on the matrix. Suggestions before a
+          deadline rank higher within either window.
+        </p>
+        <div className="flex flex-wrap gap-6">
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="urgent-hours">Urgent within (hours)</label>
+            <Input
+              id="urgent-hours"
+              type="number"
+              min={1}
+              max={720}
+              value={urgentHours}
+              onChange={(e) => setUrgentHours(e.target.value)}
+              className="w-24"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="soon-hours">Due soon within (hours)</label>
+            <Input
+              id="soon-hours"
+              type="number"
+              min={1}
+              max={720}
+              value={soonHours}
+              onChange={(e) => setSoonHours(e.target.value)}
+              className="w-24"
+            />
+          </div>
+        </div>
+      </section>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={update.isPending}>
+          {update.isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Imported calendars whose events block time in scheduling suggestions
+ */
+function CalendarSourcesSection(): React.ReactElement {
+  const { data: sources, isLoading, error, refetch } = useCalendarSources();
+  const { create, refresh, remove } = useCalendarMutations();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [path, setPath] = React.useState('');
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const name = file.name.replace(/\.ics$/i, '');
+    create.mutate({ name, content: await file.text() }, {
+      onSuccess: () => showSuccess(`Calendar "${name}" added`),
+      onError: (err) => showError(err.message),
+    });
+  };
+
+  const handleAddPath = (e: React.FormEvent): void => {
+    e.preventDefault();
+    const trimmed = path.trim();
+    if (!trimmed) return;
+    const name = (trimmed.split(/[\\/]/).pop() ?? trimmed).replace(/\.ics$/i, '');
+    create.mutate({ name, path: trimmed }, {
+      onSuccess: () => {
+        setPath('');
+        showSuccess(`Calendar "${name}" added`);
+      },
+      onError: (err) => showError(err.message),
+    });
+  };
+
+  const handleRefresh = (id: string): void => {
+    refresh.mutate(id, {
+      onSuccess: (source) => {
+        if (source.lastError) showError(`Couldn't refresh "${source.name}": ${source.lastError}`);
+        else showSuccess(`Calendar "${source.name}" refreshed`);
+      },
+      onError: (err) => showError(err.message),
+    });
+  };
+
+  const handleDelete = (id: string, name: string): void => {
+    remove.mutate(id, {
+      onSuccess: () => showSuccess(`Calendar "${name}" removed`),
+      onError: (err) => showError(err.message),
+    });
+  };
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold">Calendars</h2>
+      <p className="text-sm text-muted-foreground">
+        Events from these .ics calendars count as busy time when suggesting slots.
+        Calendars are re-read every hour.
+      </p>
+
+      {error ? (
+        <QueryErrorFallback message="Failed to load calendars." onRetry={() => refetch()} />
+      ) : isLoading ? (
+        <Skeleton className="h-12 w-full" />
+      ) : sources && sources.length > 0 && (
+        <div className="space-y-2">
+          {sources.map(source => (
+            <div key={source.id} className="flex items-center gap-3 rounded-md border p-2 sm:p-3">
+              <CalendarDays className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-sm font-medium">{source.name}</div>
+                <div className="truncate text-xs text-muted-foreground">
+                  {source.path ?? 'Uploaded file'}
+                  {source.lastSyncedAt && ` · synced ${formatDistanceToNow(source.lastSyncedAt, { addSuffix: true })}`}
+                </div>
+                {source.lastError && (
+                  <div className="truncate text-xs text-destructive">{source.lastError}</div>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRefresh(source.id)}
+                disabled={refresh.isPending}
+                aria-label={`Refresh ${source.name}`}
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(source.id, source.name)}
+                disabled={remove.isPending}
+                aria-label={`Remove ${source.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={handleUpload}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={create.isPending}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Upload .ics
+        </Button>
+        <form onSubmit={handleAddPath} className="flex flex-1 gap-2">
+          <Input
+            value={path}
+            onChange={(e) => setPath(e.target.value)}
+            placeholder="/path/to/calendar.ics"
+            aria-label="Local calendar file"
+          />
+          <Button type="submit" variant="outline" disabled={!path.trim() || create.isPending}>
+            Add
+          </Button>
+        </form>
+      </div>
+    </section>
+  );
+}
+
+/**
+ * Settings Page Component
+ * Edits the scheduling profile: working hours with breaks for each weekday,
+ * days off, timezone, and how time slots are suggested, plus the calendars
+ * whose events count as busy time.
+ *
+ * Requirements: 29.1, 29.2, 29.3
+ */
+export default function SettingsPage(): React.ReactElement {
+  const { data: profile, isLoading, error, refetch } = useSchedulingProfile();
+
+  return (
+    <AppLayout title="Settings">
+      <div className="space-y-4 sm:space-y-6">
+        {/* Header */}
+        <div className="space-y-1">
+          <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+            <Settings className="h-5 w-5 sm:h-6 sm:w-6" />
+            Settings
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            When you work, for scheduling suggestions
+          </p>
+        </div>
+
+        {error ? (
+          <QueryErrorFallback message="Failed to load settings." onRetry={() => refetch()} />
+        ) : isLoading || !profile ? (
+          <div className="space-y-3">
+            {Array.from({ length: 7 }).map((_, index) => (
+              <Skeleton key={index} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : (
+          <SchedulingProfileForm key={profile.updatedAt?.getTime() ?? 0} profile={profile} />
+        )}
+
+        <CalendarSourcesSection />
+      </div>
+    </AppLayout>
+  );
+}
@@ -3,9 +3,9 @@
 import * as React from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { format } from 'date-fns';
-import { Plus, CalendarDays } from 'lucide-react';
+import { Plus, CalendarDays, Wand2, History } from 'lucide-react';
 import { AppLayout } from '@/components/layout';
-import { TaskList, TaskDetail, TaskForm } from '@/components/tasks';
+import { TaskList, TaskDetail, TaskForm, AutoPlanDialog, RescheduleDialog } from '@/components/tasks';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -15,6 +15,7 @@ import {
 } from '@/components/ui/dialog';
 import { showSuccess, showError } from '@/lib/utils/toast';
 import { TaskListSkeleton, QueryErrorFallback } from '@/components/common';
+import { useOverdueScheduledTasks } from '@/lib/hooks';
 import type { Task, List, Label, TaskHistoryEntry, CreateTaskInput, UpdateTaskInput } from '@/types';
 
 /**
@@ -25,6 +26,7 @@ function parseTaskDates(task: Task): Task {
     ...task,
     date: task.date ? new Date(task.date) : undefined,
     deadline: task.deadline ? new Date(task.deadline) : undefined,
+    startDate: task.startDate ? new Date(task.startDate) : undefined,
     completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
     createdAt: new Date(task.createdAt),
     updatedAt: new Date(task.updatedAt),
@@ -142,6 +144,9 @@ export default function TodayPage(): React.ReactElement {
   const [showCompleted, setShowCompleted] = React.useState(true);
   const [selectedTask, setSelectedTask] = React.useState<Task | null>(null);
   const [isFormOpen, setIsFormOpen] = React.useState(false);
+  const [isAutoPlanOpen, setIsAutoPlanOpen] = React.useState(false);
+  const [isRescheduleOpen, setIsRescheduleOpen] = React.useState(false);
+  const { data: overdueScheduled = [] } = useOverdueScheduledTasks();
 
   const today = new Date();
   const formattedDate = format(today, 'EEEE, MMMM d');
@@ -226,6 +231,10 @@ export default function TodayPage(): React.ReactElement {
     toggleCompleteMutation.mutate(taskId);
   };
 
+  const handleSnooze = (taskId: string, startDate: Date | null): void => {
+    updateTaskMutation.mutate({ id: taskId, data: { startDate } });
+  };
+
   const handleTaskClick = (task: Task): void => {
     setSelectedTask(task);
   };
@@ -288,16 +297,40 @@ export default function TodayPage(): React.ReactElement {
             </h1>
             <p className="text-sm text-muted-foreground">{formattedDate}</p>
           </div>
-          <Button 
-            onClick={() => setIsFormOpen(true)} 
-            size="sm"
-            className="h-10 px-4 sm:h-8 sm:px-3 shrink-0"
-          >
-            <Plus className="h-4 w-4 sm:mr-2" />
-            <span className="hidden sm:inline">Add Task</span>
-          </Button>
+          <div className="flex items-center gap-2 shrink-0">
+            <Button
+              onClick={() => setIsAutoPlanOpen(true)}
+              variant="outline"
+              size="sm"
+              className="h-10 px-4 sm:h-8 sm:px-3"
+            >
+              <Wand2 className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Auto-plan</span>
+            </Button>
+            <Button 
+              onClick={() => setIsFormOpen(true)} 
+              size="sm"
+              className="h-10 px-4 sm:h-8 sm:px-3"
+            >
+              <Plus className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Add Task</span>
+            </Button>
+          </div>
         </div>
 
+        {/* Overdue scheduled tasks */}
+        {overdueScheduled.length > 0 && (
+          <div className="flex items-center justify-between gap-3 rounded-md border border-orange-200 bg-orange-50 px-3 py-2 text-sm dark:border-orange-900 dark:bg-orange-950/40">
+            <span className="flex items-center gap-2 text-orange-700 dark:text-orange-300">
+              <History className="h-4 w-4 shrink-0" />
+              {overdueScheduled.length} task{overdueScheduled.length !== 1 ? 's' : ''} left over from earlier days
+            </span>
+            <Button variant="outline" size="sm" className="shrink-0" onClick={() => setIsRescheduleOpen(true)}>
+              Reschedule all overdue
+            </Button>
+          </div>
+        )}
+
         {/* Task List */}
         {isLoading ? (
           <TaskListSkeleton count={5} />
@@ -306,6 +339,7 @@ export default function TodayPage(): React.ReactElement {
             tasks={tasks}
             onTaskClick={handleTaskClick}
             onToggleComplete={handleToggleComplete}
+            onSnooze={handleSnooze}
             showCompleted={showCompleted}
             onToggleShowCompleted={handleToggleShowCompleted}
             emptyMessage="No tasks scheduled for today. Add a task to get started!"
@@ -328,11 +362,18 @@ export default function TodayPage(): React.ReactElement {
               onUpdate={handleUpdateTask}
               onDelete={handleDeleteTask}
               onToggleComplete={handleToggleSelectedTaskComplete}
+              onDemoted={() => setSelectedTask(null)}
             />
           )}
         </DialogContent>
       </Dialog>
 
+      {/* Auto-plan Dialog */}
+      <AutoPlanDialog open={isAutoPlanOpen} onOpenChange={setIsAutoPlanOpen} days={1} />
+
+      {/* Reschedule Overdue Dialog */}
+      <RescheduleDialog open={isRescheduleOpen} onOpenChange={setIsRescheduleOpen} />
+
       {/* Create Task Dialog */}
       <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
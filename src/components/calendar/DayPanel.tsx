@@ -0,0 +1,145 @@
+'use client';
+
+import * as React from 'react';
+import { format } from 'date-fns';
+import { CalendarClock, Flag, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { PriorityBadge } from '@/components/common';
+import { hasTimeOfDay, summarizeMonthDay } from '@/lib/utils/calendar-layout';
+import { isOverdue } from '@/lib/utils/overdue';
+import { startTaskDrag } from './TimeGrid';
+import type { Task } from '@/types';
+
+export interface DayPanelProps {
+  /** The day shown */
+  day: Date;
+  /** Tasks scheduled or due around the day */
+  tasks: Task[];
+  /** Callback when a task is clicked */
+  onTaskClick: (task: Task) => void;
+  /** Callback to open the day in the hour grid */
+  onOpenDay: () => void;
+  /** Callback to close the panel */
+  onClose: () => void;
+  /** Optional class name */
+  className?: string;
+}
+
+interface DayPanelItemProps {
+  task: Task;
+  detail: string;
+  now: Date;
+  onClick: () => void;
+}
+
+/**
+ * A task in the day panel, draggable onto another day
+ */
+function DayPanelItem({ task, detail, now, onClick }: DayPanelItemProps): React.ReactElement {
+  const overdue = isOverdue(task, now);
+  return (
+    <div
+      draggable
+      onDragStart={(e) => startTaskDrag(e, task.id)}
+      onClick={onClick}
+      className={cn(
+        'cursor-grab rounded-md border bg-background p-2 text-sm shadow-sm hover:border-primary/50 active:cursor-grabbing',
+        overdue && 'border-destructive/50'
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <span className={cn('min-w-0 flex-1 truncate', task.completed && 'line-through text-muted-foreground')}>
+          {task.name}
+        </span>
+        <PriorityBadge priority={task.priority} />
+      </div>
+      <div className={cn('mt-0.5 text-xs', overdue ? 'text-destructive' : 'text-muted-foreground')}>
+        {detail}
+        {overdue && ' · Overdue'}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * DayPanel Component
+ * The tasks scheduled and due on a day picked in the month grid.
+ */
+export function DayPanel({
+  day,
+  tasks,
+  onTaskClick,
+  onOpenDay,
+  onClose,
+  className,
+}: DayPanelProps): React.ReactElement {
+  const now = new Date();
+  const { scheduled, deadlines } = summarizeMonthDay(tasks, day, now);
+
+  const describeScheduled = (task: Task): string => {
+    const time = hasTimeOfDay(task) ? format(task.date!, 'h:mm a') : 'Any time';
+    return task.deadline ? `${time} · due ${format(task.deadline, 'MMM d')}` : time;
+  };
+
+  const describeDeadline = (task: Task): string => {
+    const due = `Due ${format(task.deadline!, 'h:mm a')}`;
+    return task.date ? `${due} · scheduled ${format(task.date, 'MMM d')}` : `${due} · not scheduled`;
+  };
+
+  return (
+    <div className={cn('flex min-h-0 flex-col rounded-lg border bg-muted/30', className)}>
+      <div className="flex items-center gap-2 border-b px-3 py-2">
+        <h2 className="min-w-0 flex-1 truncate text-sm font-semibold">{format(day, 'EEEE, MMMM d')}</h2>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onOpenDay} aria-label="Open in day view">
+          <CalendarClock className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} aria-label="Close day">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="min-h-0 flex-1 space-y-3 overflow-y-auto p-2">
+        {scheduled.length === 0 && deadlines.length === 0 && (
+          <p className="px-1 py-4 text-center text-xs text-muted-foreground">
+            Nothing scheduled or due on this day.
+          </p>
+        )}
+
+        {scheduled.length > 0 && (
+          <div className="space-y-1.5">
+            <h3 className="px-1 text-xs font-medium text-muted-foreground">Scheduled ({scheduled.length})</h3>
+            {scheduled.map(task => (
+              <DayPanelItem
+                key={task.id}
+                task={task}
+                detail={describeScheduled(task)}
+                now={now}
+                onClick={() => onTaskClick(task)}
+              />
+            ))}
+          </div>
+        )}
+
+        {deadlines.length > 0 && (
+          <div className="space-y-1.5">
+            <h3 className="flex items-center gap-1 px-1 text-xs font-medium text-muted-foreground">
+              <Flag className="h-3 w-3" />
+              Due ({deadlines.length})
+            </h3>
+            {deadlines.map(task => (
+              <DayPanelItem
+                key={task.id}
+                task={task}
+                detail={describeDeadline(task)}
+                now={now}
+                onClick={() => onTaskClick(task)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DayPanel;
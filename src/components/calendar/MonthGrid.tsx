@@ -0,0 +1,167 @@
+'use client';
+
+import * as React from 'react';
+import { format, isSameDay, isSameMonth, isToday as isTodayFn } from 'date-fns';
+import { Flag } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getMonthGridDays, summarizeMonthDay } from '@/lib/utils/calendar-layout';
+import { isOverdue } from '@/lib/utils/overdue';
+import { getDraggedTaskId, startTaskDrag, TASK_DRAG_TYPE } from './TimeGrid';
+import type { Task } from '@/types';
+
+// Task names shown in a day before the rest are counted
+const MAX_VISIBLE_TASKS = 3;
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export interface MonthGridProps {
+  /** Any day in the month shown */
+  month: Date;
+  /** Tasks scheduled or due in the grid's weeks */
+  tasks: Task[];
+  /** The day whose panel is open */
+  selectedDay?: Date | null;
+  /** Callback when a day is clicked */
+  onDayClick: (day: Date) => void;
+  /** Callback when a task is clicked */
+  onTaskClick: (task: Task) => void;
+  /** Callback when a task is dropped on a day */
+  onMoveToDay: (taskId: string, day: Date) => void;
+}
+
+/**
+ * MonthGrid Component
+ * Month overview with the number of tasks scheduled each day, markers for
+ * deadlines that fall on a different day than the task is scheduled, and
+ * overdue days highlighted. Tasks can be dragged to another day.
+ */
+export function MonthGrid({
+  month,
+  tasks,
+  selectedDay,
+  onDayClick,
+  onTaskClick,
+  onMoveToDay,
+}: MonthGridProps): React.ReactElement {
+  const days = React.useMemo(() => getMonthGridDays(month), [month]);
+  const [dropDay, setDropDay] = React.useState<Date | null>(null);
+  const now = new Date();
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, day: Date): void => {
+    if (!e.dataTransfer.types.includes(TASK_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (!dropDay || !isSameDay(dropDay, day)) setDropDay(day);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, day: Date): void => {
+    setDropDay(null);
+    const taskId = getDraggedTaskId(e);
+    if (!taskId) return;
+    e.preventDefault();
+    onMoveToDay(taskId, day);
+  };
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col overflow-hidden rounded-lg border">
+      <div className="grid grid-cols-7 border-b bg-muted/30">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label} className="px-2 py-1.5 text-center text-xs font-medium text-muted-foreground">
+            {label}
+          </div>
+        ))}
+      </div>
+
+      <div
+        className="grid min-h-0 flex-1 grid-cols-7 overflow-y-auto"
+        style={{ gridAutoRows: 'minmax(6rem, 1fr)' }}
+      >
+        {days.map(day => {
+          const { scheduled, deadlines, overdue } = summarizeMonthDay(tasks, day, now);
+          const hidden = Math.max(0, scheduled.length - MAX_VISIBLE_TASKS);
+
+          return (
+            <div
+              key={day.toISOString()}
+              role="button"
+              tabIndex={0}
+              onClick={() => onDayClick(day)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  onDayClick(day);
+                }
+              }}
+              onDragOver={(e) => handleDragOver(e, day)}
+              onDragLeave={() => setDropDay(null)}
+              onDrop={(e) => handleDrop(e, day)}
+              className={cn(
+                'flex min-w-0 cursor-pointer flex-col gap-0.5 border-b border-r p-1 text-left transition-colors hover:bg-accent/40 [&:nth-child(7n)]:border-r-0',
+                !isSameMonth(day, month) && 'bg-muted/20 text-muted-foreground',
+                overdue && 'bg-destructive/5',
+                selectedDay && isSameDay(day, selectedDay) && 'ring-2 ring-inset ring-primary',
+                dropDay && isSameDay(day, dropDay) && 'bg-primary/10'
+              )}
+            >
+              <div className="flex items-center justify-between gap-1">
+                <span
+                  className={cn(
+                    'flex h-6 w-6 items-center justify-center rounded-full text-xs',
+                    isTodayFn(day) && 'bg-primary font-semibold text-primary-foreground',
+                    overdue && !isTodayFn(day) && 'font-semibold text-destructive'
+                  )}
+                >
+                  {format(day, 'd')}
+                </span>
+                {scheduled.length > 0 && (
+                  <span className="rounded-full bg-muted px-1.5 text-[10px] font-medium text-muted-foreground">
+                    {scheduled.length}
+                  </span>
+                )}
+              </div>
+
+              {scheduled.slice(0, MAX_VISIBLE_TASKS).map(task => (
+                <div
+                  key={task.id}
+                  draggable
+                  onDragStart={(e) => startTaskDrag(e, task.id)}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onTaskClick(task);
+                  }}
+                  className={cn(
+                    'hidden truncate rounded px-1 py-0.5 text-[11px] leading-tight sm:block cursor-grab',
+                    isOverdue(task, now) ? 'bg-destructive/15 text-destructive' : 'bg-primary/10',
+                    task.completed && 'line-through opacity-50'
+                  )}
+                >
+                  {task.name}
+                </div>
+              ))}
+              {hidden > 0 && (
+                <span className="hidden px-1 text-[10px] text-muted-foreground sm:block">+{hidden} more</span>
+              )}
+
+              {deadlines.map(task => (
+                <div
+                  key={`deadline-${task.id}`}
+                  className={cn(
+                    'flex items-center gap-1 truncate px-1 text-[10px]',
+                    isOverdue(task, now) ? 'text-destructive' : 'text-orange-600 dark:text-orange-400',
+                    task.completed && 'line-through opacity-50'
+                  )}
+                  title={`${task.name} is due`}
+                >
+                  <Flag className="h-2.5 w-2.5 shrink-0" />
+                  <span className="hidden truncate sm:inline">{task.name}</span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default MonthGrid;
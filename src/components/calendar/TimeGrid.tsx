@@ -0,0 +1,319 @@
+'use client';
+
+import * as React from 'react';
+import { addMinutes, format, isSameDay, isToday as isTodayFn, startOfDay } from 'date-fns';
+import { cn } from '@/lib/utils';
+import {
+  SNAP_MINUTES,
+  getBlockMinutes,
+  hasTimeOfDay,
+  layoutDayBlocks,
+  snapMinutes,
+  type CalendarBlock,
+} from '@/lib/utils/calendar-layout';
+import type { BusyBlock, Priority, Task } from '@/types';
+
+// Height of one hour on the grid, in pixels
+const HOUR_HEIGHT = 48;
+
+const PIXELS_PER_MINUTE = HOUR_HEIGHT / 60;
+
+// The grid opens scrolled to the start of a typical working day
+const INITIAL_SCROLL_HOUR = 7;
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Drag data type for tasks, so drops of other content are ignored
+export const TASK_DRAG_TYPE = 'application/x-task-id';
+
+const PRIORITY_STYLES: Record<Priority, string> = {
+  high: 'border-l-red-500 bg-red-500/15',
+  medium: 'border-l-yellow-500 bg-yellow-500/15',
+  low: 'border-l-blue-500 bg-blue-500/15',
+  none: 'border-l-primary bg-primary/10',
+};
+
+export interface TimeGridProps {
+  /** Days shown as columns, in order */
+  days: Date[];
+  /** Tasks to place on the grid */
+  tasks: Task[];
+  /** Calendar events shown greyed out behind tasks */
+  busyBlocks?: BusyBlock[];
+  /** Callback when a task is clicked */
+  onTaskClick: (task: Task) => void;
+  /** Callback when a task is dropped at a new start; date-only drops are at midnight */
+  onMove: (taskId: string, date: Date) => void;
+  /** Callback when a task block is resized to a new estimate */
+  onResize: (taskId: string, estimate: number) => void;
+}
+
+/**
+ * Reads the task ID from a drag event, if it is dragging a task
+ */
+export function getDraggedTaskId(e: React.DragEvent): string | null {
+  return e.dataTransfer.getData(TASK_DRAG_TYPE) || null;
+}
+
+/**
+ * Starts dragging a task, remembering how far into the block it was grabbed
+ */
+export function startTaskDrag(e: React.DragEvent, taskId: string, grabMinutes = 0): void {
+  e.dataTransfer.setData(TASK_DRAG_TYPE, taskId);
+  e.dataTransfer.setData(`${TASK_DRAG_TYPE}-offset`, String(grabMinutes));
+  e.dataTransfer.effectAllowed = 'move';
+}
+
+/**
+ * Accepts a drag over a drop target if it carries a task
+ */
+function allowTaskDrop(e: React.DragEvent): void {
+  if (e.dataTransfer.types.includes(TASK_DRAG_TYPE)) {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+  }
+}
+
+interface TaskBlockProps {
+  block: CalendarBlock;
+  onClick: () => void;
+  onResize: (estimate: number) => void;
+}
+
+/**
+ * A task on the grid: drag it to move, drag its bottom edge to change the estimate
+ */
+function TaskBlock({ block, onClick, onResize }: TaskBlockProps): React.ReactElement {
+  const { task } = block;
+  const [resizeMinutes, setResizeMinutes] = React.useState<number | null>(null);
+  const resizeStart = React.useRef<{ y: number; minutes: number } | null>(null);
+
+  const height = resizeMinutes ?? block.height;
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>): void => {
+    if (resizeStart.current) {
+      e.preventDefault();
+      return;
+    }
+    const grabMinutes = (e.clientY - e.currentTarget.getBoundingClientRect().top) / PIXELS_PER_MINUTE;
+    startTaskDrag(e, task.id, grabMinutes);
+  };
+
+  const handleResizeDown = (e: React.PointerEvent<HTMLDivElement>): void => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    resizeStart.current = { y: e.clientY, minutes: getBlockMinutes(task) };
+    setResizeMinutes(block.height);
+  };
+
+  const handleResizeMove = (e: React.PointerEvent<HTMLDivElement>): void => {
+    if (!resizeStart.current) return;
+    const minutes = resizeStart.current.minutes + (e.clientY - resizeStart.current.y) / PIXELS_PER_MINUTE;
+    const snapped = Math.max(SNAP_MINUTES, Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES);
+    setResizeMinutes(Math.min(snapped, 24 * 60 - block.top));
+  };
+
+  const handleResizeUp = (): void => {
+    if (!resizeStart.current) return;
+    const estimate = resizeMinutes ?? block.height;
+    const changed = estimate !== resizeStart.current.minutes;
+    resizeStart.current = null;
+    setResizeMinutes(null);
+    if (changed) onResize(estimate);
+  };
+
+  return (
+    <div
+      draggable
+      onDragStart={handleDragStart}
+      onClick={onClick}
+      className={cn(
+        'absolute overflow-hidden rounded-md border border-l-4 px-1.5 py-0.5 text-xs shadow-sm cursor-grab active:cursor-grabbing',
+        PRIORITY_STYLES[task.priority],
+        task.completed && 'opacity-50',
+        resizeMinutes !== null && 'z-10 ring-2 ring-primary'
+      )}
+      style={{
+        top: block.top * PIXELS_PER_MINUTE,
+        height: Math.max(height * PIXELS_PER_MINUTE, 16),
+        left: `calc(${(block.column / block.columns) * 100}% + 2px)`,
+        width: `calc(${100 / block.columns}% - 4px)`,
+      }}
+    >
+      <div className={cn('truncate font-medium', task.completed && 'line-through')}>{task.name}</div>
+      {height >= 30 && (
+        <div className="truncate text-muted-foreground">
+          {format(block.start, 'h:mm a')} – {format(addMinutes(block.start, height), 'h:mm a')}
+        </div>
+      )}
+      <div
+        onPointerDown={handleResizeDown}
+        onPointerMove={handleResizeMove}
+        onPointerUp={handleResizeUp}
+        onPointerCancel={handleResizeUp}
+        onClick={(e) => e.stopPropagation()}
+        className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize"
+        aria-label={`Resize ${task.name}`}
+      />
+    </div>
+  );
+}
+
+/**
+ * TimeGrid Component
+ * Hour grid with one column per day. Timed tasks are blocks sized by their
+ * estimate; date-only tasks sit in an all-day row above the hours. Tasks can
+ * be dragged between days and times, and from outside the grid.
+ */
+export function TimeGrid({
+  days,
+  tasks,
+  busyBlocks = [],
+  onTaskClick,
+  onMove,
+  onResize,
+}: TimeGridProps): React.ReactElement {
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const [now, setNow] = React.useState(() => new Date());
+
+  React.useEffect(() => {
+    scrollRef.current?.scrollTo({ top: INITIAL_SCROLL_HOUR * HOUR_HEIGHT });
+  }, []);
+
+  // Keep the current time line moving
+  React.useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleDropOnDay = (e: React.DragEvent<HTMLDivElement>, day: Date): void => {
+    const taskId = getDraggedTaskId(e);
+    if (!taskId) return;
+    e.preventDefault();
+    const grabMinutes = Number(e.dataTransfer.getData(`${TASK_DRAG_TYPE}-offset`)) || 0;
+    const y = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    onMove(taskId, addMinutes(startOfDay(day), snapMinutes(y / PIXELS_PER_MINUTE - grabMinutes)));
+  };
+
+  const handleDropOnAllDay = (e: React.DragEvent<HTMLDivElement>, day: Date): void => {
+    const taskId = getDraggedTaskId(e);
+    if (!taskId) return;
+    e.preventDefault();
+    onMove(taskId, startOfDay(day));
+  };
+
+  const gridColumns = { gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(0, 1fr))` };
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col overflow-hidden rounded-lg border">
+      {/* Day headings and all-day tasks */}
+      <div className="grid border-b bg-muted/30" style={gridColumns}>
+        <div className="border-r px-1 py-2 text-right text-[10px] text-muted-foreground self-end">all-day</div>
+        {days.map(day => {
+          const dateOnly = tasks.filter(task => task.date && !hasTimeOfDay(task) && isSameDay(task.date, day));
+          return (
+            <div
+              key={day.toISOString()}
+              onDragOver={allowTaskDrop}
+              onDrop={(e) => handleDropOnAllDay(e, day)}
+              className="min-w-0 border-r p-1 last:border-r-0"
+            >
+              <div className={cn('mb-1 text-center text-xs sm:text-sm', isTodayFn(day) && 'font-semibold text-primary')}>
+                <span className="hidden sm:inline">{format(day, 'EEE ')}</span>
+                {format(day, 'd')}
+              </div>
+              <div className="space-y-0.5">
+                {dateOnly.map(task => (
+                  <div
+                    key={task.id}
+                    draggable
+                    onDragStart={(e) => startTaskDrag(e, task.id)}
+                    onClick={() => onTaskClick(task)}
+                    className={cn(
+                      'truncate rounded border-l-4 px-1.5 py-0.5 text-xs cursor-grab',
+                      PRIORITY_STYLES[task.priority],
+                      task.completed && 'line-through opacity-50'
+                    )}
+                  >
+                    {task.name}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Hours */}
+      <div ref={scrollRef} className="min-h-0 flex-1 overflow-y-auto">
+        <div className="grid" style={gridColumns}>
+          <div className="relative border-r" style={{ height: 24 * HOUR_HEIGHT }}>
+            {HOURS.slice(1).map(hour => (
+              <span
+                key={hour}
+                className="absolute right-1 -translate-y-1/2 text-[10px] text-muted-foreground"
+                style={{ top: hour * HOUR_HEIGHT }}
+              >
+                {format(new Date(2000, 0, 1, hour), 'h a')}
+              </span>
+            ))}
+          </div>
+
+          {days.map(day => {
+            const dayStart = startOfDay(day);
+            const blocks = layoutDayBlocks(tasks, day);
+            const dayBusy = busyBlocks.filter(busy => isSameDay(busy.start, day) || (busy.start < dayStart && busy.end > dayStart));
+            const nowMinutes = (now.getTime() - dayStart.getTime()) / 60000;
+
+            return (
+              <div
+                key={day.toISOString()}
+                onDragOver={allowTaskDrop}
+                onDrop={(e) => handleDropOnDay(e, day)}
+                className="relative min-w-0 border-r last:border-r-0"
+                style={{ height: 24 * HOUR_HEIGHT }}
+              >
+                {HOURS.map(hour => (
+                  <div key={hour} className="border-b border-border/60" style={{ height: HOUR_HEIGHT }} />
+                ))}
+
+                {/* Calendar events, greyed out behind tasks */}
+                {dayBusy.map(busy => {
+                  const top = Math.max(0, (busy.start.getTime() - dayStart.getTime()) / 60000);
+                  const bottom = Math.min(24 * 60, (busy.end.getTime() - dayStart.getTime()) / 60000);
+                  return (
+                    <div
+                      key={busy.id}
+                      className="pointer-events-none absolute inset-x-0 overflow-hidden border border-dashed bg-muted/60 px-1.5 py-0.5 text-[10px] text-muted-foreground"
+                      style={{ top: top * PIXELS_PER_MINUTE, height: (bottom - top) * PIXELS_PER_MINUTE }}
+                    >
+                      {busy.summary ?? 'Busy'}
+                    </div>
+                  );
+                })}
+
+                {blocks.map(block => (
+                  <TaskBlock
+                    key={block.task.id}
+                    block={block}
+                    onClick={() => onTaskClick(block.task)}
+                    onResize={(estimate) => onResize(block.task.id, estimate)}
+                  />
+                ))}
+
+                {isTodayFn(day) && nowMinutes >= 0 && nowMinutes < 24 * 60 && (
+                  <div
+                    className="pointer-events-none absolute inset-x-0 z-20 border-t-2 border-red-500"
+                    style={{ top: nowMinutes * PIXELS_PER_MINUTE }}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TimeGrid;
@@ -0,0 +1,95 @@
+'use client';
+
+import * as React from 'react';
+import { Clock, Inbox } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { PriorityBadge } from '@/components/common';
+import { getDraggedTaskId, startTaskDrag, TASK_DRAG_TYPE } from './TimeGrid';
+import type { Task } from '@/types';
+
+export interface UnscheduledTrayProps {
+  /** Tasks without a date */
+  tasks: Task[];
+  /** Callback when a task is clicked */
+  onTaskClick: (task: Task) => void;
+  /** Callback when a task from the grid is dropped here to clear its date */
+  onUnschedule: (taskId: string) => void;
+  /** Optional class name */
+  className?: string;
+}
+
+/**
+ * UnscheduledTray Component
+ * Tasks without a date, ready to be dragged onto the time grid.
+ * Dropping a task from the grid here removes its date.
+ */
+export function UnscheduledTray({
+  tasks,
+  onTaskClick,
+  onUnschedule,
+  className,
+}: UnscheduledTrayProps): React.ReactElement {
+  const [isOver, setIsOver] = React.useState(false);
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>): void => {
+    if (!e.dataTransfer.types.includes(TASK_DRAG_TYPE)) return;
+    e.preventDefault();
+    setIsOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>): void => {
+    setIsOver(false);
+    const taskId = getDraggedTaskId(e);
+    if (!taskId) return;
+    e.preventDefault();
+    if (!tasks.some(task => task.id === taskId)) onUnschedule(taskId);
+  };
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={handleDrop}
+      className={cn(
+        'flex min-h-0 flex-col rounded-lg border bg-muted/30 transition-colors',
+        isOver && 'border-primary bg-primary/5',
+        className
+      )}
+    >
+      <h2 className="flex items-center gap-2 border-b px-3 py-2 text-sm font-semibold">
+        <Inbox className="h-4 w-4" />
+        Unscheduled ({tasks.length})
+      </h2>
+      <div className="min-h-0 flex-1 space-y-1.5 overflow-y-auto p-2">
+        {tasks.length === 0 ? (
+          <p className="px-1 py-4 text-center text-xs text-muted-foreground">
+            Nothing unscheduled. Drop a task here to clear its date.
+          </p>
+        ) : (
+          tasks.map(task => (
+            <div
+              key={task.id}
+              draggable
+              onDragStart={(e) => startTaskDrag(e, task.id)}
+              onClick={() => onTaskClick(task)}
+              className="cursor-grab rounded-md border bg-background p-2 text-sm shadow-sm hover:border-primary/50 active:cursor-grabbing"
+            >
+              <div className="flex items-center gap-2">
+                <span className="min-w-0 flex-1 truncate">{task.name}</span>
+                <PriorityBadge priority={task.priority} />
+              </div>
+              {task.estimate && (
+                <div className="mt-0.5 flex items-center gap-1 text-xs text-muted-foreground">
+                  <Clock className="h-3 w-3" />
+                  {task.estimate} min
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default UnscheduledTray;
@@ -0,0 +1,9 @@
+// Calendar Components
+export { TimeGrid } from './TimeGrid';
+export type { TimeGridProps } from './TimeGrid';
+export { UnscheduledTray } from './UnscheduledTray';
+export type { UnscheduledTrayProps } from './UnscheduledTray';
+export { MonthGrid } from './MonthGrid';
+export type { MonthGridProps } from './MonthGrid';
+export { DayPanel } from './DayPanel';
+export type { DayPanelProps } from './DayPanel';
@@ -0,0 +1,46 @@
+'use client';
+
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+import type { SearchMatchRange } from '@/types';
+
+export interface HighlightedTextProps {
+  /** Text to display */
+  text: string;
+  /** Sorted, non-overlapping ranges to highlight */
+  ranges?: SearchMatchRange[];
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * HighlightedText Component
+ * Renders text with search matches marked.
+ *
+ * Requirements: 17.2
+ */
+export function HighlightedText({ text, ranges = [], className }: HighlightedTextProps): React.ReactElement {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  for (const range of ranges) {
+    if (range.start < cursor || range.end > text.length) continue;
+    if (range.start > cursor) {
+      parts.push(text.slice(cursor, range.start));
+    }
+    parts.push(
+      <mark key={range.start} className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-500/40">
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  }
+
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+
+  return <span className={cn(className)}>{parts}</span>;
+}
+
+export default HighlightedText;
@@ -0,0 +1,131 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { EmojiPicker } from './EmojiPicker';
+import type { CreateSavedSearchInput } from '@/types';
+
+export interface SavedSearchDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog opens or closes */
+  onOpenChange: (open: boolean) => void;
+  /** Dialog title */
+  title: string;
+  /** Initial name, emoji and query */
+  defaultValues: CreateSavedSearchInput;
+  /** Whether the query can be edited */
+  editableQuery?: boolean;
+  /** Whether the save request is in flight */
+  isPending?: boolean;
+  /** Callback with the entered values */
+  onSubmit: (data: CreateSavedSearchInput) => void;
+}
+
+/**
+ * Form fields, mounted each time the dialog opens so they start from the defaults
+ */
+function SavedSearchFields({
+  defaultValues,
+  editableQuery,
+  isPending,
+  onSubmit,
+  onCancel,
+}: Pick<SavedSearchDialogProps, 'defaultValues' | 'editableQuery' | 'isPending' | 'onSubmit'> & {
+  onCancel: () => void;
+}): React.ReactElement {
+  const [name, setName] = React.useState(defaultValues.name);
+  const [emoji, setEmoji] = React.useState(defaultValues.emoji);
+  const [query, setQuery] = React.useState(defaultValues.query);
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault();
+    if (name.trim() && query.trim()) {
+      onSubmit({ name: name.trim(), emoji, query: query.trim() });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="space-y-4 py-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Name</label>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Smart list name"
+            autoFocus
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Emoji</label>
+          <EmojiPicker value={emoji} onChange={setEmoji} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Query</label>
+          {editableQuery ? (
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="e.g. label:bug priority:high -is:completed"
+              className="font-mono text-sm"
+            />
+          ) : (
+            <p className="rounded-md bg-muted px-3 py-2 font-mono text-sm break-all">{query}</p>
+          )}
+        </div>
+      </div>
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!name.trim() || !query.trim() || isPending}>
+          {isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+/**
+ * SavedSearchDialog Component
+ * Names a search query, with an optional emoji, to keep it as a smart list.
+ *
+ * Requirements: 17.1
+ */
+export function SavedSearchDialog({
+  open,
+  onOpenChange,
+  title,
+  defaultValues,
+  editableQuery = false,
+  isPending = false,
+  onSubmit,
+}: SavedSearchDialogProps): React.ReactElement {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <SavedSearchFields
+          defaultValues={defaultValues}
+          editableQuery={editableQuery}
+          isPending={isPending}
+          onSubmit={onSubmit}
+          onCancel={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SavedSearchDialog;
@@ -5,8 +5,10 @@ import { Search, X, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import type { Task } from '@/types';
+import { useSearchSuggestions } from '@/lib/hooks';
+import type { Task, SearchSuggestion } from '@/types';
 import { format } from 'date-fns';
+import { SearchSuggestionList } from './SearchSuggestionList';
 
 export interface SearchBarProps {
   /** Callback when search query changes */
@@ -28,6 +30,7 @@ export interface SearchBarProps {
 /**
  * SearchBar Component
  * Fuzzy search input with results dropdown.
+ * Autocompletes filter names and values such as `label:` and `priority:high`.
  * Clears results when query is empty (Requirement 17.4).
  * 
  * Requirements: 17.1, 17.4
@@ -43,6 +46,8 @@ export function SearchBar({
 }: SearchBarProps): React.ReactElement {
   const [query, setQuery] = React.useState('');
   const [showResults, setShowResults] = React.useState(false);
+  const [activeSuggestion, setActiveSuggestion] = React.useState(-1);
+  const suggestions = useSearchSuggestions(query);
   const inputRef = React.useRef<HTMLInputElement>(null);
   const containerRef = React.useRef<HTMLDivElement>(null);
   const debounceRef = React.useRef<NodeJS.Timeout | null>(null);
@@ -62,6 +67,7 @@ export function SearchBar({
   // Debounced search
   const handleQueryChange = (value: string): void => {
     setQuery(value);
+    setActiveSuggestion(-1);
 
     if (debounceRef.current) {
       clearTimeout(debounceRef.current);
@@ -94,7 +100,30 @@ export function SearchBar({
     onSearch('');
   };
 
+  const handleSuggestionSelect = (suggestion: SearchSuggestion): void => {
+    handleQueryChange(suggestion.query);
+    inputRef.current?.focus();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent): void => {
+    if (showResults && suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveSuggestion((activeSuggestion + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveSuggestion((activeSuggestion - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && activeSuggestion >= 0) {
+        e.preventDefault();
+        handleSuggestionSelect(suggestions[activeSuggestion]);
+        return;
+      }
+    }
+
     if (e.key === 'Escape') {
       setShowResults(false);
       inputRef.current?.blur();
@@ -133,6 +162,14 @@ export function SearchBar({
       {/* Results dropdown */}
       {showResults && query.trim() && (
         <div className="absolute top-full left-0 right-0 mt-1 bg-popover border rounded-md shadow-lg z-50 max-h-80 overflow-y-auto">
+          {suggestions.length > 0 && (
+            <SearchSuggestionList
+              suggestions={suggestions}
+              activeIndex={activeSuggestion}
+              onSelect={handleSuggestionSelect}
+              className="border-b"
+            />
+          )}
           {results.length === 0 ? (
             <div className="p-4 text-center text-sm text-muted-foreground">
               {isLoading ? 'Searching...' : 'No results found'}
@@ -0,0 +1,55 @@
+'use client';
+
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+import type { SearchSuggestion } from '@/types';
+
+export interface SearchSuggestionListProps {
+  /** Suggestions for the term being typed */
+  suggestions: SearchSuggestion[];
+  /** Index of the suggestion highlighted with the keyboard, or -1 */
+  activeIndex: number;
+  /** Callback when a suggestion is accepted */
+  onSelect: (suggestion: SearchSuggestion) => void;
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * SearchSuggestionList Component
+ * Autocomplete list of search filter names and values.
+ *
+ * Requirements: 17.1
+ */
+export function SearchSuggestionList({
+  suggestions,
+  activeIndex,
+  onSelect,
+  className,
+}: SearchSuggestionListProps): React.ReactElement {
+  return (
+    <ul role="listbox" className={cn('py-1', className)}>
+      {suggestions.map((suggestion, index) => (
+        <li key={suggestion.label} role="option" aria-selected={index === activeIndex}>
+          <button
+            type="button"
+            className={cn(
+              'flex w-full items-center justify-between gap-3 px-3 py-1.5 text-left hover:bg-accent focus:outline-none',
+              index === activeIndex && 'bg-accent'
+            )}
+            // Keep focus in the search input
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(suggestion)}
+          >
+            <span className="font-mono text-xs">{suggestion.label}</span>
+            {suggestion.description && (
+              <span className="truncate text-xs text-muted-foreground">{suggestion.description}</span>
+            )}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default SearchSuggestionList;
@@ -0,0 +1,128 @@
+'use client';
+
+import * as React from 'react';
+import { ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { MAX_WORKFLOW_STATUSES, createStatusId } from '@/lib/utils/workflow';
+import type { WorkflowStatus } from '@/types';
+
+export interface StatusEditorProps {
+  /** The statuses being edited, in workflow order */
+  value: WorkflowStatus[];
+  /** Callback when the statuses change */
+  onChange: (statuses: WorkflowStatus[]) => void;
+  /** Whether the editor is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * StatusEditor Component
+ * Edits a list's workflow: renaming, reordering, adding and removing
+ * statuses, and marking which of them count as done.
+ */
+export function StatusEditor({ value, onChange, disabled = false }: StatusEditorProps): React.ReactElement {
+  const [newName, setNewName] = React.useState('');
+
+  const updateStatus = (index: number, changes: Partial<WorkflowStatus>): void => {
+    onChange(value.map((status, i) => (i === index ? { ...status, ...changes } : status)));
+  };
+
+  const moveStatus = (index: number, offset: number): void => {
+    const statuses = [...value];
+    [statuses[index], statuses[index + offset]] = [statuses[index + offset], statuses[index]];
+    onChange(statuses);
+  };
+
+  const handleAdd = (): void => {
+    const name = newName.trim();
+    if (!name) return;
+    onChange([...value, { id: createStatusId(name, value), name, done: false }]);
+    setNewName('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((status, index) => (
+        <div key={status.id} className="flex items-center gap-2">
+          <Input
+            value={status.name}
+            onChange={(e) => updateStatus(index, { name: e.target.value })}
+            aria-label={`Name of status ${index + 1}`}
+            className="h-9 flex-1"
+            disabled={disabled}
+          />
+          <label className="flex shrink-0 items-center gap-1.5 text-xs text-muted-foreground">
+            <Checkbox
+              checked={status.done}
+              onCheckedChange={(checked) => updateStatus(index, { done: checked === true })}
+              disabled={disabled}
+            />
+            Done
+          </label>
+          <div className="flex shrink-0">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => moveStatus(index, -1)}
+              disabled={disabled || index === 0}
+              aria-label={`Move ${status.name} up`}
+            >
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => moveStatus(index, 1)}
+              disabled={disabled || index === value.length - 1}
+              aria-label={`Move ${status.name} down`}
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              disabled={disabled || value.length <= 2}
+              aria-label={`Remove ${status.name}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {value.length < MAX_WORKFLOW_STATUSES && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="New status"
+            className="h-9 flex-1"
+            disabled={disabled}
+          />
+          <Button variant="outline" size="sm" onClick={handleAdd} disabled={disabled || !newName.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Tasks in a done status count as completed. Tasks in a removed status move to the first status that is done the same way.
+      </p>
+    </div>
+  );
+}
+
+export default StatusEditor;
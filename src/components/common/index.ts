@@ -13,12 +13,24 @@ export type { RecurrenceSelectorProps } from './RecurrenceSelector';
 export { SearchBar } from './SearchBar';
 export type { SearchBarProps } from './SearchBar';
 
+export { SearchSuggestionList } from './SearchSuggestionList';
+export type { SearchSuggestionListProps } from './SearchSuggestionList';
+
+export { HighlightedText } from './HighlightedText';
+export type { HighlightedTextProps } from './HighlightedText';
+
+export { SavedSearchDialog } from './SavedSearchDialog';
+export type { SavedSearchDialogProps } from './SavedSearchDialog';
+
 export { EmojiPicker } from './EmojiPicker';
 export type { EmojiPickerProps } from './EmojiPicker';
 
 export { ColorPicker, ColorDot } from './ColorPicker';
 export type { ColorPickerProps, ColorDotProps } from './ColorPicker';
 
+export { StatusEditor } from './StatusEditor';
+export type { StatusEditorProps } from './StatusEditor';
+
 export {
   Skeleton,
   TaskItemSkeleton,
@@ -7,7 +7,9 @@ import { motion, AnimatePresence, useDragControls, PanInfo } from 'framer-motion
 import { toast } from 'sonner';
 import { Sidebar } from './Sidebar';
 import { MainPanel } from './MainPanel';
+import { NotificationCenter } from './NotificationCenter';
 import { ErrorBoundary, SidebarSkeleton } from '@/components/common';
+import { useSavedSearches, useSavedSearchCounts } from '@/lib/hooks';
 import {
   Dialog,
   DialogContent,
@@ -102,6 +104,9 @@ export function AppLayout({ children, title }: AppLayoutProps) {
     queryFn: fetchLabels,
   });
 
+  const { data: savedSearches = [] } = useSavedSearches();
+  const { data: savedSearchCounts = {} } = useSavedSearchCounts();
+
   const { data: overdueCount = 0 } = useQuery({
     queryKey: ['overdueCount'],
     queryFn: fetchOverdueCount,
@@ -239,6 +244,8 @@ export function AppLayout({ children, title }: AppLayoutProps) {
             <Sidebar
               lists={lists}
               labels={labels}
+              savedSearches={savedSearches}
+              savedSearchCounts={savedSearchCounts}
               overdueCount={overdueCount}
               collapsed={sidebarCollapsed}
               onToggleCollapse={handleToggleSidebar}
@@ -282,6 +289,8 @@ export function AppLayout({ children, title }: AppLayoutProps) {
                   <Sidebar
                     lists={lists}
                     labels={labels}
+                    savedSearches={savedSearches}
+                    savedSearchCounts={savedSearchCounts}
                     overdueCount={overdueCount}
                     collapsed={false}
                     onToggleCollapse={handleCloseMobileMenu}
@@ -300,6 +309,7 @@ export function AppLayout({ children, title }: AppLayoutProps) {
           title={title}
           showMenuButton
           onMenuClick={handleMobileMenuClick}
+          actions={<NotificationCenter />}
         >
           <ErrorBoundary>
             {children}
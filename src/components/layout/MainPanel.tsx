@@ -7,12 +7,16 @@ import { Search, Sun, Moon, Menu, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { SearchSuggestionList } from '@/components/common';
+import { useSearchSuggestions } from '@/lib/hooks';
+import type { SearchSuggestion } from '@/types';
 
 interface MainPanelProps {
   children: React.ReactNode;
   title?: string;
   onMenuClick?: () => void;
   showMenuButton?: boolean;
+  actions?: React.ReactNode;
 }
 
 function ThemeToggle() {
@@ -60,13 +64,17 @@ interface SearchBarProps {
 /**
  * SearchBar Component
  * Responsive search bar that collapses to icon on mobile.
+ * Autocompletes filter names and values such as `list:` and `is:overdue`.
  * 
  * Requirements: 17.1, 20.2
  */
 function SearchBar({ onSearch, placeholder = 'Search tasks...', expanded, onToggleExpand }: SearchBarProps) {
   const router = useRouter();
   const [query, setQuery] = React.useState('');
+  const [showSuggestions, setShowSuggestions] = React.useState(false);
+  const [activeSuggestion, setActiveSuggestion] = React.useState(-1);
   const inputRef = React.useRef<HTMLInputElement>(null);
+  const suggestions = useSearchSuggestions(query);
 
   React.useEffect(() => {
     if (expanded && inputRef.current) {
@@ -77,6 +85,7 @@ function SearchBar({ onSearch, placeholder = 'Search tasks...', expanded, onTogg
   const handleSubmit = (e: React.FormEvent): void => {
     e.preventDefault();
     if (query.trim()) {
+      setShowSuggestions(false);
       router.push(`/search?q=${encodeURIComponent(query.trim())}`);
       onSearch?.(query);
     }
@@ -85,6 +94,32 @@ function SearchBar({ onSearch, placeholder = 'Search tasks...', expanded, onTogg
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
     const value = e.target.value;
     setQuery(value);
+    setActiveSuggestion(-1);
+    setShowSuggestions(true);
+  };
+
+  const handleSelectSuggestion = (suggestion: SearchSuggestion): void => {
+    setQuery(suggestion.query);
+    setActiveSuggestion(-1);
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (!showSuggestions || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveSuggestion((activeSuggestion + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveSuggestion((activeSuggestion - 1 + suggestions.length) % suggestions.length);
+    } else if ((e.key === 'Enter' || e.key === 'Tab') && activeSuggestion >= 0) {
+      // Accept the highlighted suggestion instead of submitting
+      e.preventDefault();
+      handleSelectSuggestion(suggestions[activeSuggestion]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
   };
 
   const handleClear = (): void => {
@@ -126,12 +161,24 @@ function SearchBar({ onSearch, placeholder = 'Search tasks...', expanded, onTogg
           placeholder={placeholder}
           value={query}
           onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => setShowSuggestions(false)}
           className={cn(
             'pl-9 h-9',
             // Mobile expanded: full width
             expanded && 'flex-1 sm:flex-initial'
           )}
         />
+        {showSuggestions && suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover shadow-lg">
+            <SearchSuggestionList
+              suggestions={suggestions}
+              activeIndex={activeSuggestion}
+              onSelect={handleSelectSuggestion}
+            />
+          </div>
+        )}
         {/* Mobile: close button when expanded */}
         {expanded && (
           <Button
@@ -161,6 +208,7 @@ export function MainPanel({
   title,
   onMenuClick,
   showMenuButton = false,
+  actions,
 }: MainPanelProps) {
   const [searchExpanded, setSearchExpanded] = React.useState(false);
 
@@ -203,6 +251,7 @@ export function MainPanel({
 
         {!searchExpanded && (
           <div className="flex items-center gap-1 sm:gap-2 shrink-0 ml-auto sm:ml-0">
+            {actions}
             <ThemeToggle />
           </div>
         )}
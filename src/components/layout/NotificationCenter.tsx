@@ -0,0 +1,226 @@
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, BellOff, BellRing, Check, CheckCheck, ExternalLink } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useNotifications,
+  useNotificationMutations,
+  usePushSubscription,
+  usePushMutations,
+  isPushSupported,
+} from '@/lib/hooks';
+import { showError } from '@/lib/utils/toast';
+import { getTaskPath } from '@/lib/utils/reminders';
+import type { Notification } from '@/types';
+
+const SNOOZE_PRESETS: { value: number; label: string }[] = [
+  { value: 5, label: '5 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 1440, label: '1 day' },
+];
+
+interface NotificationItemProps {
+  notification: Notification;
+  onOpen: (notification: Notification) => void;
+  onMarkRead: (id: string) => void;
+  onSnooze: (id: string, minutes: number) => void;
+}
+
+function NotificationItem({ notification, onOpen, onMarkRead, onSnooze }: NotificationItemProps) {
+  return (
+    <li
+      className={cn(
+        'flex flex-col gap-1 rounded-md px-3 py-2',
+        !notification.read && 'bg-accent/50'
+      )}
+    >
+      <div className="flex items-start gap-2">
+        {!notification.read && (
+          <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" aria-label="Unread" />
+        )}
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium">{notification.title}</p>
+          {notification.body && (
+            <p className="text-xs text-muted-foreground">{notification.body}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => onOpen(notification)}
+        >
+          <ExternalLink className="h-3.5 w-3.5 mr-1" />
+          Open task
+        </Button>
+        {!notification.read && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => onMarkRead(notification.id)}
+          >
+            <Check className="h-3.5 w-3.5 mr-1" />
+            Mark read
+          </Button>
+        )}
+        <Select onValueChange={(v) => onSnooze(notification.id, parseInt(v, 10))}>
+          <SelectTrigger className="h-7 w-auto gap-1 border-none px-2 text-xs shadow-none">
+            <SelectValue placeholder="Snooze" />
+          </SelectTrigger>
+          <SelectContent>
+            {SNOOZE_PRESETS.map((preset) => (
+              <SelectItem key={preset.value} value={preset.value.toString()}>
+                {preset.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * NotificationCenter Component
+ * Bell button with an unread badge that opens the in-app notification inbox.
+ * Notifications can be marked read, snoozed, or used to jump to their task.
+ *
+ * Requirements: 27.2, 27.3
+ */
+export function NotificationCenter() {
+  const router = useRouter();
+  const [open, setOpen] = React.useState(false);
+  const { data: notifications = [] } = useNotifications();
+  const { markRead, markAllRead, snooze } = useNotificationMutations();
+  const { data: pushEnabled = false } = usePushSubscription();
+  const pushMutations = usePushMutations();
+
+  const unreadCount = notifications.filter(n => !n.read).length;
+
+  const handleMarkRead = (id: string): void => {
+    markRead.mutate(id, {
+      onError: () => showError('Failed to mark notification as read'),
+    });
+  };
+
+  const handleMarkAllRead = (): void => {
+    markAllRead.mutate(undefined, {
+      onError: () => showError('Failed to mark notifications as read'),
+    });
+  };
+
+  const handleSnooze = (id: string, minutes: number): void => {
+    snooze.mutate({ id, minutes }, {
+      onError: () => showError('Failed to snooze notification'),
+    });
+  };
+
+  const handleTogglePush = (): void => {
+    const mutation = pushEnabled ? pushMutations.unsubscribe : pushMutations.subscribe;
+    mutation.mutate(undefined, {
+      onError: (error: Error) => showError(error.message),
+    });
+  };
+
+  const handleOpen = (notification: Notification): void => {
+    if (!notification.read) {
+      markRead.mutate(notification.id);
+    }
+    setOpen(false);
+    router.push(getTaskPath(notification.listId, notification.taskId));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-9 w-9 sm:h-10 sm:w-10">
+          <Bell className="h-4 w-4 sm:h-5 sm:w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] text-destructive-foreground">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <h3 className="text-sm font-semibold">Notifications</h3>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={handleMarkAllRead}
+              disabled={markAllRead.isPending}
+            >
+              <CheckCheck className="h-3.5 w-3.5 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+
+        {isPushSupported() && (
+          <div className="flex items-center justify-between border-b px-3 py-2 text-xs text-muted-foreground">
+            <span>Browser notifications {pushEnabled ? 'on' : 'off'}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={handleTogglePush}
+              disabled={pushMutations.subscribe.isPending || pushMutations.unsubscribe.isPending}
+            >
+              <BellRing className="h-3.5 w-3.5 mr-1" />
+              {pushEnabled ? 'Disable' : 'Enable'}
+            </Button>
+          </div>
+        )}
+
+        {notifications.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 px-3 py-8 text-center text-sm text-muted-foreground">
+            <BellOff className="h-5 w-5" />
+            No notifications
+          </div>
+        ) : (
+          <ul className="max-h-96 space-y-1 overflow-y-auto p-1">
+            {notifications.map((notification) => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onOpen={handleOpen}
+                onMarkRead={handleMarkRead}
+                onSnooze={handleSnooze}
+              />
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default NotificationCenter;
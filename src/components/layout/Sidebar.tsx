@@ -8,17 +8,21 @@ import {
   Calendar,
   CalendarDays,
   CalendarRange,
+  CalendarClock,
+  Grid2x2,
   ListTodo,
   Inbox,
   Tag,
   ChevronRight,
   Plus,
   AlertCircle,
+  ListFilter,
+  Settings,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import type { List, Label } from '@/types';
+import type { List, Label, SavedSearch } from '@/types';
 
 /**
  * Sidebar animation variants for Framer Motion
@@ -69,6 +73,10 @@ const navItemVariants: Variants = {
 interface SidebarProps {
   lists: List[];
   labels: Label[];
+  /** Saved searches shown as smart lists */
+  savedSearches?: SavedSearch[];
+  /** Number of incomplete tasks matching each saved search, by ID */
+  savedSearchCounts?: Record<string, number>;
   overdueCount: number;
   collapsed?: boolean;
   onToggleCollapse?: () => void;
@@ -189,11 +197,13 @@ function SectionHeader({ title, collapsed, onAdd }: { title: string; collapsed?:
  * Animated sidebar with collapsible navigation using Framer Motion.
  * Supports both desktop (collapsible) and mobile (overlay) modes.
  * 
- * Requirements: 18.1, 18.2, 18.3, 18.4, 20.2, 20.3, 21.1
+ * Requirements: 17.1, 18.1, 18.2, 18.3, 18.4, 20.2, 20.3, 21.1
  */
 export function Sidebar({
   lists,
   labels,
+  savedSearches = [],
+  savedSearchCounts = {},
   overdueCount,
   collapsed = false,
   onToggleCollapse,
@@ -207,6 +217,8 @@ export function Sidebar({
     { href: '/today', icon: <Calendar className="h-4 w-4" />, label: 'Today' },
     { href: '/next-7-days', icon: <CalendarDays className="h-4 w-4" />, label: 'Next 7 Days' },
     { href: '/upcoming', icon: <CalendarRange className="h-4 w-4" />, label: 'Upcoming' },
+    { href: '/calendar', icon: <CalendarClock className="h-4 w-4" />, label: 'Calendar' },
+    { href: '/matrix', icon: <Grid2x2 className="h-4 w-4" />, label: 'Matrix' },
     { href: '/all', icon: <ListTodo className="h-4 w-4" />, label: 'All' },
   ];
 
@@ -335,6 +347,27 @@ export function Sidebar({
           ))}
         </div>
 
+        {/* Saved Searches Section */}
+        {savedSearches.length > 0 && (
+          <div className="mt-6 space-y-1">
+            <SectionHeader title="Saved Searches" collapsed={isCollapsed} />
+            {savedSearches.map((savedSearch, index) => (
+              <NavItem
+                key={savedSearch.id}
+                href={`/saved/${savedSearch.id}`}
+                icon={<ListFilter className="h-4 w-4" />}
+                label={savedSearch.name}
+                badge={savedSearchCounts[savedSearch.id]}
+                isActive={pathname === `/saved/${savedSearch.id}`}
+                collapsed={isCollapsed}
+                emoji={savedSearch.emoji}
+                index={index}
+                isMobile={isMobile}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Labels Section */}
         <div className="mt-6 space-y-1">
           <SectionHeader title="Labels" collapsed={isCollapsed} onAdd={onCreateLabel} />
@@ -352,6 +385,18 @@ export function Sidebar({
           ))}
         </div>
       </nav>
+
+      {/* Settings */}
+      <div className="border-t p-2">
+        <NavItem
+          href="/settings"
+          icon={<Settings className="h-4 w-4" />}
+          label="Settings"
+          isActive={pathname === '/settings'}
+          collapsed={isCollapsed}
+          isMobile={isMobile}
+        />
+      </div>
     </motion.aside>
   );
 }
@@ -1,3 +1,4 @@
 export { Sidebar } from './Sidebar';
 export { MainPanel } from './MainPanel';
 export { AppLayout } from './AppLayout';
+export { NotificationCenter } from './NotificationCenter';
@@ -0,0 +1,198 @@
+'use client';
+
+import * as React from 'react';
+import { format, isToday as isTodayFn, isTomorrow as isTomorrowFn } from 'date-fns';
+import { ArrowRight, CalendarOff } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { PriorityBadge, Skeleton } from '@/components/common';
+import { useAutoPlan, useAutoPlanMutations } from '@/lib/hooks';
+import { showSuccess, showError } from '@/lib/utils/toast';
+import type { AutoPlanAssignment } from '@/types';
+
+export interface AutoPlanDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog opens or closes */
+  onOpenChange: (open: boolean) => void;
+  /** Number of days to plan, starting today */
+  days: number;
+}
+
+/**
+ * Formats a day heading for a planned start time
+ */
+function formatDay(date: Date): string {
+  if (isTodayFn(date)) return 'Today';
+  if (isTomorrowFn(date)) return 'Tomorrow';
+  return format(date, 'EEEE, MMM d');
+}
+
+/**
+ * Groups assignments by the day they start on, keeping their order
+ */
+function groupByDay(assignments: AutoPlanAssignment[]): Array<[string, AutoPlanAssignment[]]> {
+  const groups = new Map<string, AutoPlanAssignment[]>();
+  for (const assignment of assignments) {
+    const day = formatDay(assignment.startTime);
+    groups.set(day, [...(groups.get(day) ?? []), assignment]);
+  }
+  return [...groups.entries()];
+}
+
+/**
+ * Plan preview, mounted each time the dialog opens so every task starts selected
+ */
+function AutoPlanPreview({ days, onClose }: { days: number; onClose: () => void }): React.ReactElement {
+  const { data: plan, isLoading, error } = useAutoPlan(days);
+  const { apply } = useAutoPlanMutations();
+  const [excluded, setExcluded] = React.useState<Set<string>>(new Set());
+
+  const selected = plan?.assignments.filter(assignment => !excluded.has(assignment.task.id)) ?? [];
+
+  const toggle = (taskId: string): void => {
+    setExcluded(current => {
+      const next = new Set(current);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
+
+  const handleApply = (): void => {
+    apply.mutate(
+      selected.map(assignment => ({ taskId: assignment.task.id, date: assignment.startTime })),
+      {
+        onSuccess: (tasks) => {
+          showSuccess(`Scheduled ${tasks.length} task${tasks.length !== 1 ? 's' : ''}`);
+          onClose();
+        },
+        onError: (err) => showError(err.message),
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2 py-4">
+        {Array.from({ length: 4 }).map((_, index) => (
+          <Skeleton key={index} className="h-12 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !plan) {
+    return <p className="py-4 text-sm text-destructive">{error?.message ?? 'Failed to plan tasks'}</p>;
+  }
+
+  return (
+    <>
+      <div className="max-h-[60vh] space-y-4 overflow-y-auto py-2">
+        {plan.assignments.length === 0 && plan.unplanned.length === 0 && (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Nothing to plan. Tasks need an estimate and no set time to be planned.
+          </p>
+        )}
+
+        {groupByDay(plan.assignments).map(([day, assignments]) => (
+          <div key={day} className="space-y-1">
+            <h3 className="text-sm font-semibold">{day}</h3>
+            {assignments.map(({ task, startTime, endTime }) => (
+              <label
+                key={task.id}
+                className="flex cursor-pointer items-start gap-3 rounded-md border p-2 hover:bg-accent/50"
+              >
+                <Checkbox
+                  checked={!excluded.has(task.id)}
+                  onCheckedChange={() => toggle(task.id)}
+                  className="mt-0.5"
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate text-sm font-medium">{task.name}</span>
+                    <PriorityBadge priority={task.priority} />
+                  </div>
+                  <div className="mt-0.5 flex flex-wrap items-center gap-1.5 text-xs">
+                    <span className="text-muted-foreground line-through">
+                      {task.date ? format(task.date, 'MMM d') : 'No date'}
+                    </span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <span className="font-medium text-green-600 dark:text-green-400">
+                      {format(startTime, 'MMM d, h:mm a')} – {format(endTime, 'h:mm a')}
+                    </span>
+                    {task.deadline && (
+                      <span className={endTime > task.deadline ? 'text-destructive' : 'text-muted-foreground'}>
+                        · due {format(task.deadline, 'MMM d, h:mm a')}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+        ))}
+
+        {plan.unplanned.length > 0 && (
+          <div className="space-y-1">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground">
+              <CalendarOff className="h-4 w-4" />
+              No free time
+            </h3>
+            {plan.unplanned.map(task => (
+              <div key={task.id} className="flex items-center gap-2 rounded-md p-2 text-sm text-muted-foreground">
+                <span className="truncate">{task.name}</span>
+                <span className="shrink-0 text-xs">{task.estimate} min</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleApply} disabled={selected.length === 0 || apply.isPending}>
+          {apply.isPending
+            ? 'Scheduling...'
+            : `Schedule ${selected.length} task${selected.length !== 1 ? 's' : ''}`}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+/**
+ * AutoPlanDialog Component
+ * Previews start times for every task with an estimate and no set time,
+ * packed into free working hours by priority and deadline, and saves the
+ * ones the user keeps.
+ *
+ * Requirements: 29.1, 29.3
+ */
+export function AutoPlanDialog({ open, onOpenChange, days }: AutoPlanDialogProps): React.ReactElement {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Auto-plan</DialogTitle>
+          <DialogDescription>
+            {days === 1 ? 'Proposed times for today.' : `Proposed times for the next ${days} days.`}{' '}
+            Nothing changes until you schedule them.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <AutoPlanPreview days={days} onClose={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default AutoPlanDialog;
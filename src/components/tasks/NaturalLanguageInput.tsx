@@ -7,7 +7,12 @@ import {
   Clock,
   Flag,
   FolderOpen,
+  AlarmClock,
+  Hourglass,
+  Repeat,
   Sparkles,
+  Tag,
+  Timer,
   Check,
   X,
 } from 'lucide-react';
@@ -15,8 +20,9 @@ import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import type { ParsedTaskInput, Priority, List } from '@/types';
+import type { ParsedTaskInput, ParsedTokenSpan, ParsedTokenType, Priority, List } from '@/types';
 import { parse as parseNaturalLanguage } from '@/lib/services/nlp-parser.service';
+import { formatRecurrencePattern } from '@/lib/utils/recurrence';
 
 interface NaturalLanguageInputProps {
   lists?: List[];
@@ -34,9 +40,45 @@ const priorityLabels: Record<Priority, { label: string; color: string }> = {
   none: { label: 'None', color: 'text-muted-foreground' },
 };
 
+const tokenHighlights: Record<ParsedTokenType, string> = {
+  date: 'bg-blue-500/20',
+  deadline: 'bg-orange-500/20',
+  startDate: 'bg-indigo-500/20',
+  recurrence: 'bg-cyan-500/20',
+  priority: 'bg-red-500/20',
+  list: 'bg-purple-500/20',
+  label: 'bg-green-500/20',
+  estimate: 'bg-yellow-500/20',
+};
+
+/**
+ * Renders the input text with recognized tokens highlighted.
+ * The text itself is transparent; this sits behind the input and only
+ * shows the highlight backgrounds.
+ */
+function renderHighlights(text: string, spans: ParsedTokenSpan[]): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let position = 0;
+
+  for (const span of spans) {
+    if (span.start < position) continue;
+    nodes.push(text.slice(position, span.start));
+    nodes.push(
+      <mark key={span.start} className={cn('rounded-sm text-transparent', tokenHighlights[span.type])}>
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    position = span.end;
+  }
+
+  nodes.push(text.slice(position));
+  return nodes;
+}
+
 /**
  * NaturalLanguageInput Component
- * Text input with parsing preview and confirmation before task creation.
+ * Text input with inline token highlighting, parsing preview and confirmation
+ * before task creation.
  * 
  * Requirements: 28.1, 28.4
  */
@@ -52,6 +94,13 @@ export function NaturalLanguageInput({
   const [parsed, setParsed] = React.useState<ParsedTaskInput | null>(null);
   const [showPreview, setShowPreview] = React.useState(false);
   const inputRef = React.useRef<HTMLInputElement>(null);
+  const highlightRef = React.useRef<HTMLDivElement>(null);
+
+  // Spans are computed on every keystroke so highlights stay aligned with the text
+  const spans = React.useMemo(
+    () => (input.trim() ? parseNaturalLanguage(input).spans ?? [] : []),
+    [input]
+  );
 
   // Parse input on change with debounce
   React.useEffect(() => {
@@ -119,21 +168,41 @@ export function NaturalLanguageInput({
   const hasExtractedData = parsed && (
     parsed.date ||
     parsed.time ||
+    parsed.deadline ||
+    parsed.startDate ||
     parsed.priority ||
-    parsed.listName
+    parsed.listName ||
+    parsed.labels?.length ||
+    parsed.estimate ||
+    parsed.recurrence
   );
 
+  // Keep the highlight layer scrolled with the input when the text overflows
+  const handleScroll = (e: React.UIEvent<HTMLInputElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+  };
+
   return (
     <div className={cn('space-y-2', className)}>
       <form onSubmit={handleSubmit} className="relative">
         <div className="relative flex items-center">
           <Sparkles className="absolute left-3 h-4 w-4 text-muted-foreground" />
+          <div
+            ref={highlightRef}
+            aria-hidden
+            className="pointer-events-none absolute inset-0 flex items-center overflow-hidden whitespace-pre border border-transparent pl-9 pr-20 text-base text-transparent md:text-sm"
+          >
+            {renderHighlights(input, spans)}
+          </div>
           <Input
             ref={inputRef}
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
+            onScroll={handleScroll}
             placeholder={placeholder}
             className="pl-9 pr-20"
             autoFocus={autoFocus}
@@ -188,6 +257,30 @@ export function NaturalLanguageInput({
                     </span>
                   )}
 
+                  {/* Deadline */}
+                  {parsed.deadline && (
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      <AlarmClock className="h-3 w-3" />
+                      Due {format(parsed.deadline, 'MMM d, h:mm a')}
+                    </span>
+                  )}
+
+                  {/* Start date */}
+                  {parsed.startDate && (
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      <Hourglass className="h-3 w-3" />
+                      Starts {format(parsed.startDate, 'MMM d')}
+                    </span>
+                  )}
+
+                  {/* Recurrence */}
+                  {parsed.recurrence && (
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      <Repeat className="h-3 w-3" />
+                      {formatRecurrencePattern(parsed.recurrence)}
+                    </span>
+                  )}
+
                   {/* Priority */}
                   {parsed.priority && parsed.priority !== 'none' && (
                     <Badge
@@ -213,6 +306,22 @@ export function NaturalLanguageInput({
                       )}
                     </span>
                   )}
+
+                  {/* Labels */}
+                  {parsed.labels?.map((label) => (
+                    <span key={label} className="flex items-center gap-1 text-muted-foreground">
+                      <Tag className="h-3 w-3" />
+                      {label}
+                    </span>
+                  ))}
+
+                  {/* Estimate */}
+                  {parsed.estimate && (
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      <Timer className="h-3 w-3" />
+                      {formatMinutes(parsed.estimate)}
+                    </span>
+                  )}
                 </div>
               )}
             </div>
@@ -243,11 +352,21 @@ export function NaturalLanguageInput({
       {/* Help text */}
       {!showPreview && !input && (
         <p className="text-xs text-muted-foreground px-1">
-          Try: &quot;Buy groceries tomorrow&quot;, &quot;Call mom at 3pm urgent&quot;, &quot;Review PR in Work&quot;
+          Try: &quot;Buy groceries tomorrow&quot;, &quot;Draft report tomorrow due Friday 5pm&quot;, &quot;Standup every weekday at 9am&quot;, &quot;Review PR #Work @code ~30m !1&quot;
         </p>
       )}
     </div>
   );
 }
 
+// Helper functions
+
+function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (h === 0) return `${m}m`;
+  if (m === 0) return `${h}h`;
+  return `${h}h ${m}m`;
+}
+
 export default NaturalLanguageInput;
@@ -0,0 +1,202 @@
+'use client';
+
+import * as React from 'react';
+import { format, isToday as isTodayFn, isTomorrow as isTomorrowFn } from 'date-fns';
+import { ArrowRight, CalendarOff } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { PriorityBadge, Skeleton } from '@/components/common';
+import {
+  useAutoPlanMutations,
+  useOverdueScheduledTasks,
+  useRescheduleMutations,
+  useRescheduleSuggestions,
+} from '@/lib/hooks';
+import { getRescheduleDay, moveToDay, type RescheduleTarget } from '@/lib/utils/rollover';
+import { showSuccess, showError } from '@/lib/utils/toast';
+import type { Task } from '@/types';
+
+// Where the dialog moves the overdue tasks
+type RescheduleChoice = RescheduleTarget | 'suggestions';
+
+const CHOICES: Array<{ value: RescheduleChoice; label: string }> = [
+  { value: 'today', label: 'Today' },
+  { value: 'tomorrow', label: 'Tomorrow' },
+  { value: 'suggestions', label: 'Suggested times' },
+];
+
+export interface RescheduleDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog opens or closes */
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Formats a new date for a task, with its time of day when it has one
+ */
+function formatNewDate(date: Date): string {
+  const day = isTodayFn(date) ? 'Today' : isTomorrowFn(date) ? 'Tomorrow' : format(date, 'EEE, MMM d');
+  return date.getHours() === 0 && date.getMinutes() === 0 ? day : `${day}, ${format(date, 'h:mm a')}`;
+}
+
+/**
+ * A task's old date and where it moves to
+ */
+function RescheduleRow({ task, newDate }: { task: Task; newDate?: Date }): React.ReactElement {
+  return (
+    <div className="flex items-start gap-3 rounded-md border p-2">
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <span className="truncate text-sm font-medium">{task.name}</span>
+          <PriorityBadge priority={task.priority} />
+        </div>
+        <div className="mt-0.5 flex flex-wrap items-center gap-1.5 text-xs">
+          <span className="text-muted-foreground line-through">{format(task.date!, 'MMM d')}</span>
+          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+          {newDate ? (
+            <span className="font-medium text-green-600 dark:text-green-400">{formatNewDate(newDate)}</span>
+          ) : (
+            <span className="text-muted-foreground">Stays where it is</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Reschedule preview, mounted each time the dialog opens
+ */
+function ReschedulePreview({ onClose }: { onClose: () => void }): React.ReactElement {
+  const [choice, setChoice] = React.useState<RescheduleChoice>('today');
+  const { data: tasks = [], isLoading, error } = useOverdueScheduledTasks();
+  const suggestions = useRescheduleSuggestions(choice === 'suggestions');
+  const { moveAll } = useRescheduleMutations();
+  const { apply } = useAutoPlanMutations();
+
+  const isPending = moveAll.isPending || apply.isPending;
+  const plan = suggestions.data;
+  const isPlanning = choice === 'suggestions' && suggestions.isLoading;
+  const count = choice === 'suggestions' ? plan?.assignments.length ?? 0 : tasks.length;
+
+  const getNewDate = (task: Task): Date | undefined => {
+    if (choice !== 'suggestions') return moveToDay(task.date!, getRescheduleDay(choice));
+    return plan?.assignments.find(assignment => assignment.task.id === task.id)?.startTime;
+  };
+
+  const handleSuccess = (moved: Task[]): void => {
+    showSuccess(`Rescheduled ${moved.length} task${moved.length !== 1 ? 's' : ''}`);
+    onClose();
+  };
+
+  const handleApply = (): void => {
+    if (choice !== 'suggestions') {
+      moveAll.mutate(choice, { onSuccess: handleSuccess, onError: (err) => showError(err.message) });
+      return;
+    }
+    apply.mutate(
+      (plan?.assignments ?? []).map(assignment => ({ taskId: assignment.task.id, date: assignment.startTime })),
+      { onSuccess: handleSuccess, onError: (err) => showError(err.message) }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2 py-4">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <Skeleton key={index} className="h-12 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="py-4 text-sm text-destructive">{error.message}</p>;
+  }
+
+  return (
+    <>
+      <div className="flex gap-1 rounded-md border p-1" role="radiogroup" aria-label="Move overdue tasks to">
+        {CHOICES.map(option => (
+          <Button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={choice === option.value}
+            variant={choice === option.value ? 'secondary' : 'ghost'}
+            size="sm"
+            className="flex-1"
+            onClick={() => setChoice(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="max-h-[50vh] space-y-2 overflow-y-auto py-2">
+        {tasks.length === 0 && (
+          <p className="py-6 text-center text-sm text-muted-foreground">Nothing is overdue.</p>
+        )}
+
+        {isPlanning
+          ? Array.from({ length: Math.min(tasks.length, 4) }).map((_, index) => (
+            <Skeleton key={index} className="h-12 w-full" />
+          ))
+          : tasks.map(task => <RescheduleRow key={task.id} task={task} newDate={getNewDate(task)} />)}
+
+        {choice === 'suggestions' && suggestions.error && (
+          <p className="text-sm text-destructive">{suggestions.error.message}</p>
+        )}
+        {choice === 'suggestions' && plan && plan.unplanned.length > 0 && (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <CalendarOff className="h-3.5 w-3.5" />
+            Tasks without an estimate or a free slot stay where they are.
+          </p>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleApply} disabled={count === 0 || isPlanning || isPending}>
+          {isPending ? 'Rescheduling...' : `Reschedule ${count} task${count !== 1 ? 's' : ''}`}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+/**
+ * RescheduleDialog Component
+ * Moves every task scheduled before today that isn't done to today, to
+ * tomorrow (both keeping its time of day), or to the times the scheduler
+ * suggests in free working hours.
+ *
+ * Requirements: 12.1, 29.1
+ */
+export function RescheduleDialog({ open, onOpenChange }: RescheduleDialogProps): React.ReactElement {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Reschedule all overdue</DialogTitle>
+          <DialogDescription>
+            Move the tasks left over from earlier days. Nothing changes until you reschedule them.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <ReschedulePreview onClose={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default RescheduleDialog;
@@ -1,12 +1,13 @@
 'use client';
 
 import * as React from 'react';
-import { format, isToday as isTodayFn, isTomorrow as isTomorrowFn } from 'date-fns';
-import { Sparkles, Clock, Calendar, Check, ChevronDown, ChevronUp } from 'lucide-react';
+import { addDays, format, isToday as isTodayFn, isTomorrow as isTomorrowFn, startOfDay } from 'date-fns';
+import { Sparkles, Clock, Calendar, CalendarX, Check, ChevronDown, ChevronUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import type { ScheduleSuggestion, Task } from '@/types';
+import { useBusyBlocks } from '@/lib/hooks';
+import type { BusyBlock, ScheduleSuggestion, Task } from '@/types';
 
 interface ScheduleSuggestionsProps {
   /** Task data used to generate suggestions (needs estimate) */
@@ -25,7 +26,9 @@ interface ScheduleSuggestionsProps {
 async function fetchScheduleSuggestions(
   estimate: number,
   priority: string,
-  deadline?: Date
+  deadline?: Date,
+  blockedByIds: string[] = [],
+  startDate?: Date
 ): Promise<ScheduleSuggestion[]> {
   const params = new URLSearchParams({
     estimate: String(estimate),
@@ -36,6 +39,14 @@ async function fetchScheduleSuggestions(
     params.append('deadline', deadline.toISOString());
   }
 
+  if (blockedByIds.length > 0) {
+    params.append('blockedBy', blockedByIds.join(','));
+  }
+
+  if (startDate) {
+    params.append('startDate', startDate.toISOString());
+  }
+
   const res = await fetch(`/api/tasks/schedule-suggestions?${params}`);
   if (!res.ok) {
     throw new Error('Failed to fetch schedule suggestions');
@@ -67,12 +78,46 @@ function getScoreBadgeVariant(score: number): 'default' | 'secondary' | 'outline
   return 'outline';
 }
 
+/**
+ * Formats a day label relative to today
+ */
+function formatDay(date: Date): string {
+  if (isTodayFn(date)) return 'Today';
+  if (isTomorrowFn(date)) return 'Tomorrow';
+  return format(date, 'EEE, MMM d');
+}
+
+/**
+ * Gets the whole days covered by a set of suggestions
+ */
+function getSuggestionRange(suggestions: ScheduleSuggestion[]): { start: Date; end: Date } {
+  const times = suggestions.flatMap(s => [s.startTime.getTime(), s.endTime.getTime()]);
+  const now = Date.now();
+  return {
+    start: startOfDay(times.length > 0 ? Math.min(...times) : now),
+    end: addDays(startOfDay(times.length > 0 ? Math.max(...times) : now), 1),
+  };
+}
+
+/**
+ * Groups busy blocks by the day they start on, keeping their order
+ */
+function groupBusyByDay(blocks: BusyBlock[]): Array<[string, BusyBlock[]]> {
+  const groups = new Map<string, BusyBlock[]>();
+  for (const block of blocks) {
+    const day = formatDay(block.start);
+    groups.set(day, [...(groups.get(day) ?? []), block]);
+  }
+  return [...groups.entries()];
+}
+
 /**
  * ScheduleSuggestions Component
  * Displays smart scheduling suggestions when creating an unscheduled task with an estimate.
  * Shows ranked options with reasons and allows accepting a suggestion.
+ * Calendar events on the suggested days are shown greyed out as busy time.
  * 
- * Requirements: 29.1, 29.4, 29.5
+ * Requirements: 29.1, 29.3, 29.4, 29.5
  */
 export function ScheduleSuggestions({
   taskData,
@@ -86,6 +131,10 @@ export function ScheduleSuggestions({
   const [isExpanded, setIsExpanded] = React.useState(true);
   const [hasFetched, setHasFetched] = React.useState(false);
 
+  // Blocker IDs as a string, so effects compare them by value
+  const blockedByKey = (taskData.blockedBy ?? []).map(b => b.id).join(',');
+  const startTime = taskData.startDate?.getTime();
+
   // Determine if we should show suggestions
   // Show when: has estimate, no date set
   const shouldShowSuggestions = !!(taskData.estimate && taskData.estimate > 0 && !taskData.date);
@@ -109,7 +158,9 @@ export function ScheduleSuggestions({
         const results = await fetchScheduleSuggestions(
           taskData.estimate!,
           taskData.priority || 'none',
-          taskData.deadline
+          taskData.deadline,
+          blockedByKey ? blockedByKey.split(',') : [],
+          startTime !== undefined ? new Date(startTime) : undefined
         );
         setSuggestions(results);
         setHasFetched(true);
@@ -122,12 +173,15 @@ export function ScheduleSuggestions({
     };
 
     fetchSuggestions();
-  }, [shouldShowSuggestions, taskData.estimate, taskData.priority, taskData.deadline, hasFetched]);
+  }, [shouldShowSuggestions, taskData.estimate, taskData.priority, taskData.deadline, blockedByKey, startTime, hasFetched]);
+
+  const range = React.useMemo(() => getSuggestionRange(suggestions), [suggestions]);
+  const { data: busyBlocks = [] } = useBusyBlocks(range.start, range.end, suggestions.length > 0);
 
-  // Reset hasFetched when estimate changes
+  // Reset hasFetched when the estimate, blockers or start date change
   React.useEffect(() => {
     setHasFetched(false);
-  }, [taskData.estimate]);
+  }, [taskData.estimate, blockedByKey, startTime]);
 
   // Don't render if conditions aren't met
   if (!shouldShowSuggestions) {
@@ -188,6 +242,8 @@ export function ScheduleSuggestions({
                   onAccept={() => onAcceptSuggestion(suggestion)}
                 />
               ))}
+
+              {busyBlocks.length > 0 && <BusyTime blocks={busyBlocks} />}
             </div>
           )}
         </div>
@@ -196,6 +252,37 @@ export function ScheduleSuggestions({
   );
 }
 
+/**
+ * Calendar events on the suggested days, greyed out as time that is already taken
+ */
+function BusyTime({ blocks }: { blocks: BusyBlock[] }): React.ReactElement {
+  return (
+    <div className="space-y-2 pt-2">
+      <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <CalendarX className="h-3.5 w-3.5" />
+        Busy on your calendars:
+      </p>
+      {groupBusyByDay(blocks).map(([day, dayBlocks]) => (
+        <div key={day} className="space-y-1">
+          <span className="text-xs font-medium text-muted-foreground">{day}</span>
+          {dayBlocks.map(block => (
+            <div
+              key={block.id}
+              className="flex items-center gap-2 rounded-md border border-dashed bg-muted/50 px-2 py-1.5 text-xs text-muted-foreground opacity-70"
+            >
+              <Clock className="h-3 w-3 shrink-0" />
+              <span className="shrink-0">
+                {format(block.start, 'h:mm a')} - {format(block.end, 'h:mm a')}
+              </span>
+              <span className="truncate">{block.summary ?? 'Busy'}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 interface SuggestionItemProps {
   suggestion: ScheduleSuggestion;
   rank: number;
@@ -208,10 +295,7 @@ interface SuggestionItemProps {
 function SuggestionItem({ suggestion, rank, onAccept }: SuggestionItemProps): React.ReactElement {
   const { startTime, endTime, score, reason } = suggestion;
   
-  const dateStr = format(startTime, 'EEE, MMM d');
   const timeStr = `${format(startTime, 'h:mm a')} - ${format(endTime, 'h:mm a')}`;
-  const isToday = isTodayFn(startTime);
-  const isTomorrow = isTomorrowFn(startTime);
 
   return (
     <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 p-2 sm:p-3 rounded-md bg-background border hover:border-primary/50 transition-colors">
@@ -237,7 +321,7 @@ function SuggestionItem({ suggestion, rank, onAccept }: SuggestionItemProps): Re
         <div className="flex items-center gap-2 text-sm">
           <Calendar className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
           <span className="font-medium">
-            {isToday ? 'Today' : isTomorrow ? 'Tomorrow' : dateStr}
+            {formatDay(startTime)}
           </span>
         </div>
         <div className="flex items-center gap-2 text-xs text-muted-foreground mt-0.5">
@@ -0,0 +1,190 @@
+'use client';
+
+import * as React from 'react';
+import { format } from 'date-fns';
+import { Calendar, Flag, Hourglass, Repeat } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { PriorityBadge } from '@/components/common';
+import { getBoardColumns, type BoardColumn } from '@/lib/utils/board';
+import { isOverdue } from '@/lib/utils/overdue';
+import { isDeferred } from '@/lib/utils/defer';
+import type { BoardGrouping, Label, Task, WorkflowStatus } from '@/types';
+
+// Drag data type for board cards: the task and the column it is dragged from
+const BOARD_DRAG_TYPE = 'application/x-board-card';
+
+interface BoardDrag {
+  taskId: string;
+  columnId: string;
+}
+
+export interface TaskBoardProps {
+  /** Tasks on the board */
+  tasks: Task[];
+  /** What the columns are */
+  grouping: BoardGrouping;
+  /** All labels, for label columns */
+  labels: Label[];
+  /** The list's workflow statuses, for status columns */
+  statuses: WorkflowStatus[];
+  /** Callback when a card is clicked */
+  onTaskClick: (task: Task) => void;
+  /** Callback when a card is dropped on another column */
+  onMove: (task: Task, fromColumnId: string, toColumnId: string) => void;
+}
+
+interface BoardCardProps {
+  task: Task;
+  columnId: string;
+  now: Date;
+  onClick: () => void;
+}
+
+/**
+ * A task card, draggable to another column
+ */
+function BoardCard({ task, columnId, now, onClick }: BoardCardProps): React.ReactElement {
+  const overdue = isOverdue(task, now);
+  const deferred = !task.completed && isDeferred(task, now);
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>): void => {
+    const drag: BoardDrag = { taskId: task.id, columnId };
+    e.dataTransfer.setData(BOARD_DRAG_TYPE, JSON.stringify(drag));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  return (
+    <div
+      draggable
+      onDragStart={handleDragStart}
+      onClick={onClick}
+      className={cn(
+        'cursor-grab space-y-1.5 rounded-md border bg-background p-2 text-sm shadow-sm hover:border-primary/50 active:cursor-grabbing',
+        overdue && 'border-destructive/50'
+      )}
+    >
+      <div className="flex items-start gap-2">
+        <span className={cn('min-w-0 flex-1 break-words', task.completed && 'line-through text-muted-foreground')}>
+          {task.name}
+        </span>
+        <PriorityBadge priority={task.priority} />
+      </div>
+
+      {(task.date || task.deadline || task.recurrence || deferred) && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          {task.date && (
+            <span className="flex items-center gap-1">
+              <Calendar className="h-3 w-3" />
+              {format(task.date, 'MMM d')}
+            </span>
+          )}
+          {task.deadline && (
+            <span className={cn('flex items-center gap-1', overdue && 'text-destructive')}>
+              <Flag className="h-3 w-3" />
+              {format(task.deadline, 'MMM d')}
+            </span>
+          )}
+          {task.recurrence && <Repeat className="h-3 w-3" />}
+          {deferred && (
+            <span className="flex items-center gap-1" title="Deferred">
+              <Hourglass className="h-3 w-3" />
+              {format(task.startDate!, 'MMM d')}
+            </span>
+          )}
+        </div>
+      )}
+
+      {task.labels && task.labels.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {task.labels.map(label => (
+            <Badge key={label.id} variant="secondary" className="px-1.5 py-0 text-[10px]">
+              {label.icon && <span className="mr-0.5">{label.icon}</span>}
+              {label.name}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * TaskBoard Component
+ * Kanban board of a list's tasks in columns by status, priority or label.
+ * Cards are dragged between columns to change what they are grouped by.
+ */
+export function TaskBoard({
+  tasks,
+  grouping,
+  labels,
+  statuses,
+  onTaskClick,
+  onMove,
+}: TaskBoardProps): React.ReactElement {
+  const columns = React.useMemo(
+    () => getBoardColumns(tasks, grouping, labels, statuses),
+    [tasks, grouping, labels, statuses]
+  );
+  const [dropColumnId, setDropColumnId] = React.useState<string | null>(null);
+  const now = new Date();
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, column: BoardColumn): void => {
+    if (!e.dataTransfer.types.includes(BOARD_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropColumnId !== column.id) setDropColumnId(column.id);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, column: BoardColumn): void => {
+    setDropColumnId(null);
+    const data = e.dataTransfer.getData(BOARD_DRAG_TYPE);
+    if (!data) return;
+    e.preventDefault();
+    const drag = JSON.parse(data) as BoardDrag;
+    const task = tasks.find(t => t.id === drag.taskId);
+    if (task) onMove(task, drag.columnId, column.id);
+  };
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {columns.map(column => (
+        <div
+          key={column.id}
+          onDragOver={(e) => handleDragOver(e, column)}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropColumnId(null);
+          }}
+          onDrop={(e) => handleDrop(e, column)}
+          className={cn(
+            'flex w-64 shrink-0 flex-col rounded-lg border bg-muted/30 transition-colors',
+            dropColumnId === column.id && 'border-primary bg-primary/10'
+          )}
+        >
+          <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+            <h2 className="truncate text-sm font-semibold">{column.title}</h2>
+            <span className="rounded-full bg-muted px-1.5 text-xs text-muted-foreground">
+              {column.tasks.length}
+            </span>
+          </div>
+          <div className="min-h-24 flex-1 space-y-2 p-2">
+            {column.tasks.map(task => (
+              <BoardCard
+                key={task.id}
+                task={task}
+                columnId={column.id}
+                now={now}
+                onClick={() => onTaskClick(task)}
+              />
+            ))}
+            {column.tasks.length === 0 && (
+              <p className="px-1 py-4 text-center text-xs text-muted-foreground">Drop tasks here</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default TaskBoard;
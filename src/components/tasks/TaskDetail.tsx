@@ -2,6 +2,7 @@
 
 import * as React from 'react';
 import { format, formatDistanceToNow } from 'date-fns';
+import { Reorder, useDragControls } from 'framer-motion';
 import {
   Calendar,
   Clock,
@@ -14,12 +15,20 @@ import {
   Edit,
   Trash2,
   Download,
+  GripVertical,
+  ArrowUpFromLine,
+  CornerDownRight,
   X,
+  Lock,
+  LockOpen,
+  CircleDot,
+  Hourglass,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import {
   Dialog,
   DialogContent,
@@ -28,8 +37,20 @@ import {
   DialogDescription,
   DialogFooter,
 } from '@/components/ui/dialog';
-import type { Task, TaskHistoryEntry, Priority, Label, List, CreateTaskInput, UpdateTaskInput } from '@/types';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Task, Subtask, TaskHistoryEntry, Priority, Label, List, CreateTaskInput, UpdateTaskInput } from '@/types';
 import { formatRecurrencePattern } from '@/lib/utils/recurrence';
+import { isBlocked } from '@/lib/utils/dependencies';
+import { getListStatuses } from '@/lib/utils/workflow';
+import { ROLLOVER_HISTORY_FIELD } from '@/lib/utils/rollover';
+import { useTaskMutations, useTasksByList } from '@/lib/hooks';
+import { showSuccess, showError } from '@/lib/utils/toast';
 import { TaskForm } from './TaskForm';
 
 interface TaskDetailProps {
@@ -42,6 +63,7 @@ interface TaskDetailProps {
   onToggleComplete: () => void;
   onToggleSubtask?: (subtaskId: string) => void;
   onDeleteSubtask?: (subtaskId: string) => void;
+  onDemoted?: () => void;
   onDownloadAttachment?: (attachmentId: string) => void;
   isLoading?: boolean;
 }
@@ -69,6 +91,7 @@ export function TaskDetail({
   onToggleComplete,
   onToggleSubtask,
   onDeleteSubtask,
+  onDemoted,
   onDownloadAttachment,
   isLoading = false,
 }: TaskDetailProps) {
@@ -76,8 +99,20 @@ export function TaskDetail({
   const [showHistory, setShowHistory] = React.useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = React.useState(false);
 
+  // Local copy of subtasks so edits and drag reordering show immediately
+  const [subtasks, setSubtasks] = React.useState<Subtask[]>(task.subtasks ?? []);
+  const [prevTaskSubtasks, setPrevTaskSubtasks] = React.useState(task.subtasks);
+  if (task.subtasks !== prevTaskSubtasks) {
+    setPrevTaskSubtasks(task.subtasks);
+    setSubtasks(task.subtasks ?? []);
+  }
+  const taskMutations = useTaskMutations();
+  const [showDemoteDialog, setShowDemoteDialog] = React.useState(false);
+
   const priority = priorityConfig[task.priority];
-  const hasSubtasks = task.subtasks && task.subtasks.length > 0;
+  const status = getListStatuses(lists.find(list => list.id === task.listId))
+    .find(s => s.id === task.status);
+  const hasSubtasks = subtasks.length > 0;
   const hasAttachments = task.attachments && task.attachments.length > 0;
   const hasReminders = task.reminders && task.reminders.length > 0;
   const hasLabels = task.labels && task.labels.length > 0;
@@ -87,6 +122,106 @@ export function TaskDetail({
     setIsEditing(false);
   };
 
+  const handleToggleSubtask = (subtask: Subtask) => {
+    if (onToggleSubtask) {
+      onToggleSubtask(subtask.id);
+      return;
+    }
+
+    const previous = subtasks;
+    setSubtasks(subtasks.map(s => s.id === subtask.id ? { ...s, completed: !s.completed } : s));
+    taskMutations.updateSubtask.mutate(
+      { taskId: task.id, subtaskId: subtask.id, data: { completed: !subtask.completed } },
+      {
+        onError: () => {
+          setSubtasks(previous);
+          showError('Failed to update subtask');
+        },
+      }
+    );
+  };
+
+  const handleRenameSubtask = (subtask: Subtask, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === subtask.name) return;
+
+    const previous = subtasks;
+    setSubtasks(subtasks.map(s => s.id === subtask.id ? { ...s, name: trimmed } : s));
+    taskMutations.updateSubtask.mutate(
+      { taskId: task.id, subtaskId: subtask.id, data: { name: trimmed } },
+      {
+        onError: () => {
+          setSubtasks(previous);
+          showError('Failed to rename subtask');
+        },
+      }
+    );
+  };
+
+  const handleDeleteSubtask = (subtask: Subtask) => {
+    if (onDeleteSubtask) {
+      onDeleteSubtask(subtask.id);
+      return;
+    }
+
+    const previous = subtasks;
+    setSubtasks(subtasks.filter(s => s.id !== subtask.id));
+    taskMutations.deleteSubtask.mutate(
+      { taskId: task.id, subtaskId: subtask.id },
+      {
+        onError: () => {
+          setSubtasks(previous);
+          showError('Failed to delete subtask');
+        },
+      }
+    );
+  };
+
+  const handlePromoteSubtask = (subtask: Subtask) => {
+    const previous = subtasks;
+    setSubtasks(subtasks.filter(s => s.id !== subtask.id));
+    taskMutations.promoteSubtask.mutate(
+      { taskId: task.id, subtaskId: subtask.id },
+      {
+        onSuccess: () => showSuccess(`"${subtask.name}" is now a task`),
+        onError: () => {
+          setSubtasks(previous);
+          showError('Failed to convert subtask to a task');
+        },
+      }
+    );
+  };
+
+  const handleDemote = (parentTaskId: string) => {
+    taskMutations.demote.mutate(
+      { id: task.id, parentTaskId },
+      {
+        onSuccess: () => {
+          setShowDemoteDialog(false);
+          showSuccess(`"${task.name}" is now a subtask`);
+          onDemoted?.();
+        },
+        onError: (error: Error) => showError(error.message),
+      }
+    );
+  };
+
+  const handleSubtaskDragEnd = () => {
+    const subtaskIds = subtasks.map(s => s.id);
+    const unchanged = subtaskIds.every((id, index) => task.subtasks?.[index]?.id === id);
+    if (unchanged) return;
+
+    taskMutations.reorderSubtasks.mutate(
+      { taskId: task.id, subtaskIds },
+      {
+        onError: () => {
+          setSubtasks(task.subtasks ?? []);
+          showError('Failed to reorder subtasks');
+        },
+      }
+    );
+  };
+
   if (isEditing) {
     return (
       <div className="space-y-4">
@@ -116,6 +251,8 @@ export function TaskDetail({
           <Checkbox
             checked={task.completed}
             onCheckedChange={onToggleComplete}
+            disabled={isBlocked(task)}
+            title={isBlocked(task) ? 'Finish the tasks blocking this one first' : undefined}
             className="mt-1 h-5 w-5"
           />
           <div className="space-y-1 flex-1">
@@ -136,6 +273,15 @@ export function TaskDetail({
           <Button variant="ghost" size="icon" onClick={() => setIsEditing(true)}>
             <Edit className="h-4 w-4" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowDemoteDialog(true)}
+            disabled={hasSubtasks}
+            title={hasSubtasks ? 'Tasks with subtasks cannot become a subtask' : 'Make subtask of…'}
+          >
+            <CornerDownRight className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -159,6 +305,11 @@ export function TaskDetail({
           </PropertyRow>
         )}
 
+        {/* Status */}
+        <PropertyRow icon={<CircleDot className="h-4 w-4" />} label="Status">
+          {status?.name ?? task.status}
+        </PropertyRow>
+
         {/* Date */}
         {task.date && (
           <PropertyRow icon={<Calendar className="h-4 w-4" />} label="Date">
@@ -173,6 +324,13 @@ export function TaskDetail({
           </PropertyRow>
         )}
 
+        {/* Start date */}
+        {task.startDate && (
+          <PropertyRow icon={<Hourglass className="h-4 w-4" />} label="Starts">
+            {format(task.startDate, 'EEEE, MMMM d, yyyy')}
+          </PropertyRow>
+        )}
+
         {/* Priority */}
         {task.priority !== 'none' && (
           <PropertyRow icon={<Flag className="h-4 w-4" />} label="Priority">
@@ -221,6 +379,34 @@ export function TaskDetail({
           </PropertyRow>
         )}
 
+        {/* Dependencies */}
+        {task.blockedBy && task.blockedBy.length > 0 && (
+          <PropertyRow icon={<Lock className="h-4 w-4" />} label="Blocked by">
+            <div className="flex flex-wrap gap-1">
+              {task.blockedBy.map((blocker) => (
+                <Badge
+                  key={blocker.id}
+                  variant={blocker.completed ? 'outline' : 'secondary'}
+                  className={cn(blocker.completed && 'line-through text-muted-foreground')}
+                >
+                  {blocker.name}
+                </Badge>
+              ))}
+            </div>
+          </PropertyRow>
+        )}
+        {task.blocking && task.blocking.length > 0 && (
+          <PropertyRow icon={<LockOpen className="h-4 w-4" />} label="Blocking">
+            <div className="flex flex-wrap gap-1">
+              {task.blocking.map((blocked) => (
+                <Badge key={blocked.id} variant="outline">
+                  {blocked.name}
+                </Badge>
+              ))}
+            </div>
+          </PropertyRow>
+        )}
+
         {/* Reminders */}
         {hasReminders && (
           <PropertyRow icon={<Bell className="h-4 w-4" />} label="Reminders">
@@ -241,36 +427,27 @@ export function TaskDetail({
           <h3 className="text-sm font-medium flex items-center gap-2">
             Subtasks
             <span className="text-muted-foreground">
-              ({task.subtasks!.filter(s => s.completed).length}/{task.subtasks!.length})
+              ({subtasks.filter(s => s.completed).length}/{subtasks.length})
             </span>
           </h3>
-          <div className="space-y-1 pl-1">
-            {task.subtasks!.map((subtask) => (
-              <div key={subtask.id} className="flex items-center gap-2 group">
-                <Checkbox
-                  checked={subtask.completed}
-                  onCheckedChange={() => onToggleSubtask?.(subtask.id)}
-                  className="h-4 w-4"
-                />
-                <span className={cn(
-                  'flex-1 text-sm',
-                  subtask.completed && 'line-through text-muted-foreground'
-                )}>
-                  {subtask.name}
-                </span>
-                {onDeleteSubtask && (
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
-                    onClick={() => onDeleteSubtask(subtask.id)}
-                  >
-                    <X className="h-3 w-3" />
-                  </Button>
-                )}
-              </div>
+          <Reorder.Group
+            axis="y"
+            values={subtasks}
+            onReorder={setSubtasks}
+            className="space-y-1"
+          >
+            {subtasks.map((subtask) => (
+              <SubtaskRow
+                key={subtask.id}
+                subtask={subtask}
+                onToggle={() => handleToggleSubtask(subtask)}
+                onRename={(name) => handleRenameSubtask(subtask, name)}
+                onDelete={() => handleDeleteSubtask(subtask)}
+                onPromote={() => handlePromoteSubtask(subtask)}
+                onDragEnd={handleSubtaskDragEnd}
+              />
             ))}
-          </div>
+          </Reorder.Group>
         </div>
       )}
 
@@ -333,6 +510,16 @@ export function TaskDetail({
         )}
       </div>
 
+      {/* Demote Dialog */}
+      {showDemoteDialog && (
+        <DemoteTaskDialog
+          task={task}
+          onConfirm={handleDemote}
+          onCancel={() => setShowDemoteDialog(false)}
+          isPending={taskMutations.demote.isPending}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <DialogContent>
@@ -380,6 +567,165 @@ function PropertyRow({ icon, label, children }: PropertyRowProps) {
   );
 }
 
+interface SubtaskRowProps {
+  subtask: Subtask;
+  onToggle: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onPromote: () => void;
+  onDragEnd: () => void;
+}
+
+/**
+ * A draggable subtask row.
+ * Drag by the grip handle to reorder; click the name to rename.
+ */
+function SubtaskRow({ subtask, onToggle, onRename, onDelete, onPromote, onDragEnd }: SubtaskRowProps) {
+  const dragControls = useDragControls();
+  const [isRenaming, setIsRenaming] = React.useState(false);
+  const [name, setName] = React.useState(subtask.name);
+
+  const startRenaming = (): void => {
+    setName(subtask.name);
+    setIsRenaming(true);
+  };
+
+  const commitRename = (): void => {
+    setIsRenaming(false);
+    onRename(name);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      setIsRenaming(false);
+    }
+  };
+
+  return (
+    <Reorder.Item
+      value={subtask}
+      dragListener={false}
+      dragControls={dragControls}
+      onDragEnd={onDragEnd}
+      className="flex items-center gap-2 group rounded-md bg-background"
+    >
+      <button
+        type="button"
+        onPointerDown={(e) => dragControls.start(e)}
+        className="cursor-grab touch-none text-muted-foreground opacity-50 group-hover:opacity-100 active:cursor-grabbing"
+        aria-label="Drag to reorder"
+      >
+        <GripVertical className="h-4 w-4" />
+      </button>
+      <Checkbox
+        checked={subtask.completed}
+        onCheckedChange={onToggle}
+        className="h-4 w-4"
+      />
+      {isRenaming ? (
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={handleKeyDown}
+          className="h-7 flex-1 text-sm"
+          autoFocus
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={startRenaming}
+          className={cn(
+            'flex-1 text-left text-sm',
+            subtask.completed && 'line-through text-muted-foreground'
+          )}
+        >
+          {subtask.name}
+        </button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 opacity-0 group-hover:opacity-100"
+        onClick={onPromote}
+        title="Convert to task"
+      >
+        <ArrowUpFromLine className="h-3 w-3" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 opacity-0 group-hover:opacity-100"
+        onClick={onDelete}
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </Reorder.Item>
+  );
+}
+
+interface DemoteTaskDialogProps {
+  task: Task;
+  onConfirm: (parentTaskId: string) => void;
+  onCancel: () => void;
+  isPending: boolean;
+}
+
+/**
+ * Dialog for choosing the task that a task becomes a subtask of.
+ * Offers the other open tasks in the same list.
+ */
+function DemoteTaskDialog({ task, onConfirm, onCancel, isPending }: DemoteTaskDialogProps) {
+  const { data: listTasks = [] } = useTasksByList(task.listId, false);
+  const [parentTaskId, setParentTaskId] = React.useState<string>('');
+
+  const candidates = listTasks.filter(t => t.id !== task.id);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Make Subtask</DialogTitle>
+          <DialogDescription>
+            Move &quot;{task.name}&quot; into another task&apos;s subtasks. Its reminders,
+            attachments and history will be removed.
+          </DialogDescription>
+        </DialogHeader>
+        {candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No other open tasks in this list</p>
+        ) : (
+          <Select value={parentTaskId} onValueChange={setParentTaskId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a parent task" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(parentTaskId)}
+            disabled={!parentTaskId || isPending}
+          >
+            Make Subtask
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 interface HistoryEntryProps {
   entry: TaskHistoryEntry;
 }
@@ -387,6 +733,21 @@ interface HistoryEntryProps {
 function HistoryEntry({ entry }: HistoryEntryProps) {
   const timeAgo = formatDistanceToNow(entry.changedAt, { addSuffix: true });
 
+  if (entry.field === ROLLOVER_HISTORY_FIELD && entry.previousValue) {
+    const count = parseInt(entry.newValue ?? '', 10) || 1;
+    return (
+      <div className="flex items-start gap-2 text-xs">
+        <span className="text-muted-foreground shrink-0">{timeAgo}</span>
+        <span>
+          <span className="font-medium">Rolled over</span>
+          {count > 1 && ` (${count} times)`}
+          {', originally planned for '}
+          <span className="text-muted-foreground">{format(new Date(entry.previousValue), 'MMM d')}</span>
+        </span>
+      </div>
+    );
+  }
+
   return (
     <div className="flex items-start gap-2 text-xs">
       <span className="text-muted-foreground shrink-0">{timeAgo}</span>
@@ -11,6 +11,8 @@ import {
   Bell,
   Plus,
   X,
+  Lock,
+  Hourglass,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -43,6 +45,8 @@ import type {
   ScheduleSuggestion,
 } from '@/types';
 import { formatRecurrencePattern } from '@/lib/utils/recurrence';
+import { wouldCreateCycle } from '@/lib/utils/dependencies';
+import { useReminderMutations, useTasks } from '@/lib/hooks';
 import { ScheduleSuggestions } from './ScheduleSuggestions';
 
 interface TaskFormProps {
@@ -79,6 +83,12 @@ const REMINDER_PRESETS: { value: number; label: string }[] = [
   { value: 10080, label: '1 week before' },
 ];
 
+const REMINDER_METHODS: { value: ReminderMethod; label: string }[] = [
+  { value: 'in-app', label: 'In-app' },
+  { value: 'push', label: 'Push' },
+  { value: 'email', label: 'Email' },
+];
+
 interface SubtaskInput {
   id: string;
   name: string;
@@ -117,6 +127,7 @@ export function TaskForm({
   const [deadlineTime, setDeadlineTime] = React.useState(
     task?.deadline ? format(task.deadline, 'HH:mm') : ''
   );
+  const [startDate, setStartDate] = React.useState<Date | undefined>(task?.startDate);
   const [estimate, setEstimate] = React.useState(
     task?.estimate ? formatMinutesToTime(task.estimate) : ''
   );
@@ -127,6 +138,9 @@ export function TaskForm({
   const [selectedLabelIds, setSelectedLabelIds] = React.useState<string[]>(
     task?.labels?.map(l => l.id) ?? []
   );
+  const [blockedByIds, setBlockedByIds] = React.useState<string[]>(
+    task?.blockedBy?.map(b => b.id) ?? []
+  );
   const [subtasks, setSubtasks] = React.useState<SubtaskInput[]>(
     task?.subtasks?.map(s => ({ id: s.id, name: s.name, completed: s.completed })) ?? []
   );
@@ -135,6 +149,25 @@ export function TaskForm({
     task?.reminders?.map(r => ({ id: r.id, offsetMinutes: r.offsetMinutes, method: r.method })) ?? []
   );
 
+  const [reminderMethod, setReminderMethod] = React.useState<ReminderMethod>('in-app');
+  const reminderMutations = useReminderMutations();
+  const { data: allTasks = [] } = useTasks();
+
+  // Blockers shown by name; fall back to the task's own copy until all tasks load
+  const blockers = blockedByIds.map(id =>
+    allTasks.find(t => t.id === id) ?? task?.blockedBy?.find(b => b.id === id) ?? { id, name: 'Unknown task' }
+  );
+
+  // Open tasks that can block this one without it ending up waiting on itself
+  const blockerOptions = React.useMemo(() => {
+    const edges = allTasks.flatMap(t => (t.blockedBy ?? []).map(b => ({ taskId: t.id, blockedById: b.id })));
+    return allTasks.filter(t =>
+      !t.completed &&
+      !blockedByIds.includes(t.id) &&
+      (!task || !wouldCreateCycle(edges, task.id, [t.id]))
+    );
+  }, [allTasks, blockedByIds, task]);
+
   // Validation state
   const [errors, setErrors] = React.useState<Record<string, string>>({});
 
@@ -174,12 +207,22 @@ export function TaskForm({
       listId,
       date,
       deadline: finalDeadline,
+      startDate: startDate ?? (isEditing ? null : undefined),
       estimate: estimate ? parseTimeToMinutes(estimate) : undefined,
       priority,
       recurrence,
       labelIds: selectedLabelIds,
+      blockedByIds,
     };
 
+    // Existing tasks save reminder changes immediately; new tasks send them along
+    if (!isEditing && reminders.length > 0) {
+      (data as CreateTaskInput).reminders = reminders.map(r => ({
+        offsetMinutes: r.offsetMinutes,
+        method: r.method,
+      }));
+    }
+
     onSubmit(data);
   };
 
@@ -204,15 +247,40 @@ export function TaskForm({
   };
 
   const handleAddReminder = (offsetMinutes: number) => {
-    if (reminders.some(r => r.offsetMinutes === offsetMinutes)) return;
-    
+    const method = reminderMethod;
+    if (reminders.some(r => r.offsetMinutes === offsetMinutes && r.method === method)) return;
+
+    if (task) {
+      reminderMutations.create.mutate(
+        { taskId: task.id, data: { offsetMinutes, method } },
+        {
+          onSuccess: (reminder) => {
+            setReminders(prev => [
+              ...prev,
+              { id: reminder.id, offsetMinutes: reminder.offsetMinutes, method: reminder.method },
+            ]);
+          },
+        }
+      );
+      return;
+    }
+
     setReminders([
       ...reminders,
-      { id: `new-${Date.now()}`, offsetMinutes, method: 'in-app' },
+      { id: `new-${Date.now()}`, offsetMinutes, method },
     ]);
   };
 
   const handleRemoveReminder = (id: string) => {
+    if (task) {
+      reminderMutations.remove.mutate(id, {
+        onSuccess: () => {
+          setReminders(prev => prev.filter(r => r.id !== id));
+        },
+      });
+      return;
+    }
+
     setReminders(reminders.filter(r => r.id !== id));
   };
 
@@ -324,6 +392,42 @@ export function TaskForm({
             placeholder="Time"
           />
         </div>
+
+        {/* Start Date Picker - the task stays out of the date views until then */}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className={cn(
+                'justify-start h-10 sm:h-8 text-base sm:text-sm',
+                !startDate && 'text-muted-foreground'
+              )}
+            >
+              <Hourglass className="h-4 w-4 mr-2" />
+              {startDate ? `Starts ${format(startDate, 'MMM d')}` : 'Start date'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={startDate}
+              onSelect={setStartDate}
+            />
+            {startDate && (
+              <div className="p-2 border-t">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setStartDate(undefined)}
+                  className="w-full h-10 sm:h-8"
+                >
+                  Clear start date
+                </Button>
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
       </div>
 
       {/* Priority and Estimate Row - Stack on mobile */}
@@ -370,7 +474,9 @@ export function TaskForm({
             estimate: estimate ? parseTimeToMinutes(estimate) : undefined,
             priority,
             deadline: deadline,
+            startDate,
             date,
+            blockedBy: allTasks.filter(t => blockedByIds.includes(t.id)),
           }}
           onAcceptSuggestion={handleAcceptScheduleSuggestion}
         />
@@ -437,6 +543,50 @@ export function TaskForm({
         </div>
       )}
 
+      {/* Blocked By */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Lock className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm text-muted-foreground">Blocked by</span>
+        </div>
+
+        {blockers.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {blockers.map((blocker) => (
+              <Badge
+                key={blocker.id}
+                variant="secondary"
+                className="gap-1 py-1.5 px-3 sm:py-1 sm:px-2.5"
+              >
+                {blocker.name}
+                <button
+                  type="button"
+                  onClick={() => setBlockedByIds(prev => prev.filter(id => id !== blocker.id))}
+                  className="ml-1 hover:text-destructive p-0.5"
+                >
+                  <X className="h-3.5 w-3.5 sm:h-3 sm:w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {blockerOptions.length > 0 && (
+          <Select value="" onValueChange={(v) => setBlockedByIds(prev => [...prev, v])}>
+            <SelectTrigger className="w-full sm:w-[260px] h-10 sm:h-9">
+              <SelectValue placeholder="Add a task this waits on" />
+            </SelectTrigger>
+            <SelectContent>
+              {blockerOptions.map((option) => (
+                <SelectItem key={option.id} value={option.id} className="py-2.5 sm:py-1.5">
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
       {/* Subtasks */}
       <div className="space-y-2">
         <div className="flex items-center gap-2">
@@ -514,6 +664,11 @@ export function TaskForm({
                 className="gap-1 py-1.5 px-3 sm:py-1 sm:px-2.5"
               >
                 {formatReminderOffset(reminder.offsetMinutes)}
+                {reminder.method !== 'in-app' && (
+                  <span className="text-muted-foreground">
+                    · {REMINDER_METHODS.find(m => m.value === reminder.method)?.label}
+                  </span>
+                )}
                 <button
                   type="button"
                   onClick={() => handleRemoveReminder(reminder.id)}
@@ -526,20 +681,34 @@ export function TaskForm({
           </div>
         )}
 
-        <Select onValueChange={(v) => handleAddReminder(parseInt(v, 10))}>
-          <SelectTrigger className="w-full sm:w-[200px] h-10 sm:h-9">
-            <SelectValue placeholder="Add reminder" />
-          </SelectTrigger>
-          <SelectContent>
-            {REMINDER_PRESETS.filter(
-              p => !reminders.some(r => r.offsetMinutes === p.value)
-            ).map((preset) => (
-              <SelectItem key={preset.value} value={String(preset.value)} className="py-2.5 sm:py-1.5">
-                {preset.label}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={reminderMethod} onValueChange={(v) => setReminderMethod(v as ReminderMethod)}>
+            <SelectTrigger className="w-full sm:w-[120px] h-10 sm:h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REMINDER_METHODS.map((m) => (
+                <SelectItem key={m.value} value={m.value} className="py-2.5 sm:py-1.5">
+                  {m.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value="" onValueChange={(v) => handleAddReminder(parseInt(v, 10))}>
+            <SelectTrigger className="w-full sm:w-[200px] h-10 sm:h-9">
+              <SelectValue placeholder="Add reminder" />
+            </SelectTrigger>
+            <SelectContent>
+              {REMINDER_PRESETS.filter(
+                p => !reminders.some(r => r.offsetMinutes === p.value && r.method === reminderMethod)
+              ).map((preset) => (
+                <SelectItem key={preset.value} value={String(preset.value)} className="py-2.5 sm:py-1.5">
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       {/* Form Actions - Full width buttons on mobile */}
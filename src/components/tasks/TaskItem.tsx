@@ -1,7 +1,7 @@
 'use client';
 
 import * as React from 'react';
-import { format, isPast, isToday } from 'date-fns';
+import { format, isToday, startOfDay } from 'date-fns';
 import {
   Calendar,
   Clock,
@@ -10,16 +10,28 @@ import {
   Circle,
   AlertCircle,
   Repeat,
+  Lock,
+  Hourglass,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar as CalendarPicker } from '@/components/ui/calendar';
 import { Checkbox } from '@/components/ui/checkbox';
-import type { Task, Priority } from '@/types';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { HighlightedText } from '@/components/common';
+import { getOpenBlockers } from '@/lib/utils/dependencies';
+import { getSnoozeDate, isDeferred } from '@/lib/utils/defer';
+import { isOverdue } from '@/lib/utils/overdue';
+import type { Task, Priority, SearchMatches, SearchSnippet } from '@/types';
 
 interface TaskItemProps {
   task: Task;
   onClick?: () => void;
   onToggleComplete?: () => void;
+  onSnooze?: (startDate: Date | null) => void;   // Defers the task, or clears its start date
+  matches?: SearchMatches;     // Search matches to highlight
+  snippet?: SearchSnippet;     // Description excerpt shown for search results
   className?: string;
 }
 
@@ -33,16 +45,6 @@ const priorityConfig: Record<Priority, { color: string; label: string }> = {
   none: { color: 'bg-transparent', label: '' },
 };
 
-/**
- * Checks if a task is overdue
- * A task is overdue if it's incomplete and has a deadline in the past
- */
-function isOverdue(task: Task): boolean {
-  if (task.completed) return false;
-  if (!task.deadline) return false;
-  return isPast(task.deadline);
-}
-
 /**
  * Formats the due date for display
  */
@@ -64,17 +66,84 @@ function getSubtaskProgress(task: Task): { completed: number; total: number } |
   return { completed, total: task.subtasks.length };
 }
 
+interface SnoozeMenuProps {
+  startDate?: Date;
+  onSnooze: (startDate: Date | null) => void;
+}
+
+/**
+ * Quick actions for deferring a task to tomorrow, next week or a picked day
+ */
+function SnoozeMenu({ startDate, onSnooze }: SnoozeMenuProps) {
+  const [open, setOpen] = React.useState(false);
+
+  const snooze = (date: Date | null): void => {
+    onSnooze(date);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn(
+            'h-8 w-8 sm:h-7 sm:w-7 text-muted-foreground',
+            !open && 'sm:opacity-0 sm:group-hover:opacity-100 sm:focus-visible:opacity-100'
+          )}
+          aria-label="Snooze task"
+          title="Snooze"
+        >
+          <Hourglass className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="flex flex-col p-1">
+          <Button variant="ghost" size="sm" className="justify-start" onClick={() => snooze(getSnoozeDate('tomorrow'))}>
+            Tomorrow
+          </Button>
+          <Button variant="ghost" size="sm" className="justify-start" onClick={() => snooze(getSnoozeDate('next-week'))}>
+            Next week
+          </Button>
+        </div>
+        <div className="border-t">
+          <CalendarPicker
+            mode="single"
+            selected={startDate}
+            onSelect={(date) => date && snooze(date)}
+            disabled={(date) => date < startOfDay(new Date())}
+          />
+        </div>
+        {startDate && (
+          <div className="p-2 border-t">
+            <Button variant="ghost" size="sm" className="w-full" onClick={() => snooze(null)}>
+              Start now
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 /**
  * TaskItem Component
  * Displays a single task with priority indicator, due date, labels, subtask progress,
  * attachment indicator, and completion checkbox.
+ * Search results also highlight their matches and show a description snippet.
+ * Tasks waiting on open blockers are dimmed and can't be checked off.
+ * Deferred tasks show when they start and can be snoozed from the item.
  * 
- * Requirements: 9.2, 16.1, 22.3
+ * Requirements: 9.2, 16.1, 17.2, 22.3
  */
 export function TaskItem({
   task,
   onClick,
   onToggleComplete,
+  onSnooze,
+  matches,
+  snippet,
   className,
 }: TaskItemProps) {
   const taskIsOverdue = isOverdue(task);
@@ -82,9 +151,13 @@ export function TaskItem({
   const hasAttachments = task.attachments && task.attachments.length > 0;
   const hasRecurrence = !!task.recurrence;
   const priority = priorityConfig[task.priority];
+  const openBlockers = task.completed ? [] : getOpenBlockers(task);
+  const isBlocked = openBlockers.length > 0;
+  const taskIsDeferred = !task.completed && isDeferred(task);
 
   const handleCheckboxClick = (e: React.MouseEvent) => {
     e.stopPropagation();
+    if (isBlocked) return;
     onToggleComplete?.();
   };
 
@@ -106,7 +179,7 @@ export function TaskItem({
         'hover:bg-accent/50 active:bg-accent/70 cursor-pointer',
         // Touch-friendly: larger padding on mobile
         'p-4 sm:p-3',
-        task.completed && 'opacity-60',
+        (task.completed || isBlocked) && 'opacity-60',
         taskIsOverdue && 'border-destructive/50 bg-destructive/5',
         className
       )}
@@ -117,9 +190,11 @@ export function TaskItem({
         onClick={handleCheckboxClick}
         role="button"
         tabIndex={-1}
+        title={isBlocked ? 'Finish the tasks blocking this one first' : undefined}
       >
         <Checkbox
           checked={task.completed}
+          disabled={isBlocked}
           className={cn(
             'h-6 w-6 sm:h-5 sm:w-5',
             task.priority === 'high' && !task.completed && 'border-red-500',
@@ -148,10 +223,17 @@ export function TaskItem({
               task.completed && 'line-through text-muted-foreground'
             )}
           >
-            {task.name}
+            <HighlightedText text={task.name} ranges={matches?.name} />
           </span>
         </div>
 
+        {/* Search snippet */}
+        {snippet && (
+          <p className="text-sm sm:text-xs text-muted-foreground line-clamp-2">
+            <HighlightedText text={snippet.text} ranges={snippet.ranges} />
+          </p>
+        )}
+
         {/* Meta information row */}
         <div className="flex flex-wrap items-center gap-2 sm:gap-2 text-sm sm:text-xs text-muted-foreground">
           {/* Due date */}
@@ -180,6 +262,17 @@ export function TaskItem({
             </span>
           )}
 
+          {/* Blocked indicator */}
+          {isBlocked && (
+            <span
+              className="flex items-center gap-1"
+              title={`Blocked by ${openBlockers.map(b => b.name).join(', ')}`}
+            >
+              <Lock className="h-3 w-3" />
+              Blocked
+            </span>
+          )}
+
           {/* Recurrence indicator */}
           {hasRecurrence && (
             <span className="flex items-center gap-1" title="Recurring task">
@@ -218,7 +311,7 @@ export function TaskItem({
                 className="text-sm sm:text-xs px-2 py-0.5 sm:px-1.5 sm:py-0"
               >
                 {label.icon && <span className="mr-1">{label.icon}</span>}
-                {label.name}
+                <HighlightedText text={label.name} ranges={matches?.labels[label.id]} />
               </Badge>
             ))}
           </div>
@@ -233,6 +326,26 @@ export function TaskItem({
           </Badge>
         </div>
       )}
+
+      {/* Deferred indicator */}
+      {taskIsDeferred && (
+        <div className="shrink-0">
+          <Badge variant="outline" className="text-sm sm:text-xs" title={`Starts ${format(task.startDate!, 'MMM d, yyyy')}`}>
+            Deferred until {formatDueDate(task.startDate!)}
+          </Badge>
+        </div>
+      )}
+
+      {/* Snooze quick actions; events from the menu stay out of the item's own handlers */}
+      {onSnooze && !task.completed && (
+        <div
+          className="shrink-0 -my-1"
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          <SnoozeMenu startDate={task.startDate} onSnooze={onSnooze} />
+        </div>
+      )}
     </div>
   );
 }
@@ -6,16 +6,18 @@ import { format, isToday, isTomorrow, isYesterday } from 'date-fns';
 import { Eye, EyeOff } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
-import type { Task, GroupedTasks } from '@/types';
+import type { Task, GroupedTasks, SearchResult } from '@/types';
 import { TaskItem } from './TaskItem';
 
 interface TaskListProps {
   tasks: Task[];
   onTaskClick?: (task: Task) => void;
   onToggleComplete?: (taskId: string) => void;
+  onSnooze?: (taskId: string, startDate: Date | null) => void;   // Defers a task, or clears its start date
   showCompleted?: boolean;
   onToggleShowCompleted?: () => void;
   groupByDate?: boolean;
+  searchResults?: Record<string, SearchResult>;   // Keyed by task ID, to highlight matches
   emptyMessage?: string;
   className?: string;
 }
@@ -109,9 +111,11 @@ export function TaskList({
   tasks,
   onTaskClick,
   onToggleComplete,
+  onSnooze,
   showCompleted = true,
   onToggleShowCompleted,
   groupByDate = false,
+  searchResults,
   emptyMessage = 'No tasks',
   className,
 }: TaskListProps) {
@@ -160,6 +164,8 @@ export function TaskList({
               group={group}
               onTaskClick={onTaskClick}
               onToggleComplete={onToggleComplete}
+              onSnooze={onSnooze}
+              searchResults={searchResults}
             />
           ))}
         </div>
@@ -182,6 +188,9 @@ export function TaskList({
                   task={task}
                   onClick={() => onTaskClick?.(task)}
                   onToggleComplete={() => onToggleComplete?.(task.id)}
+                  onSnooze={onSnooze ? (startDate) => onSnooze(task.id, startDate) : undefined}
+                  matches={searchResults?.[task.id]?.matches}
+                  snippet={searchResults?.[task.id]?.snippet}
                 />
               </motion.div>
             ))}
@@ -196,9 +205,11 @@ interface TaskGroupProps {
   group: GroupedTasks;
   onTaskClick?: (task: Task) => void;
   onToggleComplete?: (taskId: string) => void;
+  onSnooze?: (taskId: string, startDate: Date | null) => void;
+  searchResults?: Record<string, SearchResult>;
 }
 
-function TaskGroup({ group, onTaskClick, onToggleComplete }: TaskGroupProps) {
+function TaskGroup({ group, onTaskClick, onToggleComplete, onSnooze, searchResults }: TaskGroupProps) {
   const headerText = group.dateKey === 'no-date' 
     ? 'No Date' 
     : formatGroupDate(group.date);
@@ -226,6 +237,9 @@ function TaskGroup({ group, onTaskClick, onToggleComplete }: TaskGroupProps) {
                 task={task}
                 onClick={() => onTaskClick?.(task)}
                 onToggleComplete={() => onToggleComplete?.(task.id)}
+                onSnooze={onSnooze ? (startDate) => onSnooze(task.id, startDate) : undefined}
+                matches={searchResults?.[task.id]?.matches}
+                snippet={searchResults?.[task.id]?.snippet}
               />
             </motion.div>
           ))}
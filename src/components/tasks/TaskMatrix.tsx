@@ -0,0 +1,149 @@
+'use client';
+
+import * as React from 'react';
+import { format } from 'date-fns';
+import { Flag } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { PriorityBadge } from '@/components/common';
+import {
+  MATRIX_QUADRANTS,
+  MATRIX_QUADRANT_INFO,
+  getQuadrant,
+  type MatrixQuadrant,
+  type UrgencyThresholds,
+} from '@/lib/utils/eisenhower';
+import { isOverdue } from '@/lib/utils/overdue';
+import type { Task } from '@/types';
+
+// Drag data type for matrix cards: the ID of the task
+const MATRIX_DRAG_TYPE = 'application/x-matrix-card';
+
+const QUADRANT_STYLES: Record<MatrixQuadrant, string> = {
+  do: 'border-destructive/40',
+  schedule: 'border-primary/40',
+  delegate: 'border-amber-500/40',
+  eliminate: 'border-border',
+};
+
+export interface TaskMatrixProps {
+  /** Incomplete tasks to sort into quadrants */
+  tasks: Task[];
+  /** When a deadline makes a task urgent */
+  thresholds: UrgencyThresholds;
+  /** Callback when a card is clicked */
+  onTaskClick: (task: Task) => void;
+  /** Callback when a card is dropped on another quadrant */
+  onMove: (task: Task, to: MatrixQuadrant) => void;
+}
+
+interface MatrixCardProps {
+  task: Task;
+  now: Date;
+  onClick: () => void;
+}
+
+/**
+ * A task card, draggable to another quadrant
+ */
+function MatrixCard({ task, now, onClick }: MatrixCardProps): React.ReactElement {
+  const overdue = isOverdue(task, now);
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(MATRIX_DRAG_TYPE, task.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onClick={onClick}
+      className={cn(
+        'flex cursor-grab items-center gap-2 rounded-md border bg-background px-2 py-1.5 text-sm shadow-sm hover:border-primary/50 active:cursor-grabbing',
+        overdue && 'border-destructive/50'
+      )}
+    >
+      <span className="min-w-0 flex-1 truncate">{task.name}</span>
+      {task.deadline && (
+        <span className={cn('flex shrink-0 items-center gap-1 text-xs text-muted-foreground', overdue && 'text-destructive')}>
+          <Flag className="h-3 w-3" />
+          {format(task.deadline, 'MMM d')}
+        </span>
+      )}
+      <PriorityBadge priority={task.priority} />
+    </div>
+  );
+}
+
+/**
+ * TaskMatrix Component
+ * Urgent/important matrix: importance comes from priority and urgency from
+ * how close the deadline is. Cards are dragged between quadrants to change
+ * their priority or deadline.
+ */
+export function TaskMatrix({ tasks, thresholds, onTaskClick, onMove }: TaskMatrixProps): React.ReactElement {
+  const [dropQuadrant, setDropQuadrant] = React.useState<MatrixQuadrant | null>(null);
+  const now = new Date();
+
+  const quadrants = MATRIX_QUADRANTS.map(quadrant => ({
+    quadrant,
+    tasks: tasks.filter(task => getQuadrant(task, now, thresholds) === quadrant),
+  }));
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, quadrant: MatrixQuadrant): void => {
+    if (!e.dataTransfer.types.includes(MATRIX_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropQuadrant !== quadrant) setDropQuadrant(quadrant);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, quadrant: MatrixQuadrant): void => {
+    setDropQuadrant(null);
+    const taskId = e.dataTransfer.getData(MATRIX_DRAG_TYPE);
+    if (!taskId) return;
+    e.preventDefault();
+    const task = tasks.find(t => t.id === taskId);
+    if (task) onMove(task, quadrant);
+  };
+
+  return (
+    <div className="grid min-h-0 flex-1 gap-3 sm:grid-cols-2 sm:grid-rows-2">
+      {quadrants.map(({ quadrant, tasks: quadrantTasks }) => {
+        const info = MATRIX_QUADRANT_INFO[quadrant];
+        return (
+          <div
+            key={quadrant}
+            onDragOver={(e) => handleDragOver(e, quadrant)}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropQuadrant(null);
+            }}
+            onDrop={(e) => handleDrop(e, quadrant)}
+            className={cn(
+              'flex min-h-40 flex-col rounded-lg border-2 bg-muted/30 transition-colors',
+              QUADRANT_STYLES[quadrant],
+              dropQuadrant === quadrant && 'border-primary bg-primary/10'
+            )}
+          >
+            <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+              <div className="min-w-0">
+                <h2 className="truncate text-sm font-semibold">{info.title}</h2>
+                <p className="truncate text-xs text-muted-foreground">{info.description}</p>
+              </div>
+              <span className="rounded-full bg-muted px-1.5 text-xs text-muted-foreground">
+                {quadrantTasks.length}
+              </span>
+            </div>
+            <div className="min-h-0 flex-1 space-y-1.5 overflow-y-auto p-2">
+              {quadrantTasks.map(task => (
+                <MatrixCard key={task.id} task={task} now={now} onClick={() => onTaskClick(task)} />
+              ))}
+              {quadrantTasks.length === 0 && (
+                <p className="px-1 py-4 text-center text-xs text-muted-foreground">Drop tasks here</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default TaskMatrix;
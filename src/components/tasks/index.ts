@@ -5,3 +5,7 @@ export { TaskForm } from './TaskForm';
 export { TaskDetail } from './TaskDetail';
 export { NaturalLanguageInput } from './NaturalLanguageInput';
 export { ScheduleSuggestions } from './ScheduleSuggestions';
+export { AutoPlanDialog } from './AutoPlanDialog';
+export { RescheduleDialog } from './RescheduleDialog';
+export { TaskBoard } from './TaskBoard';
+export { TaskMatrix } from './TaskMatrix';
@@ -0,0 +1,33 @@
+/**
+ * Next.js instrumentation hook
+ * Runs once when the server starts. Registers the reminder delivery channels
+ * and starts the background reminder dispatcher and nightly task rollover on
+ * the Node.js runtime (the database is not available on edge).
+ */
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { registerReminderChannel, startReminderDispatcher } = await import('@/lib/services/reminder-dispatcher.service');
+    const { inAppReminderChannel } = await import('@/lib/services/notification.service');
+    const { getEmailSettings, createEmailTransport, createEmailReminderChannel } = await import('@/lib/services/email.service');
+    const { pushReminderChannel } = await import('@/lib/services/push.service');
+    const { startRolloverScheduler } = await import('@/lib/services/rollover.service');
+
+    registerReminderChannel(inAppReminderChannel);
+    registerReminderChannel(pushReminderChannel);
+
+    // Email reminders are only delivered when email settings are configured
+    try {
+      const emailSettings = getEmailSettings();
+      if (emailSettings) {
+        registerReminderChannel(
+          createEmailReminderChannel(createEmailTransport(emailSettings), emailSettings)
+        );
+      }
+    } catch (error) {
+      console.error('Email reminders disabled:', error);
+    }
+
+    startReminderDispatcher();
+    startRolloverScheduler();
+  }
+}
@@ -1,6 +1,7 @@
 import Database from 'better-sqlite3';
 import { drizzle } from 'drizzle-orm/better-sqlite3';
 import * as schema from './schema';
+import { ensureSearchIndex } from './search-index';
 import { existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
 
@@ -17,4 +18,18 @@ sqlite.pragma('journal_mode = WAL');
 
 export const db = drizzle(sqlite, { schema });
 
+let isSearchIndexReady = false;
+
+/**
+ * Makes sure the FTS5 search index, which lives outside the Drizzle schema,
+ * exists. Runs on first use rather than at startup, so a database whose
+ * schema is created after the server started still gets its index.
+ * @throws Error if the tables it indexes haven't been created yet
+ */
+export function ensureSearchIndexReady(): void {
+  if (isSearchIndexReady) return;
+  ensureSearchIndex(sqlite);
+  isSearchIndexReady = true;
+}
+
 export { schema };
@@ -0,0 +1,12 @@
+CREATE TABLE `notifications` (
+	`id` text PRIMARY KEY NOT NULL,
+	`task_id` text NOT NULL,
+	`reminder_id` text,
+	`title` text NOT NULL,
+	`body` text,
+	`read` integer DEFAULT false NOT NULL,
+	`snoozed_until` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`task_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`reminder_id`) REFERENCES `reminders`(`id`) ON UPDATE no action ON DELETE set null
+);
@@ -0,0 +1,9 @@
+CREATE TABLE `scheduling_profile` (
+	`id` text PRIMARY KEY NOT NULL,
+	`timezone` text NOT NULL,
+	`working_days` text NOT NULL,
+	`days_off` text NOT NULL,
+	`slot_minutes` integer NOT NULL,
+	`days_ahead` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
@@ -0,0 +1,4 @@
+ALTER TABLE `lists` ADD `view_mode` text DEFAULT 'list' NOT NULL;--> statement-breakpoint
+ALTER TABLE `lists` ADD `board_grouping` text DEFAULT 'status' NOT NULL;--> statement-breakpoint
+ALTER TABLE `tasks` ADD `status` text DEFAULT 'todo' NOT NULL;--> statement-breakpoint
+UPDATE `tasks` SET `status` = 'done' WHERE `completed` = 1;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `scheduling_profile` ADD `deadline_urgent_hours` integer DEFAULT 24 NOT NULL;--> statement-breakpoint
+ALTER TABLE `scheduling_profile` ADD `deadline_soon_hours` integer DEFAULT 48 NOT NULL;
\ No newline at end of file
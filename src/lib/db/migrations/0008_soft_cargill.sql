@@ -0,0 +1,6 @@
+CREATE TABLE `task_dependencies` (
+	`task_id` text NOT NULL,
+	`blocked_by_id` text NOT NULL,
+	FOREIGN KEY (`task_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`blocked_by_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE cascade
+);
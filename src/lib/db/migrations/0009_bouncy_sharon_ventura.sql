@@ -0,0 +1 @@
+ALTER TABLE `lists` ADD `statuses` text;
\ No newline at end of file
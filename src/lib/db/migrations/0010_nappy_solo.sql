@@ -0,0 +1 @@
+ALTER TABLE `tasks` ADD `start_date` integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `lists` ADD `rollover` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,72 @@
+-- Full-text search index over tasks (see src/lib/db/search-index.ts), kept in sync by triggers
+CREATE VIRTUAL TABLE IF NOT EXISTS `task_search` USING fts5(
+	task_id UNINDEXED,
+	name,
+	description,
+	subtasks,
+	labels,
+	tokenize = 'unicode61 remove_diacritics 2',
+	prefix = '2 3'
+);--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `task_search_task_insert` AFTER INSERT ON `tasks` BEGIN
+	INSERT INTO task_search (task_id, name, description, subtasks, labels)
+	VALUES (NEW.id, NEW.name, coalesce(NEW.description, ''), '', '');
+END;--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `task_search_task_update` AFTER UPDATE OF name, description ON `tasks` BEGIN
+	UPDATE task_search SET name = NEW.name, description = coalesce(NEW.description, '')
+	WHERE task_id = NEW.id;
+END;--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `task_search_task_delete` AFTER DELETE ON `tasks` BEGIN
+	DELETE FROM task_search WHERE task_id = OLD.id;
+END;--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `task_search_subtask_insert` AFTER INSERT ON `subtasks` BEGIN
+	UPDATE task_search SET subtasks = (SELECT coalesce(group_concat(name, ' '), '') FROM subtasks WHERE task_id = NEW.task_id)
+	WHERE task_id = NEW.task_id;
+END;--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `task_search_subtask_update` AFTER UPDATE OF name, task_id ON `subtasks` BEGIN
+	UPDATE task_search SET subtasks = (SELECT coalesce(group_concat(name, ' '), '') FROM subtasks WHERE task_id = OLD.task_id)
+	WHERE task_id = OLD.task_id;
+	UPDATE task_search SET subtasks = (SELECT coalesce(group_concat(name, ' '), '') FROM subtasks WHERE task_id = NEW.task_id)
+	WHERE task_id = NEW.task_id;
+END;--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `task_search_subtask_delete` AFTER DELETE ON `subtasks` BEGIN
+	UPDATE task_search SET subtasks = (SELECT coalesce(group_concat(name, ' '), '') FROM subtasks WHERE task_id = OLD.task_id)
+	WHERE task_id = OLD.task_id;
+END;--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `task_search_task_label_insert` AFTER INSERT ON `task_labels` BEGIN
+	UPDATE task_search SET labels = (
+		SELECT coalesce(group_concat(l.name, ' '), '')
+		FROM task_labels tl INNER JOIN labels l ON l.id = tl.label_id
+		WHERE tl.task_id = NEW.task_id
+	)
+	WHERE task_id = NEW.task_id;
+END;--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `task_search_task_label_delete` AFTER DELETE ON `task_labels` BEGIN
+	UPDATE task_search SET labels = (
+		SELECT coalesce(group_concat(l.name, ' '), '')
+		FROM task_labels tl INNER JOIN labels l ON l.id = tl.label_id
+		WHERE tl.task_id = OLD.task_id
+	)
+	WHERE task_id = OLD.task_id;
+END;--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `task_search_label_update` AFTER UPDATE OF name ON `labels` BEGIN
+	UPDATE task_search SET labels = (
+		SELECT coalesce(group_concat(l.name, ' '), '')
+		FROM task_labels tl INNER JOIN labels l ON l.id = tl.label_id
+		WHERE tl.task_id = task_search.task_id
+	)
+	WHERE task_id IN (SELECT task_id FROM task_labels WHERE label_id = NEW.id);
+END;--> statement-breakpoint
+INSERT INTO task_search (task_id, name, description, subtasks, labels)
+SELECT
+	t.id,
+	t.name,
+	coalesce(t.description, ''),
+	(SELECT coalesce(group_concat(name, ' '), '') FROM subtasks WHERE task_id = t.id),
+	(
+		SELECT coalesce(group_concat(l.name, ' '), '')
+		FROM task_labels tl INNER JOIN labels l ON l.id = tl.label_id
+		WHERE tl.task_id = t.id
+	)
+FROM tasks t
+WHERE t.id NOT IN (SELECT task_id FROM task_search);
@@ -0,0 +1 @@
+ALTER TABLE `calendar_sources` ADD `last_attempted_at` integer;
\ No newline at end of file
@@ -7,6 +7,10 @@ export const lists = sqliteTable('lists', {
   color: text('color'),
   emoji: text('emoji'),
   isInbox: integer('is_inbox', { mode: 'boolean' }).notNull().default(false),
+  viewMode: text('view_mode').notNull().default('list'),
+  boardGrouping: text('board_grouping').notNull().default('status'),
+  statuses: text('statuses', { mode: 'json' }), // Null for the default workflow
+  rollover: integer('rollover', { mode: 'boolean' }).notNull().default(false),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
 });
@@ -20,6 +24,16 @@ export const labels = sqliteTable('labels', {
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
 });
 
+// Saved searches table (smart lists)
+export const savedSearches = sqliteTable('saved_searches', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  emoji: text('emoji'),
+  query: text('query').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+});
+
 // Tasks table
 export const tasks = sqliteTable('tasks', {
   id: text('id').primaryKey(),
@@ -28,9 +42,11 @@ export const tasks = sqliteTable('tasks', {
   listId: text('list_id').notNull().references(() => lists.id),
   date: integer('date', { mode: 'timestamp' }),
   deadline: integer('deadline', { mode: 'timestamp' }),
+  startDate: integer('start_date', { mode: 'timestamp' }),
   estimate: integer('estimate'),
   actualTime: integer('actual_time'),
   priority: text('priority').notNull().default('none'),
+  status: text('status').notNull().default('todo'),
   completed: integer('completed', { mode: 'boolean' }).notNull().default(false),
   completedAt: integer('completed_at', { mode: 'timestamp' }),
   recurrence: text('recurrence', { mode: 'json' }),
@@ -57,6 +73,12 @@ export const taskLabels = sqliteTable('task_labels', {
   labelId: text('label_id').notNull().references(() => labels.id, { onDelete: 'cascade' }),
 });
 
+// Task dependency table: a task can't be completed until the tasks blocking it are
+export const taskDependencies = sqliteTable('task_dependencies', {
+  taskId: text('task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  blockedById: text('blocked_by_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+});
+
 // Attachments table
 export const attachments = sqliteTable('attachments', {
   id: text('id').primaryKey(),
@@ -86,3 +108,59 @@ export const taskHistory = sqliteTable('task_history', {
   newValue: text('new_value'),
   changedAt: integer('changed_at', { mode: 'timestamp' }).notNull(),
 });
+
+// Notifications table
+export const notifications = sqliteTable('notifications', {
+  id: text('id').primaryKey(),
+  taskId: text('task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  reminderId: text('reminder_id').references(() => reminders.id, { onDelete: 'set null' }),
+  title: text('title').notNull(),
+  body: text('body'),
+  read: integer('read', { mode: 'boolean' }).notNull().default(false),
+  snoozedUntil: integer('snoozed_until', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+});
+
+// Push subscriptions table (one row per browser subscription)
+export const pushSubscriptions = sqliteTable('push_subscriptions', {
+  id: text('id').primaryKey(),
+  endpoint: text('endpoint').notNull().unique(),
+  p256dh: text('p256dh').notNull(),
+  auth: text('auth').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+});
+
+// Scheduling profile table (a single row with id "default")
+export const schedulingProfile = sqliteTable('scheduling_profile', {
+  id: text('id').primaryKey(),
+  timezone: text('timezone').notNull(),
+  workingDays: text('working_days', { mode: 'json' }).notNull(),
+  daysOff: text('days_off', { mode: 'json' }).notNull(),
+  slotMinutes: integer('slot_minutes').notNull(),
+  daysAhead: integer('days_ahead').notNull(),
+  deadlineUrgentHours: integer('deadline_urgent_hours').notNull().default(24),
+  deadlineSoonHours: integer('deadline_soon_hours').notNull().default(48),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+});
+
+// Calendar sources table (.ics files whose events are busy time)
+export const calendarSources = sqliteTable('calendar_sources', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  path: text('path'),
+  content: text('content'),
+  lastSyncedAt: integer('last_synced_at', { mode: 'timestamp' }),
+  lastAttemptedAt: integer('last_attempted_at', { mode: 'timestamp' }), // Last refresh, successful or not
+  lastError: text('last_error'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+});
+
+// Busy blocks table (calendar event occurrences, cached when a source is refreshed)
+export const busyBlocks = sqliteTable('busy_blocks', {
+  id: text('id').primaryKey(),
+  sourceId: text('source_id').notNull().references(() => calendarSources.id, { onDelete: 'cascade' }),
+  start: integer('start', { mode: 'timestamp' }).notNull(),
+  end: integer('end', { mode: 'timestamp' }).notNull(),
+  summary: text('summary'),
+});
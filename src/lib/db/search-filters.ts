@@ -0,0 +1,150 @@
+import { and, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, not, or, sql, type SQL } from 'drizzle-orm';
+import type { AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { addDays, parse } from 'date-fns';
+import * as schema from './schema';
+import { getMatchingPriorities } from '@/lib/utils/search-query';
+import type { SearchFilterNode, SearchQuery } from '@/types';
+
+/**
+ * SQL narrowing of search filters (see src/lib/utils/search-query.ts).
+ *
+ * Search filters are checked on each task by matchesSearchFilters; these
+ * conditions let the search service load only the tasks that can pass them.
+ * A condition may let through tasks the filter rejects, but never the other
+ * way round, so every loaded task is still checked.
+ */
+
+/**
+ * Condition for a single filter, ignoring negation.
+ * Exact conditions select the same tasks as the filter, so they can be
+ * negated; the rest select a superset and are skipped when negated.
+ */
+interface FilterCondition {
+  condition: SQL;
+  exact: boolean;
+}
+
+// SQLite's lower() only folds ASCII, so names with any other character are
+// kept as candidates and compared exactly afterwards
+function nameMatches(column: AnySQLiteColumn, value: string): SQL {
+  return sql`(lower(${column}) = ${value} OR ${column} GLOB '*[^ -~]*')`;
+}
+
+/**
+ * Condition on a task's deadline for a due: filter.
+ * Dates are compared by local day, like the filter.
+ */
+function dueCondition(filter: SearchFilterNode): SQL {
+  const day = parse(filter.value, 'yyyy-MM-dd', new Date());
+  const nextDay = addDays(day, 1);
+  const deadline = schema.tasks.deadline;
+
+  const range = (() => {
+    switch (filter.comparison) {
+      case '<':
+        return lt(deadline, day);
+      case '<=':
+        return lt(deadline, nextDay);
+      case '>':
+        return gte(deadline, nextDay);
+      case '>=':
+        return gte(deadline, day);
+      default:
+        return and(gte(deadline, day), lt(deadline, nextDay))!;
+    }
+  })();
+
+  return and(isNotNull(deadline), range)!;
+}
+
+/**
+ * Condition on a task's estimate for an estimate: filter
+ */
+function estimateCondition(filter: SearchFilterNode): SQL {
+  const minutes = parseInt(filter.value, 10);
+  const estimate = schema.tasks.estimate;
+
+  const range = (() => {
+    switch (filter.comparison) {
+      case '<':
+        return lt(estimate, minutes);
+      case '<=':
+        return lte(estimate, minutes);
+      case '>':
+        return gt(estimate, minutes);
+      case '>=':
+        return gte(estimate, minutes);
+      default:
+        return eq(estimate, minutes);
+    }
+  })();
+
+  return and(isNotNull(estimate), range)!;
+}
+
+function filterCondition(filter: SearchFilterNode, now: Date): FilterCondition {
+  const { tasks, lists, labels, taskLabels, attachments } = schema;
+
+  switch (filter.field) {
+    case 'list':
+      return {
+        condition: sql`${tasks.listId} IN (SELECT ${lists.id} FROM ${lists} WHERE ${nameMatches(lists.name, filter.value)})`,
+        exact: false,
+      };
+    case 'label':
+      return {
+        condition: sql`${tasks.id} IN (
+          SELECT ${taskLabels.taskId} FROM ${taskLabels}
+          INNER JOIN ${labels} ON ${labels.id} = ${taskLabels.labelId}
+          WHERE ${nameMatches(labels.name, filter.value)}
+        )`,
+        exact: false,
+      };
+    case 'priority':
+      return { condition: inArray(tasks.priority, getMatchingPriorities(filter)), exact: true };
+    case 'due':
+      return { condition: dueCondition(filter), exact: true };
+    case 'estimate':
+      return { condition: estimateCondition(filter), exact: true };
+    case 'is':
+      if (filter.value === 'completed') {
+        return { condition: eq(tasks.completed, true), exact: true };
+      }
+      // Deadlines are stored to the second, so the one ending this second is kept
+      return {
+        condition: and(
+          eq(tasks.completed, false),
+          isNotNull(tasks.deadline),
+          lte(tasks.deadline, now),
+          or(isNull(tasks.startDate), lte(tasks.startDate, now))
+        )!,
+        exact: false,
+      };
+    case 'has':
+      return { condition: sql`${tasks.id} IN (SELECT ${attachments.taskId} FROM ${attachments})`, exact: true };
+  }
+}
+
+/**
+ * Builds a condition on the tasks table selecting the tasks that can pass a
+ * query's filters. Free text terms are not part of it.
+ * @param query - The parsed query
+ * @param now - Reference time for is:overdue
+ * @returns The condition, or undefined if the query has no filters to narrow by
+ */
+export function searchFilterCondition(query: SearchQuery, now: Date = new Date()): SQL | undefined {
+  const conditions: SQL[] = [];
+
+  for (const node of query.nodes) {
+    if (node.type !== 'filter') continue;
+
+    const { condition, exact } = filterCondition(node, now);
+    if (!node.negated) {
+      conditions.push(condition);
+    } else if (exact) {
+      conditions.push(not(condition));
+    }
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
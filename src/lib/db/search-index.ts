@@ -0,0 +1,146 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { extractSearchWords } from '@/lib/utils/search-highlight';
+
+/**
+ * Full-text search index over tasks (SQLite FTS5).
+ *
+ * Each row holds a task's name, description, subtask names and label names.
+ * Triggers on tasks, subtasks, labels and task_labels keep it in sync, so
+ * services never write to it directly. The index is not part of the Drizzle
+ * schema; drizzle.config.ts excludes its tables from push and generate.
+ * Migration 0012_search_index creates it for databases set up with
+ * `db:migrate`, and ensureSearchIndex creates it for ones set up with
+ * `db:push`. Keep the two in sync.
+ */
+
+/**
+ * Minimal connection interface shared by better-sqlite3 and bun:sqlite
+ */
+interface SqliteConnection {
+  exec(source: string): unknown;
+  prepare(source: string): { get(...params: unknown[]): unknown };
+}
+
+// Space-separated subtask names of a task
+function subtaskNamesOf(taskId: string): string {
+  return `(SELECT coalesce(group_concat(name, ' '), '') FROM subtasks WHERE task_id = ${taskId})`;
+}
+
+// Space-separated label names of a task
+function labelNamesOf(taskId: string): string {
+  return `(
+    SELECT coalesce(group_concat(l.name, ' '), '')
+    FROM task_labels tl INNER JOIN labels l ON l.id = tl.label_id
+    WHERE tl.task_id = ${taskId}
+  )`;
+}
+
+const CREATE_INDEX_SQL = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS task_search USING fts5(
+    task_id UNINDEXED,
+    name,
+    description,
+    subtasks,
+    labels,
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+  );
+`;
+
+const TRIGGERS_SQL = `
+  CREATE TRIGGER IF NOT EXISTS task_search_task_insert AFTER INSERT ON tasks BEGIN
+    INSERT INTO task_search (task_id, name, description, subtasks, labels)
+    VALUES (NEW.id, NEW.name, coalesce(NEW.description, ''), '', '');
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS task_search_task_update AFTER UPDATE OF name, description ON tasks BEGIN
+    UPDATE task_search SET name = NEW.name, description = coalesce(NEW.description, '')
+    WHERE task_id = NEW.id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS task_search_task_delete AFTER DELETE ON tasks BEGIN
+    DELETE FROM task_search WHERE task_id = OLD.id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS task_search_subtask_insert AFTER INSERT ON subtasks BEGIN
+    UPDATE task_search SET subtasks = ${subtaskNamesOf('NEW.task_id')} WHERE task_id = NEW.task_id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS task_search_subtask_update AFTER UPDATE OF name, task_id ON subtasks BEGIN
+    UPDATE task_search SET subtasks = ${subtaskNamesOf('OLD.task_id')} WHERE task_id = OLD.task_id;
+    UPDATE task_search SET subtasks = ${subtaskNamesOf('NEW.task_id')} WHERE task_id = NEW.task_id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS task_search_subtask_delete AFTER DELETE ON subtasks BEGIN
+    UPDATE task_search SET subtasks = ${subtaskNamesOf('OLD.task_id')} WHERE task_id = OLD.task_id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS task_search_task_label_insert AFTER INSERT ON task_labels BEGIN
+    UPDATE task_search SET labels = ${labelNamesOf('NEW.task_id')} WHERE task_id = NEW.task_id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS task_search_task_label_delete AFTER DELETE ON task_labels BEGIN
+    UPDATE task_search SET labels = ${labelNamesOf('OLD.task_id')} WHERE task_id = OLD.task_id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS task_search_label_update AFTER UPDATE OF name ON labels BEGIN
+    UPDATE task_search SET labels = ${labelNamesOf('task_search.task_id')}
+    WHERE task_id IN (SELECT task_id FROM task_labels WHERE label_id = NEW.id);
+  END;
+`;
+
+const POPULATE_SQL = `
+  INSERT INTO task_search (task_id, name, description, subtasks, labels)
+  SELECT t.id, t.name, coalesce(t.description, ''), ${subtaskNamesOf('t.id')}, ${labelNamesOf('t.id')}
+  FROM tasks t;
+`;
+
+/**
+ * Creates the search index and its triggers if they don't exist yet,
+ * filling a newly created index from the existing tasks.
+ * @param sqlite - The raw SQLite connection
+ * @throws Error if the tables it indexes haven't been created yet
+ */
+export function ensureSearchIndex(sqlite: SqliteConnection): void {
+  const tableExists = (name: string): boolean =>
+    !!sqlite.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(name);
+
+  if (!tableExists('tasks')) {
+    throw new Error('Cannot create the search index before the tasks table exists. Run `bun db:migrate` first.');
+  }
+
+  const isNew = !tableExists('task_search');
+  sqlite.exec(CREATE_INDEX_SQL);
+  sqlite.exec(TRIGGERS_SQL);
+  if (isNew) {
+    sqlite.exec(POPULATE_SQL);
+  }
+}
+
+/**
+ * Builds an FTS5 match expression from free text.
+ * Each word is quoted (so query syntax in the text has no effect) and
+ * matched as a prefix; all words must match.
+ * @param text - Free text from the search query
+ * @returns The match expression, or null if the text has no words
+ */
+export function buildSearchIndexMatch(text: string): string | null {
+  const words = extractSearchWords(text);
+  if (words.length === 0) return null;
+  return words.map(word => `"${word}"*`).join(' ');
+}
+
+/**
+ * Query for the ids and bm25 ranks of tasks matching an FTS5 expression,
+ * best match (lowest rank) first.
+ * bm25 weights favour the name, then description, labels and subtasks.
+ * @param match - Expression from buildSearchIndexMatch
+ */
+export function searchIndexQuery(match: string): SQL {
+  return sql`
+    SELECT task_id AS taskId, bm25(task_search, 0.0, 10.0, 4.0, 2.0, 3.0) AS rank
+    FROM task_search
+    WHERE task_search MATCH ${match}
+    ORDER BY rank
+  `;
+}
@@ -11,11 +11,49 @@ export {
   useTodayTasks,
   useNext7DaysTasks,
   useUpcomingTasks,
+  useTasksInRange,
   useTaskHistory,
   useTaskMutations,
   taskKeys,
 } from './useTasks';
 
+// Auto-plan hooks
+export {
+  useAutoPlan,
+  useAutoPlanMutations,
+  autoPlanKeys,
+} from './useAutoPlan';
+
+// Reschedule hooks
+export {
+  useOverdueScheduledTasks,
+  useRescheduleSuggestions,
+  useRescheduleMutations,
+  rescheduleKeys,
+} from './useReschedule';
+
+// Reminder hooks
+export {
+  useReminders,
+  useReminderMutations,
+  reminderKeys,
+} from './useReminders';
+
+// Notification hooks
+export {
+  useNotifications,
+  useNotificationMutations,
+  notificationKeys,
+} from './useNotifications';
+
+// Push notification hooks
+export {
+  usePushSubscription,
+  usePushMutations,
+  isPushSupported,
+  pushKeys,
+} from './usePushNotifications';
+
 // List hooks
 export {
   useLists,
@@ -32,8 +70,33 @@ export {
   labelKeys,
 } from './useLabels';
 
+// Saved search hooks
+export {
+  useSavedSearches,
+  useSavedSearch,
+  useSavedSearchCounts,
+  useSavedSearchMutations,
+  savedSearchKeys,
+} from './useSavedSearches';
+
+// Scheduling profile hooks
+export {
+  useSchedulingProfile,
+  useSchedulingProfileMutations,
+  schedulingProfileKeys,
+} from './useSchedulingProfile';
+
+// Calendar hooks
+export {
+  useCalendarSources,
+  useBusyBlocks,
+  useCalendarMutations,
+  calendarKeys,
+} from './useCalendars';
+
 // Search hooks
 export {
   useSearch,
+  useSearchSuggestions,
   searchKeys,
 } from './useSearch';
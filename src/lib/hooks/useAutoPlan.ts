@@ -0,0 +1,118 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Task, AutoPlan, ApplyAutoPlanItem } from '@/types';
+import { taskKeys } from './useTasks';
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Parses dates from JSON response for a task
+ */
+function parseTaskDates(task: Task): Task {
+  return {
+    ...task,
+    date: task.date ? new Date(task.date) : undefined,
+    deadline: task.deadline ? new Date(task.deadline) : undefined,
+    startDate: task.startDate ? new Date(task.startDate) : undefined,
+    completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+    createdAt: new Date(task.createdAt),
+    updatedAt: new Date(task.updatedAt),
+  };
+}
+
+/**
+ * Parses dates from JSON response for an auto-plan
+ */
+function parseAutoPlanDates(plan: AutoPlan): AutoPlan {
+  return {
+    assignments: plan.assignments.map(assignment => ({
+      task: parseTaskDates(assignment.task),
+      startTime: new Date(assignment.startTime),
+      endTime: new Date(assignment.endTime),
+    })),
+    unplanned: plan.unplanned.map(parseTaskDates),
+  };
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+async function fetchAutoPlan(days: number): Promise<AutoPlan> {
+  const res = await fetch(`/api/tasks/auto-plan?days=${days}`);
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to plan tasks');
+  }
+  const data = await res.json();
+  return parseAutoPlanDates(data);
+}
+
+async function applyAutoPlan(items: ApplyAutoPlanItem[]): Promise<Task[]> {
+  const res = await fetch('/api/tasks/auto-plan', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ assignments: items }),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to apply plan');
+  }
+  return res.json();
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const autoPlanKeys = {
+  // Under the task keys so the preview is redone whenever tasks change
+  all: [...taskKeys.all, 'autoPlan'] as const,
+  preview: (days: number) => [...autoPlanKeys.all, days] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Hook to preview an auto-plan for the next days
+ * @param days - Number of days to plan, starting today
+ * @param enabled - Whether to fetch the preview
+ */
+export function useAutoPlan(days: number, enabled = true) {
+  return useQuery({
+    queryKey: autoPlanKeys.preview(days),
+    queryFn: () => fetchAutoPlan(days),
+    enabled,
+    // Slots move as time passes, so never show an old preview
+    staleTime: 0,
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Hook providing the mutation that saves an auto-plan
+ */
+export function useAutoPlanMutations() {
+  const queryClient = useQueryClient();
+
+  const apply = useMutation({
+    mutationFn: applyAutoPlan,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+      queryClient.invalidateQueries({ queryKey: ['overdueCount'] });
+    },
+  });
+
+  return {
+    apply,
+  };
+}
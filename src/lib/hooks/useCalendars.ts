@@ -0,0 +1,153 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { CalendarSource, CreateCalendarSourceInput, BusyBlock } from '@/types';
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Parses dates from JSON response for a calendar source
+ */
+function parseCalendarSourceDates(source: CalendarSource): CalendarSource {
+  return {
+    ...source,
+    lastSyncedAt: source.lastSyncedAt ? new Date(source.lastSyncedAt) : undefined,
+    createdAt: new Date(source.createdAt),
+    updatedAt: new Date(source.updatedAt),
+  };
+}
+
+/**
+ * Parses dates from JSON response for a busy block
+ */
+function parseBusyBlockDates(block: BusyBlock): BusyBlock {
+  return {
+    ...block,
+    start: new Date(block.start),
+    end: new Date(block.end),
+  };
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+async function fetchCalendarSources(): Promise<CalendarSource[]> {
+  const res = await fetch('/api/calendars');
+  if (!res.ok) throw new Error('Failed to fetch calendars');
+  const data = await res.json();
+  return data.map(parseCalendarSourceDates);
+}
+
+async function fetchBusyBlocks(start: Date, end: Date): Promise<BusyBlock[]> {
+  const params = new URLSearchParams({ start: start.toISOString(), end: end.toISOString() });
+  const res = await fetch(`/api/calendars/busy?${params}`);
+  if (!res.ok) throw new Error('Failed to fetch busy time');
+  const data = await res.json();
+  return data.map(parseBusyBlockDates);
+}
+
+async function createCalendarSource(data: CreateCalendarSourceInput): Promise<CalendarSource> {
+  const res = await fetch('/api/calendars', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    // Say why the file was rejected rather than the generic validation message
+    const details = Object.values(error.error?.details ?? {}).flat();
+    throw new Error(details.length > 0 ? details.join('. ') : error.error?.message || 'Failed to add calendar');
+  }
+  const source = await res.json();
+  return parseCalendarSourceDates(source);
+}
+
+async function refreshCalendarSource(id: string): Promise<CalendarSource> {
+  const res = await fetch(`/api/calendars/${id}/refresh`, { method: 'POST' });
+  if (!res.ok) throw new Error('Failed to refresh calendar');
+  const source = await res.json();
+  return parseCalendarSourceDates(source);
+}
+
+async function deleteCalendarSource(id: string): Promise<void> {
+  const res = await fetch(`/api/calendars/${id}`, { method: 'DELETE' });
+  if (!res.ok) throw new Error('Failed to delete calendar');
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const calendarKeys = {
+  all: ['calendars'] as const,
+  sources: () => [...calendarKeys.all, 'sources'] as const,
+  busy: (start: Date, end: Date) =>
+    [...calendarKeys.all, 'busy', start.toISOString(), end.toISOString()] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch all calendar sources
+ */
+export function useCalendarSources() {
+  return useQuery({
+    queryKey: calendarKeys.sources(),
+    queryFn: fetchCalendarSources,
+  });
+}
+
+/**
+ * Hook to fetch the calendar busy blocks overlapping a range
+ * @param start - Start of the range
+ * @param end - End of the range (exclusive)
+ * @param enabled - Whether to fetch
+ */
+export function useBusyBlocks(start: Date, end: Date, enabled = true) {
+  return useQuery({
+    queryKey: calendarKeys.busy(start, end),
+    queryFn: () => fetchBusyBlocks(start, end),
+    enabled,
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Hook providing all calendar source mutations
+ */
+export function useCalendarMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidateCalendarQueries = (): void => {
+    queryClient.invalidateQueries({ queryKey: calendarKeys.all });
+  };
+
+  const create = useMutation({
+    mutationFn: createCalendarSource,
+    onSuccess: invalidateCalendarQueries,
+  });
+
+  const refresh = useMutation({
+    mutationFn: refreshCalendarSource,
+    onSuccess: invalidateCalendarQueries,
+  });
+
+  const remove = useMutation({
+    mutationFn: deleteCalendarSource,
+    onSuccess: invalidateCalendarQueries,
+  });
+
+  return {
+    create,
+    refresh,
+    remove,
+  };
+}
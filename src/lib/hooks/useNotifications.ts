@@ -0,0 +1,138 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Notification } from '@/types';
+
+// How often the inbox checks for newly fired reminders
+const NOTIFICATION_POLL_INTERVAL_MS = 30 * 1000;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Parses dates from JSON response for a notification
+ */
+function parseNotificationDates(notification: Notification): Notification {
+  return {
+    ...notification,
+    snoozedUntil: notification.snoozedUntil ? new Date(notification.snoozedUntil) : undefined,
+    createdAt: new Date(notification.createdAt),
+  };
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+async function fetchNotifications(): Promise<Notification[]> {
+  const res = await fetch('/api/notifications');
+  if (!res.ok) throw new Error('Failed to fetch notifications');
+  const notifications: Notification[] = await res.json();
+  return notifications.map(parseNotificationDates);
+}
+
+async function markNotificationRead(id: string): Promise<Notification> {
+  const res = await fetch(`/api/notifications/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ read: true }),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to mark notification as read');
+  }
+  return parseNotificationDates(await res.json());
+}
+
+async function markAllNotificationsRead(): Promise<void> {
+  const res = await fetch('/api/notifications', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ markAllRead: true }),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to mark notifications as read');
+  }
+}
+
+async function snoozeNotification({
+  id,
+  minutes,
+}: {
+  id: string;
+  minutes: number;
+}): Promise<Notification> {
+  const res = await fetch(`/api/notifications/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ snoozeMinutes: minutes }),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to snooze notification');
+  }
+  return parseNotificationDates(await res.json());
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const notificationKeys = {
+  all: ['notifications'] as const,
+  inbox: () => [...notificationKeys.all, 'inbox'] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch the notification inbox.
+ * Polls so reminders fired by the server show up without a reload.
+ */
+export function useNotifications() {
+  return useQuery({
+    queryKey: notificationKeys.inbox(),
+    queryFn: fetchNotifications,
+    refetchInterval: NOTIFICATION_POLL_INTERVAL_MS,
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Hook providing all notification mutations
+ */
+export function useNotificationMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidateNotificationQueries = (): void => {
+    queryClient.invalidateQueries({ queryKey: notificationKeys.all });
+  };
+
+  const markRead = useMutation({
+    mutationFn: markNotificationRead,
+    onSuccess: invalidateNotificationQueries,
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: markAllNotificationsRead,
+    onSuccess: invalidateNotificationQueries,
+  });
+
+  const snooze = useMutation({
+    mutationFn: snoozeNotification,
+    onSuccess: invalidateNotificationQueries,
+  });
+
+  return {
+    markRead,
+    markAllRead,
+    snooze,
+  };
+}
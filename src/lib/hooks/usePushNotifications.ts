@@ -0,0 +1,160 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Checks whether the browser supports service workers and the Push API
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+/**
+ * Converts a URL-safe base64 VAPID key to the format PushManager expects
+ */
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padding = '='.repeat((4 - (base64.length % 4)) % 4);
+  const raw = atob((base64 + padding).replace(/-/g, '+').replace(/_/g, '/'));
+  const output = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    output[i] = raw.charCodeAt(i);
+  }
+  return output;
+}
+
+/**
+ * Gets this browser's current push subscription, if any
+ */
+async function getCurrentSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+async function fetchPublicKey(): Promise<string> {
+  const res = await fetch('/api/push/public-key');
+  if (!res.ok) throw new Error('Failed to fetch push public key');
+  const data: { publicKey: string } = await res.json();
+  return data.publicKey;
+}
+
+async function fetchIsSubscribed(): Promise<boolean> {
+  return (await getCurrentSubscription()) !== null;
+}
+
+async function subscribeToPush(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported in this browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was denied');
+  }
+
+  const publicKey = await fetchPublicKey();
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const registration = await navigator.serviceWorker.ready;
+
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(publicKey),
+  });
+
+  const res = await fetch('/api/push/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription.toJSON()),
+  });
+  if (!res.ok) {
+    await subscription.unsubscribe();
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to save push subscription');
+  }
+}
+
+async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getCurrentSubscription();
+  if (!subscription) return;
+
+  const res = await fetch('/api/push/subscriptions', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  });
+  // 404 means the server already dropped it (e.g. expired), which is fine
+  if (!res.ok && res.status !== 404) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to remove push subscription');
+  }
+
+  await subscription.unsubscribe();
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const pushKeys = {
+  all: ['push'] as const,
+  subscription: () => [...pushKeys.all, 'subscription'] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Hook to check whether this browser is subscribed to push reminders
+ */
+export function usePushSubscription() {
+  return useQuery({
+    queryKey: pushKeys.subscription(),
+    queryFn: fetchIsSubscribed,
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Hook providing push subscribe/unsubscribe mutations
+ */
+export function usePushMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidatePushQueries = (): void => {
+    queryClient.invalidateQueries({ queryKey: pushKeys.all });
+  };
+
+  const subscribe = useMutation({
+    mutationFn: subscribeToPush,
+    onSuccess: invalidatePushQueries,
+  });
+
+  const unsubscribe = useMutation({
+    mutationFn: unsubscribeFromPush,
+    onSuccess: invalidatePushQueries,
+  });
+
+  return {
+    subscribe,
+    unsubscribe,
+  };
+}
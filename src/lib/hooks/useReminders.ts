@@ -0,0 +1,127 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Reminder, CreateReminderInput, UpdateReminderInput } from '@/types';
+import { taskKeys } from './useTasks';
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+async function fetchReminders(taskId: string): Promise<Reminder[]> {
+  const res = await fetch(`/api/tasks/${taskId}/reminders`);
+  if (!res.ok) throw new Error('Failed to fetch reminders');
+  return res.json();
+}
+
+async function createReminder({
+  taskId,
+  data,
+}: {
+  taskId: string;
+  data: CreateReminderInput;
+}): Promise<Reminder> {
+  const res = await fetch(`/api/tasks/${taskId}/reminders`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to create reminder');
+  }
+  return res.json();
+}
+
+async function updateReminder({
+  id,
+  data,
+}: {
+  id: string;
+  data: UpdateReminderInput;
+}): Promise<Reminder> {
+  const res = await fetch(`/api/reminders/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to update reminder');
+  }
+  return res.json();
+}
+
+async function deleteReminder(id: string): Promise<void> {
+  const res = await fetch(`/api/reminders/${id}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to delete reminder');
+  }
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const reminderKeys = {
+  all: ['reminders'] as const,
+  task: (taskId: string) => [...reminderKeys.all, 'task', taskId] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch reminders for a task
+ * Requirements: 27.4, 27.5
+ */
+export function useReminders(taskId: string | undefined) {
+  return useQuery({
+    queryKey: reminderKeys.task(taskId ?? ''),
+    queryFn: () => fetchReminders(taskId!),
+    enabled: !!taskId,
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Hook providing all reminder mutations
+ * Requirements: 27.1, 27.2, 27.4
+ */
+export function useReminderMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidateReminderQueries = (): void => {
+    queryClient.invalidateQueries({ queryKey: reminderKeys.all });
+    // Task payloads include their reminders
+    queryClient.invalidateQueries({ queryKey: taskKeys.all });
+  };
+
+  const create = useMutation({
+    mutationFn: createReminder,
+    onSuccess: invalidateReminderQueries,
+  });
+
+  const update = useMutation({
+    mutationFn: updateReminder,
+    onSuccess: invalidateReminderQueries,
+  });
+
+  const remove = useMutation({
+    mutationFn: deleteReminder,
+    onSuccess: invalidateReminderQueries,
+  });
+
+  return {
+    create,
+    update,
+    remove,
+  };
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Task, AutoPlan } from '@/types';
+import type { RescheduleTarget } from '@/lib/utils/rollover';
+import { taskKeys } from './useTasks';
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Parses dates from JSON response for a task
+ */
+function parseTaskDates(task: Task): Task {
+  return {
+    ...task,
+    date: task.date ? new Date(task.date) : undefined,
+    deadline: task.deadline ? new Date(task.deadline) : undefined,
+    startDate: task.startDate ? new Date(task.startDate) : undefined,
+    completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+    createdAt: new Date(task.createdAt),
+    updatedAt: new Date(task.updatedAt),
+  };
+}
+
+/**
+ * Parses dates from JSON response for a plan of suggested times
+ */
+function parsePlanDates(plan: AutoPlan): AutoPlan {
+  return {
+    assignments: plan.assignments.map(assignment => ({
+      task: parseTaskDates(assignment.task),
+      startTime: new Date(assignment.startTime),
+      endTime: new Date(assignment.endTime),
+    })),
+    unplanned: plan.unplanned.map(parseTaskDates),
+  };
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+async function fetchOverdueScheduled(): Promise<Task[]> {
+  const res = await fetch('/api/tasks/reschedule');
+  if (!res.ok) throw new Error('Failed to fetch overdue tasks');
+  const data = await res.json();
+  return data.map(parseTaskDates);
+}
+
+async function fetchRescheduleSuggestions(): Promise<AutoPlan> {
+  const res = await fetch('/api/tasks/reschedule/suggestions');
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to suggest new times');
+  }
+  const data = await res.json();
+  return parsePlanDates(data);
+}
+
+async function rescheduleOverdue(to: RescheduleTarget): Promise<Task[]> {
+  const res = await fetch('/api/tasks/reschedule', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ to }),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to reschedule tasks');
+  }
+  return res.json();
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const rescheduleKeys = {
+  // Under the task keys so both are refetched whenever tasks change
+  all: [...taskKeys.all, 'reschedule'] as const,
+  overdue: () => [...rescheduleKeys.all, 'overdue'] as const,
+  suggestions: () => [...rescheduleKeys.all, 'suggestions'] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch the incomplete tasks scheduled before today
+ */
+export function useOverdueScheduledTasks() {
+  return useQuery({
+    queryKey: rescheduleKeys.overdue(),
+    queryFn: fetchOverdueScheduled,
+  });
+}
+
+/**
+ * Hook to preview the scheduler's suggested times for the overdue tasks
+ * @param enabled - Whether to fetch the preview
+ */
+export function useRescheduleSuggestions(enabled = true) {
+  return useQuery({
+    queryKey: rescheduleKeys.suggestions(),
+    queryFn: fetchRescheduleSuggestions,
+    enabled,
+    // Slots move as time passes, so never show an old preview
+    staleTime: 0,
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Hook providing the mutation that moves every overdue task to today or tomorrow.
+ * Suggested times are saved with the auto-plan mutation.
+ */
+export function useRescheduleMutations() {
+  const queryClient = useQueryClient();
+
+  const moveAll = useMutation({
+    mutationFn: rescheduleOverdue,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+      queryClient.invalidateQueries({ queryKey: ['overdueCount'] });
+    },
+  });
+
+  return {
+    moveAll,
+  };
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { SavedSearch, CreateSavedSearchInput, UpdateSavedSearchInput } from '@/types';
+import { taskKeys } from './useTasks';
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Parses dates from JSON response for a saved search
+ */
+function parseSavedSearchDates(savedSearch: SavedSearch): SavedSearch {
+  return {
+    ...savedSearch,
+    createdAt: new Date(savedSearch.createdAt),
+    updatedAt: new Date(savedSearch.updatedAt),
+  };
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+async function fetchSavedSearches(): Promise<SavedSearch[]> {
+  const res = await fetch('/api/saved-searches');
+  if (!res.ok) throw new Error('Failed to fetch saved searches');
+  const data = await res.json();
+  return data.map(parseSavedSearchDates);
+}
+
+async function fetchSavedSearch(id: string): Promise<SavedSearch> {
+  const res = await fetch(`/api/saved-searches/${id}`);
+  if (!res.ok) throw new Error('Failed to fetch saved search');
+  const data = await res.json();
+  return parseSavedSearchDates(data);
+}
+
+async function fetchSavedSearchCounts(): Promise<Record<string, number>> {
+  const res = await fetch('/api/saved-searches/counts');
+  if (!res.ok) throw new Error('Failed to fetch saved search counts');
+  return res.json();
+}
+
+async function createSavedSearch(data: CreateSavedSearchInput): Promise<SavedSearch> {
+  const res = await fetch('/api/saved-searches', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to save search');
+  }
+  return res.json();
+}
+
+async function updateSavedSearch({
+  id,
+  data,
+}: {
+  id: string;
+  data: UpdateSavedSearchInput;
+}): Promise<SavedSearch> {
+  const res = await fetch(`/api/saved-searches/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to update saved search');
+  }
+  return res.json();
+}
+
+async function deleteSavedSearch(id: string): Promise<void> {
+  const res = await fetch(`/api/saved-searches/${id}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to delete saved search');
+  }
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const savedSearchKeys = {
+  all: ['savedSearches'] as const,
+  details: () => [...savedSearchKeys.all, 'detail'] as const,
+  detail: (id: string) => [...savedSearchKeys.details(), id] as const,
+  // Under the task keys so that every task change refreshes the counts
+  counts: () => [...taskKeys.all, 'savedSearchCounts'] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch all saved searches
+ */
+export function useSavedSearches() {
+  return useQuery({
+    queryKey: savedSearchKeys.all,
+    queryFn: fetchSavedSearches,
+  });
+}
+
+/**
+ * Hook to fetch a single saved search by ID
+ */
+export function useSavedSearch(id: string | undefined) {
+  return useQuery({
+    queryKey: savedSearchKeys.detail(id ?? ''),
+    queryFn: () => fetchSavedSearch(id!),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook to fetch the number of incomplete tasks matching each saved search
+ */
+export function useSavedSearchCounts() {
+  return useQuery({
+    queryKey: savedSearchKeys.counts(),
+    queryFn: fetchSavedSearchCounts,
+    refetchInterval: 60000, // Relative filters like due:today change over time
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Hook providing all saved search mutations
+ */
+export function useSavedSearchMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidateSavedSearchQueries = (): void => {
+    queryClient.invalidateQueries({ queryKey: savedSearchKeys.all });
+    queryClient.invalidateQueries({ queryKey: savedSearchKeys.counts() });
+  };
+
+  const create = useMutation({
+    mutationFn: createSavedSearch,
+    onSuccess: invalidateSavedSearchQueries,
+  });
+
+  const update = useMutation({
+    mutationFn: updateSavedSearch,
+    onSuccess: invalidateSavedSearchQueries,
+  });
+
+  const remove = useMutation({
+    mutationFn: deleteSavedSearch,
+    onSuccess: invalidateSavedSearchQueries,
+  });
+
+  return {
+    create,
+    update,
+    remove,
+  };
+}
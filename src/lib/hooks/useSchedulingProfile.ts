@@ -0,0 +1,89 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { SchedulingProfile, UpdateSchedulingProfileInput } from '@/types';
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Parses dates from JSON response for the scheduling profile
+ */
+function parseProfileDates(profile: SchedulingProfile): SchedulingProfile {
+  return {
+    ...profile,
+    updatedAt: profile.updatedAt ? new Date(profile.updatedAt) : undefined,
+  };
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+async function fetchSchedulingProfile(): Promise<SchedulingProfile> {
+  const res = await fetch('/api/settings/scheduling');
+  if (!res.ok) throw new Error('Failed to fetch scheduling profile');
+  const data = await res.json();
+  return parseProfileDates(data);
+}
+
+async function updateSchedulingProfile(data: UpdateSchedulingProfileInput): Promise<SchedulingProfile> {
+  const res = await fetch('/api/settings/scheduling', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    // Show what is wrong rather than the generic validation message
+    const details = Object.values(error.error?.details ?? {}).flat();
+    throw new Error(details.length > 0 ? details.join('. ') : error.error?.message || 'Failed to update scheduling profile');
+  }
+  const profile = await res.json();
+  return parseProfileDates(profile);
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const schedulingProfileKeys = {
+  all: ['schedulingProfile'] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch the scheduling profile used for time slot suggestions
+ */
+export function useSchedulingProfile() {
+  return useQuery({
+    queryKey: schedulingProfileKeys.all,
+    queryFn: fetchSchedulingProfile,
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Hook providing the scheduling profile mutation
+ */
+export function useSchedulingProfileMutations() {
+  const queryClient = useQueryClient();
+
+  const update = useMutation({
+    mutationFn: updateSchedulingProfile,
+    onSuccess: (profile) => {
+      queryClient.setQueryData(schedulingProfileKeys.all, profile);
+    },
+  });
+
+  return {
+    update,
+  };
+}
@@ -1,7 +1,10 @@
 'use client';
 
 import { useQuery } from '@tanstack/react-query';
-import type { Task } from '@/types';
+import type { Task, SearchResult, SearchSuggestion } from '@/types';
+import { getSearchSuggestions } from '@/lib/utils/search-query';
+import { useLists } from './useLists';
+import { useLabels } from './useLabels';
 
 // ============================================================================
 // Utility Functions
@@ -15,6 +18,7 @@ function parseTaskDates(task: Task): Task {
     ...task,
     date: task.date ? new Date(task.date) : undefined,
     deadline: task.deadline ? new Date(task.deadline) : undefined,
+    startDate: task.startDate ? new Date(task.startDate) : undefined,
     completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
     createdAt: new Date(task.createdAt),
     updatedAt: new Date(task.updatedAt),
@@ -35,12 +39,15 @@ function parseTaskDates(task: Task): Task {
 // API Functions
 // ============================================================================
 
-async function searchTasks(query: string): Promise<Task[]> {
+async function searchTasks(query: string): Promise<SearchResult[]> {
   if (!query.trim()) return [];
   const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
-  if (!res.ok) throw new Error('Failed to search tasks');
-  const data = await res.json();
-  return data.map(parseTaskDates);
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to search tasks');
+  }
+  const data: SearchResult[] = await res.json();
+  return data.map((result) => ({ ...result, task: parseTaskDates(result.task) }));
 }
 
 // ============================================================================
@@ -57,7 +64,7 @@ export const searchKeys = {
 // ============================================================================
 
 /**
- * Hook to search tasks using fuzzy matching
+ * Hook to search tasks using filters and fuzzy matching
  * Requirements: 17.1, 17.2, 17.3, 17.4
  */
 export function useSearch(query: string) {
@@ -67,3 +74,17 @@ export function useSearch(query: string) {
     enabled: query.trim().length > 0,
   });
 }
+
+/**
+ * Hook to get autocomplete suggestions for the filter being typed
+ * at the end of a search query, using the existing list and label names
+ */
+export function useSearchSuggestions(query: string): SearchSuggestion[] {
+  const { data: lists = [] } = useLists();
+  const { data: labels = [] } = useLabels();
+
+  return getSearchSuggestions(query, {
+    lists: lists.map((l) => l.name),
+    labels: labels.map((l) => l.name),
+  });
+}
@@ -9,7 +9,10 @@ import type {
   GroupedTasks,
   Subtask,
   CreateSubtaskInput,
+  UpdateSubtaskInput,
+  List,
 } from '@/types';
+import { getDefaultStatus, getListStatuses, getStatusCompletion } from '@/lib/utils/workflow';
 
 // ============================================================================
 // Utility Functions
@@ -23,6 +26,7 @@ function parseTaskDates(task: Task): Task {
     ...task,
     date: task.date ? new Date(task.date) : undefined,
     deadline: task.deadline ? new Date(task.deadline) : undefined,
+    startDate: task.startDate ? new Date(task.startDate) : undefined,
     completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
     createdAt: new Date(task.createdAt),
     updatedAt: new Date(task.updatedAt),
@@ -39,6 +43,63 @@ function parseTaskDates(task: Task): Task {
   };
 }
 
+/**
+ * Takes an updated field value, where null clears the field
+ */
+function clearable<T>(value: T | null | undefined, current: T | undefined): T | undefined {
+  return value === undefined ? current : value ?? undefined;
+}
+
+/**
+ * Applies an update to a task the way the server will, for optimistic updates.
+ * Label and blocker changes and moves between lists are left to the refetch.
+ */
+function applyTaskUpdate(task: Task, data: UpdateTaskInput, lists: List[]): Task {
+  const updated: Task = {
+    ...task,
+    name: data.name ?? task.name,
+    description: data.description ?? task.description,
+    listId: data.listId ?? task.listId,
+    priority: data.priority ?? task.priority,
+    completed: data.completed ?? task.completed,
+    date: clearable(data.date, task.date),
+    deadline: clearable(data.deadline, task.deadline),
+    startDate: clearable(data.startDate, task.startDate),
+    estimate: clearable(data.estimate, task.estimate),
+    actualTime: clearable(data.actualTime, task.actualTime),
+    recurrence: clearable(data.recurrence, task.recurrence),
+  };
+
+  // Status and completion move together, as on the server
+  const statuses = getListStatuses(lists.find(list => list.id === task.listId));
+  let status = task.status;
+  if (data.status !== undefined) {
+    status = data.status;
+  } else if (data.completed !== undefined && data.completed !== task.completed) {
+    status = getDefaultStatus(statuses, data.completed);
+  }
+  if (status === task.status) return updated;
+
+  const { completed, completedAt } = getStatusCompletion(task, status, statuses, new Date());
+  return { ...updated, status, completed, completedAt: completedAt ?? undefined };
+}
+
+/**
+ * Applies an update to a task wherever it appears in cached task data:
+ * a single task, a task array, or tasks grouped by date
+ */
+function updateCachedTask(cached: unknown, id: string, data: UpdateTaskInput, lists: List[]): unknown {
+  if (Array.isArray(cached)) {
+    return cached.map(item => updateCachedTask(item, id, data, lists));
+  }
+  if (cached && typeof cached === 'object') {
+    const item = cached as { id?: string; tasks?: unknown };
+    if (item.id === id) return applyTaskUpdate(cached as Task, data, lists);
+    if (Array.isArray(item.tasks)) return { ...item, tasks: updateCachedTask(item.tasks, id, data, lists) };
+  }
+  return cached;
+}
+
 /**
  * Parses dates for grouped tasks
  */
@@ -65,7 +126,7 @@ function parseHistoryDates(entry: TaskHistoryEntry): TaskHistoryEntry {
 // ============================================================================
 
 async function fetchTasks(includeCompleted: boolean): Promise<Task[]> {
-  const res = await fetch(`/api/tasks?includeCompleted=${includeCompleted}`);
+  const res = await fetch(`/api/tasks?includeCompleted=${includeCompleted}&includeDeferred=true`);
   if (!res.ok) throw new Error('Failed to fetch tasks');
   const data = await res.json();
   return data.map(parseTaskDates);
@@ -111,6 +172,22 @@ async function fetchNext7DaysTasks(
   return parseGroupedTasksDates(data);
 }
 
+async function fetchTasksInRange(
+  start: Date,
+  end: Date,
+  includeDeadlines: boolean
+): Promise<Task[]> {
+  const params = new URLSearchParams({
+    start: start.toISOString(),
+    end: end.toISOString(),
+    includeDeadlines: String(includeDeadlines),
+  });
+  const res = await fetch(`/api/tasks/range?${params}`);
+  if (!res.ok) throw new Error('Failed to fetch tasks');
+  const data = await res.json();
+  return data.map(parseTaskDates);
+}
+
 async function fetchUpcomingTasks(
   includeCompleted: boolean
 ): Promise<GroupedTasks[]> {
@@ -203,6 +280,100 @@ async function createSubtask({
   return res.json();
 }
 
+async function updateSubtask({
+  taskId,
+  subtaskId,
+  data,
+}: {
+  taskId: string;
+  subtaskId: string;
+  data: UpdateSubtaskInput;
+}): Promise<Subtask> {
+  const res = await fetch(`/api/tasks/${taskId}/subtasks/${subtaskId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to update subtask');
+  }
+  return res.json();
+}
+
+async function deleteSubtask({
+  taskId,
+  subtaskId,
+}: {
+  taskId: string;
+  subtaskId: string;
+}): Promise<void> {
+  const res = await fetch(`/api/tasks/${taskId}/subtasks/${subtaskId}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to delete subtask');
+  }
+}
+
+async function reorderSubtasks({
+  taskId,
+  subtaskIds,
+}: {
+  taskId: string;
+  subtaskIds: string[];
+}): Promise<Subtask[]> {
+  const res = await fetch(`/api/tasks/${taskId}/subtasks`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ subtaskIds }),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to reorder subtasks');
+  }
+  return res.json();
+}
+
+async function promoteSubtask({
+  taskId,
+  subtaskId,
+}: {
+  taskId: string;
+  subtaskId: string;
+}): Promise<Task> {
+  const res = await fetch(`/api/tasks/${taskId}/subtasks/${subtaskId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ promote: true }),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to promote subtask');
+  }
+  return res.json();
+}
+
+async function demoteTask({
+  id,
+  parentTaskId,
+}: {
+  id: string;
+  parentTaskId: string;
+}): Promise<Subtask> {
+  const res = await fetch(`/api/tasks/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ demoteTo: parentTaskId }),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || 'Failed to demote task');
+  }
+  return res.json();
+}
+
 
 // ============================================================================
 // Query Keys
@@ -222,6 +393,8 @@ export const taskKeys = {
   upcoming: (includeCompleted: boolean) =>
     [...taskKeys.all, 'upcoming', { includeCompleted }] as const,
   history: (taskId: string) => [...taskKeys.all, 'history', taskId] as const,
+  range: (start: Date, end: Date, includeDeadlines: boolean) =>
+    [...taskKeys.all, 'range', start.toISOString(), end.toISOString(), { includeDeadlines }] as const,
 };
 
 // ============================================================================
@@ -229,7 +402,7 @@ export const taskKeys = {
 // ============================================================================
 
 /**
- * Hook to fetch all tasks
+ * Hook to fetch all tasks, deferred ones included
  * Requirements: 15.1, 15.2
  */
 export function useTasks(includeCompleted = true) {
@@ -294,6 +467,21 @@ export function useUpcomingTasks(includeCompleted = true) {
   });
 }
 
+/**
+ * Hook to fetch tasks scheduled within a date range
+ * @param start - Start of the range (inclusive)
+ * @param end - End of the range (exclusive)
+ * @param includeDeadlines - Also fetch tasks due within the range
+ * @param enabled - Whether to fetch
+ */
+export function useTasksInRange(start: Date, end: Date, includeDeadlines = false, enabled = true) {
+  return useQuery({
+    queryKey: taskKeys.range(start, end, includeDeadlines),
+    queryFn: () => fetchTasksInRange(start, end, includeDeadlines),
+    enabled,
+  });
+}
+
 /**
  * Hook to fetch task history
  * Requirements: 5.1, 5.2, 5.3
@@ -327,9 +515,24 @@ export function useTaskMutations() {
     onSuccess: invalidateTaskQueries,
   });
 
+  // Updates show at once and are rolled back if the server rejects them
   const update = useMutation({
     mutationFn: updateTask,
-    onSuccess: invalidateTaskQueries,
+    onMutate: async ({ id, data }) => {
+      await queryClient.cancelQueries({ queryKey: taskKeys.all });
+      const previous = queryClient.getQueriesData({ queryKey: taskKeys.all });
+      const lists = queryClient.getQueryData<List[]>(['lists']) ?? [];
+      queryClient.setQueriesData({ queryKey: taskKeys.all }, (cached: unknown) =>
+        updateCachedTask(cached, id, data, lists)
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      for (const [queryKey, data] of context?.previous ?? []) {
+        queryClient.setQueryData(queryKey, data);
+      }
+    },
+    onSettled: invalidateTaskQueries,
   });
 
   const remove = useMutation({
@@ -347,11 +550,41 @@ export function useTaskMutations() {
     onSuccess: invalidateTaskQueries,
   });
 
+  const updateSubtaskMutation = useMutation({
+    mutationFn: updateSubtask,
+    onSuccess: invalidateTaskQueries,
+  });
+
+  const deleteSubtaskMutation = useMutation({
+    mutationFn: deleteSubtask,
+    onSuccess: invalidateTaskQueries,
+  });
+
+  const reorderSubtasksMutation = useMutation({
+    mutationFn: reorderSubtasks,
+    onSuccess: invalidateTaskQueries,
+  });
+
+  const promoteSubtaskMutation = useMutation({
+    mutationFn: promoteSubtask,
+    onSuccess: invalidateTaskQueries,
+  });
+
+  const demote = useMutation({
+    mutationFn: demoteTask,
+    onSuccess: invalidateTaskQueries,
+  });
+
   return {
     create,
     update,
     remove,
     toggleComplete,
     addSubtask,
+    updateSubtask: updateSubtaskMutation,
+    deleteSubtask: deleteSubtaskMutation,
+    reorderSubtasks: reorderSubtasksMutation,
+    promoteSubtask: promoteSubtaskMutation,
+    demote,
   };
 }
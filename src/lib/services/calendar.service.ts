@@ -0,0 +1,265 @@
+import { db, schema } from '@/lib/db';
+import { eq, and, lt, gt, asc } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { readFile } from 'fs/promises';
+import type {
+  BusyBlock,
+  CalendarSource,
+  CreateCalendarSourceInput,
+  ICalendarService,
+} from '@/types';
+import { validateCreateCalendarSource } from '@/lib/utils/validation';
+import { parseIcs, expandBusyIntervals, IcsParseError, type IcsEvent } from '@/lib/utils/ics';
+import { schedulingProfileService } from './scheduling-profile.service';
+
+// Busy blocks are cached from a day ago to this many days ahead,
+// beyond the longest scheduling look-ahead
+const CACHE_DAYS_AHEAD = 90;
+
+// Sources are refreshed when their last refresh is older than this, whether
+// or not it succeeded, so a calendar that can't be read isn't re-read on every request
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Rows per insert, well under SQLite's bound parameter limit
+const INSERT_BATCH_SIZE = 100;
+
+// Custom error classes for Calendar service
+export class CalendarValidationError extends Error {
+  constructor(
+    message: string,
+    public errors: Record<string, string[]>
+  ) {
+    super(message);
+    this.name = 'CalendarValidationError';
+  }
+}
+
+export class CalendarNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Calendar with id "${id}" not found`);
+    this.name = 'CalendarNotFoundError';
+  }
+}
+
+/**
+ * Converts a database row to a CalendarSource (without its stored file content)
+ */
+function toCalendarSource(row: typeof schema.calendarSources.$inferSelect): CalendarSource {
+  return {
+    id: row.id,
+    name: row.name,
+    path: row.path ?? undefined,
+    lastSyncedAt: row.lastSyncedAt ?? undefined,
+    lastError: row.lastError ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Reads the calendar text of a source: the local file, or the uploaded content
+ */
+async function readCalendar(source: { path: string | null; content: string | null }): Promise<string> {
+  if (source.path) {
+    return readFile(source.path, 'utf8');
+  }
+  return source.content ?? '';
+}
+
+/**
+ * Describes why a calendar could not be read
+ */
+function describeReadError(error: unknown): string {
+  if (error instanceof IcsParseError) return error.message;
+  if (error instanceof Error && 'code' in error && error.code === 'ENOENT') return 'File not found';
+  return error instanceof Error ? error.message : 'Failed to read calendar';
+}
+
+/**
+ * Replaces the cached busy blocks of a source with the occurrences of its events
+ */
+async function cacheBusyBlocks(sourceId: string, events: IcsEvent[]): Promise<void> {
+  const { timezone } = await schedulingProfileService.get();
+  const now = Date.now();
+  const intervals = expandBusyIntervals(
+    events,
+    new Date(now - 24 * 60 * 60 * 1000),
+    new Date(now + CACHE_DAYS_AHEAD * 24 * 60 * 60 * 1000),
+    timezone
+  );
+
+  await db.delete(schema.busyBlocks).where(eq(schema.busyBlocks.sourceId, sourceId));
+
+  for (let i = 0; i < intervals.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(schema.busyBlocks).values(
+      intervals.slice(i, i + INSERT_BATCH_SIZE).map(interval => ({
+        id: uuidv4(),
+        sourceId,
+        start: interval.start,
+        end: interval.end,
+        summary: interval.summary ?? null,
+      }))
+    );
+  }
+}
+
+/**
+ * Calendar Service Implementation
+ * Imports .ics calendars and caches their events as busy time for the scheduler
+ */
+export const calendarService: ICalendarService = {
+  /**
+   * Gets all calendar sources.
+   * @returns All calendar sources, oldest first
+   */
+  async getSources(): Promise<CalendarSource[]> {
+    const rows = await db
+      .select()
+      .from(schema.calendarSources)
+      .orderBy(asc(schema.calendarSources.createdAt));
+
+    return rows.map(toCalendarSource);
+  },
+
+  /**
+   * Adds a calendar from a local .ics file or uploaded content and caches its busy blocks.
+   * @param data - The calendar name and its file path or content
+   * @returns The created calendar source
+   * @throws CalendarValidationError if validation fails or the calendar cannot be read
+   */
+  async createSource(data: CreateCalendarSourceInput): Promise<CalendarSource> {
+    const validation = validateCreateCalendarSource(data);
+    if (!validation.valid) {
+      throw new CalendarValidationError('Invalid calendar data', validation.errors);
+    }
+
+    const path = data.path?.trim() ?? null;
+    const content = path ? null : data.content ?? null;
+
+    let events: IcsEvent[];
+    try {
+      events = parseIcs(await readCalendar({ path, content }));
+    } catch (error) {
+      throw new CalendarValidationError('Invalid calendar data', {
+        [path ? 'path' : 'content']: [describeReadError(error)],
+      });
+    }
+
+    const now = new Date();
+    const id = uuidv4();
+
+    await db.insert(schema.calendarSources).values({
+      id,
+      name: data.name.trim(),
+      path,
+      content,
+      lastSyncedAt: now,
+      lastAttemptedAt: now,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await cacheBusyBlocks(id, events);
+
+    const [row] = await db
+      .select()
+      .from(schema.calendarSources)
+      .where(eq(schema.calendarSources.id, id));
+
+    return toCalendarSource(row);
+  },
+
+  /**
+   * Re-reads a calendar and replaces its cached busy blocks.
+   * If it cannot be read, the error is recorded and the cached blocks are kept.
+   * @param id - The calendar source ID
+   * @returns The refreshed calendar source
+   * @throws CalendarNotFoundError if the calendar doesn't exist
+   */
+  async refreshSource(id: string): Promise<CalendarSource> {
+    const [existing] = await db
+      .select()
+      .from(schema.calendarSources)
+      .where(eq(schema.calendarSources.id, id));
+
+    if (!existing) {
+      throw new CalendarNotFoundError(id);
+    }
+
+    const now = new Date();
+    try {
+      const events = parseIcs(await readCalendar(existing));
+      await cacheBusyBlocks(id, events);
+      await db
+        .update(schema.calendarSources)
+        .set({ lastSyncedAt: now, lastAttemptedAt: now, lastError: null, updatedAt: now })
+        .where(eq(schema.calendarSources.id, id));
+    } catch (error) {
+      await db
+        .update(schema.calendarSources)
+        .set({ lastAttemptedAt: now, lastError: describeReadError(error), updatedAt: now })
+        .where(eq(schema.calendarSources.id, id));
+    }
+
+    const [row] = await db
+      .select()
+      .from(schema.calendarSources)
+      .where(eq(schema.calendarSources.id, id));
+
+    return toCalendarSource(row);
+  },
+
+  /**
+   * Deletes a calendar source and its busy blocks.
+   * @param id - The calendar source ID
+   * @throws CalendarNotFoundError if the calendar doesn't exist
+   */
+  async deleteSource(id: string): Promise<void> {
+    const [existing] = await db
+      .select()
+      .from(schema.calendarSources)
+      .where(eq(schema.calendarSources.id, id));
+
+    if (!existing) {
+      throw new CalendarNotFoundError(id);
+    }
+
+    await db.delete(schema.busyBlocks).where(eq(schema.busyBlocks.sourceId, id));
+    await db.delete(schema.calendarSources).where(eq(schema.calendarSources.id, id));
+  },
+
+  /**
+   * Gets the busy blocks overlapping a range, refreshing calendars whose
+   * cache has expired first. A calendar that failed to refresh is tried
+   * again once the cache would have expired.
+   * @param start - Start of the range
+   * @param end - End of the range (exclusive)
+   * @returns Busy blocks ordered by start
+   */
+  async getBusyBlocks(start: Date, end: Date): Promise<BusyBlock[]> {
+    const staleBefore = Date.now() - CACHE_TTL_MS;
+    const sources = await db.select().from(schema.calendarSources);
+    for (const source of sources) {
+      const lastAttempt = source.lastAttemptedAt ?? source.lastSyncedAt;
+      if (!lastAttempt || lastAttempt.getTime() < staleBefore) {
+        await this.refreshSource(source.id);
+      }
+    }
+
+    const rows = await db
+      .select()
+      .from(schema.busyBlocks)
+      .where(and(lt(schema.busyBlocks.start, end), gt(schema.busyBlocks.end, start)))
+      .orderBy(asc(schema.busyBlocks.start));
+
+    return rows.map(row => ({
+      id: row.id,
+      sourceId: row.sourceId,
+      start: row.start,
+      end: row.end,
+      summary: row.summary ?? undefined,
+    }));
+  },
+};
+
+export default calendarService;
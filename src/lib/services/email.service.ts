@@ -0,0 +1,208 @@
+import nodemailer from 'nodemailer';
+import { v4 as uuidv4 } from 'uuid';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { buildTaskLink, renderReminderEmail } from '@/lib/utils/email-templates';
+import { listService } from './list.service';
+import type { ReminderChannel, ReminderDelivery } from './reminder-dispatcher.service';
+
+// Defaults used when settings are not provided
+const DEFAULT_SMTP_PORT = 587;
+const DEFAULT_OUTBOX_DIR = './data/outbox';
+const DEFAULT_APP_URL = 'http://localhost:3000';
+
+/**
+ * A single outgoing email
+ */
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Sends emails. Implementations should throw if sending fails.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export type EmailTransportType = 'smtp' | 'outbox';
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Email channel configuration
+ */
+export interface EmailSettings {
+  transport: EmailTransportType;
+  from: string;
+  to: string;
+  appUrl: string;
+  smtp?: SmtpSettings;
+  outboxDir: string;
+}
+
+// Custom error classes for Email service
+export class EmailConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailConfigurationError';
+  }
+}
+
+/**
+ * Reads email settings from environment variables.
+ *
+ * - EMAIL_TO: reminder recipient (email reminders are disabled when unset)
+ * - EMAIL_FROM: sender address
+ * - EMAIL_TRANSPORT: 'smtp' or 'outbox' (default: 'smtp' when SMTP_HOST is set, else 'outbox')
+ * - SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD: SMTP server
+ * - EMAIL_OUTBOX_DIR: where the outbox transport writes .eml files
+ * - APP_URL: base URL used for links in emails
+ *
+ * @param env - Environment variables (default: process.env)
+ * @returns The settings, or null if email reminders are not configured
+ * @throws EmailConfigurationError if the settings are incomplete or invalid
+ */
+export function getEmailSettings(env: NodeJS.ProcessEnv = process.env): EmailSettings | null {
+  const to = env.EMAIL_TO?.trim();
+  if (!to) {
+    return null;
+  }
+
+  const from = env.EMAIL_FROM?.trim();
+  if (!from) {
+    throw new EmailConfigurationError('EMAIL_FROM is required when EMAIL_TO is set');
+  }
+
+  const transport = (env.EMAIL_TRANSPORT?.trim() || (env.SMTP_HOST ? 'smtp' : 'outbox')) as EmailTransportType;
+  if (transport !== 'smtp' && transport !== 'outbox') {
+    throw new EmailConfigurationError(`EMAIL_TRANSPORT must be 'smtp' or 'outbox', got "${transport}"`);
+  }
+
+  let smtp: SmtpSettings | undefined;
+  if (transport === 'smtp') {
+    const host = env.SMTP_HOST?.trim();
+    if (!host) {
+      throw new EmailConfigurationError('SMTP_HOST is required for the smtp transport');
+    }
+
+    const port = env.SMTP_PORT ? Number(env.SMTP_PORT) : DEFAULT_SMTP_PORT;
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new EmailConfigurationError(`SMTP_PORT must be a valid port, got "${env.SMTP_PORT}"`);
+    }
+
+    smtp = {
+      host,
+      port,
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER || undefined,
+      password: env.SMTP_PASSWORD || undefined,
+    };
+  }
+
+  return {
+    transport,
+    from,
+    to,
+    appUrl: env.APP_URL?.trim() || DEFAULT_APP_URL,
+    smtp,
+    outboxDir: env.EMAIL_OUTBOX_DIR?.trim() || DEFAULT_OUTBOX_DIR,
+  };
+}
+
+/**
+ * Creates a transport that sends mail through an SMTP server.
+ * @param settings - SMTP server settings
+ */
+export function createSmtpTransport(settings: SmtpSettings): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: settings.host,
+    port: settings.port,
+    secure: settings.secure,
+    auth: settings.user ? { user: settings.user, pass: settings.password } : undefined,
+  });
+
+  return {
+    async send(message: EmailMessage): Promise<void> {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+/**
+ * Creates a transport that writes each email as an .eml file to a local
+ * directory instead of sending it. Useful for development and testing.
+ * @param dir - The outbox directory (created if missing)
+ */
+export function createOutboxTransport(dir: string): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: 'unix',
+  });
+
+  return {
+    async send(message: EmailMessage): Promise<void> {
+      const info = await transporter.sendMail(message);
+
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      // buffer: true makes the stream transport return the raw message as a Buffer
+      writeFileSync(join(dir, `${Date.now()}-${uuidv4()}.eml`), info.message as Buffer);
+    },
+  };
+}
+
+/**
+ * Creates the transport selected by the settings.
+ * @param settings - Email settings
+ */
+export function createEmailTransport(settings: EmailSettings): EmailTransport {
+  if (settings.transport === 'smtp' && settings.smtp) {
+    return createSmtpTransport(settings.smtp);
+  }
+  return createOutboxTransport(settings.outboxDir);
+}
+
+/**
+ * Creates a reminder channel that delivers 'email' reminders.
+ * @param transport - How to send the email
+ * @param settings - Sender, recipient and app URL
+ */
+export function createEmailReminderChannel(
+  transport: EmailTransport,
+  settings: Pick<EmailSettings, 'from' | 'to' | 'appUrl'>
+): ReminderChannel {
+  return {
+    method: 'email',
+
+    async send(delivery: ReminderDelivery): Promise<void> {
+      const { task } = delivery;
+      const list = await listService.getById(task.listId);
+
+      const email = renderReminderEmail({
+        taskName: task.name,
+        deadline: task.deadline,
+        listName: list?.name ?? 'Inbox',
+        link: buildTaskLink(settings.appUrl, task.listId, task.id),
+      });
+
+      await transport.send({
+        from: settings.from,
+        to: settings.to,
+        ...email,
+      });
+    },
+  };
+}
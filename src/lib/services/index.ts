@@ -1,12 +1,22 @@
 // Service exports
 export { listService, ListValidationError, ListNotFoundError, InboxProtectionError } from './list.service';
 export { labelService, LabelValidationError, LabelNotFoundError, TaskNotFoundError as LabelTaskNotFoundError } from './label.service';
-export { taskService, TaskValidationError, TaskNotFoundError, SubtaskNotFoundError } from './task.service';
+export { taskService, TaskValidationError, TaskNotFoundError, SubtaskNotFoundError, TaskBlockedError } from './task.service';
 export { searchService } from './search.service';
-export type { SearchResult } from './search.service';
+export type { SearchResult } from '@/types';
+export { savedSearchService, SavedSearchValidationError, SavedSearchNotFoundError } from './saved-search.service';
 export { attachmentService, AttachmentNotFoundError, TaskNotFoundError as AttachmentTaskNotFoundError, FileStorageError } from './attachment.service';
 export type { CreateAttachmentInput, IAttachmentService } from './attachment.service';
 export { reminderService, ReminderNotFoundError, TaskNotFoundError as ReminderTaskNotFoundError, ReminderValidationError, PREDEFINED_INTERVALS, validateReminderInput, getReminderById, markReminderSent } from './reminder.service';
 export { nlpParserService, parse as parseNaturalLanguage } from './nlp-parser.service';
 export type { INLPParserService } from './nlp-parser.service';
 export { schedulerService } from './scheduler.service';
+export { schedulingProfileService, SchedulingProfileValidationError } from './scheduling-profile.service';
+export { calendarService, CalendarValidationError, CalendarNotFoundError } from './calendar.service';
+export { registerReminderChannel, unregisterReminderChannel, getDueReminders, dispatchDueReminders, startReminderDispatcher, stopReminderDispatcher } from './reminder-dispatcher.service';
+export type { ReminderChannel, ReminderDelivery, DispatchResult } from './reminder-dispatcher.service';
+export { rescheduleOverdueTasks, rolloverOverdueTasks, startRolloverScheduler, stopRolloverScheduler } from './rollover.service';
+export { notificationService, inAppReminderChannel, NotificationNotFoundError, NotificationValidationError, TaskNotFoundError as NotificationTaskNotFoundError } from './notification.service';
+export { getEmailSettings, createSmtpTransport, createOutboxTransport, createEmailTransport, createEmailReminderChannel, EmailConfigurationError } from './email.service';
+export type { EmailMessage, EmailTransport, EmailTransportType, EmailSettings, SmtpSettings } from './email.service';
+export { pushService, pushReminderChannel, getVapidDetails, PushValidationError, PushSubscriptionNotFoundError } from './push.service';
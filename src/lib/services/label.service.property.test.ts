@@ -230,6 +230,10 @@ beforeAll(() => {
       color TEXT,
       emoji TEXT,
       is_inbox INTEGER NOT NULL DEFAULT 0,
+      view_mode TEXT NOT NULL DEFAULT 'list',
+      board_grouping TEXT NOT NULL DEFAULT 'status',
+      statuses TEXT,
+      rollover INTEGER NOT NULL DEFAULT 0,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL
     );
@@ -249,9 +253,11 @@ beforeAll(() => {
       list_id TEXT NOT NULL REFERENCES lists(id),
       date INTEGER,
       deadline INTEGER,
+      start_date INTEGER,
       estimate INTEGER,
       actual_time INTEGER,
       priority TEXT NOT NULL DEFAULT 'none',
+      status TEXT NOT NULL DEFAULT 'todo',
       completed INTEGER NOT NULL DEFAULT 0,
       completed_at INTEGER,
       recurrence TEXT,
@@ -1,7 +1,7 @@
 /**
  * Property-based tests for List service
  * 
- * Tests Properties 1, 3, 4, 5, 6 from the design document
+ * Tests Properties 1, 3, 4, 5, 6, 68 from the design document
  * **Validates: Requirements 1.1, 1.2, 1.3, 2.1, 2.2, 2.3, 18.1**
  */
 
@@ -12,8 +12,14 @@ import { drizzle } from 'drizzle-orm/bun-sqlite';
 import { eq } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import * as schema from '@/lib/db/schema';
-import type { CreateListInput, UpdateListInput, List, IListService } from '@/types';
-import { validateCreateList, validateUpdateList } from '@/lib/utils/validation';
+import type { CreateListInput, UpdateListInput, List, IListService, WorkflowStatus } from '@/types';
+import {
+  validateCreateList,
+  validateUpdateList,
+  VALID_LIST_VIEW_MODES,
+  VALID_BOARD_GROUPINGS,
+} from '@/lib/utils/validation';
+import { DEFAULT_WORKFLOW_STATUSES, getListStatuses } from '@/lib/utils/workflow';
 
 // Test database setup
 let testDb: ReturnType<typeof drizzle>;
@@ -28,6 +34,10 @@ function createTestListService(db: ReturnType<typeof drizzle>): IListService {
       color: row.color ?? undefined,
       emoji: row.emoji ?? undefined,
       isInbox: row.isInbox,
+      viewMode: row.viewMode as List['viewMode'],
+      boardGrouping: row.boardGrouping as List['boardGrouping'],
+      statuses: getListStatuses({ statuses: (row.statuses as WorkflowStatus[] | null) ?? [] }),
+      rollover: row.rollover,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     };
@@ -152,6 +162,18 @@ function createTestListService(db: ReturnType<typeof drizzle>): IListService {
       if (data.emoji !== undefined) {
         updateData.emoji = data.emoji;
       }
+      if (data.viewMode !== undefined) {
+        updateData.viewMode = data.viewMode;
+      }
+      if (data.boardGrouping !== undefined) {
+        updateData.boardGrouping = data.boardGrouping;
+      }
+      if (data.rollover !== undefined) {
+        updateData.rollover = data.rollover;
+      }
+      if (data.statuses !== undefined) {
+        updateData.statuses = data.statuses.map(status => ({ ...status, name: status.name.trim() }));
+      }
 
       db.update(schema.lists)
         .set(updateData)
@@ -237,6 +259,10 @@ beforeAll(() => {
       color TEXT,
       emoji TEXT,
       is_inbox INTEGER NOT NULL DEFAULT 0,
+      view_mode TEXT NOT NULL DEFAULT 'list',
+      board_grouping TEXT NOT NULL DEFAULT 'status',
+      statuses TEXT,
+      rollover INTEGER NOT NULL DEFAULT 0,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL
     );
@@ -248,9 +274,11 @@ beforeAll(() => {
       list_id TEXT NOT NULL REFERENCES lists(id),
       date INTEGER,
       deadline INTEGER,
+      start_date INTEGER,
       estimate INTEGER,
       actual_time INTEGER,
       priority TEXT NOT NULL DEFAULT 'none',
+      status TEXT NOT NULL DEFAULT 'todo',
       completed INTEGER NOT NULL DEFAULT 0,
       completed_at INTEGER,
       recurrence TEXT,
@@ -619,3 +647,81 @@ describe('Property 6: List Deletion Task Migration', () => {
     await expect(listService.delete(nonExistentId)).rejects.toThrow(`List with id "${nonExistentId}" not found`);
   });
 });
+
+describe('Property 68: List Layout Persistence', () => {
+  /**
+   * **Feature: daily-task-planner, Property 68: List Layout Persistence**
+   * **Validates: Requirements 2.2, 23.1**
+   *
+   * For any list, the chosen view mode and board grouping SHALL be
+   * remembered, default to a plain list grouped by status, and be left
+   * alone by updates that do not set them. Its statuses SHALL default to the
+   * standard workflow, and only valid workflows SHALL be saved.
+   */
+  test('View mode and board grouping are remembered per list', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validName,
+        validName,
+        fc.constantFrom(...VALID_LIST_VIEW_MODES),
+        fc.constantFrom(...VALID_BOARD_GROUPINGS),
+        async (listName, otherName, viewMode, boardGrouping) => {
+          const list = await listService.create({ name: listName });
+          const other = await listService.create({ name: otherName });
+          expect(list.viewMode).toBe('list');
+          expect(list.boardGrouping).toBe('status');
+
+          await listService.update(list.id, { viewMode, boardGrouping });
+          await listService.update(list.id, { name: otherName });
+
+          const retrieved = await listService.getById(list.id);
+          expect(retrieved!.viewMode).toBe(viewMode);
+          expect(retrieved!.boardGrouping).toBe(boardGrouping);
+
+          const untouched = await listService.getById(other.id);
+          expect(untouched!.viewMode).toBe('list');
+          expect(untouched!.boardGrouping).toBe('status');
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Unknown view modes and groupings are rejected', async () => {
+    const list = await listService.create({ name: 'Projects' });
+
+    await expect(
+      listService.update(list.id, { viewMode: 'grid' as List['viewMode'] })
+    ).rejects.toThrow('Invalid list data');
+    await expect(
+      listService.update(list.id, { boardGrouping: 'deadline' as List['boardGrouping'] })
+    ).rejects.toThrow('Invalid list data');
+  });
+
+  test('Lists start with the default workflow and keep valid custom ones', async () => {
+    const list = await listService.create({ name: 'Releases' });
+    expect(list.statuses).toEqual(DEFAULT_WORKFLOW_STATUSES);
+
+    const statuses = [
+      { id: 'backlog', name: ' Backlog ', done: false },
+      { id: 'shipped', name: 'Shipped', done: true },
+    ];
+    const updated = await listService.update(list.id, { statuses });
+    expect(updated.statuses).toEqual([
+      { id: 'backlog', name: 'Backlog', done: false },
+      { id: 'shipped', name: 'Shipped', done: true },
+    ]);
+
+    const invalid: WorkflowStatus[][] = [
+      [{ id: 'backlog', name: 'Backlog', done: false }],
+      [statuses[0], { ...statuses[1], done: false }],
+      [statuses[0], { ...statuses[1], id: 'backlog' }],
+      [statuses[0], { ...statuses[1], name: ' ' }],
+      [statuses[0], { ...statuses[1], id: 'Not A Slug' }],
+    ];
+    for (const workflow of invalid) {
+      await expect(listService.update(list.id, { statuses: workflow })).rejects.toThrow('Invalid list data');
+    }
+    expect((await listService.getById(list.id))!.statuses).toEqual(updated.statuses);
+  });
+});
@@ -1,13 +1,17 @@
 import { db, schema } from '@/lib/db';
-import { eq, asc, and, ne } from 'drizzle-orm';
+import { eq, asc, and, ne, inArray } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import type {
   List,
+  ListViewMode,
+  BoardGrouping,
   CreateListInput,
   UpdateListInput,
   IListService,
+  WorkflowStatus,
 } from '@/types';
 import { validateCreateList, validateUpdateList } from '@/lib/utils/validation';
+import { getDefaultStatus, getListStatuses, getStatusCompletion, isDoneStatus, mapStatus } from '@/lib/utils/workflow';
 
 // Custom error classes for List service
 export class ListValidationError extends Error {
@@ -44,11 +48,85 @@ function toList(row: typeof schema.lists.$inferSelect): List {
     color: row.color ?? undefined,
     emoji: row.emoji ?? undefined,
     isInbox: row.isInbox,
+    viewMode: row.viewMode as ListViewMode,
+    boardGrouping: row.boardGrouping as BoardGrouping,
+    statuses: getListStatuses({ statuses: (row.statuses as WorkflowStatus[] | null) ?? [] }),
+    rollover: row.rollover,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   };
 }
 
+/**
+ * Gets which of the given tasks wait on a blocker that isn't done
+ */
+async function getBlockedTaskIds(taskIds: string[]): Promise<Set<string>> {
+  if (taskIds.length === 0) return new Set();
+
+  const rows = await db
+    .select({ taskId: schema.taskDependencies.taskId })
+    .from(schema.taskDependencies)
+    .innerJoin(schema.tasks, eq(schema.taskDependencies.blockedById, schema.tasks.id))
+    .where(and(inArray(schema.taskDependencies.taskId, taskIds), eq(schema.tasks.completed, false)));
+
+  return new Set(rows.map(row => row.taskId));
+}
+
+/**
+ * Moves a list's tasks onto another workflow. Tasks in a status the new
+ * workflow lacks go to its first status done the same way, and completion
+ * follows statuses that became done or not done. Each change is logged in
+ * the task's history.
+ * Blocked and recurring tasks are never completed this way, since that
+ * would skip the blocker check and the next occurrence; they go to the
+ * first open status instead.
+ * @param listId - The list whose tasks move
+ * @param from - The statuses the tasks are in now
+ * @param to - The statuses they move to
+ */
+async function remapTaskStatuses(listId: string, from: WorkflowStatus[], to: WorkflowStatus[]): Promise<void> {
+  const tasks = await db
+    .select()
+    .from(schema.tasks)
+    .where(eq(schema.tasks.listId, listId));
+
+  const blockedIds = await getBlockedTaskIds(tasks.map(task => task.id));
+
+  const now = new Date();
+  for (const task of tasks) {
+    let status = mapStatus(task.status, from, to);
+    if (!task.completed && isDoneStatus(to, status) && (task.recurrence || blockedIds.has(task.id))) {
+      status = getDefaultStatus(to, false);
+    }
+    const { completed, completedAt } = getStatusCompletion(
+      { completed: task.completed, completedAt: task.completedAt ?? undefined },
+      status,
+      to,
+      now
+    );
+    if (status === task.status && completed === task.completed) continue;
+
+    await db
+      .update(schema.tasks)
+      .set({ status, completed, completedAt, updatedAt: now })
+      .where(eq(schema.tasks.id, task.id));
+
+    const changes: [string, string, string][] = [];
+    if (status !== task.status) changes.push(['status', task.status, status]);
+    if (completed !== task.completed) changes.push(['completed', String(task.completed), String(completed)]);
+    for (const [field, previousValue, newValue] of changes) {
+      await db.insert(schema.taskHistory).values({
+        id: uuidv4(),
+        taskId: task.id,
+        field,
+        previousValue,
+        newValue,
+        changedAt: now,
+      });
+    }
+  }
+}
+
 /**
  * List Service Implementation
  * Handles all list-related operations including CRUD and Inbox management
@@ -136,6 +214,7 @@ export const listService: IListService = {
   /**
    * Updates an existing list.
    * Cannot rename the Inbox list.
+   * Changing its statuses moves its tasks onto the new workflow.
    * @param id - The list ID
    * @param data - The update data
    * @returns The updated list
@@ -178,12 +257,32 @@ export const listService: IListService = {
     if (data.emoji !== undefined) {
       updateData.emoji = data.emoji;
     }
+    if (data.viewMode !== undefined) {
+      updateData.viewMode = data.viewMode;
+    }
+    if (data.boardGrouping !== undefined) {
+      updateData.boardGrouping = data.boardGrouping;
+    }
+    if (data.rollover !== undefined) {
+      updateData.rollover = data.rollover;
+    }
+    if (data.statuses !== undefined) {
+      updateData.statuses = data.statuses.map(status => ({
+        id: status.id,
+        name: status.name.trim(),
+        done: status.done,
+      }));
+    }
 
     await db
       .update(schema.lists)
       .set(updateData)
       .where(eq(schema.lists.id, id));
 
+    if (updateData.statuses) {
+      await remapTaskStatuses(id, toList(existing).statuses, updateData.statuses as WorkflowStatus[]);
+    }
+
     const [updated] = await db
       .select()
       .from(schema.lists)
@@ -218,7 +317,8 @@ export const listService: IListService = {
     // Get the Inbox to migrate tasks
     const inbox = await this.getInbox();
 
-    // Migrate all tasks from this list to Inbox
+    // Migrate all tasks from this list to Inbox, onto the Inbox's workflow
+    await remapTaskStatuses(id, toList(existing).statuses, inbox.statuses);
     await db
       .update(schema.tasks)
       .set({ listId: inbox.id, updatedAt: new Date() })
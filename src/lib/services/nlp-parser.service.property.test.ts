@@ -1,13 +1,19 @@
 /**
  * Property-based tests for NLP Parser service
  * 
- * Tests Properties 40, 41, 42, 43 from the design document
+ * Tests Properties 40, 41, 42, 43, 54, 55, 56, 75 from the design document
  * **Validates: Requirements 28.1, 28.2, 28.3, 28.5**
  */
 
 import { describe, test, expect } from 'bun:test';
 import * as fc from 'fast-check';
 import { parse } from './nlp-parser.service';
+import {
+  formatRecurrencePattern,
+  parseFormattedRecurrence,
+  validateRecurrencePattern,
+} from '@/lib/utils/recurrence';
+import type { RecurrencePattern } from '@/types';
 
 // Reference date for consistent testing
 const REFERENCE_DATE = new Date('2025-11-29T10:00:00');
@@ -44,11 +50,12 @@ const LIST_PATTERNS = [
 ];
 
 // Arbitraries for generating test data
-// Generate realistic task names (alphanumeric with spaces)
+// Generate realistic task names (alphanumeric with spaces).
+// Words that mark a deadline or start date ("by", "start") are left out.
 const taskNameArb = fc.array(
   fc.constantFrom(
     'Buy', 'Call', 'Review', 'Write', 'Send', 'Fix', 'Update', 'Check',
-    'Meet', 'Prepare', 'Schedule', 'Complete', 'Finish', 'Start', 'Plan',
+    'Meet', 'Prepare', 'Schedule', 'Complete', 'Finish', 'Plan',
     'groceries', 'report', 'email', 'code', 'document', 'meeting', 'task',
     'project', 'presentation', 'proposal', 'invoice', 'contract', 'design',
     'the', 'a', 'my', 'new', 'old', 'final', 'draft', 'weekly', 'monthly'
@@ -526,3 +533,333 @@ describe('NLP Parser Integration', () => {
     }
   });
 });
+
+
+describe('Property 54: Natural Language Token Grammar', () => {
+  /**
+   * **Feature: daily-task-planner, Property 54: Natural Language Token Grammar**
+   * **Validates: Requirements 28.2, 28.3**
+   * 
+   * For any input containing #list, @label, ~estimate and !1-!3 tokens, the parser
+   * SHALL extract each of them, remove them from the task name, and report a span
+   * whose text is exactly the token at that position of the input.
+   */
+  const labelArb = fc.constantFrom('errands', 'deep-work', 'phone', 'home_office');
+  const estimateArb = fc.constantFrom(
+    { token: '~30m', minutes: 30 },
+    { token: '~2h', minutes: 120 },
+    { token: '~1h30m', minutes: 90 },
+    { token: '~1.5h', minutes: 90 },
+  );
+  const priorityTokenArb = fc.constantFrom(
+    { token: '!1', priority: 'high' },
+    { token: '!2', priority: 'medium' },
+    { token: '!3', priority: 'low' },
+  );
+
+  test('All tokens are extracted in any order', () => {
+    fc.assert(
+      fc.property(
+        taskNameArb,
+        fc.constantFrom('Work', 'Personal', 'Home'),
+        fc.uniqueArray(labelArb, { minLength: 1, maxLength: 3 }),
+        estimateArb,
+        priorityTokenArb,
+        fc.integer({ min: 0, max: 1000 }),
+        (taskName, listName, labels, estimate, priority, seed) => {
+          const tokens = [`#${listName}`, ...labels.map(l => `@${l}`), estimate.token, priority.token];
+          // Rotate the tokens so their order varies
+          const rotated = tokens.map((_, i) => tokens[(i + seed) % tokens.length]);
+          const input = `${taskName} ${rotated.join(' ')}`;
+          const result = parse(input, REFERENCE_DATE);
+
+          expect(result.listName).toBe(listName);
+          expect(result.labels).toEqual([...labels].sort((a, b) => input.indexOf(`@${a}`) - input.indexOf(`@${b}`)));
+          expect(result.estimate).toBe(estimate.minutes);
+          expect(result.priority).toBe(priority.priority);
+          expect(result.name).toBe(taskName);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Spans point at the tokens in the original input', () => {
+    fc.assert(
+      fc.property(
+        taskNameArb,
+        labelArb,
+        estimateArb,
+        priorityTokenArb,
+        datePhrase,
+        fc.constantFrom('', '  '),
+        (taskName, label, estimate, priority, datePhr, padding) => {
+          const input = `${padding}${taskName} @${label} ${datePhr} ${estimate.token} ${priority.token} #Work`;
+          const result = parse(input, REFERENCE_DATE);
+          const spans = result.spans ?? [];
+
+          expect(spans.map(s => s.type).sort()).toEqual(['date', 'estimate', 'label', 'list', 'priority']);
+
+          for (const span of spans) {
+            expect(input.slice(span.start, span.end)).toBe(span.text);
+          }
+
+          // Spans are ordered and do not overlap
+          for (let i = 1; i < spans.length; i++) {
+            expect(spans[i].start).toBeGreaterThanOrEqual(spans[i - 1].end);
+          }
+
+          expect(spans.find(s => s.type === 'label')!.text).toBe(`@${label}`);
+          expect(spans.find(s => s.type === 'estimate')!.text).toBe(estimate.token);
+          expect(spans.find(s => s.type === 'priority')!.text).toBe(priority.token);
+          expect(spans.find(s => s.type === 'list')!.text).toBe('#Work');
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Repeated labels are reported once', () => {
+    const result = parse('Call plumber @home @phone @home', REFERENCE_DATE);
+
+    expect(result.labels).toEqual(['home', 'phone']);
+    expect(result.name).toBe('Call plumber');
+  });
+
+  test('Email addresses and unknown priorities are not tokens', () => {
+    const result = parse('Email bob@example.com about !4', REFERENCE_DATE);
+
+    expect(result.labels).toBeUndefined();
+    expect(result.priority).toBeUndefined();
+    expect(result.name).toBe('Email bob@example.com about !4');
+    expect(result.spans).toEqual([]);
+  });
+});
+
+
+describe('Property 55: Natural Language Recurrence Extraction', () => {
+  /**
+   * **Feature: daily-task-planner, Property 55: Natural Language Recurrence Extraction**
+   * **Validates: Requirements 28.1**
+   * 
+   * For any input containing a recurrence phrase, the parser SHALL return a valid
+   * RecurrencePattern, remove the phrase from the task name, and set the date to
+   * the first occurrence on or after the reference date.
+   */
+  const weekdayArb = fc.integer({ min: 0, max: 6 });
+  const recurrenceArb: fc.Arbitrary<RecurrencePattern> = fc.oneof(
+    fc.constantFrom<RecurrencePattern['type']>('daily', 'weekly', 'monthly', 'yearly').chain(type =>
+      fc.integer({ min: 1, max: 12 }).map(interval => ({ type, interval }))
+    ),
+    fc.constant<RecurrencePattern>({ type: 'weekday' }),
+    fc.uniqueArray(weekdayArb, { minLength: 1, maxLength: 7 }).map(weekdays => ({ type: 'custom' as const, weekdays })),
+    fc.record({ ordinal: fc.integer({ min: 1, max: 5 }), ordinalWeekday: weekdayArb })
+      .map(r => ({ type: 'custom' as const, ...r })),
+    fc.integer({ min: 1, max: 31 }).map(monthDay => ({ type: 'custom' as const, monthDay })),
+  );
+
+  test('Formatted recurrence patterns are recognized in quick add', () => {
+    fc.assert(
+      fc.property(taskNameArb, recurrenceArb, (taskName, pattern) => {
+        const phrase = formatRecurrencePattern(pattern);
+        const result = parse(`${taskName} ${phrase}`, REFERENCE_DATE);
+
+        expect(result.recurrence).toEqual(parseFormattedRecurrence(phrase)!);
+        expect(validateRecurrencePattern(result.recurrence!).valid).toBe(true);
+        expect(formatRecurrencePattern(result.recurrence!)).toBe(phrase);
+        expect(result.name).toBe(taskName);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('Date defaults to the first occurrence', () => {
+    fc.assert(
+      fc.property(taskNameArb, recurrenceArb, (taskName, pattern) => {
+        const result = parse(`${taskName} ${formatRecurrencePattern(pattern)}`, REFERENCE_DATE);
+        const date = result.date!;
+
+        expect(date.getTime()).toBeGreaterThanOrEqual(REFERENCE_DATE.getTime());
+        expect(date.getTime() - REFERENCE_DATE.getTime()).toBeLessThan(366 * 24 * 60 * 60 * 1000);
+
+        if (pattern.type === 'weekday') {
+          expect([1, 2, 3, 4, 5]).toContain(date.getDay());
+        }
+        if (pattern.weekdays) {
+          expect(pattern.weekdays).toContain(date.getDay());
+        }
+        if (pattern.ordinalWeekday !== undefined) {
+          expect(date.getDay()).toBe(pattern.ordinalWeekday);
+          expect(Math.ceil(date.getDate() / 7)).toBe(pattern.ordinal!);
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('Common phrasings are recognized', () => {
+    const cases: { input: string; name: string; recurrence: RecurrencePattern; time?: string }[] = [
+      { input: 'Standup every weekday at 9am', name: 'Standup', recurrence: { type: 'weekday' }, time: '09:00' },
+      { input: 'Pay rent on the 1st of every month', name: 'Pay rent', recurrence: { type: 'custom', monthDay: 1 } },
+      { input: 'Gym every Mon, Wed and Fri', name: 'Gym', recurrence: { type: 'custom', weekdays: [1, 3, 5] } },
+      { input: 'Team sync every other week', name: 'Team sync', recurrence: { type: 'weekly', interval: 2 } },
+      { input: 'Book club on the third Thursday of every month', name: 'Book club', recurrence: { type: 'custom', ordinal: 3, ordinalWeekday: 4 } },
+    ];
+
+    for (const { input, name, recurrence, time } of cases) {
+      const result = parse(input, REFERENCE_DATE);
+
+      expect(result.name).toBe(name);
+      expect(result.recurrence).toEqual(recurrence);
+      expect(result.time).toBe(time);
+      expect(result.spans!.some(s => s.type === 'recurrence')).toBe(true);
+    }
+  });
+
+  test('Adjectives like "weekly" in a task name are not recurrence', () => {
+    const result = parse('Write weekly report', REFERENCE_DATE);
+
+    expect(result.recurrence).toBeUndefined();
+    expect(result.name).toBe('Write weekly report');
+  });
+});
+
+
+describe('Property 56: Natural Language Deadline Extraction', () => {
+  /**
+   * **Feature: daily-task-planner, Property 56: Natural Language Deadline Extraction**
+   * **Validates: Requirements 28.1**
+   * 
+   * For any input with a date after "due", "by" or "before", the parser SHALL set it
+   * as the deadline, while a date without those words SHALL be the scheduled date.
+   * Neither phrase SHALL remain in the task name.
+   */
+  const deadlinePrefix = fc.constantFrom('due', 'by', 'before', 'due on');
+  const deadlinePhrase = fc.constantFrom('next friday', 'December 24', 'friday at 5pm');
+
+  test('Dates after deadline words become the deadline', () => {
+    fc.assert(
+      fc.property(taskNameArb, deadlinePrefix, deadlinePhrase, (taskName, prefix, phrase) => {
+        const input = `${taskName} ${prefix} ${phrase}`;
+        const result = parse(input, REFERENCE_DATE);
+
+        expect(result.deadline).toBeDefined();
+        expect(result.deadline!.getTime()).toBeGreaterThan(REFERENCE_DATE.getTime());
+        expect(result.date).toBeUndefined();
+        expect(result.name).toBe(taskName);
+
+        const span = result.spans!.find(s => s.type === 'deadline')!;
+        expect(span.text).toBe(`${prefix} ${phrase}`);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Scheduled date and deadline are both returned', () => {
+    fc.assert(
+      fc.property(taskNameArb, datePhrase, deadlinePrefix, deadlinePhrase, fc.boolean(), (taskName, datePhr, prefix, phrase, deadlineFirst) => {
+        // Adjacent date phrases are merged by chrono, so the task name separates them
+        const input = deadlineFirst
+          ? `${prefix} ${phrase} ${taskName} ${datePhr}`
+          : `${datePhr} ${taskName} ${prefix} ${phrase}`;
+        const result = parse(input, REFERENCE_DATE);
+
+        expect(result.date).toBeDefined();
+        expect(result.deadline).toBeDefined();
+        expect(result.name).toBe(taskName);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Deadlines without a time are due at the end of the day', () => {
+    const result = parse('Draft report tomorrow due Friday', REFERENCE_DATE);
+
+    expect(result.deadline!.getDay()).toBe(5);
+    expect(result.deadline!.getHours()).toBe(23);
+    expect(result.deadline!.getMinutes()).toBe(59);
+  });
+
+  test('Deadline keeps its explicit time', () => {
+    const result = parse('Draft report tomorrow due Friday 5pm', REFERENCE_DATE);
+
+    expect(result.name).toBe('Draft report');
+    expect(result.date!.getDate()).toBe(30);
+    expect(result.deadline!.getDay()).toBe(5);
+    expect(result.deadline!.getHours()).toBe(17);
+  });
+
+  test('"by" without a date is part of the name', () => {
+    const result = parse('Review PR by John tomorrow', REFERENCE_DATE);
+
+    expect(result.name).toBe('Review PR by John');
+    expect(result.deadline).toBeUndefined();
+    expect(result.date).toBeDefined();
+  });
+});
+
+describe('Property 75: Natural Language Start Date Extraction', () => {
+  /**
+   * **Feature: daily-task-planner, Property 75: Natural Language Start Date Extraction**
+   * **Validates: Requirements 28.1**
+   *
+   * For any input with a date after "start", "starting on" or "defer until", the
+   * parser SHALL set it as the start date, leaving the scheduled date and deadline
+   * to the rest of the input. The phrase SHALL NOT remain in the task name.
+   */
+  const startPrefix = fc.constantFrom('start', 'starts', 'starting on', 'start from', 'defer until');
+  const startPhrase = fc.constantFrom('next monday', 'December 24', 'tomorrow');
+
+  test('Dates after start words become the start date', () => {
+    fc.assert(
+      fc.property(taskNameArb, startPrefix, startPhrase, (taskName, prefix, phrase) => {
+        const input = `${taskName} ${prefix} ${phrase}`;
+        const result = parse(input, REFERENCE_DATE);
+
+        expect(result.startDate).toBeDefined();
+        expect(result.startDate!.getTime()).toBeGreaterThan(REFERENCE_DATE.getTime());
+        expect(result.date).toBeUndefined();
+        expect(result.deadline).toBeUndefined();
+        expect(result.name).toBe(taskName);
+
+        const span = result.spans!.find(s => s.type === 'startDate')!;
+        expect(span.text).toBe(`${prefix} ${phrase}`);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Start date, scheduled date and deadline are all returned', () => {
+    fc.assert(
+      fc.property(taskNameArb, startPrefix, startPhrase, datePhrase, (taskName, prefix, phrase, datePhr) => {
+        // Adjacent date phrases are merged by chrono, so the task name separates them
+        const input = `${prefix} ${phrase} ${taskName} ${datePhr} due December 31`;
+        const result = parse(input, REFERENCE_DATE);
+
+        expect(result.startDate).toBeDefined();
+        expect(result.date).toBeDefined();
+        expect(result.deadline).toBeDefined();
+        expect(result.name).toBe(taskName);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('"start next Monday" starts at the beginning of that day', () => {
+    const result = parse('Plan offsite start next Monday', REFERENCE_DATE);
+
+    expect(result.name).toBe('Plan offsite');
+    expect(result.startDate!.getDay()).toBe(1);
+    expect(result.startDate!.getHours()).toBe(0);
+    expect(result.startDate!.getMinutes()).toBe(0);
+  });
+
+  test('Start date keeps its explicit time', () => {
+    const result = parse('Read book start tomorrow at 3pm', REFERENCE_DATE);
+
+    expect(result.name).toBe('Read book');
+    expect(result.startDate!.getDate()).toBe(30);
+    expect(result.startDate!.getHours()).toBe(15);
+    expect(result.time).toBeUndefined();
+  });
+});
@@ -1,5 +1,6 @@
 import * as chrono from 'chrono-node';
-import type { ParsedTaskInput, Priority } from '@/types';
+import type { ParsedTaskInput, ParsedTokenSpan, ParsedTokenType, Priority, RecurrencePattern } from '@/types';
+import { findRecurrencePhrase, getFirstOccurrence } from '@/lib/utils/recurrence';
 
 /**
  * Priority keywords and their mappings
@@ -28,32 +29,135 @@ const PRIORITY_KEYWORDS: Record<string, Priority> = {
   'someday': 'low',
 };
 
+/**
+ * Explicit priority tokens: !1 (high), !2 (medium), !3 (low)
+ */
+const PRIORITY_TOKENS: Record<string, Priority> = {
+  '1': 'high',
+  '2': 'medium',
+  '3': 'low',
+};
+
+const PRIORITY_TOKEN_PATTERN = /(?:^|\s)(!([1-3]))(?=\s|$)/g;
+
+/**
+ * Estimate tokens: ~30m, ~2h, ~1h30m, ~1.5h
+ */
+const ESTIMATE_TOKEN_PATTERN = /(?:^|\s)(~(?:(\d+(?:\.\d+)?)h(?:(\d+)m)?|(\d+)m))(?=\s|$)/gi;
+
+/**
+ * Label tokens: @errands, @deep-work (multiple allowed)
+ */
+const LABEL_TOKEN_PATTERN = /(?:^|\s)(@([a-zA-Z][\w-]*))(?=\s|$)/g;
+
+/**
+ * Words that mark the following date as a deadline: "due Friday", "by 5pm", "before Monday".
+ * Only a single space may separate them from the date, so the prefix never reaches
+ * back over an already extracted (masked) token.
+ */
+const DEADLINE_PREFIX_PATTERN = /\b(?:due(?:\s(?:on|at|by))?|by|before)\s$/i;
+
+/**
+ * Words that mark the following date as the start date: "start next Monday",
+ * "starting on March 1", "defer until Friday". Like the deadline prefix, a single
+ * space separates them from the date.
+ */
+const START_PREFIX_PATTERN = /\b(?:start(?:s|ing)?(?:\s(?:on|from))?|defer(?:red)?\s(?:until|till))\s$/i;
+
 /**
  * Patterns for detecting list references in input text
- * Supports formats like "in Work", "in #Personal", "#Work"
+ * Supports formats like "in Work", "in #Personal", "#Work".
+ * A run of two or more spaces (left behind by an extracted token) ends a list name.
  */
 const LIST_PATTERNS = [
-  /\bin\s+#?([a-zA-Z][\w\s-]*?)(?:\s+(?:at|on|by|tomorrow|today|next|this)|$)/i,
-  /\s#([a-zA-Z][\w-]*)/,
+  /\bin\s+#?([a-zA-Z][\w-]*(?: [\w-]+)*?)(?:\s+(?:at|on|by|tomorrow|today|next|this)\b|\s{2,}|\s*$)/i,
+  /(?:^|\s)#([a-zA-Z][\w-]*)(?=\s|$)/,
 ];
 
 /**
  * NLP Parser Service
  * Parses natural language input into structured task data using chrono-node
- * for date/time extraction and custom patterns for priority and list detection.
+ * for date/time extraction and custom patterns for priority, list, label and
+ * estimate tokens.
  */
 export interface INLPParserService {
   parse(input: string, referenceDate?: Date): ParsedTaskInput;
 }
 
+/**
+ * Replaces a range of text with spaces.
+ * Extracted tokens are masked rather than removed so that character positions
+ * in the remaining text still match the original input.
+ */
+function maskRange(text: string, start: number, end: number): string {
+  return text.slice(0, start) + ' '.repeat(end - start) + text.slice(end);
+}
+
+/**
+ * Collects every match of a token pattern whose first group is the token itself
+ * @param text - The text to search
+ * @param pattern - A global pattern; group 1 is the whole token
+ * @returns The matches with the token's start and end positions
+ */
+function findTokens(
+  text: string,
+  pattern: RegExp
+): { match: RegExpExecArray; start: number; end: number }[] {
+  const tokens: { match: RegExpExecArray; start: number; end: number }[] = [];
+  pattern.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const start = match.index + match[0].length - match[1].length;
+    tokens.push({ match, start, end: start + match[1].length });
+  }
+
+  return tokens;
+}
+
+/**
+ * Extracts tokens matched by a pattern, masking them out of the text
+ * @returns The token matches, the spans they cover and the masked text
+ */
+function extractTokens(
+  input: string,
+  pattern: RegExp,
+  type: ParsedTokenType
+): { matches: RegExpExecArray[]; spans: ParsedTokenSpan[]; cleanedText: string } {
+  let cleanedText = input;
+  const matches: RegExpExecArray[] = [];
+  const spans: ParsedTokenSpan[] = [];
+
+  for (const { match, start, end } of findTokens(input, pattern)) {
+    matches.push(match);
+    spans.push({ type, start, end, text: match[1] });
+    cleanedText = maskRange(cleanedText, start, end);
+  }
+
+  return { matches, spans, cleanedText };
+}
+
+/**
+ * Converts an estimate token match to minutes
+ */
+function estimateMinutes(match: RegExpExecArray): number {
+  if (match[4] !== undefined) {
+    return parseInt(match[4], 10);
+  }
+  const hours = parseFloat(match[2]);
+  const minutes = match[3] !== undefined ? parseInt(match[3], 10) : 0;
+  return Math.round(hours * 60) + minutes;
+}
+
 /**
  * Extracts priority from input text
  * @param input - The input text to search for priority keywords
- * @returns Object containing the detected priority and the cleaned text
+ * @returns Object containing the detected priority, its spans and the masked text
  */
-function extractPriority(input: string): { priority?: Priority; cleanedText: string } {
+function extractPriority(input: string): { priority?: Priority; spans: ParsedTokenSpan[]; cleanedText: string } {
   let cleanedText = input;
   let priority: Priority | undefined;
+  const spans: ParsedTokenSpan[] = [];
 
   // Sort keywords by length (longest first) to match longer phrases first
   const sortedKeywords = Object.keys(PRIORITY_KEYWORDS).sort((a, b) => b.length - a.length);
@@ -62,36 +166,53 @@ function extractPriority(input: string): { priority?: Priority; cleanedText: str
     // Create a regex that matches the keyword as a whole word (case-insensitive)
     const escapedKeyword = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     const regex = new RegExp(`\\b${escapedKeyword}\\b`, 'gi');
-    
-    if (regex.test(cleanedText)) {
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(cleanedText)) !== null) {
       priority = PRIORITY_KEYWORDS[keyword];
-      cleanedText = cleanedText.replace(regex, '').trim();
+      spans.push({
+        type: 'priority',
+        start: match.index,
+        end: match.index + match[0].length,
+        text: match[0],
+      });
+    }
+
+    if (priority) {
+      for (const span of spans) {
+        cleanedText = maskRange(cleanedText, span.start, span.end);
+      }
       break; // Use the first (longest) match
     }
   }
 
-  return { priority, cleanedText };
+  return { priority, spans, cleanedText };
 }
 
 /**
  * Extracts list reference from input text
  * @param input - The input text to search for list references
- * @returns Object containing the detected list name and the cleaned text
+ * @returns Object containing the detected list name, its span and the masked text
  */
-function extractListReference(input: string): { listName?: string; cleanedText: string } {
-  let cleanedText = input;
-  let listName: string | undefined;
-
+function extractListReference(input: string): { listName?: string; span?: ParsedTokenSpan; cleanedText: string } {
   for (const pattern of LIST_PATTERNS) {
-    const match = cleanedText.match(pattern);
-    if (match && match[1]) {
-      listName = match[1].trim();
-      cleanedText = cleanedText.replace(match[0], ' ').trim();
-      break;
+    const match = input.match(pattern);
+    if (match && match[1] && match.index !== undefined) {
+      const listName = match[1].trim();
+      // The reference runs from the start of the match (skipping leading
+      // whitespace) to the end of the list name
+      const start = match.index + (match[0].length - match[0].trimStart().length);
+      const end = match.index + match[0].indexOf(match[1]) + listName.length;
+
+      return {
+        listName,
+        span: { type: 'list', start, end, text: input.slice(start, end) },
+        cleanedText: maskRange(input, start, end),
+      };
     }
   }
 
-  return { listName, cleanedText };
+  return { cleanedText: input };
 }
 
 /**
@@ -129,65 +250,164 @@ function cleanTaskName(text: string): string {
 
 /**
  * Parses natural language input into structured task data
- * 
+ *
+ * Token grammar:
+ * - `#list` or `in List` sets the list
+ * - `@label` adds a label (may be repeated)
+ * - `~30m`, `~2h`, `~1h30m` sets the estimate
+ * - `!1` to `!3` sets high, medium or low priority (priority keywords also work)
+ * - Recurrence phrases like "every weekday" or "on the 1st of every month"
+ *   set the recurrence, and the date defaults to the first occurrence
+ * - Dates and times are recognized by chrono-node. A date after "due", "by" or
+ *   "before" is the `deadline`, a date after "start", "starting" or "defer until" is the
+ *   `startDate`; otherwise (e.g. "on Monday", "at 3pm") it is the `date`
+ *
+ * The character span of every recognized token is returned in `spans`,
+ * relative to the untrimmed input.
+ *
  * @param input - The natural language input string
  * @param referenceDate - Optional reference date for relative date parsing (defaults to now)
- * @returns ParsedTaskInput with extracted name, date, time, priority, and listName
+ * @returns ParsedTaskInput with extracted name, date, time, deadline, startDate, priority, listName, labels, estimate, recurrence and spans
  * 
  * @example
  * parse("Lunch with Sarah at 1 PM tomorrow")
- * // Returns: { name: "Lunch with Sarah", date: <tomorrow>, time: "13:00" }
+ * // Returns: { name: "Lunch with Sarah", date: <tomorrow>, time: "13:00", spans: [...] }
  * 
  * @example
- * parse("urgent: Review PR in Work")
- * // Returns: { name: "Review PR", priority: "high", listName: "Work" }
+ * parse("Review PR #Work @code ~30m !1")
+ * // Returns: { name: "Review PR", listName: "Work", labels: ["code"], estimate: 30, priority: "high", spans: [...] }
+ *
+ * @example
+ * parse("Standup every weekday at 9am")
+ * // Returns: { name: "Standup", recurrence: { type: "weekday" }, date: <next weekday 9:00>, time: "09:00", spans: [...] }
+ *
+ * @example
+ * parse("Draft report tomorrow due Friday 5pm")
+ * // Returns: { name: "Draft report", date: <tomorrow>, deadline: <Friday 17:00>, spans: [...] }
+ *
+ * @example
+ * parse("Plan offsite start next Monday")
+ * // Returns: { name: "Plan offsite", startDate: <next Monday 00:00>, spans: [...] }
  */
 export function parse(input: string, referenceDate?: Date): ParsedTaskInput {
   if (!input || typeof input !== 'string') {
-    return { name: '' };
+    return { name: '', spans: [] };
   }
 
   const trimmedInput = input.trim();
   if (trimmedInput.length === 0) {
-    return { name: '' };
+    return { name: '', spans: [] };
   }
 
-  let workingText = trimmedInput;
+  // Extracted tokens are masked with spaces so spans index into the original input
+  let workingText = input;
+  const spans: ParsedTokenSpan[] = [];
   let extractedDate: Date | undefined;
   let extractedTime: string | undefined;
+  let extractedDeadline: Date | undefined;
+  let extractedStartDate: Date | undefined;
+  let extractedRecurrence: RecurrencePattern | undefined;
+
+  // Step 1: Extract explicit tokens (!1-!3, ~estimate, @label)
+  const priorityTokens = extractTokens(workingText, PRIORITY_TOKEN_PATTERN, 'priority');
+  workingText = priorityTokens.cleanedText;
+  spans.push(...priorityTokens.spans);
+  const lastPriorityToken = priorityTokens.matches[priorityTokens.matches.length - 1];
+  let extractedPriority = lastPriorityToken ? PRIORITY_TOKENS[lastPriorityToken[2]] : undefined;
 
-  // Step 1: Extract priority keywords
-  const priorityResult = extractPriority(workingText);
-  const extractedPriority = priorityResult.priority;
-  workingText = priorityResult.cleanedText;
+  const estimateTokens = extractTokens(workingText, ESTIMATE_TOKEN_PATTERN, 'estimate');
+  workingText = estimateTokens.cleanedText;
+  spans.push(...estimateTokens.spans);
+  const lastEstimateToken = estimateTokens.matches[estimateTokens.matches.length - 1];
+  const extractedEstimate = lastEstimateToken ? estimateMinutes(lastEstimateToken) : undefined;
 
-  // Step 2: Parse date/time using chrono-node BEFORE list extraction
-  // This ensures date words like "tomorrow" aren't consumed by list patterns
+  const labelTokens = extractTokens(workingText, LABEL_TOKEN_PATTERN, 'label');
+  workingText = labelTokens.cleanedText;
+  spans.push(...labelTokens.spans);
+  const extractedLabels = [...new Set(labelTokens.matches.map(match => match[2]))];
+
+  // Step 2: Extract priority keywords, unless an explicit priority token was given
+  if (!extractedPriority) {
+    const priorityResult = extractPriority(workingText);
+    extractedPriority = priorityResult.priority;
+    workingText = priorityResult.cleanedText;
+    spans.push(...priorityResult.spans);
+  }
+
+  // Step 3: Extract a recurrence phrase before chrono-node sees it, so
+  // "every Monday" isn't read as a single date
+  const recurrenceMatch = findRecurrencePhrase(workingText);
+  if (recurrenceMatch) {
+    extractedRecurrence = recurrenceMatch.pattern;
+    const end = recurrenceMatch.index + recurrenceMatch.text.length;
+    spans.push({ type: 'recurrence', start: recurrenceMatch.index, end, text: recurrenceMatch.text });
+    workingText = maskRange(workingText, recurrenceMatch.index, end);
+  }
+
+  // Step 4: Parse date/time using chrono-node BEFORE list extraction
+  // This ensures date words like "tomorrow" aren't consumed by list patterns.
+  // A date after "due", "by" or "before" is the deadline, one after "start" is
+  // the start date; the first other date is the scheduled date.
   const refDate = referenceDate || new Date();
   const parsedResults = chrono.parse(workingText, refDate, { forwardDate: true });
 
-  if (parsedResults.length > 0) {
-    const firstResult = parsedResults[0];
-    extractedDate = firstResult.start.date();
-    extractedTime = extractTimeFromDate(extractedDate, firstResult);
+  for (const result of parsedResults) {
+    const end = result.index + result.text.length;
+    const deadlinePrefix = workingText.slice(0, result.index).match(DEADLINE_PREFIX_PATTERN);
+    const startPrefix = workingText.slice(0, result.index).match(START_PREFIX_PATTERN);
+
+    if (deadlinePrefix && !extractedDeadline) {
+      extractedDeadline = result.start.date();
+      // A deadline without a time is due at the end of the day
+      if (!result.start.isCertain('hour')) {
+        extractedDeadline.setHours(23, 59, 0, 0);
+      }
+
+      const start = result.index - deadlinePrefix[0].length;
+      spans.push({ type: 'deadline', start, end, text: workingText.slice(start, end) });
+      workingText = maskRange(workingText, start, end);
+    } else if (startPrefix && !extractedStartDate) {
+      extractedStartDate = result.start.date();
+      // A start date without a time starts at the beginning of the day
+      if (!result.start.isCertain('hour')) {
+        extractedStartDate.setHours(0, 0, 0, 0);
+      }
 
-    // Remove the date/time text from the working text
-    workingText = workingText.replace(firstResult.text, '').trim();
+      const start = result.index - startPrefix[0].length;
+      spans.push({ type: 'startDate', start, end, text: workingText.slice(start, end) });
+      workingText = maskRange(workingText, start, end);
+    } else if (!deadlinePrefix && !startPrefix && !extractedDate) {
+      extractedDate = result.start.date();
+      extractedTime = extractTimeFromDate(extractedDate, result);
+
+      // Mask the date/time text in the working text
+      spans.push({ type: 'date', start: result.index, end, text: result.text });
+      workingText = maskRange(workingText, result.index, end);
+    }
   }
 
-  // Step 3: Extract list reference (after date extraction)
+  // A recurring task starts on the first occurrence on or after its date
+  if (extractedRecurrence) {
+    extractedDate = getFirstOccurrence(extractedRecurrence, extractedDate ?? refDate);
+  }
+
+  // Step 5: Extract list reference (after date extraction)
   const listResult = extractListReference(workingText);
   const extractedListName = listResult.listName;
   workingText = listResult.cleanedText;
+  if (listResult.span) {
+    spans.push(listResult.span);
+  }
 
-  // Step 4: Clean up the remaining text as the task name
+  // Step 6: Clean up the remaining text as the task name
   const taskName = cleanTaskName(workingText);
 
-  // Step 5: Fallback - if no name extracted, use the original input
+  // Step 7: Fallback - if no name extracted, use the original input
   const finalName = taskName.length > 0 ? taskName : trimmedInput;
 
   const result: ParsedTaskInput = {
     name: finalName,
+    spans: spans.sort((a, b) => a.start - b.start),
   };
 
   if (extractedDate) {
@@ -198,6 +418,14 @@ export function parse(input: string, referenceDate?: Date): ParsedTaskInput {
     result.time = extractedTime;
   }
 
+  if (extractedDeadline) {
+    result.deadline = extractedDeadline;
+  }
+
+  if (extractedStartDate) {
+    result.startDate = extractedStartDate;
+  }
+
   if (extractedPriority) {
     result.priority = extractedPriority;
   }
@@ -206,6 +434,18 @@ export function parse(input: string, referenceDate?: Date): ParsedTaskInput {
     result.listName = extractedListName;
   }
 
+  if (extractedLabels.length > 0) {
+    result.labels = extractedLabels;
+  }
+
+  if (extractedEstimate) {
+    result.estimate = extractedEstimate;
+  }
+
+  if (extractedRecurrence) {
+    result.recurrence = extractedRecurrence;
+  }
+
   return result;
 }
 
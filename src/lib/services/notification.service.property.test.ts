@@ -0,0 +1,317 @@
+/**
+ * Property-based tests for the Notification service
+ *
+ * Tests Properties 48, 49 for the in-app notification inbox
+ * **Validates: Requirements 27.2, 27.3**
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import * as fc from 'fast-check';
+import { Database } from 'bun:sqlite';
+import { drizzle } from 'drizzle-orm/bun-sqlite';
+import { and, desc, eq, isNull, lte, or, type SQL } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import * as schema from '@/lib/db/schema';
+import { isNotificationVisible, validateSnoozeMinutes, MAX_SNOOZE_MINUTES } from '@/lib/utils/notifications';
+
+// Test database setup
+let testDb: ReturnType<typeof drizzle>;
+let sqlite: Database;
+
+function visibleAt(now: Date): SQL | undefined {
+  return or(
+    isNull(schema.notifications.snoozedUntil),
+    lte(schema.notifications.snoozedUntil, now)
+  );
+}
+
+/**
+ * Test-specific notification service mirroring notification.service against the test database
+ */
+const testNotificationService = {
+  create(taskId: string, title: string, createdAt: Date): string {
+    const id = uuidv4();
+    testDb.insert(schema.notifications).values({
+      id,
+      taskId,
+      reminderId: null,
+      title,
+      body: null,
+      read: false,
+      snoozedUntil: null,
+      createdAt,
+    }).run();
+    return id;
+  },
+
+  getInbox(now: Date) {
+    return testDb
+      .select()
+      .from(schema.notifications)
+      .where(visibleAt(now))
+      .orderBy(desc(schema.notifications.createdAt))
+      .all();
+  },
+
+  markRead(id: string): void {
+    const [existing] = testDb.select().from(schema.notifications).where(eq(schema.notifications.id, id)).all();
+    if (!existing) {
+      throw new Error(`Notification with id "${id}" not found`);
+    }
+    testDb.update(schema.notifications).set({ read: true }).where(eq(schema.notifications.id, id)).run();
+  },
+
+  markAllRead(now: Date): void {
+    testDb
+      .update(schema.notifications)
+      .set({ read: true })
+      .where(and(eq(schema.notifications.read, false), visibleAt(now)))
+      .run();
+  },
+
+  snooze(id: string, minutes: number, now: Date): Date {
+    const errors = validateSnoozeMinutes(minutes);
+    if (Object.keys(errors).length > 0) {
+      throw new Error('Validation failed');
+    }
+    const snoozedUntil = new Date(now.getTime() + minutes * 60 * 1000);
+    testDb
+      .update(schema.notifications)
+      .set({ read: false, snoozedUntil })
+      .where(eq(schema.notifications.id, id))
+      .run();
+    return snoozedUntil;
+  },
+};
+
+beforeAll(() => {
+  sqlite = new Database(':memory:');
+  testDb = drizzle(sqlite, { schema });
+
+  sqlite.exec('PRAGMA foreign_keys = ON');
+
+  sqlite.exec(`
+    CREATE TABLE lists (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      color TEXT,
+      emoji TEXT,
+      is_inbox INTEGER NOT NULL DEFAULT 0,
+      view_mode TEXT NOT NULL DEFAULT 'list',
+      board_grouping TEXT NOT NULL DEFAULT 'status',
+      statuses TEXT,
+      rollover INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE tasks (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      list_id TEXT NOT NULL REFERENCES lists(id),
+      date INTEGER,
+      deadline INTEGER,
+      start_date INTEGER,
+      estimate INTEGER,
+      actual_time INTEGER,
+      priority TEXT NOT NULL DEFAULT 'none',
+      status TEXT NOT NULL DEFAULT 'todo',
+      completed INTEGER NOT NULL DEFAULT 0,
+      completed_at INTEGER,
+      recurrence TEXT,
+      parent_task_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE reminders (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      offset_minutes INTEGER NOT NULL,
+      method TEXT NOT NULL,
+      sent INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE notifications (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      reminder_id TEXT REFERENCES reminders(id) ON DELETE SET NULL,
+      title TEXT NOT NULL,
+      body TEXT,
+      read INTEGER NOT NULL DEFAULT 0,
+      snoozed_until INTEGER,
+      created_at INTEGER NOT NULL
+    );
+  `);
+});
+
+afterAll(() => {
+  sqlite.close();
+});
+
+function resetTables(): void {
+  sqlite.exec('DELETE FROM notifications');
+  sqlite.exec('DELETE FROM reminders');
+  sqlite.exec('DELETE FROM tasks');
+  sqlite.exec('DELETE FROM lists');
+}
+
+beforeEach(() => {
+  resetTables();
+});
+
+// Helper to create a task to attach notifications to
+function createTask(): string {
+  const now = new Date();
+  const listId = uuidv4();
+  const taskId = uuidv4();
+
+  testDb.insert(schema.lists).values({
+    id: listId,
+    name: 'Test List',
+    isInbox: false,
+    createdAt: now,
+    updatedAt: now,
+  }).run();
+
+  testDb.insert(schema.tasks).values({
+    id: taskId,
+    name: 'Test Task',
+    listId,
+    priority: 'none',
+    completed: false,
+    createdAt: now,
+    updatedAt: now,
+  }).run();
+
+  return taskId;
+}
+
+// Timestamps are stored with second precision
+const nowArb = fc
+  .integer({ min: 1_700_000_000, max: 1_900_000_000 })
+  .map(seconds => new Date(seconds * 1000));
+
+const snoozeArb = fc.integer({ min: 1, max: MAX_SNOOZE_MINUTES });
+
+
+describe('Property 48: Snoozed Notifications Return Unread', () => {
+  /**
+   * **Feature: daily-task-planner, Property 48: Snoozed Notifications Return Unread**
+   * **Validates: Requirements 27.3**
+   *
+   * For any notification snoozed for N minutes, it SHALL be hidden from the inbox
+   * until N minutes have passed and SHALL then reappear unread.
+   */
+  test('Snoozed notifications are hidden until the snooze ends', () => {
+    fc.assert(
+      fc.property(nowArb, snoozeArb, fc.integer({ min: -10080, max: 10080 }), (now, minutes, shiftMinutes) => {
+        resetTables();
+        const taskId = createTask();
+        const id = testNotificationService.create(taskId, 'Reminder', now);
+
+        testNotificationService.markRead(id);
+        const snoozedUntil = testNotificationService.snooze(id, minutes, now);
+        const later = new Date(snoozedUntil.getTime() + shiftMinutes * 60 * 1000);
+
+        const inbox = testNotificationService.getInbox(later);
+        const visible = inbox.some(n => n.id === id);
+
+        expect(visible).toBe(shiftMinutes >= 0);
+        if (visible) {
+          expect(inbox.find(n => n.id === id)!.read).toBe(false);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('Visibility helper matches the snooze boundary', () => {
+    fc.assert(
+      fc.property(nowArb, fc.integer({ min: -10080, max: 10080 }), (snoozedUntil, shiftMinutes) => {
+        const now = new Date(snoozedUntil.getTime() + shiftMinutes * 60 * 1000);
+        expect(isNotificationVisible({ snoozedUntil }, now)).toBe(shiftMinutes >= 0);
+        expect(isNotificationVisible({ snoozedUntil: null }, now)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Invalid snooze durations are rejected', () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(
+          fc.integer({ max: 0 }),
+          fc.integer({ min: MAX_SNOOZE_MINUTES + 1 }),
+          fc.double({ noInteger: true })
+        ),
+        (minutes) => {
+          expect(Object.keys(validateSnoozeMinutes(minutes))).toEqual(['minutes']);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Property 49: Notification Inbox Order And Read State', () => {
+  /**
+   * **Feature: daily-task-planner, Property 49: Notification Inbox Order And Read State**
+   * **Validates: Requirements 27.2, 27.3**
+   *
+   * For any set of notifications, the inbox SHALL list them newest first, and
+   * marking all as read SHALL only affect notifications currently in the inbox.
+   */
+  test('Inbox lists notifications newest first', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.integer({ min: 0, max: 100000 }), { minLength: 1, maxLength: 10 }),
+        (offsets) => {
+          resetTables();
+          const taskId = createTask();
+          const base = 1_800_000_000_000;
+
+          for (const offset of offsets) {
+            testNotificationService.create(taskId, `n${offset}`, new Date(base + offset * 1000));
+          }
+
+          const inbox = testNotificationService.getInbox(new Date(base + 200000 * 1000));
+          const times = inbox.map(n => n.createdAt.getTime());
+
+          expect(inbox.length).toBe(offsets.length);
+          expect(times).toEqual([...times].sort((a, b) => b - a));
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('Mark all read leaves snoozed notifications unread', () => {
+    const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+    const taskId = createTask();
+    const visibleId = testNotificationService.create(taskId, 'Visible', now);
+    const snoozedId = testNotificationService.create(taskId, 'Snoozed', now);
+
+    testNotificationService.snooze(snoozedId, 30, now);
+    testNotificationService.markAllRead(now);
+
+    const rows = testDb.select().from(schema.notifications).all();
+    expect(rows.find(r => r.id === visibleId)!.read).toBe(true);
+    expect(rows.find(r => r.id === snoozedId)!.read).toBe(false);
+  });
+
+  test('Marking a non-existent notification throws error', () => {
+    expect(() => testNotificationService.markRead(uuidv4())).toThrow('not found');
+  });
+
+  test('Notifications are removed with their task', () => {
+    const now = new Date();
+    const taskId = createTask();
+    testNotificationService.create(taskId, 'Reminder', now);
+
+    testDb.delete(schema.tasks).where(eq(schema.tasks.id, taskId)).run();
+
+    expect(testDb.select().from(schema.notifications).all()).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+import { db, schema } from '@/lib/db';
+import { and, desc, eq, isNull, lte, or, type SQL } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { format } from 'date-fns';
+import type { Notification, CreateNotificationInput, INotificationService } from '@/types';
+import { validateSnoozeMinutes } from '@/lib/utils/notifications';
+import type { ReminderChannel, ReminderDelivery } from './reminder-dispatcher.service';
+
+// Custom error classes for Notification service
+export class NotificationNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Notification with id "${id}" not found`);
+    this.name = 'NotificationNotFoundError';
+  }
+}
+
+export class TaskNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Task with id "${id}" not found`);
+    this.name = 'TaskNotFoundError';
+  }
+}
+
+export class NotificationValidationError extends Error {
+  public readonly errors: Record<string, string[]>;
+
+  constructor(errors: Record<string, string[]>) {
+    const messages = Object.entries(errors)
+      .map(([field, msgs]) => `${field}: ${msgs.join(', ')}`)
+      .join('; ');
+    super(`Validation failed: ${messages}`);
+    this.name = 'NotificationValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Converts a joined notification/task row to a Notification entity
+ */
+function toNotification(
+  row: typeof schema.notifications.$inferSelect,
+  listId: string
+): Notification {
+  return {
+    id: row.id,
+    taskId: row.taskId,
+    listId,
+    reminderId: row.reminderId ?? undefined,
+    title: row.title,
+    body: row.body ?? undefined,
+    read: row.read,
+    snoozedUntil: row.snoozedUntil ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Condition matching notifications that are not snoozed past the given time
+ */
+function visibleAt(now: Date): SQL | undefined {
+  return or(
+    isNull(schema.notifications.snoozedUntil),
+    lte(schema.notifications.snoozedUntil, now)
+  );
+}
+
+/**
+ * Fetches a notification with its task's list
+ */
+async function getNotificationById(id: string): Promise<Notification | null> {
+  const [row] = await db
+    .select({
+      notification: schema.notifications,
+      listId: schema.tasks.listId,
+    })
+    .from(schema.notifications)
+    .innerJoin(schema.tasks, eq(schema.notifications.taskId, schema.tasks.id))
+    .where(eq(schema.notifications.id, id));
+
+  return row ? toNotification(row.notification, row.listId) : null;
+}
+
+/**
+ * Notification Service Implementation
+ * Persists the in-app notification inbox so it survives reloads.
+ * Snoozed notifications are hidden until the snooze ends, then return unread.
+ */
+export const notificationService: INotificationService = {
+
+  /**
+   * Creates a new unread notification for a task.
+   * @param data - The notification data
+   * @returns The created notification
+   * @throws TaskNotFoundError if task doesn't exist
+   */
+  async create(data: CreateNotificationInput): Promise<Notification> {
+    const [task] = await db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.id, data.taskId));
+
+    if (!task) {
+      throw new TaskNotFoundError(data.taskId);
+    }
+
+    const id = uuidv4();
+    const now = new Date();
+
+    await db.insert(schema.notifications).values({
+      id,
+      taskId: data.taskId,
+      reminderId: data.reminderId ?? null,
+      title: data.title,
+      body: data.body ?? null,
+      read: false,
+      snoozedUntil: null,
+      createdAt: now,
+    });
+
+    return (await getNotificationById(id))!;
+  },
+
+  /**
+   * Gets the notifications to show in the inbox, newest first.
+   * Excludes notifications that are still snoozed.
+   * @param now - The reference time (default: now)
+   * @returns Visible notifications
+   */
+  async getInbox(now = new Date()): Promise<Notification[]> {
+    const rows = await db
+      .select({
+        notification: schema.notifications,
+        listId: schema.tasks.listId,
+      })
+      .from(schema.notifications)
+      .innerJoin(schema.tasks, eq(schema.notifications.taskId, schema.tasks.id))
+      .where(visibleAt(now))
+      .orderBy(desc(schema.notifications.createdAt));
+
+    return rows.map(row => toNotification(row.notification, row.listId));
+  },
+
+  /**
+   * Marks a notification as read.
+   * @param id - The notification ID
+   * @returns The updated notification
+   * @throws NotificationNotFoundError if notification doesn't exist
+   */
+  async markRead(id: string): Promise<Notification> {
+    const existing = await getNotificationById(id);
+    if (!existing) {
+      throw new NotificationNotFoundError(id);
+    }
+
+    await db
+      .update(schema.notifications)
+      .set({ read: true })
+      .where(eq(schema.notifications.id, id));
+
+    return { ...existing, read: true };
+  },
+
+  /**
+   * Marks every visible notification as read.
+   * Snoozed notifications are left unread so they still stand out when they return.
+   * @param now - The reference time (default: now)
+   */
+  async markAllRead(now = new Date()): Promise<void> {
+    await db
+      .update(schema.notifications)
+      .set({ read: true })
+      .where(and(eq(schema.notifications.read, false), visibleAt(now)));
+  },
+
+  /**
+   * Snoozes a notification for the given number of minutes.
+   * The notification is hidden until then and comes back unread.
+   * @param id - The notification ID
+   * @param minutes - Minutes to snooze for
+   * @param now - The reference time (default: now)
+   * @returns The updated notification
+   * @throws NotificationValidationError if minutes is invalid
+   * @throws NotificationNotFoundError if notification doesn't exist
+   */
+  async snooze(id: string, minutes: number, now = new Date()): Promise<Notification> {
+    const validationErrors = validateSnoozeMinutes(minutes);
+    if (Object.keys(validationErrors).length > 0) {
+      throw new NotificationValidationError(validationErrors);
+    }
+
+    const existing = await getNotificationById(id);
+    if (!existing) {
+      throw new NotificationNotFoundError(id);
+    }
+
+    const snoozedUntil = new Date(now.getTime() + minutes * 60 * 1000);
+
+    await db
+      .update(schema.notifications)
+      .set({ read: false, snoozedUntil })
+      .where(eq(schema.notifications.id, id));
+
+    return { ...existing, read: false, snoozedUntil };
+  },
+};
+
+/**
+ * Formats the notification body for a fired reminder
+ */
+function formatReminderBody(delivery: ReminderDelivery): string | undefined {
+  if (!delivery.task.deadline) return undefined;
+  return `Due ${format(delivery.task.deadline, 'MMM d, h:mm a')}`;
+}
+
+/**
+ * Reminder channel that delivers 'in-app' reminders to the notification inbox
+ */
+export const inAppReminderChannel: ReminderChannel = {
+  method: 'in-app',
+
+  async send(delivery: ReminderDelivery): Promise<void> {
+    await notificationService.create({
+      taskId: delivery.task.id,
+      reminderId: delivery.reminder.id,
+      title: delivery.task.name,
+      body: formatReminderBody(delivery),
+    });
+  },
+};
@@ -0,0 +1,223 @@
+import { db, schema } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import webpush from 'web-push';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { PushSubscriptionInput, PushSubscriptionRecord, IPushService } from '@/types';
+import {
+  buildReminderPushPayload,
+  sendPushMessage,
+  validatePushSubscription,
+  PushSubscriptionGoneError,
+  type VapidDetails,
+} from '@/lib/utils/push';
+import type { ReminderChannel, ReminderDelivery } from './reminder-dispatcher.service';
+
+// Generated VAPID keys are kept next to the database so they survive restarts
+const VAPID_KEYS_PATH = './data/vapid-keys.json';
+const DEFAULT_VAPID_SUBJECT = 'mailto:reminders@localhost';
+
+// Custom error classes for Push service
+export class PushValidationError extends Error {
+  public readonly errors: Record<string, string[]>;
+
+  constructor(errors: Record<string, string[]>) {
+    const messages = Object.entries(errors)
+      .map(([field, msgs]) => `${field}: ${msgs.join(', ')}`)
+      .join('; ');
+    super(`Validation failed: ${messages}`);
+    this.name = 'PushValidationError';
+    this.errors = errors;
+  }
+}
+
+export class PushSubscriptionNotFoundError extends Error {
+  constructor(endpoint: string) {
+    super(`Push subscription "${endpoint}" not found`);
+    this.name = 'PushSubscriptionNotFoundError';
+  }
+}
+
+let vapidDetails: VapidDetails | null = null;
+
+/**
+ * Gets the VAPID identity used to sign push messages.
+ * Uses VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT when set.
+ * Otherwise generates a key pair once and stores it in the data directory,
+ * because existing browser subscriptions are bound to the public key.
+ */
+export function getVapidDetails(): VapidDetails {
+  if (vapidDetails) return vapidDetails;
+
+  const subject = process.env.VAPID_SUBJECT || DEFAULT_VAPID_SUBJECT;
+
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    vapidDetails = {
+      subject,
+      publicKey: process.env.VAPID_PUBLIC_KEY,
+      privateKey: process.env.VAPID_PRIVATE_KEY,
+    };
+    return vapidDetails;
+  }
+
+  let keys: { publicKey: string; privateKey: string };
+  if (existsSync(VAPID_KEYS_PATH)) {
+    keys = JSON.parse(readFileSync(VAPID_KEYS_PATH, 'utf-8'));
+  } else {
+    keys = webpush.generateVAPIDKeys();
+    mkdirSync(dirname(VAPID_KEYS_PATH), { recursive: true });
+    writeFileSync(VAPID_KEYS_PATH, JSON.stringify(keys, null, 2));
+  }
+
+  vapidDetails = { subject, ...keys };
+  return vapidDetails;
+}
+
+/**
+ * Converts a database row to a PushSubscriptionRecord entity
+ */
+function toPushSubscription(row: typeof schema.pushSubscriptions.$inferSelect): PushSubscriptionRecord {
+  return {
+    id: row.id,
+    endpoint: row.endpoint,
+    keys: {
+      p256dh: row.p256dh,
+      auth: row.auth,
+    },
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Push Service Implementation
+ * Stores browser push subscriptions and exposes the VAPID public key.
+ */
+export const pushService: IPushService = {
+
+  /**
+   * Gets the VAPID public key browsers need to subscribe.
+   * @returns URL-safe base64 public key
+   */
+  getPublicKey(): string {
+    return getVapidDetails().publicKey;
+  },
+
+  /**
+   * Stores a browser push subscription.
+   * Subscribing the same endpoint again replaces its keys.
+   * @param data - The subscription from PushSubscription.toJSON()
+   * @param options - allowInsecureEndpoint accepts an http endpoint, for the
+   *   development stub push service only
+   * @returns The stored subscription
+   * @throws PushValidationError if the subscription is invalid
+   */
+  async subscribe(
+    data: PushSubscriptionInput,
+    options: { allowInsecureEndpoint?: boolean } = {}
+  ): Promise<PushSubscriptionRecord> {
+    const validationErrors = validatePushSubscription(data, options.allowInsecureEndpoint);
+    if (Object.keys(validationErrors).length > 0) {
+      throw new PushValidationError(validationErrors);
+    }
+
+    const [existing] = await db
+      .select()
+      .from(schema.pushSubscriptions)
+      .where(eq(schema.pushSubscriptions.endpoint, data.endpoint));
+
+    if (existing) {
+      await db
+        .update(schema.pushSubscriptions)
+        .set({ p256dh: data.keys.p256dh, auth: data.keys.auth })
+        .where(eq(schema.pushSubscriptions.id, existing.id));
+
+      return toPushSubscription({ ...existing, p256dh: data.keys.p256dh, auth: data.keys.auth });
+    }
+
+    const row = {
+      id: uuidv4(),
+      endpoint: data.endpoint,
+      p256dh: data.keys.p256dh,
+      auth: data.keys.auth,
+      createdAt: new Date(),
+    };
+
+    await db.insert(schema.pushSubscriptions).values(row);
+
+    return toPushSubscription(row);
+  },
+
+  /**
+   * Removes a push subscription.
+   * @param endpoint - The subscription endpoint
+   * @throws PushSubscriptionNotFoundError if no subscription has this endpoint
+   */
+  async unsubscribe(endpoint: string): Promise<void> {
+    const [existing] = await db
+      .select()
+      .from(schema.pushSubscriptions)
+      .where(eq(schema.pushSubscriptions.endpoint, endpoint));
+
+    if (!existing) {
+      throw new PushSubscriptionNotFoundError(endpoint);
+    }
+
+    await db
+      .delete(schema.pushSubscriptions)
+      .where(eq(schema.pushSubscriptions.id, existing.id));
+  },
+
+  /**
+   * Gets all stored push subscriptions.
+   * @returns All subscriptions
+   */
+  async getAll(): Promise<PushSubscriptionRecord[]> {
+    const rows = await db.select().from(schema.pushSubscriptions);
+    return rows.map(toPushSubscription);
+  },
+};
+
+/**
+ * Reminder channel that delivers 'push' reminders to every subscribed browser.
+ * Expired subscriptions are removed. With no browser subscribed there is no
+ * one to notify, so the reminder counts as delivered rather than being
+ * retried every dispatch. Otherwise delivery fails (and is retried) unless at
+ * least one browser received the message.
+ */
+export const pushReminderChannel: ReminderChannel = {
+  method: 'push',
+
+  async send(delivery: ReminderDelivery): Promise<void> {
+    const subscriptions = await pushService.getAll();
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const payload = buildReminderPushPayload(delivery.task, delivery.reminder.id);
+    const vapid = getVapidDetails();
+    let delivered = 0;
+    let failed = 0;
+
+    for (const subscription of subscriptions) {
+      try {
+        await sendPushMessage(subscription, payload, vapid);
+        delivered++;
+      } catch (error) {
+        if (error instanceof PushSubscriptionGoneError) {
+          await db
+            .delete(schema.pushSubscriptions)
+            .where(eq(schema.pushSubscriptions.id, subscription.id));
+        } else {
+          console.error(`Failed to push to ${subscription.endpoint}:`, error);
+          failed++;
+        }
+      }
+    }
+
+    // Subscriptions that expired were removed; only live ones that failed count
+    if (delivered === 0 && failed > 0) {
+      throw new Error('Push delivery failed for all subscriptions');
+    }
+  },
+};
@@ -0,0 +1,353 @@
+/**
+ * Property-based tests for the Reminder dispatcher
+ *
+ * Tests Properties 46, 47 for reminder delivery
+ * **Validates: Requirements 27.3, 27.4**
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import * as fc from 'fast-check';
+import { Database } from 'bun:sqlite';
+import { drizzle } from 'drizzle-orm/bun-sqlite';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import * as schema from '@/lib/db/schema';
+import { getReminderDueAt, isReminderDue } from '@/lib/utils/reminders';
+import type { ReminderMethod } from '@/types';
+
+// Test database setup
+let testDb: ReturnType<typeof drizzle>;
+let sqlite: Database;
+
+interface TestDelivery {
+  reminderId: string;
+  taskId: string;
+  method: ReminderMethod;
+  dueAt: Date;
+}
+
+interface TestChannel {
+  method: ReminderMethod;
+  send(delivery: TestDelivery): Promise<void>;
+}
+
+interface TestDispatchResult {
+  sent: string[];
+  failed: string[];
+  skipped: string[];
+}
+
+/**
+ * Test-specific dispatcher mirroring reminder-dispatcher.service against the test database
+ */
+async function dispatchDueReminders(
+  channels: Map<ReminderMethod, TestChannel>,
+  now: Date
+): Promise<TestDispatchResult> {
+  const result: TestDispatchResult = { sent: [], failed: [], skipped: [] };
+
+  const rows = testDb
+    .select({ reminder: schema.reminders, task: schema.tasks })
+    .from(schema.reminders)
+    .innerJoin(schema.tasks, eq(schema.reminders.taskId, schema.tasks.id))
+    .where(
+      and(
+        eq(schema.reminders.sent, false),
+        eq(schema.tasks.completed, false),
+        isNotNull(schema.tasks.deadline)
+      )
+    )
+    .all();
+
+  const deliveries: TestDelivery[] = rows
+    .filter(row => isReminderDue(row.reminder, row.task, now))
+    .map(row => ({
+      reminderId: row.reminder.id,
+      taskId: row.task.id,
+      method: row.reminder.method as ReminderMethod,
+      dueAt: getReminderDueAt(row.task.deadline!, row.reminder.offsetMinutes),
+    }))
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+
+  for (const delivery of deliveries) {
+    const channel = channels.get(delivery.method);
+    if (!channel) {
+      result.skipped.push(delivery.reminderId);
+      continue;
+    }
+
+    try {
+      await channel.send(delivery);
+      testDb
+        .update(schema.reminders)
+        .set({ sent: true })
+        .where(eq(schema.reminders.id, delivery.reminderId))
+        .run();
+      result.sent.push(delivery.reminderId);
+    } catch {
+      result.failed.push(delivery.reminderId);
+    }
+  }
+
+  return result;
+}
+
+beforeAll(() => {
+  sqlite = new Database(':memory:');
+  testDb = drizzle(sqlite, { schema });
+
+  sqlite.exec('PRAGMA foreign_keys = ON');
+
+  sqlite.exec(`
+    CREATE TABLE lists (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      color TEXT,
+      emoji TEXT,
+      is_inbox INTEGER NOT NULL DEFAULT 0,
+      view_mode TEXT NOT NULL DEFAULT 'list',
+      board_grouping TEXT NOT NULL DEFAULT 'status',
+      statuses TEXT,
+      rollover INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE tasks (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      list_id TEXT NOT NULL REFERENCES lists(id),
+      date INTEGER,
+      deadline INTEGER,
+      start_date INTEGER,
+      estimate INTEGER,
+      actual_time INTEGER,
+      priority TEXT NOT NULL DEFAULT 'none',
+      status TEXT NOT NULL DEFAULT 'todo',
+      completed INTEGER NOT NULL DEFAULT 0,
+      completed_at INTEGER,
+      recurrence TEXT,
+      parent_task_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE reminders (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      offset_minutes INTEGER NOT NULL,
+      method TEXT NOT NULL,
+      sent INTEGER NOT NULL DEFAULT 0
+    );
+  `);
+});
+
+afterAll(() => {
+  sqlite.close();
+});
+
+beforeEach(() => {
+  sqlite.exec('DELETE FROM reminders');
+  sqlite.exec('DELETE FROM tasks');
+  sqlite.exec('DELETE FROM lists');
+});
+
+// Helper to create a task with a deadline and a reminder
+function createTaskWithReminder(
+  deadline: Date,
+  offsetMinutes: number,
+  method: ReminderMethod,
+  completed = false
+): string {
+  const now = new Date();
+  const listId = uuidv4();
+  const taskId = uuidv4();
+  const reminderId = uuidv4();
+
+  testDb.insert(schema.lists).values({
+    id: listId,
+    name: 'Test List',
+    isInbox: false,
+    createdAt: now,
+    updatedAt: now,
+  }).run();
+
+  testDb.insert(schema.tasks).values({
+    id: taskId,
+    name: 'Test Task',
+    listId,
+    deadline,
+    priority: 'none',
+    completed,
+    createdAt: now,
+    updatedAt: now,
+  }).run();
+
+  testDb.insert(schema.reminders).values({
+    id: reminderId,
+    taskId,
+    offsetMinutes,
+    method,
+    sent: false,
+  }).run();
+
+  return reminderId;
+}
+
+// Recording channel that collects delivered reminder IDs
+function recordingChannel(method: ReminderMethod, delivered: string[]): TestChannel {
+  return {
+    method,
+    async send(delivery) {
+      delivered.push(delivery.reminderId);
+    },
+  };
+}
+
+// Timestamps are stored with second precision
+const deadlineArb = fc
+  .integer({ min: 1_700_000_000, max: 1_900_000_000 })
+  .map(seconds => new Date(seconds * 1000));
+
+const offsetArb = fc.integer({ min: 1, max: 10080 });
+
+const methodArb = fc.constantFrom<ReminderMethod>('push', 'email', 'in-app');
+
+
+describe('Property 46: Reminder Due Time', () => {
+  /**
+   * **Feature: daily-task-planner, Property 46: Reminder Due Time**
+   * **Validates: Requirements 27.3**
+   *
+   * For any incomplete task with a deadline, a reminder SHALL become due exactly
+   * offsetMinutes before the deadline and stay due until it is sent.
+   */
+  test('Due time is the deadline minus the offset', () => {
+    fc.assert(
+      fc.property(deadlineArb, offsetArb, (deadline, offsetMinutes) => {
+        const dueAt = getReminderDueAt(deadline, offsetMinutes);
+        expect(deadline.getTime() - dueAt.getTime()).toBe(offsetMinutes * 60 * 1000);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Reminders are due from their due time onwards, never before', () => {
+    fc.assert(
+      fc.property(
+        deadlineArb,
+        offsetArb,
+        fc.integer({ min: -10080, max: 10080 }),
+        (deadline, offsetMinutes, shiftMinutes) => {
+          const dueAt = getReminderDueAt(deadline, offsetMinutes);
+          const now = new Date(dueAt.getTime() + shiftMinutes * 60 * 1000);
+          const due = isReminderDue(
+            { offsetMinutes, sent: false },
+            { deadline, completed: false },
+            now
+          );
+          expect(due).toBe(shiftMinutes >= 0);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Sent reminders, completed tasks and tasks without deadline are never due', () => {
+    fc.assert(
+      fc.property(deadlineArb, offsetArb, (deadline, offsetMinutes) => {
+        const farFuture = new Date(deadline.getTime() + 365 * 24 * 60 * 60 * 1000);
+
+        expect(isReminderDue({ offsetMinutes, sent: true }, { deadline, completed: false }, farFuture)).toBe(false);
+        expect(isReminderDue({ offsetMinutes, sent: false }, { deadline, completed: true }, farFuture)).toBe(false);
+        expect(isReminderDue({ offsetMinutes, sent: false }, { deadline: undefined, completed: false }, farFuture)).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Property 47: Reminder Delivery Is Idempotent', () => {
+  /**
+   * **Feature: daily-task-planner, Property 47: Reminder Delivery Is Idempotent**
+   * **Validates: Requirements 27.3, 27.4**
+   *
+   * For any set of due reminders, each reminder SHALL be delivered exactly once
+   * through its method's channel, including reminders missed in the past.
+   */
+  test('Each due reminder is delivered once across repeated dispatches', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.tuple(fc.integer({ min: -10080, max: 60 }), offsetArb, methodArb), { minLength: 1, maxLength: 8 }),
+        async (specs) => {
+          sqlite.exec('DELETE FROM reminders');
+          sqlite.exec('DELETE FROM tasks');
+          sqlite.exec('DELETE FROM lists');
+
+          const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+          const expectedDue: string[] = [];
+
+          for (const [minutesFromNow, offsetMinutes, method] of specs) {
+            const deadline = new Date(now.getTime() + (minutesFromNow + offsetMinutes) * 60 * 1000);
+            const id = createTaskWithReminder(deadline, offsetMinutes, method);
+            if (minutesFromNow <= 0) expectedDue.push(id);
+          }
+
+          const delivered: string[] = [];
+          const channels = new Map<ReminderMethod, TestChannel>([
+            ['push', recordingChannel('push', delivered)],
+            ['email', recordingChannel('email', delivered)],
+            ['in-app', recordingChannel('in-app', delivered)],
+          ]);
+
+          await dispatchDueReminders(channels, now);
+          await dispatchDueReminders(channels, now);
+
+          expect(delivered.sort()).toEqual(expectedDue.sort());
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('Failed deliveries are retried on the next dispatch', async () => {
+    const now = new Date();
+    const id = createTaskWithReminder(new Date(now.getTime() + 5 * 60 * 1000), 15, 'email');
+
+    const failing: TestChannel = {
+      method: 'email',
+      async send() {
+        throw new Error('SMTP unavailable');
+      },
+    };
+
+    const first = await dispatchDueReminders(new Map([['email', failing]]), now);
+    expect(first.failed).toEqual([id]);
+
+    const delivered: string[] = [];
+    const second = await dispatchDueReminders(new Map([['email', recordingChannel('email', delivered)]]), now);
+    expect(second.sent).toEqual([id]);
+    expect(delivered).toEqual([id]);
+  });
+
+  test('Reminders without a registered channel stay unsent', async () => {
+    const now = new Date();
+    const id = createTaskWithReminder(new Date(now.getTime() + 5 * 60 * 1000), 15, 'push');
+
+    const result = await dispatchDueReminders(new Map(), now);
+    expect(result.skipped).toEqual([id]);
+
+    const [row] = testDb.select().from(schema.reminders).where(eq(schema.reminders.id, id)).all();
+    expect(row.sent).toBe(false);
+  });
+
+  test('Reminders for completed tasks are never delivered', async () => {
+    const now = new Date();
+    createTaskWithReminder(new Date(now.getTime() - 60 * 1000), 15, 'in-app', true);
+
+    const delivered: string[] = [];
+    await dispatchDueReminders(new Map([['in-app', recordingChannel('in-app', delivered)]]), now);
+    expect(delivered).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+import { db, schema } from '@/lib/db';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import type { Reminder, ReminderMethod, Task } from '@/types';
+import { getReminderDueAt, isReminderDue } from '@/lib/utils/reminders';
+import { markReminderSent } from './reminder.service';
+import { taskService } from './task.service';
+
+// How often the dispatcher checks for due reminders
+const DEFAULT_DISPATCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * A reminder that is due, together with the task it belongs to
+ */
+export interface ReminderDelivery {
+  reminder: Reminder;
+  task: Task;
+  dueAt: Date;
+}
+
+/**
+ * Delivery channel for a single reminder method.
+ * A channel should throw if delivery fails so the reminder is retried
+ * on the next dispatch.
+ */
+export interface ReminderChannel {
+  method: ReminderMethod;
+  send(delivery: ReminderDelivery): Promise<void>;
+}
+
+/**
+ * Summary of a single dispatch run (reminder IDs per outcome)
+ */
+export interface DispatchResult {
+  sent: string[];
+  failed: string[];
+  skipped: string[];
+}
+
+// Registered delivery channels, keyed by reminder method
+const channels = new Map<ReminderMethod, ReminderChannel>();
+
+let dispatchTimer: ReturnType<typeof setInterval> | null = null;
+let isDispatching = false;
+
+/**
+ * Registers a delivery channel for a reminder method.
+ * Replaces any channel previously registered for the same method.
+ * @param channel - The channel to register
+ */
+export function registerReminderChannel(channel: ReminderChannel): void {
+  channels.set(channel.method, channel);
+}
+
+/**
+ * Removes the delivery channel for a reminder method.
+ * @param method - The reminder method
+ */
+export function unregisterReminderChannel(method: ReminderMethod): void {
+  channels.delete(method);
+}
+
+/**
+ * Finds all unsent reminders that are due at the given time.
+ * Includes reminders that became due in the past (e.g. while the server was down).
+ * @param now - The reference time (default: now)
+ * @returns Due reminders with their tasks, oldest first
+ */
+export async function getDueReminders(now = new Date()): Promise<ReminderDelivery[]> {
+  const rows = await db
+    .select({
+      reminder: schema.reminders,
+      task: schema.tasks,
+    })
+    .from(schema.reminders)
+    .innerJoin(schema.tasks, eq(schema.reminders.taskId, schema.tasks.id))
+    .where(
+      and(
+        eq(schema.reminders.sent, false),
+        eq(schema.tasks.completed, false),
+        isNotNull(schema.tasks.deadline)
+      )
+    );
+
+  const deliveries: ReminderDelivery[] = [];
+  for (const row of rows) {
+    if (!isReminderDue(row.reminder, row.task, now)) continue;
+
+    const task = await taskService.getById(row.task.id);
+    if (!task) continue;
+
+    deliveries.push({
+      reminder: {
+        id: row.reminder.id,
+        taskId: row.reminder.taskId,
+        offsetMinutes: row.reminder.offsetMinutes,
+        method: row.reminder.method as ReminderMethod,
+        sent: row.reminder.sent,
+      },
+      task,
+      dueAt: getReminderDueAt(row.task.deadline!, row.reminder.offsetMinutes),
+    });
+  }
+
+  deliveries.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  return deliveries;
+}
+
+/**
+ * Delivers every due reminder through the channel registered for its method
+ * and marks it as sent.
+ * Reminders are only marked sent after a successful delivery, so failed
+ * deliveries and reminders without a registered channel are retried on the
+ * next run. Overlapping runs are skipped.
+ * @param now - The reference time (default: now)
+ * @returns IDs of sent, failed and skipped reminders
+ */
+export async function dispatchDueReminders(now = new Date()): Promise<DispatchResult> {
+  const result: DispatchResult = { sent: [], failed: [], skipped: [] };
+
+  if (isDispatching) {
+    return result;
+  }
+
+  isDispatching = true;
+  try {
+    const deliveries = await getDueReminders(now);
+
+    for (const delivery of deliveries) {
+      const channel = channels.get(delivery.reminder.method);
+      if (!channel) {
+        result.skipped.push(delivery.reminder.id);
+        continue;
+      }
+
+      try {
+        await channel.send(delivery);
+        await markReminderSent(delivery.reminder.id);
+        result.sent.push(delivery.reminder.id);
+      } catch (error) {
+        console.error(`Failed to deliver reminder ${delivery.reminder.id}:`, error);
+        result.failed.push(delivery.reminder.id);
+      }
+    }
+  } finally {
+    isDispatching = false;
+  }
+
+  return result;
+}
+
+/**
+ * Starts the background dispatcher loop.
+ * Runs a dispatch immediately to catch up on missed reminders, then
+ * checks again at every interval. Calling it while running is a no-op.
+ * @param intervalMs - Time between checks in milliseconds (default: 60s)
+ */
+export function startReminderDispatcher(intervalMs = DEFAULT_DISPATCH_INTERVAL_MS): void {
+  if (dispatchTimer) return;
+
+  const run = (): void => {
+    dispatchDueReminders().catch(error => {
+      console.error('Reminder dispatch failed:', error);
+    });
+  };
+
+  run();
+  dispatchTimer = setInterval(run, intervalMs);
+}
+
+/**
+ * Stops the background dispatcher loop.
+ */
+export function stopReminderDispatcher(): void {
+  if (dispatchTimer) {
+    clearInterval(dispatchTimer);
+    dispatchTimer = null;
+  }
+}
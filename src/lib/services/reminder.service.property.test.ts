@@ -12,7 +12,7 @@ import { drizzle } from 'drizzle-orm/bun-sqlite';
 import { eq } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import * as schema from '@/lib/db/schema';
-import type { Reminder, CreateReminderInput, ReminderMethod, IReminderService } from '@/types';
+import type { Reminder, CreateReminderInput, UpdateReminderInput, ReminderMethod, IReminderService } from '@/types';
 
 // Predefined reminder intervals in minutes (matching the service)
 const PREDEFINED_INTERVALS = {
@@ -137,6 +137,43 @@ function createTestReminderService(db: ReturnType<typeof drizzle>): IReminderSer
       return toReminder(created);
     },
 
+    async updateReminder(reminderId: string, data: UpdateReminderInput): Promise<Reminder> {
+      const [existing] = db
+        .select()
+        .from(schema.reminders)
+        .where(eq(schema.reminders.id, reminderId))
+        .all();
+
+      if (!existing) {
+        throw new ReminderNotFoundError(reminderId);
+      }
+
+      const merged: CreateReminderInput = {
+        offsetMinutes: data.offsetMinutes ?? existing.offsetMinutes,
+        method: data.method ?? (existing.method as ReminderMethod),
+      };
+      const validationErrors = validateReminderInput(merged);
+      if (Object.keys(validationErrors).length > 0) {
+        throw new ReminderValidationError(validationErrors);
+      }
+
+      const offsetChanged = merged.offsetMinutes !== existing.offsetMinutes;
+
+      db.update(schema.reminders).set({
+        offsetMinutes: merged.offsetMinutes,
+        method: merged.method,
+        sent: offsetChanged ? false : existing.sent,
+      }).where(eq(schema.reminders.id, reminderId)).run();
+
+      const [updated] = db
+        .select()
+        .from(schema.reminders)
+        .where(eq(schema.reminders.id, reminderId))
+        .all();
+
+      return toReminder(updated);
+    },
+
     async cancelReminder(reminderId: string): Promise<void> {
       const [existing] = db
         .select()
@@ -181,6 +218,10 @@ beforeAll(() => {
       color TEXT,
       emoji TEXT,
       is_inbox INTEGER NOT NULL DEFAULT 0,
+      view_mode TEXT NOT NULL DEFAULT 'list',
+      board_grouping TEXT NOT NULL DEFAULT 'status',
+      statuses TEXT,
+      rollover INTEGER NOT NULL DEFAULT 0,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL
     );
@@ -192,9 +233,11 @@ beforeAll(() => {
       list_id TEXT NOT NULL REFERENCES lists(id),
       date INTEGER,
       deadline INTEGER,
+      start_date INTEGER,
       estimate INTEGER,
       actual_time INTEGER,
       priority TEXT NOT NULL DEFAULT 'none',
+      status TEXT NOT NULL DEFAULT 'todo',
       completed INTEGER NOT NULL DEFAULT 0,
       completed_at INTEGER,
       recurrence TEXT,
@@ -417,6 +460,55 @@ describe('Property 38: Reminder Interval Storage', () => {
       reminderService.cancelReminder(nonExistentId)
     ).rejects.toThrow(`Reminder with id "${nonExistentId}" not found`);
   });
+
+  test('Updating a reminder stores the new interval and method', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validReminderInput,
+        validReminderInput,
+        async (initial, changes) => {
+          const listId = createTestList();
+          const taskId = createTestTask(listId);
+
+          const reminder = await reminderService.scheduleReminder(taskId, initial);
+          const updated = await reminderService.updateReminder(reminder.id, changes);
+
+          expect(updated.id).toBe(reminder.id);
+          expect(updated.offsetMinutes).toBe(changes.offsetMinutes);
+          expect(updated.method).toBe(changes.method);
+
+          const reminders = await reminderService.getByTaskId(taskId);
+          expect(reminders.length).toBe(1);
+          expect(reminders[0].offsetMinutes).toBe(changes.offsetMinutes);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('Changing the interval of a sent reminder re-arms it', async () => {
+    const listId = createTestList();
+    const taskId = createTestTask(listId);
+
+    const reminder = await reminderService.scheduleReminder(taskId, { offsetMinutes: 15, method: 'in-app' });
+    testDb.update(schema.reminders).set({ sent: true }).where(eq(schema.reminders.id, reminder.id)).run();
+
+    const sameOffset = await reminderService.updateReminder(reminder.id, { method: 'email' });
+    expect(sameOffset.sent).toBe(true);
+
+    const newOffset = await reminderService.updateReminder(reminder.id, { offsetMinutes: 60 });
+    expect(newOffset.sent).toBe(false);
+  });
+
+  test('Updating with an invalid interval throws a validation error', async () => {
+    const listId = createTestList();
+    const taskId = createTestTask(listId);
+    const reminder = await reminderService.scheduleReminder(taskId, { offsetMinutes: 15, method: 'in-app' });
+
+    await expect(
+      reminderService.updateReminder(reminder.id, { offsetMinutes: 1.5 })
+    ).rejects.toBeInstanceOf(ReminderValidationError);
+  });
 });
 
 
@@ -1,7 +1,7 @@
 import { db, schema } from '@/lib/db';
 import { eq } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
-import type { Reminder, CreateReminderInput, IReminderService, ReminderMethod } from '@/types';
+import type { Reminder, CreateReminderInput, UpdateReminderInput, IReminderService, ReminderMethod } from '@/types';
 
 // Predefined reminder intervals in minutes
 export const PREDEFINED_INTERVALS = {
@@ -141,6 +141,55 @@ export const reminderService: IReminderService = {
     return toReminder(created);
   },
 
+  /**
+   * Updates a reminder's offset and/or method.
+   * Changing the offset re-arms the reminder so it fires at the new time.
+   * 
+   * @param reminderId - The reminder ID to update
+   * @param data - The fields to change
+   * @returns The updated reminder
+   * @throws ReminderNotFoundError if reminder doesn't exist
+   * @throws ReminderValidationError if input is invalid
+   */
+  async updateReminder(reminderId: string, data: UpdateReminderInput): Promise<Reminder> {
+    const [existing] = await db
+      .select()
+      .from(schema.reminders)
+      .where(eq(schema.reminders.id, reminderId));
+
+    if (!existing) {
+      throw new ReminderNotFoundError(reminderId);
+    }
+
+    // Validate the merged result so partial updates are checked like new reminders
+    const merged: CreateReminderInput = {
+      offsetMinutes: data.offsetMinutes ?? existing.offsetMinutes,
+      method: data.method ?? (existing.method as ReminderMethod),
+    };
+    const validationErrors = validateReminderInput(merged);
+    if (Object.keys(validationErrors).length > 0) {
+      throw new ReminderValidationError(validationErrors);
+    }
+
+    const offsetChanged = merged.offsetMinutes !== existing.offsetMinutes;
+
+    await db
+      .update(schema.reminders)
+      .set({
+        offsetMinutes: merged.offsetMinutes,
+        method: merged.method,
+        sent: offsetChanged ? false : existing.sent,
+      })
+      .where(eq(schema.reminders.id, reminderId));
+
+    const [updated] = await db
+      .select()
+      .from(schema.reminders)
+      .where(eq(schema.reminders.id, reminderId));
+
+    return toReminder(updated);
+  },
+
   /**
    * Cancels (deletes) a reminder.
    * 
@@ -0,0 +1,117 @@
+import { db, schema } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import type { Task } from '@/types';
+import {
+  ROLLOVER_HISTORY_FIELD,
+  getNextRolloverRecord,
+  getNextRolloverTime,
+  getRescheduleDay,
+  isRolloverCandidate,
+  moveToDay,
+  type RescheduleTarget,
+} from '@/lib/utils/rollover';
+import { taskService } from './task.service';
+
+let rolloverTimer: ReturnType<typeof setTimeout> | null = null;
+let isRollingOver = false;
+
+/**
+ * Moves every overdue scheduled task to today or tomorrow, keeping its time
+ * of day. Each move is logged as a date change.
+ * @param target - The day to move the tasks to
+ * @param now - The reference time (default: now)
+ * @returns The moved tasks
+ */
+export async function rescheduleOverdueTasks(target: RescheduleTarget, now = new Date()): Promise<Task[]> {
+  const day = getRescheduleDay(target, now);
+
+  const moved: Task[] = [];
+  for (const task of await taskService.getOverdueScheduled()) {
+    moved.push(await taskService.update(task.id, { date: moveToDay(task.date!, day) }));
+  }
+  return moved;
+}
+
+/**
+ * Rolls the overdue scheduled tasks of lists with rollover turned on over to
+ * today, keeping their time of day. Besides the date change, each rollover
+ * logs the date the task was originally planned for and how many times it
+ * has rolled over. Recurring tasks are left alone and overlapping runs are
+ * skipped.
+ * @param now - The reference time (default: now)
+ * @returns The tasks that rolled over
+ */
+export async function rolloverOverdueTasks(now = new Date()): Promise<Task[]> {
+  if (isRollingOver) {
+    return [];
+  }
+
+  isRollingOver = true;
+  try {
+    const lists = await db
+      .select({ id: schema.lists.id })
+      .from(schema.lists)
+      .where(eq(schema.lists.rollover, true));
+    const listIds = new Set(lists.map(list => list.id));
+    if (listIds.size === 0) {
+      return [];
+    }
+
+    const today = getRescheduleDay('today', now);
+    const rolled: Task[] = [];
+    for (const task of await taskService.getOverdueScheduled()) {
+      if (!listIds.has(task.listId) || !isRolloverCandidate(task, now)) continue;
+
+      const record = getNextRolloverRecord(task, await taskService.getHistory(task.id));
+      rolled.push(await taskService.update(task.id, { date: moveToDay(task.date!, today) }));
+      await db.insert(schema.taskHistory).values({
+        id: uuidv4(),
+        taskId: task.id,
+        field: ROLLOVER_HISTORY_FIELD,
+        previousValue: record.originalDate.toISOString(),
+        newValue: String(record.count),
+        changedAt: now,
+      });
+    }
+    return rolled;
+  } finally {
+    isRollingOver = false;
+  }
+}
+
+/**
+ * Starts the nightly rollover.
+ * Rolls over right away to catch up on nights the server was down, then
+ * again at the start of every day. Calling it while running is a no-op.
+ */
+export function startRolloverScheduler(): void {
+  if (rolloverTimer) return;
+
+  const run = (): void => {
+    rolloverOverdueTasks().catch(error => {
+      console.error('Task rollover failed:', error);
+    });
+  };
+
+  const scheduleNext = (): void => {
+    const delay = getNextRolloverTime().getTime() - Date.now();
+    rolloverTimer = setTimeout(() => {
+      run();
+      scheduleNext();
+    }, delay);
+  };
+
+  run();
+  scheduleNext();
+}
+
+/**
+ * Stops the nightly rollover.
+ */
+export function stopRolloverScheduler(): void {
+  if (rolloverTimer) {
+    clearTimeout(rolloverTimer);
+    rolloverTimer = null;
+  }
+}
@@ -0,0 +1,482 @@
+/**
+ * Property-based tests for SavedSearch service
+ *
+ * Tests Property 60 for saved searches (smart lists)
+ * **Validates: Requirements 17.1**
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import * as fc from 'fast-check';
+import { Database } from 'bun:sqlite';
+import { drizzle } from 'drizzle-orm/bun-sqlite';
+import { eq, asc } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import * as schema from '@/lib/db/schema';
+import type {
+  SavedSearch,
+  CreateSavedSearchInput,
+  UpdateSavedSearchInput,
+  ISavedSearchService,
+  Priority,
+  Task,
+} from '@/types';
+import { validateCreateSavedSearch, validateUpdateSavedSearch } from '@/lib/utils/validation';
+import { parseSearchQuery, getSearchText, matchesSearchFilters, SearchQueryError } from '@/lib/utils/search-query';
+
+// Test database setup
+let testDb: ReturnType<typeof drizzle>;
+let sqlite: Database;
+
+/**
+ * Tasks and list names loaded once for several searches
+ */
+interface TestTaskSet {
+  tasks: Task[];
+  listNames: Map<string, string>;
+}
+
+function loadTestTaskSet(): TestTaskSet {
+  return {
+    tasks: testDb.select().from(schema.tasks).all().map(row => ({
+      id: row.id,
+      name: row.name,
+      listId: row.listId,
+      priority: row.priority as Priority,
+      status: row.status as Task['status'],
+      completed: row.completed,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    })),
+    listNames: new Map(testDb.select().from(schema.lists).all().map(l => [l.id, l.name])),
+  };
+}
+
+/**
+ * Simplified search over a loaded task set: filters as in the search service,
+ * free text as a case-insensitive substring of the task name
+ */
+function searchTestTasks(query: string, taskSet: TestTaskSet): Task[] {
+  const parsed = parseSearchQuery(query);
+  const text = getSearchText(parsed).toLowerCase();
+
+  return taskSet.tasks
+    .filter(task => !text || task.name.toLowerCase().includes(text))
+    .filter(task => matchesSearchFilters(task, parsed, { listName: taskSet.listNames.get(task.listId), hasAttachment: false }));
+}
+
+// Create a test-specific saved search service that uses the test database
+function createTestSavedSearchService(db: ReturnType<typeof drizzle>): ISavedSearchService {
+  function toSavedSearch(row: typeof schema.savedSearches.$inferSelect): SavedSearch {
+    return {
+      id: row.id,
+      name: row.name,
+      emoji: row.emoji ?? undefined,
+      query: row.query,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  class SavedSearchValidationError extends Error {
+    constructor(message: string, public errors: Record<string, string[]>) {
+      super(message);
+      this.name = 'SavedSearchValidationError';
+    }
+  }
+
+  class SavedSearchNotFoundError extends Error {
+    constructor(id: string) {
+      super(`Saved search with id "${id}" not found`);
+      this.name = 'SavedSearchNotFoundError';
+    }
+  }
+
+  return {
+    async create(data: CreateSavedSearchInput): Promise<SavedSearch> {
+      const validation = validateCreateSavedSearch(data);
+      if (!validation.valid) {
+        throw new SavedSearchValidationError('Invalid saved search data', validation.errors);
+      }
+
+      const now = new Date();
+      const id = uuidv4();
+
+      db.insert(schema.savedSearches).values({
+        id,
+        name: data.name.trim(),
+        emoji: data.emoji ?? null,
+        query: data.query.trim(),
+        createdAt: now,
+        updatedAt: now,
+      }).run();
+
+      const [savedSearch] = db
+        .select()
+        .from(schema.savedSearches)
+        .where(eq(schema.savedSearches.id, id))
+        .all();
+
+      return toSavedSearch(savedSearch);
+    },
+
+    async update(id: string, data: UpdateSavedSearchInput): Promise<SavedSearch> {
+      const validation = validateUpdateSavedSearch(data);
+      if (!validation.valid) {
+        throw new SavedSearchValidationError('Invalid saved search data', validation.errors);
+      }
+
+      const [existing] = db
+        .select()
+        .from(schema.savedSearches)
+        .where(eq(schema.savedSearches.id, id))
+        .all();
+
+      if (!existing) {
+        throw new SavedSearchNotFoundError(id);
+      }
+
+      const updateData: Partial<typeof schema.savedSearches.$inferInsert> = {
+        updatedAt: new Date(),
+      };
+
+      if (data.name !== undefined) {
+        updateData.name = data.name.trim();
+      }
+      if (data.emoji !== undefined) {
+        updateData.emoji = data.emoji;
+      }
+      if (data.query !== undefined) {
+        updateData.query = data.query.trim();
+      }
+
+      db.update(schema.savedSearches).set(updateData).where(eq(schema.savedSearches.id, id)).run();
+
+      const [updated] = db
+        .select()
+        .from(schema.savedSearches)
+        .where(eq(schema.savedSearches.id, id))
+        .all();
+
+      return toSavedSearch(updated);
+    },
+
+    async delete(id: string): Promise<void> {
+      const [existing] = db
+        .select()
+        .from(schema.savedSearches)
+        .where(eq(schema.savedSearches.id, id))
+        .all();
+
+      if (!existing) {
+        throw new SavedSearchNotFoundError(id);
+      }
+
+      db.delete(schema.savedSearches).where(eq(schema.savedSearches.id, id)).run();
+    },
+
+    async getAll(): Promise<SavedSearch[]> {
+      const rows = db
+        .select()
+        .from(schema.savedSearches)
+        .orderBy(asc(schema.savedSearches.createdAt))
+        .all();
+
+      return rows.map(toSavedSearch);
+    },
+
+    async getById(id: string): Promise<SavedSearch | null> {
+      const [row] = db
+        .select()
+        .from(schema.savedSearches)
+        .where(eq(schema.savedSearches.id, id))
+        .all();
+
+      return row ? toSavedSearch(row) : null;
+    },
+
+    async getCounts(): Promise<Record<string, number>> {
+      const savedSearches = await this.getAll();
+      const counts: Record<string, number> = {};
+      if (savedSearches.length === 0) {
+        return counts;
+      }
+
+      const taskSet = loadTestTaskSet();
+      for (const savedSearch of savedSearches) {
+        try {
+          const tasks = searchTestTasks(savedSearch.query, taskSet);
+          counts[savedSearch.id] = tasks.filter(t => !t.completed).length;
+        } catch (error) {
+          if (!(error instanceof SearchQueryError)) throw error;
+        }
+      }
+
+      return counts;
+    },
+  };
+}
+
+let savedSearchService: ISavedSearchService;
+
+beforeAll(() => {
+  // Create in-memory database for testing
+  sqlite = new Database(':memory:');
+  testDb = drizzle(sqlite, { schema });
+
+  // Create tables
+  sqlite.exec(`
+    CREATE TABLE lists (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      color TEXT,
+      emoji TEXT,
+      is_inbox INTEGER NOT NULL DEFAULT 0,
+      view_mode TEXT NOT NULL DEFAULT 'list',
+      board_grouping TEXT NOT NULL DEFAULT 'status',
+      statuses TEXT,
+      rollover INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE tasks (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      list_id TEXT NOT NULL REFERENCES lists(id),
+      date INTEGER,
+      deadline INTEGER,
+      start_date INTEGER,
+      estimate INTEGER,
+      actual_time INTEGER,
+      priority TEXT NOT NULL DEFAULT 'none',
+      status TEXT NOT NULL DEFAULT 'todo',
+      completed INTEGER NOT NULL DEFAULT 0,
+      completed_at INTEGER,
+      recurrence TEXT,
+      parent_task_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE saved_searches (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      emoji TEXT,
+      query TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  savedSearchService = createTestSavedSearchService(testDb);
+});
+
+afterAll(() => {
+  sqlite.close();
+});
+
+beforeEach(() => {
+  // Clean up tables before each test
+  sqlite.exec('DELETE FROM saved_searches');
+  sqlite.exec('DELETE FROM tasks');
+  sqlite.exec('DELETE FROM lists');
+});
+
+// Helper to create a list
+function createTestList(name: string): string {
+  const id = uuidv4();
+  const now = new Date();
+  testDb.insert(schema.lists).values({
+    id,
+    name,
+    isInbox: false,
+    createdAt: now,
+    updatedAt: now,
+  }).run();
+  return id;
+}
+
+// Helper to create a task
+function createTestTask(listId: string, name: string, priority: Priority, completed = false): string {
+  const id = uuidv4();
+  const now = new Date();
+  testDb.insert(schema.tasks).values({
+    id,
+    name,
+    listId,
+    priority,
+    completed,
+    createdAt: now,
+    updatedAt: now,
+  }).run();
+  return id;
+}
+
+// Arbitraries for generating test data
+const validName = fc.string({ minLength: 1, maxLength: 100 })
+  .filter(s => s.trim().length > 0);
+
+const invalidName = fc.constantFrom('', '   ', '\t', '\n');
+
+const validQuery = fc.constantFrom(
+  'report',
+  'list:Work',
+  'label:bug priority:high',
+  'priority:>=medium -is:completed',
+  'due:<2026-11-01',
+  'due:>=today due:<=2026-12-31',
+  'is:overdue estimate:>60'
+);
+
+const invalidQuery = fc.constantFrom('priority:urgent', 'is:done', 'due:2026-13-01', 'list:', 'estimate:lots');
+
+const emoji = fc.constantFrom('🔥', '🐛', '📅', '⭐');
+const optionalEmoji = fc.option(emoji, { nil: undefined });
+
+const priorityArb = fc.constantFrom<Priority>('none', 'low', 'medium', 'high');
+
+
+describe('Property 60: Saved Searches', () => {
+  /**
+   * **Feature: daily-task-planner, Property 60: Saved Searches**
+   * **Validates: Requirements 17.1**
+   *
+   * For any valid name and search query, saving the search SHALL persist it
+   * unchanged, and the saved search SHALL be listed until it is deleted.
+   */
+  test('Saved searches are persisted and listed in creation order', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.tuple(validName, optionalEmoji, validQuery), { minLength: 1, maxLength: 5 }),
+        async (inputs) => {
+          sqlite.exec('DELETE FROM saved_searches');
+          const created: SavedSearch[] = [];
+          for (const [name, emojiIcon, query] of inputs) {
+            created.push(await savedSearchService.create({ name, emoji: emojiIcon, query }));
+          }
+
+          for (const [i, [name, emojiIcon, query]] of inputs.entries()) {
+            expect(created[i]).toMatchObject({ name: name.trim(), emoji: emojiIcon, query });
+            expect(await savedSearchService.getById(created[i].id)).toEqual(created[i]);
+          }
+
+          const all = await savedSearchService.getAll();
+          expect(all.map(s => s.id)).toEqual(created.map(s => s.id));
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  test('Empty names and invalid queries are rejected', async () => {
+    await fc.assert(
+      fc.asyncProperty(invalidName, validName, invalidQuery, async (badName, name, badQuery) => {
+        await expect(savedSearchService.create({ name: badName, query: 'report' })).rejects.toMatchObject({
+          errors: { name: ['Name is required'] },
+        });
+        await expect(savedSearchService.create({ name, query: '  ' })).rejects.toMatchObject({
+          errors: { query: ['Query is required'] },
+        });
+
+        const error = await savedSearchService.create({ name, query: badQuery }).catch(e => e);
+        expect(error.name).toBe('SavedSearchValidationError');
+        expect(error.errors.query.length).toBeGreaterThan(0);
+
+        const saved = await savedSearchService.create({ name, query: 'report' });
+        await expect(savedSearchService.update(saved.id, { query: badQuery })).rejects.toThrow('Invalid saved search data');
+        await expect(savedSearchService.update(saved.id, { name: badName })).rejects.toThrow('Invalid saved search data');
+        expect(await savedSearchService.getById(saved.id)).toEqual(saved);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('Updates change only the given fields', async () => {
+    await fc.assert(
+      fc.asyncProperty(validName, validQuery, validName, validQuery, async (name, query, newName, newQuery) => {
+        const saved = await savedSearchService.create({ name, emoji: '🔥', query });
+
+        const renamed = await savedSearchService.update(saved.id, { name: newName });
+        expect(renamed).toMatchObject({ name: newName.trim(), emoji: '🔥', query });
+
+        const requeried = await savedSearchService.update(saved.id, { query: newQuery });
+        expect(requeried).toMatchObject({ name: newName.trim(), emoji: '🔥', query: newQuery });
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('Deleting a saved search leaves its tasks alone', async () => {
+    const listId = createTestList('Work');
+    const taskId = createTestTask(listId, 'Fix login bug', 'high');
+    const saved = await savedSearchService.create({ name: 'Urgent', query: 'priority:high' });
+
+    await savedSearchService.delete(saved.id);
+
+    expect(await savedSearchService.getById(saved.id)).toBeNull();
+    expect(await savedSearchService.getAll()).toEqual([]);
+    expect(testDb.select().from(schema.tasks).where(eq(schema.tasks.id, taskId)).all()).toHaveLength(1);
+
+    await expect(savedSearchService.delete(saved.id)).rejects.toThrow(`Saved search with id "${saved.id}" not found`);
+    await expect(savedSearchService.update(saved.id, { name: 'x' })).rejects.toThrow('not found');
+  });
+
+  /**
+   * For any set of tasks, the count of a saved search SHALL equal the number
+   * of incomplete tasks its query currently matches.
+   */
+  test('Counts follow the tasks matching each query', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.tuple(priorityArb, fc.boolean(), fc.boolean()), { maxLength: 15 }),
+        async (specs) => {
+          sqlite.exec('DELETE FROM saved_searches');
+          sqlite.exec('DELETE FROM tasks');
+          sqlite.exec('DELETE FROM lists');
+          const workId = createTestList('Work');
+          const homeId = createTestList('Home');
+
+          for (const [priority, completed, atWork] of specs) {
+            createTestTask(atWork ? workId : homeId, 'Task', priority, completed);
+          }
+
+          const important = await savedSearchService.create({ name: 'Important', query: 'priority:>=medium' });
+          const work = await savedSearchService.create({ name: 'Work', query: 'list:work' });
+
+          const open = specs.filter(([, completed]) => !completed);
+          const counts = await savedSearchService.getCounts();
+          expect(counts).toEqual({
+            [important.id]: open.filter(([priority]) => priority === 'medium' || priority === 'high').length,
+            [work.id]: open.filter(([, , atWork]) => atWork).length,
+          });
+
+          // New matching tasks are counted right away
+          createTestTask(workId, 'Another', 'high');
+          const updated = await savedSearchService.getCounts();
+          expect(updated[important.id]).toBe(counts[important.id] + 1);
+          expect(updated[work.id]).toBe(counts[work.id] + 1);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('A stored query that no longer parses only loses its own count', async () => {
+    const workId = createTestList('Work');
+    createTestTask(workId, 'Task', 'high', false);
+    const work = await savedSearchService.create({ name: 'Work', query: 'list:work' });
+
+    // Saved before priority:urgent stopped being accepted
+    const now = new Date();
+    testDb.insert(schema.savedSearches).values({
+      id: uuidv4(),
+      name: 'Urgent',
+      query: 'priority:urgent',
+      createdAt: now,
+      updatedAt: now,
+    }).run();
+
+    expect(await savedSearchService.getCounts()).toEqual({ [work.id]: 1 });
+  });
+});
@@ -0,0 +1,209 @@
+import { db, schema } from '@/lib/db';
+import { eq, asc } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  SavedSearch,
+  CreateSavedSearchInput,
+  UpdateSavedSearchInput,
+  ISavedSearchService,
+} from '@/types';
+import { validateCreateSavedSearch, validateUpdateSavedSearch } from '@/lib/utils/validation';
+import { SearchQueryError } from '@/lib/utils/search-query';
+import { searchService } from './search.service';
+
+// Custom error classes for SavedSearch service
+export class SavedSearchValidationError extends Error {
+  constructor(
+    message: string,
+    public errors: Record<string, string[]>
+  ) {
+    super(message);
+    this.name = 'SavedSearchValidationError';
+  }
+}
+
+export class SavedSearchNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Saved search with id "${id}" not found`);
+    this.name = 'SavedSearchNotFoundError';
+  }
+}
+
+/**
+ * Converts a database row to a SavedSearch entity
+ */
+function toSavedSearch(row: typeof schema.savedSearches.$inferSelect): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    emoji: row.emoji ?? undefined,
+    query: row.query,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * SavedSearch Service Implementation
+ * Handles search queries saved as smart lists
+ */
+export const savedSearchService: ISavedSearchService = {
+  /**
+   * Saves a search query as a smart list.
+   * @param data - The saved search creation data
+   * @returns The created saved search
+   * @throws SavedSearchValidationError if the name is empty or the query is invalid
+   */
+  async create(data: CreateSavedSearchInput): Promise<SavedSearch> {
+    const validation = validateCreateSavedSearch(data);
+    if (!validation.valid) {
+      throw new SavedSearchValidationError('Invalid saved search data', validation.errors);
+    }
+
+    const now = new Date();
+    const id = uuidv4();
+
+    await db.insert(schema.savedSearches).values({
+      id,
+      name: data.name.trim(),
+      emoji: data.emoji ?? null,
+      query: data.query.trim(),
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const [savedSearch] = await db
+      .select()
+      .from(schema.savedSearches)
+      .where(eq(schema.savedSearches.id, id));
+
+    return toSavedSearch(savedSearch);
+  },
+
+  /**
+   * Updates a saved search.
+   * @param id - The saved search ID
+   * @param data - The update data
+   * @returns The updated saved search
+   * @throws SavedSearchNotFoundError if the saved search doesn't exist
+   * @throws SavedSearchValidationError if validation fails
+   */
+  async update(id: string, data: UpdateSavedSearchInput): Promise<SavedSearch> {
+    const validation = validateUpdateSavedSearch(data);
+    if (!validation.valid) {
+      throw new SavedSearchValidationError('Invalid saved search data', validation.errors);
+    }
+
+    const [existing] = await db
+      .select()
+      .from(schema.savedSearches)
+      .where(eq(schema.savedSearches.id, id));
+
+    if (!existing) {
+      throw new SavedSearchNotFoundError(id);
+    }
+
+    const updateData: Partial<typeof schema.savedSearches.$inferInsert> = {
+      updatedAt: new Date(),
+    };
+
+    if (data.name !== undefined) {
+      updateData.name = data.name.trim();
+    }
+    if (data.emoji !== undefined) {
+      updateData.emoji = data.emoji;
+    }
+    if (data.query !== undefined) {
+      updateData.query = data.query.trim();
+    }
+
+    await db
+      .update(schema.savedSearches)
+      .set(updateData)
+      .where(eq(schema.savedSearches.id, id));
+
+    const [updated] = await db
+      .select()
+      .from(schema.savedSearches)
+      .where(eq(schema.savedSearches.id, id));
+
+    return toSavedSearch(updated);
+  },
+
+  /**
+   * Deletes a saved search. Tasks are not affected.
+   * @param id - The saved search ID
+   * @throws SavedSearchNotFoundError if the saved search doesn't exist
+   */
+  async delete(id: string): Promise<void> {
+    const [existing] = await db
+      .select()
+      .from(schema.savedSearches)
+      .where(eq(schema.savedSearches.id, id));
+
+    if (!existing) {
+      throw new SavedSearchNotFoundError(id);
+    }
+
+    await db.delete(schema.savedSearches).where(eq(schema.savedSearches.id, id));
+  },
+
+  /**
+   * Gets all saved searches.
+   * @returns All saved searches ordered by creation date
+   */
+  async getAll(): Promise<SavedSearch[]> {
+    const rows = await db
+      .select()
+      .from(schema.savedSearches)
+      .orderBy(asc(schema.savedSearches.createdAt));
+
+    return rows.map(toSavedSearch);
+  },
+
+  /**
+   * Gets a saved search by ID.
+   * @param id - The saved search ID
+   * @returns The saved search or null if not found
+   */
+  async getById(id: string): Promise<SavedSearch | null> {
+    const [row] = await db
+      .select()
+      .from(schema.savedSearches)
+      .where(eq(schema.savedSearches.id, id));
+
+    return row ? toSavedSearch(row) : null;
+  },
+
+  /**
+   * Counts the incomplete tasks matching each saved search.
+   * Relative filters such as `due:today` are evaluated at the time of the call.
+   * The tasks are loaded once for all saved searches. A saved search whose
+   * query can't be run is left out rather than failing the others.
+   * @returns Number of matching incomplete tasks keyed by saved search ID
+   */
+  async getCounts(): Promise<Record<string, number>> {
+    const savedSearches = await this.getAll();
+    const counts: Record<string, number> = {};
+    if (savedSearches.length === 0) {
+      return counts;
+    }
+
+    const taskSet = await searchService.loadTaskSet();
+    for (const savedSearch of savedSearches) {
+      try {
+        const results = await searchService.search(savedSearch.query, taskSet);
+        counts[savedSearch.id] = results.filter(r => !r.task.completed).length;
+      } catch (error) {
+        // Queries saved before a filter changed may no longer parse
+        if (!(error instanceof SearchQueryError)) {
+          console.error(`Error counting saved search ${savedSearch.id}:`, error);
+        }
+      }
+    }
+
+    return counts;
+  },
+};
+
+export default savedSearchService;
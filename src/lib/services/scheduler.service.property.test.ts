@@ -12,25 +12,25 @@ import { drizzle } from 'drizzle-orm/bun-sqlite';
 import { v4 as uuidv4 } from 'uuid';
 import { addDays, addMinutes, startOfDay, isBefore, isAfter } from 'date-fns';
 import * as schema from '@/lib/db/schema';
-import type { Task, ScheduleSuggestion, ISchedulerService, Priority } from '@/types';
+import type { Task, ScheduleSuggestion, ISchedulerService, Priority, SchedulingProfile } from '@/types';
 import { and, eq, gte, lt, isNotNull } from 'drizzle-orm';
+import {
+  DEFAULT_SCHEDULING_PROFILE,
+  addDaysToDateKey,
+  fromZonedTime,
+  generateWorkingSlots,
+  getZonedDateTime,
+  type TimeSlot,
+} from '@/lib/utils/working-hours';
+import { getBlockersEnd } from '@/lib/utils/dependencies';
 
 // Test database setup
 let testDb: ReturnType<typeof drizzle>;
 let sqlite: Database;
 
-// Constants matching the scheduler service
+// Working hours of the default scheduling profile
 const DEFAULT_WORK_START_HOUR = 9;
 const DEFAULT_WORK_END_HOUR = 18;
-const MAX_DAYS_AHEAD = 7;
-
-/**
- * Represents a time slot with start and end times
- */
-interface TimeSlot {
-  start: Date;
-  end: Date;
-}
 
 /**
  * Checks if two time slots overlap
@@ -50,9 +50,16 @@ function taskToSlot(task: Task): TimeSlot | null {
   };
 }
 
-// Create a test-specific scheduler service that uses the test database
-function createTestSchedulerService(db: ReturnType<typeof drizzle>): ISchedulerService {
-  const DEFAULT_SLOT_DURATION_MINUTES = 30;
+// Suggestions are tested here; auto-planning is tested in auto-plan.property.test.ts
+type TestSchedulerService = Pick<ISchedulerService, 'suggestTimeSlots'>;
+
+// Create a test-specific scheduler service that uses the test database,
+// a given scheduling profile and fixed calendar busy time
+function createTestSchedulerService(
+  db: ReturnType<typeof drizzle>,
+  profile: SchedulingProfile = DEFAULT_SCHEDULING_PROFILE,
+  busyBlocks: TimeSlot[] = []
+): TestSchedulerService {
   const DEFAULT_SUGGESTION_COUNT = 5;
 
   function toTask(row: typeof schema.tasks.$inferSelect): Task {
@@ -63,9 +70,11 @@ function createTestSchedulerService(db: ReturnType<typeof drizzle>): ISchedulerS
       listId: row.listId,
       date: row.date ?? undefined,
       deadline: row.deadline ?? undefined,
+      startDate: row.startDate ?? undefined,
       estimate: row.estimate ?? undefined,
       actualTime: row.actualTime ?? undefined,
       priority: row.priority as Task['priority'],
+      status: row.status as Task['status'],
       completed: row.completed,
       completedAt: row.completedAt ?? undefined,
       recurrence: row.recurrence as Task['recurrence'],
@@ -92,32 +101,16 @@ function createTestSchedulerService(db: ReturnType<typeof drizzle>): ISchedulerS
     return rows.map(toTask);
   }
 
-  function generateWorkingSlots(date: Date, slotDurationMinutes: number): TimeSlot[] {
-    const slots: TimeSlot[] = [];
-    const dayStart = startOfDay(date);
-    
-    let currentTime = addMinutes(dayStart, DEFAULT_WORK_START_HOUR * 60);
-    const dayEnd = addMinutes(dayStart, DEFAULT_WORK_END_HOUR * 60);
-
-    while (isBefore(currentTime, dayEnd)) {
-      const slotEnd = addMinutes(currentTime, slotDurationMinutes);
-      if (isBefore(slotEnd, dayEnd) || slotEnd.getTime() === dayEnd.getTime()) {
-        slots.push({ start: new Date(currentTime), end: new Date(slotEnd) });
-      }
-      currentTime = slotEnd;
-    }
-
-    return slots;
-  }
-
   function findAvailableSlots(
     allSlots: TimeSlot[],
     existingTasks: Task[],
+    busy: TimeSlot[],
     requiredDuration: number
   ): TimeSlot[] {
-    const taskSlots = existingTasks
+    const takenSlots = existingTasks
       .map(taskToSlot)
-      .filter((slot): slot is TimeSlot => slot !== null);
+      .filter((slot): slot is TimeSlot => slot !== null)
+      .concat(busy);
 
     return allSlots.filter(slot => {
       const slotDuration = (slot.end.getTime() - slot.start.getTime()) / (1000 * 60);
@@ -128,14 +121,15 @@ function createTestSchedulerService(db: ReturnType<typeof drizzle>): ISchedulerS
         end: addMinutes(slot.start, requiredDuration),
       };
 
-      return !taskSlots.some(taskSlot => slotsOverlap(proposedSlot, taskSlot));
+      return !takenSlots.some(takenSlot => slotsOverlap(proposedSlot, takenSlot));
     });
   }
 
   function calculateSlotScore(
     slot: TimeSlot,
     task: Task,
-    now: Date
+    now: Date,
+    profile: SchedulingProfile
   ): { score: number; reason: string } {
     let score = 50;
     const reasons: string[] = [];
@@ -164,19 +158,19 @@ function createTestSchedulerService(db: ReturnType<typeof drizzle>): ISchedulerS
       if (hoursUntilDeadline > 0 && hoursUntilDeadline <= taskDurationHours * 2) {
         score += 25;
         reasons.push('Close to deadline');
-      } else if (hoursUntilDeadline > 0 && hoursUntilDeadline <= 24) {
+      } else if (hoursUntilDeadline > 0 && hoursUntilDeadline <= profile.deadlineUrgentHours) {
         score += 20;
-        reasons.push('Within 24 hours of deadline');
-      } else if (hoursUntilDeadline > 0 && hoursUntilDeadline <= 48) {
+        reasons.push(`Within ${profile.deadlineUrgentHours} hours of deadline`);
+      } else if (hoursUntilDeadline > 0 && hoursUntilDeadline <= profile.deadlineSoonHours) {
         score += 10;
-        reasons.push('Within 48 hours of deadline');
+        reasons.push(`Within ${profile.deadlineSoonHours} hours of deadline`);
       } else if (hoursUntilDeadline < 0) {
         score -= 20;
         reasons.push('After deadline');
       }
     }
 
-    const slotHour = slot.start.getHours();
+    const slotHour = Math.floor(getZonedDateTime(slot.start, profile.timezone).minutes / 60);
     if (slotHour >= 9 && slotHour < 12) {
       score += 5;
       reasons.push('Morning slot (peak focus time)');
@@ -208,23 +202,30 @@ function createTestSchedulerService(db: ReturnType<typeof drizzle>): ISchedulerS
       }
 
       const now = new Date();
-      const searchStart = startOfDay(now);
-      const searchEnd = addDays(searchStart, MAX_DAYS_AHEAD + 1);
+      const today = getZonedDateTime(now, profile.timezone).date;
+      const searchStart = fromZonedTime(today, 0, profile.timezone);
+      const searchEnd = fromZonedTime(addDaysToDateKey(today, profile.daysAhead + 1), 0, profile.timezone);
 
       const existingTasks = await getScheduledTasksInRange(searchStart, searchEnd);
+      const blockersEnd = getBlockersEnd(task.blockedBy ?? []);
 
       const allSlots: TimeSlot[] = [];
-      for (let day = 0; day <= MAX_DAYS_AHEAD; day++) {
-        const date = addDays(now, day);
-        const daySlots = generateWorkingSlots(date, DEFAULT_SLOT_DURATION_MINUTES);
-        const filteredSlots = daySlots.filter(slot => isAfter(slot.start, now));
+      for (let day = 0; day <= profile.daysAhead; day++) {
+        const daySlots = generateWorkingSlots(addDaysToDateKey(today, day), profile, task.estimate);
+        const filteredSlots = daySlots.filter(
+          slot =>
+            isAfter(slot.start, now) &&
+            !(task.startDate && isBefore(slot.start, task.startDate)) &&
+            !(blockersEnd && isBefore(slot.start, blockersEnd))
+        );
         allSlots.push(...filteredSlots);
       }
 
-      const availableSlots = findAvailableSlots(allSlots, existingTasks, task.estimate);
+      const busy = busyBlocks.filter(block => block.start < searchEnd && block.end > searchStart);
+      const availableSlots = findAvailableSlots(allSlots, existingTasks, busy, task.estimate);
 
       const scoredSlots = availableSlots.map(slot => {
-        const { score, reason } = calculateSlotScore(slot, task, now);
+        const { score, reason } = calculateSlotScore(slot, task, now, profile);
         return {
           startTime: slot.start,
           endTime: addMinutes(slot.start, task.estimate!),
@@ -240,7 +241,7 @@ function createTestSchedulerService(db: ReturnType<typeof drizzle>): ISchedulerS
   };
 }
 
-let schedulerService: ISchedulerService;
+let schedulerService: TestSchedulerService;
 
 beforeAll(() => {
   sqlite = new Database(':memory:');
@@ -255,6 +256,10 @@ beforeAll(() => {
       color TEXT,
       emoji TEXT,
       is_inbox INTEGER NOT NULL DEFAULT 0,
+      view_mode TEXT NOT NULL DEFAULT 'list',
+      board_grouping TEXT NOT NULL DEFAULT 'status',
+      statuses TEXT,
+      rollover INTEGER NOT NULL DEFAULT 0,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL
     );
@@ -266,9 +271,11 @@ beforeAll(() => {
       list_id TEXT NOT NULL REFERENCES lists(id),
       date INTEGER,
       deadline INTEGER,
+      start_date INTEGER,
       estimate INTEGER,
       actual_time INTEGER,
       priority TEXT NOT NULL DEFAULT 'none',
+      status TEXT NOT NULL DEFAULT 'todo',
       completed INTEGER NOT NULL DEFAULT 0,
       completed_at INTEGER,
       recurrence TEXT,
@@ -320,6 +327,7 @@ function createScheduledTask(
     date,
     estimate,
     priority,
+    status: 'todo',
     completed: false,
     createdAt: now,
     updatedAt: now,
@@ -340,6 +348,7 @@ function createTaskObject(
     estimate,
     priority,
     deadline,
+    status: 'todo',
     completed: false,
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -356,7 +365,8 @@ describe('Property 44: Schedule Suggestion Non-Conflict', () => {
    * **Validates: Requirements 29.3**
    *
    * For any scheduling suggestion, the suggested time slot SHALL not overlap
-   * with existing scheduled tasks.
+   * with existing scheduled tasks, nor start before the task's start date or
+   * its scheduled open blockers end.
    */
   test('Suggestions do not overlap with existing scheduled tasks', async () => {
     await fc.assert(
@@ -409,6 +419,41 @@ describe('Property 44: Schedule Suggestion Non-Conflict', () => {
     );
   });
 
+  test('Suggestions do not overlap with calendar busy time', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validEstimate,
+        validPriority,
+        fc.array(
+          fc.record({
+            day: fc.integer({ min: 0, max: 7 }),
+            startMinutes: fc.integer({ min: 0, max: 23 * 60 }),
+            duration: fc.integer({ min: 15, max: 8 * 60 }),
+          }),
+          { minLength: 1, maxLength: 10 }
+        ),
+        async (estimate, priority, events) => {
+          const listId = createTestList();
+          const busyBlocks: TimeSlot[] = events.map(({ day, startMinutes, duration }) => {
+            const start = addMinutes(startOfDay(addDays(new Date(), day)), startMinutes);
+            return { start, end: addMinutes(start, duration) };
+          });
+          const service = createTestSchedulerService(testDb, DEFAULT_SCHEDULING_PROFILE, busyBlocks);
+
+          const suggestions = await service.suggestTimeSlots(createTaskObject(listId, estimate, priority), 10);
+
+          for (const suggestion of suggestions) {
+            const suggestionSlot: TimeSlot = { start: suggestion.startTime, end: suggestion.endTime };
+            for (const block of busyBlocks) {
+              expect(slotsOverlap(suggestionSlot, block)).toBe(false);
+            }
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
   test('Suggestions are within working hours', async () => {
     await fc.assert(
       fc.asyncProperty(validEstimate, validPriority, async (estimate, priority) => {
@@ -455,6 +500,68 @@ describe('Property 44: Schedule Suggestion Non-Conflict', () => {
     );
   });
 
+  test('Suggestions start after the open blockers end', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validEstimate,
+        fc.array(
+          fc.record({
+            hoursAhead: fc.integer({ min: -24, max: 5 * 24 }),
+            estimate: fc.option(fc.integer({ min: 15, max: 240 }), { nil: undefined }),
+            completed: fc.boolean(),
+          }),
+          { minLength: 1, maxLength: 3 }
+        ),
+        async (estimate, blockerRecords) => {
+          const listId = createTestList();
+          const now = new Date();
+          const taskToSchedule = createTaskObject(listId, estimate);
+          taskToSchedule.blockedBy = blockerRecords.map((record, index) => ({
+            id: `blocker-${index}`,
+            name: `Blocker ${index}`,
+            listId,
+            completed: record.completed,
+            date: addMinutes(now, record.hoursAhead * 60),
+            estimate: record.estimate,
+          }));
+
+          const suggestions = await schedulerService.suggestTimeSlots(taskToSchedule, 20);
+          const openEnds = taskToSchedule.blockedBy
+            .filter(blocker => !blocker.completed)
+            .map(blocker => addMinutes(blocker.date!, blocker.estimate ?? 0).getTime());
+
+          for (const suggestion of suggestions) {
+            for (const end of openEnds) {
+              expect(suggestion.startTime.getTime()).toBeGreaterThanOrEqual(end);
+            }
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('Suggestions start no earlier than the start date', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validEstimate,
+        fc.integer({ min: -24, max: 5 * 24 }),
+        async (estimate, hoursAhead) => {
+          const listId = createTestList();
+          const taskToSchedule = createTaskObject(listId, estimate);
+          taskToSchedule.startDate = addMinutes(new Date(), hoursAhead * 60);
+
+          const suggestions = await schedulerService.suggestTimeSlots(taskToSchedule, 20);
+
+          for (const suggestion of suggestions) {
+            expect(suggestion.startTime.getTime()).toBeGreaterThanOrEqual(taskToSchedule.startDate.getTime());
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
   test('Suggestion duration matches task estimate', async () => {
     await fc.assert(
       fc.asyncProperty(validEstimate, validPriority, async (estimate, priority) => {
@@ -481,6 +588,7 @@ describe('Property 44: Schedule Suggestion Non-Conflict', () => {
           name: 'Task without estimate',
           listId,
           priority,
+          status: 'todo',
           completed: false,
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -566,6 +674,44 @@ describe('Property 45: Schedule Suggestion Ranking', () => {
     );
   });
 
+  test('Deadline bonuses follow the profile thresholds', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validEstimate,
+        fc.integer({ min: 1, max: 48 }),
+        fc.integer({ min: 1, max: 48 }),
+        fc.integer({ min: 1, max: 96 }),
+        async (estimate, deadlineUrgentHours, extraHours, deadlineHours) => {
+          const profile: SchedulingProfile = {
+            ...DEFAULT_SCHEDULING_PROFILE,
+            deadlineUrgentHours,
+            deadlineSoonHours: deadlineUrgentHours + extraHours,
+          };
+          const service = createTestSchedulerService(testDb, profile);
+          const listId = createTestList();
+          const deadline = addMinutes(new Date(), deadlineHours * 60);
+
+          const suggestions = await service.suggestTimeSlots(createTaskObject(listId, estimate, 'none', deadline), 10);
+
+          for (const suggestion of suggestions) {
+            const hoursUntilDeadline = (deadline.getTime() - suggestion.startTime.getTime()) / (1000 * 60 * 60);
+            const urgent = `Within ${profile.deadlineUrgentHours} hours of deadline`;
+            const soon = `Within ${profile.deadlineSoonHours} hours of deadline`;
+            const close = hoursUntilDeadline > 0 && hoursUntilDeadline <= (estimate / 60) * 2;
+
+            expect(suggestion.reason.includes(urgent)).toBe(
+              !close && hoursUntilDeadline > 0 && hoursUntilDeadline <= profile.deadlineUrgentHours
+            );
+            expect(suggestion.reason.includes(soon)).toBe(
+              !close && hoursUntilDeadline > profile.deadlineUrgentHours && hoursUntilDeadline <= profile.deadlineSoonHours
+            );
+          }
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
   test('All suggestions have valid scores between 0 and 100', async () => {
     await fc.assert(
       fc.asyncProperty(validEstimate, validPriority, async (estimate, priority) => {
@@ -620,3 +766,94 @@ describe('Property 45: Schedule Suggestion Ranking', () => {
     );
   });
 });
+
+describe('Property 61: Working Hours Profile', () => {
+  /**
+   * **Feature: daily-task-planner, Property 61: Working Hours Profile**
+   * **Validates: Requirements 29.2**
+   *
+   * For any scheduling profile, suggested time slots SHALL fall on enabled
+   * weekdays within their working window, SHALL NOT overlap a break and
+   * SHALL NOT fall on a day off, as read in the profile's timezone.
+   */
+  const timezoneArb = fc.constantFrom('UTC', 'America/New_York', 'Europe/Berlin', 'Asia/Tokyo', 'Australia/Adelaide');
+
+  test('Suggestions respect working days, breaks, days off and timezone', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validEstimate,
+        validPriority,
+        timezoneArb,
+        fc.integer({ min: 0, max: 6 }),
+        async (estimate, priority, timezone, dayOffOffset) => {
+          const today = getZonedDateTime(new Date(), timezone).date;
+          const dayOff = addDaysToDateKey(today, dayOffOffset);
+          const profile: SchedulingProfile = {
+            timezone,
+            // Weekdays only, 08:30-17:00 with lunch from 12:00 to 13:00
+            workingDays: Array.from({ length: 7 }, (_, weekday) => ({
+              enabled: weekday !== 0 && weekday !== 6,
+              start: '08:30',
+              end: '17:00',
+              breaks: [{ start: '12:00', end: '13:00' }],
+            })),
+            daysOff: [dayOff],
+            slotMinutes: 15,
+            daysAhead: 7,
+            deadlineUrgentHours: 24,
+            deadlineSoonHours: 48,
+          };
+          const service = createTestSchedulerService(testDb, profile);
+          const listId = createTestList();
+
+          const suggestions = await service.suggestTimeSlots(createTaskObject(listId, estimate, priority), 10);
+
+          for (const suggestion of suggestions) {
+            const start = getZonedDateTime(suggestion.startTime, timezone);
+            const endMinutes = start.minutes + estimate;
+
+            expect(start.weekday).not.toBe(0);
+            expect(start.weekday).not.toBe(6);
+            expect(start.date).not.toBe(dayOff);
+            expect(start.minutes).toBeGreaterThanOrEqual(8 * 60 + 30);
+            expect(endMinutes).toBeLessThanOrEqual(17 * 60);
+            expect(endMinutes <= 12 * 60 || start.minutes >= 13 * 60).toBe(true);
+            expect((start.minutes - (8 * 60 + 30)) % 15).toBe(0);
+          }
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('No suggestions when no day is enabled', async () => {
+    await fc.assert(
+      fc.asyncProperty(validEstimate, timezoneArb, async (estimate, timezone) => {
+        const profile: SchedulingProfile = {
+          ...DEFAULT_SCHEDULING_PROFILE,
+          timezone,
+          workingDays: DEFAULT_SCHEDULING_PROFILE.workingDays.map(day => ({ ...day, enabled: false })),
+        };
+        const service = createTestSchedulerService(testDb, profile);
+        const listId = createTestList();
+
+        const suggestions = await service.suggestTimeSlots(createTaskObject(listId, estimate), 10);
+        expect(suggestions).toEqual([]);
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('Tasks longer than the slot spacing still get suggestions', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 31, max: 240 }), async (estimate) => {
+        const listId = createTestList();
+        const suggestions = await schedulerService.suggestTimeSlots(createTaskObject(listId, estimate), 5);
+
+        // The default profile has nine working hours on every one of the next seven days
+        expect(suggestions.length).toBe(5);
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
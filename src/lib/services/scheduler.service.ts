@@ -1,21 +1,53 @@
 import { db, schema } from '@/lib/db';
-import { and, eq, gte, lt, isNotNull } from 'drizzle-orm';
-import type { Task, ScheduleSuggestion, ISchedulerService } from '@/types';
-import { addDays, startOfDay, endOfDay, addMinutes, isBefore, isAfter } from 'date-fns';
-
-// Default working hours (9 AM to 6 PM)
-const DEFAULT_WORK_START_HOUR = 9;
-const DEFAULT_WORK_END_HOUR = 18;
-const DEFAULT_SLOT_DURATION_MINUTES = 30;
+import { and, eq, gte, inArray, lt, isNotNull } from 'drizzle-orm';
+import type {
+  Task,
+  TaskDependency,
+  ScheduleSuggestion,
+  ISchedulerService,
+  AutoPlan,
+  ApplyAutoPlanItem,
+  SchedulingProfile,
+} from '@/types';
+import { addMinutes, isBefore, isAfter } from 'date-fns';
+import {
+  addDaysToDateKey,
+  fromZonedTime,
+  generateWorkingSlots,
+  getZonedDateTime,
+  type TimeSlot,
+} from '@/lib/utils/working-hours';
+import { hasTimeOfDay, planTasks } from '@/lib/utils/auto-plan';
+import { getBlockersEnd } from '@/lib/utils/dependencies';
+import { schedulingProfileService } from './scheduling-profile.service';
+import { calendarService } from './calendar.service';
+import { taskService, TaskNotFoundError } from './task.service';
+
 const DEFAULT_SUGGESTION_COUNT = 5;
-const MAX_DAYS_AHEAD = 7;
 
 /**
- * Represents a time slot with start and end times
+ * Converts a database row to a Task
  */
-interface TimeSlot {
-  start: Date;
-  end: Date;
+function toTask(row: typeof schema.tasks.$inferSelect): Task {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    listId: row.listId,
+    date: row.date ?? undefined,
+    deadline: row.deadline ?? undefined,
+    startDate: row.startDate ?? undefined,
+    estimate: row.estimate ?? undefined,
+    actualTime: row.actualTime ?? undefined,
+    priority: row.priority as Task['priority'],
+    status: row.status as Task['status'],
+    completed: row.completed,
+    completedAt: row.completedAt ?? undefined,
+    recurrence: row.recurrence as Task['recurrence'],
+    parentTaskId: row.parentTaskId ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
 }
 
 /**
@@ -34,44 +66,68 @@ async function getScheduledTasksInRange(start: Date, end: Date): Promise<Task[]>
       )
     );
 
-  return rows.map(row => ({
-    id: row.id,
-    name: row.name,
-    description: row.description ?? undefined,
-    listId: row.listId,
-    date: row.date ?? undefined,
-    deadline: row.deadline ?? undefined,
-    estimate: row.estimate ?? undefined,
-    actualTime: row.actualTime ?? undefined,
-    priority: row.priority as Task['priority'],
-    completed: row.completed,
-    completedAt: row.completedAt ?? undefined,
-    recurrence: row.recurrence as Task['recurrence'],
-    parentTaskId: row.parentTaskId ?? undefined,
-    createdAt: row.createdAt,
-    updatedAt: row.updatedAt,
-  }));
+  return rows.map(toTask);
 }
 
 /**
- * Generates working hour slots for a given day
+ * Fetches the blockers of each of the given tasks, by task ID
  */
-function generateWorkingSlots(date: Date, slotDurationMinutes: number): TimeSlot[] {
-  const slots: TimeSlot[] = [];
-  const dayStart = startOfDay(date);
-  
-  let currentTime = addMinutes(dayStart, DEFAULT_WORK_START_HOUR * 60);
-  const dayEnd = addMinutes(dayStart, DEFAULT_WORK_END_HOUR * 60);
-
-  while (isBefore(currentTime, dayEnd)) {
-    const slotEnd = addMinutes(currentTime, slotDurationMinutes);
-    if (isBefore(slotEnd, dayEnd) || slotEnd.getTime() === dayEnd.getTime()) {
-      slots.push({ start: new Date(currentTime), end: new Date(slotEnd) });
-    }
-    currentTime = slotEnd;
+async function getBlockersByTask(taskIds: string[]): Promise<Map<string, TaskDependency[]>> {
+  const blockersByTask = new Map<string, TaskDependency[]>();
+  if (taskIds.length === 0) return blockersByTask;
+
+  const rows = await db
+    .select({
+      taskId: schema.taskDependencies.taskId,
+      blocker: schema.tasks,
+    })
+    .from(schema.taskDependencies)
+    .innerJoin(schema.tasks, eq(schema.taskDependencies.blockedById, schema.tasks.id))
+    .where(inArray(schema.taskDependencies.taskId, taskIds));
+
+  for (const row of rows) {
+    const blockers = blockersByTask.get(row.taskId) ?? [];
+    blockers.push({
+      id: row.blocker.id,
+      name: row.blocker.name,
+      listId: row.blocker.listId,
+      completed: row.blocker.completed,
+      date: row.blocker.date ?? undefined,
+      estimate: row.blocker.estimate ?? undefined,
+    });
+    blockersByTask.set(row.taskId, blockers);
   }
+  return blockersByTask;
+}
+
+/**
+ * Gets incomplete tasks that have an estimate, the candidates for
+ * auto-planning, with their blockers
+ */
+async function getEstimatedTasks(): Promise<Task[]> {
+  const rows = await db
+    .select()
+    .from(schema.tasks)
+    .where(and(eq(schema.tasks.completed, false), isNotNull(schema.tasks.estimate)));
+  const blockersByTask = await getBlockersByTask(rows.map(row => row.id));
+
+  return rows.map(row => ({ ...toTask(row), blockedBy: blockersByTask.get(row.id) ?? [] }));
+}
 
-  return slots;
+/**
+ * Gets the time already taken in the planning window: tasks with a time of
+ * day and calendar events
+ */
+async function getPlanningBusySlots(profile: SchedulingProfile, now: Date, days: number): Promise<TimeSlot[]> {
+  const today = getZonedDateTime(now, profile.timezone).date;
+  const searchStart = fromZonedTime(today, 0, profile.timezone);
+  const searchEnd = fromZonedTime(addDaysToDateKey(today, days), 0, profile.timezone);
+
+  return (await getScheduledTasksInRange(searchStart, searchEnd))
+    .filter(task => hasTimeOfDay(task.date!, profile.timezone))
+    .map(taskToSlot)
+    .filter((slot): slot is TimeSlot => slot !== null)
+    .concat(await calendarService.getBusyBlocks(searchStart, searchEnd));
 }
 
 /**
@@ -93,16 +149,18 @@ function taskToSlot(task: Task): TimeSlot | null {
 }
 
 /**
- * Finds available slots that don't conflict with existing tasks
+ * Finds available slots that don't conflict with existing tasks or calendar busy blocks
  */
 function findAvailableSlots(
   allSlots: TimeSlot[],
   existingTasks: Task[],
+  busyBlocks: TimeSlot[],
   requiredDuration: number
 ): TimeSlot[] {
-  const taskSlots = existingTasks
+  const takenSlots = existingTasks
     .map(taskToSlot)
-    .filter((slot): slot is TimeSlot => slot !== null);
+    .filter((slot): slot is TimeSlot => slot !== null)
+    .concat(busyBlocks);
 
   return allSlots.filter(slot => {
     // Check if slot is long enough
@@ -115,18 +173,20 @@ function findAvailableSlots(
       end: addMinutes(slot.start, requiredDuration),
     };
 
-    return !taskSlots.some(taskSlot => slotsOverlap(proposedSlot, taskSlot));
+    return !takenSlots.some(takenSlot => slotsOverlap(proposedSlot, takenSlot));
   });
 }
 
 /**
  * Calculates a score for a time slot based on task properties
  * Higher score = better suggestion
+ * The deadline thresholds and the clock come from the scheduling profile.
  */
 function calculateSlotScore(
   slot: TimeSlot,
   task: Task,
-  now: Date
+  now: Date,
+  profile: SchedulingProfile
 ): { score: number; reason: string } {
   let score = 50; // Base score
   const reasons: string[] = [];
@@ -159,12 +219,12 @@ function calculateSlotScore(
       // Very close to deadline - high urgency
       score += 25;
       reasons.push('Close to deadline');
-    } else if (hoursUntilDeadline > 0 && hoursUntilDeadline <= 24) {
+    } else if (hoursUntilDeadline > 0 && hoursUntilDeadline <= profile.deadlineUrgentHours) {
       score += 20;
-      reasons.push('Within 24 hours of deadline');
-    } else if (hoursUntilDeadline > 0 && hoursUntilDeadline <= 48) {
+      reasons.push(`Within ${profile.deadlineUrgentHours} hours of deadline`);
+    } else if (hoursUntilDeadline > 0 && hoursUntilDeadline <= profile.deadlineSoonHours) {
       score += 10;
-      reasons.push('Within 48 hours of deadline');
+      reasons.push(`Within ${profile.deadlineSoonHours} hours of deadline`);
     } else if (hoursUntilDeadline < 0) {
       // Slot is after deadline - penalize
       score -= 20;
@@ -172,8 +232,8 @@ function calculateSlotScore(
     }
   }
 
-  // Morning preference (9-12) for focused work
-  const slotHour = slot.start.getHours();
+  // Morning preference (9-12) for focused work, by the working hours' clock
+  const slotHour = Math.floor(getZonedDateTime(slot.start, profile.timezone).minutes / 60);
   if (slotHour >= 9 && slotHour < 12) {
     score += 5;
     reasons.push('Morning slot (peak focus time)');
@@ -208,7 +268,11 @@ function calculateSlotScore(
 export const schedulerService: ISchedulerService = {
   /**
    * Suggests available time slots for a task based on existing scheduled tasks.
+   * Slots fall within the working hours of the scheduling profile, outside its
+   * breaks and days off, and start on its slot grid.
    * Considers priority and deadline proximity for ranking suggestions.
+   * No slot starts before the task's start date or before its scheduled
+   * open blockers end.
    * 
    * @param task - The task to schedule (must have an estimate)
    * @param count - Number of suggestions to return (default: 5)
@@ -220,30 +284,40 @@ export const schedulerService: ISchedulerService = {
       return [];
     }
 
+    const profile = await schedulingProfileService.get();
     const now = new Date();
-    const searchStart = startOfDay(now);
-    const searchEnd = endOfDay(addDays(now, MAX_DAYS_AHEAD));
+    const today = getZonedDateTime(now, profile.timezone).date;
+    const searchStart = fromZonedTime(today, 0, profile.timezone);
+    const searchEnd = fromZonedTime(addDaysToDateKey(today, profile.daysAhead + 1), 0, profile.timezone);
 
-    // Get all scheduled tasks in the search range
+    // Get all scheduled tasks and calendar events in the search range
     const existingTasks = await getScheduledTasksInRange(searchStart, searchEnd);
+    const busyBlocks = await calendarService.getBusyBlocks(searchStart, searchEnd);
 
-    // Generate all possible working hour slots
+    // The task can't start until the last of its blockers is done
+    const blockersEnd = getBlockersEnd(task.blockedBy ?? []);
+
+    // Generate all working hour slots long enough for the task
     const allSlots: TimeSlot[] = [];
-    for (let day = 0; day <= MAX_DAYS_AHEAD; day++) {
-      const date = addDays(now, day);
-      const daySlots = generateWorkingSlots(date, DEFAULT_SLOT_DURATION_MINUTES);
+    for (let day = 0; day <= profile.daysAhead; day++) {
+      const daySlots = generateWorkingSlots(addDaysToDateKey(today, day), profile, task.estimate);
       
-      // Filter out past slots for today
-      const filteredSlots = daySlots.filter(slot => isAfter(slot.start, now));
+      // Filter out past slots for today and slots before the start date or the blockers end
+      const filteredSlots = daySlots.filter(
+        slot =>
+          isAfter(slot.start, now) &&
+          !(task.startDate && isBefore(slot.start, task.startDate)) &&
+          !(blockersEnd && isBefore(slot.start, blockersEnd))
+      );
       allSlots.push(...filteredSlots);
     }
 
-    // Find available slots that don't conflict with existing tasks
-    const availableSlots = findAvailableSlots(allSlots, existingTasks, task.estimate);
+    // Find available slots that don't conflict with existing tasks or events
+    const availableSlots = findAvailableSlots(allSlots, existingTasks, busyBlocks, task.estimate);
 
     // Score and rank the available slots
     const scoredSlots = availableSlots.map(slot => {
-      const { score, reason } = calculateSlotScore(slot, task, now);
+      const { score, reason } = calculateSlotScore(slot, task, now, profile);
       return {
         startTime: slot.start,
         endTime: addMinutes(slot.start, task.estimate!),
@@ -257,6 +331,73 @@ export const schedulerService: ISchedulerService = {
 
     return scoredSlots.slice(0, count);
   },
+
+  /**
+   * Plans every incomplete task that has an estimate but no time of day,
+   * packing them into free working slots by priority and deadline, each
+   * after its blockers.
+   * Nothing is saved; apply the result with applyPlan.
+   *
+   * @param days - Number of days to plan, starting today (default: the profile's days ahead)
+   * @returns The proposed start times and the tasks that did not fit
+   */
+  async planTasks(days?: number): Promise<AutoPlan> {
+    const profile = await schedulingProfileService.get();
+    const planDays = days ?? profile.daysAhead;
+    const now = new Date();
+
+    const busy = await getPlanningBusySlots(profile, now, planDays);
+    return planTasks(await getEstimatedTasks(), busy, profile, now, planDays);
+  },
+
+  /**
+   * Plans new start times for the tasks scheduled before today, as
+   * suggestions for rescheduling them. Their past dates are dropped, so each
+   * one takes the earliest free slot in the planning window. Tasks without an
+   * estimate can't be placed and come back unplanned.
+   * Nothing is saved; apply the result with applyPlan.
+   *
+   * @param days - Number of days to plan, starting today (default: the profile's days ahead)
+   * @returns The proposed start times and the tasks that did not fit
+   */
+  async planOverdue(days?: number): Promise<AutoPlan> {
+    const profile = await schedulingProfileService.get();
+    const planDays = days ?? profile.daysAhead;
+    const now = new Date();
+
+    const overdue = await taskService.getOverdueScheduled();
+    const busy = await getPlanningBusySlots(profile, now, planDays);
+    const plan = planTasks(overdue.map(task => ({ ...task, date: undefined })), busy, profile, now, planDays);
+
+    // Show the tasks as they are now, past dates included
+    const byId = new Map(overdue.map(task => [task.id, task]));
+    return {
+      assignments: plan.assignments.map(assignment => ({ ...assignment, task: byId.get(assignment.task.id)! })),
+      unplanned: overdue.filter(task => !plan.assignments.some(assignment => assignment.task.id === task.id)),
+    };
+  },
+
+  /**
+   * Saves the start times of an auto-plan.
+   * Every task is checked before any is changed.
+   *
+   * @param items - The tasks to schedule and their start times
+   * @returns The updated tasks
+   * @throws TaskNotFoundError if a task doesn't exist
+   */
+  async applyPlan(items: ApplyAutoPlanItem[]): Promise<Task[]> {
+    for (const item of items) {
+      if (!(await taskService.getById(item.taskId))) {
+        throw new TaskNotFoundError(item.taskId);
+      }
+    }
+
+    const updated: Task[] = [];
+    for (const item of items) {
+      updated.push(await taskService.update(item.taskId, { date: item.date }));
+    }
+    return updated;
+  },
 };
 
 export default schedulerService;
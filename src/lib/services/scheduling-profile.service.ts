@@ -0,0 +1,112 @@
+import { db, schema } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import type {
+  SchedulingProfile,
+  UpdateSchedulingProfileInput,
+  ISchedulingProfileService,
+  WorkingDay,
+} from '@/types';
+import { validateUpdateSchedulingProfile } from '@/lib/utils/validation';
+import { DEFAULT_SCHEDULING_PROFILE } from '@/lib/utils/working-hours';
+
+// The profile is stored as a single row
+const PROFILE_ID = 'default';
+
+// Custom error class for SchedulingProfile service
+export class SchedulingProfileValidationError extends Error {
+  constructor(
+    message: string,
+    public errors: Record<string, string[]>
+  ) {
+    super(message);
+    this.name = 'SchedulingProfileValidationError';
+  }
+}
+
+/**
+ * Converts a database row to a SchedulingProfile
+ */
+function toSchedulingProfile(row: typeof schema.schedulingProfile.$inferSelect): SchedulingProfile {
+  return {
+    timezone: row.timezone,
+    workingDays: row.workingDays as WorkingDay[],
+    daysOff: row.daysOff as string[],
+    slotMinutes: row.slotMinutes,
+    daysAhead: row.daysAhead,
+    deadlineUrgentHours: row.deadlineUrgentHours,
+    deadlineSoonHours: row.deadlineSoonHours,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * SchedulingProfile Service Implementation
+ * Stores the working hours, days off and timezone used by the scheduler
+ */
+export const schedulingProfileService: ISchedulingProfileService = {
+  /**
+   * Gets the scheduling profile.
+   * Returns the default profile (every day 9:00-18:00 in the server's timezone)
+   * until one has been saved.
+   * @returns The scheduling profile
+   */
+  async get(): Promise<SchedulingProfile> {
+    const [row] = await db
+      .select()
+      .from(schema.schedulingProfile)
+      .where(eq(schema.schedulingProfile.id, PROFILE_ID));
+
+    return row ? toSchedulingProfile(row) : DEFAULT_SCHEDULING_PROFILE;
+  },
+
+  /**
+   * Updates the scheduling profile, saving it on first use.
+   * Fields that are not provided keep their current values.
+   * @param data - The update data
+   * @returns The updated profile
+   * @throws SchedulingProfileValidationError if validation fails
+   */
+  async update(data: UpdateSchedulingProfileInput): Promise<SchedulingProfile> {
+    const validation = validateUpdateSchedulingProfile(data);
+    if (!validation.valid) {
+      throw new SchedulingProfileValidationError('Invalid scheduling profile', validation.errors);
+    }
+
+    const current = await this.get();
+
+    // Check the thresholds together, as one may be kept from the current profile
+    const thresholds = validateUpdateSchedulingProfile({
+      deadlineUrgentHours: data.deadlineUrgentHours ?? current.deadlineUrgentHours,
+      deadlineSoonHours: data.deadlineSoonHours ?? current.deadlineSoonHours,
+    });
+    if (!thresholds.valid) {
+      throw new SchedulingProfileValidationError('Invalid scheduling profile', thresholds.errors);
+    }
+
+    const values = {
+      id: PROFILE_ID,
+      timezone: data.timezone ?? current.timezone,
+      workingDays: (data.workingDays ?? current.workingDays).map(day => ({
+        enabled: day.enabled,
+        start: day.start,
+        end: day.end,
+        breaks: [...day.breaks].sort((a, b) => a.start.localeCompare(b.start)),
+      })),
+      daysOff: [...new Set(data.daysOff ?? current.daysOff)].sort(),
+      slotMinutes: data.slotMinutes ?? current.slotMinutes,
+      daysAhead: data.daysAhead ?? current.daysAhead,
+      deadlineUrgentHours: data.deadlineUrgentHours ?? current.deadlineUrgentHours,
+      deadlineSoonHours: data.deadlineSoonHours ?? current.deadlineSoonHours,
+      updatedAt: new Date(),
+    };
+
+    await db
+      .insert(schema.schedulingProfile)
+      .values(values)
+      .onConflictDoUpdate({ target: schema.schedulingProfile.id, set: values });
+
+    return this.get();
+  },
+};
+
+export default schedulingProfileService;
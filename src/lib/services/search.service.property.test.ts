@@ -1,7 +1,7 @@
 /**
  * Property-based tests for Search service
  * 
- * Tests Properties 34, 35 from the design document
+ * Tests Properties 34, 35, 58 from the design document
  * **Validates: Requirements 17.1, 17.2, 17.3**
  */
 
@@ -9,11 +9,26 @@ import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:tes
 import * as fc from 'fast-check';
 import { Database } from 'bun:sqlite';
 import { drizzle } from 'drizzle-orm/bun-sqlite';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray, notInArray, type SQL } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import Fuse from 'fuse.js';
+import { readFileSync } from 'fs';
+import { join } from 'path';
 import * as schema from '@/lib/db/schema';
-import type { Task, ISearchService } from '@/types';
+import { ensureSearchIndex, buildSearchIndexMatch, searchIndexQuery } from '@/lib/db/search-index';
+import { searchFilterCondition } from '@/lib/db/search-filters';
+import {
+  parseSearchQuery,
+  getSearchText,
+  matchesSearchFilters,
+} from '@/lib/utils/search-query';
+import {
+  extractSearchWords,
+  getWordMatches,
+  getFuzzyMatches,
+  buildSnippet,
+} from '@/lib/utils/search-highlight';
+import type { Task, Label, ISearchService, SearchMatches, SearchQuery, SearchResult, SearchTaskSet } from '@/types';
 
 // Test database setup
 let testDb: ReturnType<typeof drizzle>;
@@ -26,8 +41,8 @@ interface SearchableTask {
   id: string;
   name: string;
   description: string;
-  labelNames: string;
-  task: Task;
+  labelNames: string[];
+  labels: Label[];
 }
 
 /**
@@ -41,9 +56,11 @@ function toTask(row: typeof schema.tasks.$inferSelect): Task {
     listId: row.listId,
     date: row.date ?? undefined,
     deadline: row.deadline ?? undefined,
+    startDate: row.startDate ?? undefined,
     estimate: row.estimate ?? undefined,
     actualTime: row.actualTime ?? undefined,
     priority: row.priority as Task['priority'],
+    status: row.status as Task['status'],
     completed: row.completed,
     completedAt: row.completedAt ?? undefined,
     recurrence: row.recurrence as Task['recurrence'],
@@ -69,11 +86,15 @@ const FUSE_OPTIONS = {
   minMatchCharLength: 1,
   shouldSort: true,
   findAllMatches: true,
+  includeMatches: true,
 };
 
+// Matches the search service
+const FUZZY_FALLBACK_THRESHOLD = 5;
+
 // Create a test-specific search service that uses the test database
 function createTestSearchService(db: ReturnType<typeof drizzle>): ISearchService {
-  function toLabel(row: typeof schema.labels.$inferSelect) {
+  function toLabel(row: typeof schema.labels.$inferSelect): Label {
     return {
       id: row.id,
       name: row.name,
@@ -83,43 +104,172 @@ function createTestSearchService(db: ReturnType<typeof drizzle>): ISearchService
     };
   }
 
-  async function getLabelsForTask(taskId: string) {
+  function getLabelsByTask(taskIds: string[]): Map<string, Label[]> {
+    const labelsByTask = new Map<string, Label[]>();
+    if (taskIds.length === 0) return labelsByTask;
+
     const rows = db
-      .select({ label: schema.labels })
+      .select({ taskId: schema.taskLabels.taskId, label: schema.labels })
       .from(schema.taskLabels)
       .innerJoin(schema.labels, eq(schema.taskLabels.labelId, schema.labels.id))
-      .where(eq(schema.taskLabels.taskId, taskId))
+      .where(inArray(schema.taskLabels.taskId, taskIds))
       .all();
-    return rows.map(r => toLabel(r.label));
+    for (const row of rows) {
+      labelsByTask.set(row.taskId, [...(labelsByTask.get(row.taskId) ?? []), toLabel(row.label)]);
+    }
+    return labelsByTask;
+  }
+
+  function getTasksWithLabels(where: SQL | undefined): Task[] {
+    const rows = db.select().from(schema.tasks).where(where).all();
+    const labelsByTask = getLabelsByTask(rows.map(row => row.id));
+    return rows.map(row => ({ ...toTask(row), labels: labelsByTask.get(row.id) ?? [] }));
+  }
+
+  function getSearchableTasks(where: SQL | undefined): SearchableTask[] {
+    const rows = db
+      .select({ id: schema.tasks.id, name: schema.tasks.name, description: schema.tasks.description })
+      .from(schema.tasks)
+      .where(where)
+      .all();
+    const labelsByTask = getLabelsByTask(rows.map(row => row.id));
+    return rows.map(row => {
+      const labels = labelsByTask.get(row.id) ?? [];
+      return { id: row.id, name: row.name, description: row.description ?? '', labelNames: labels.map(l => l.name), labels };
+    });
+  }
+
+  function filterTasks(tasks: Task[], query: SearchQuery, now: Date): Task[] {
+    if (tasks.length === 0) return [];
+
+    const listIds = [...new Set(tasks.map(task => task.listId))];
+    const listNames = new Map(
+      db.select().from(schema.lists).where(inArray(schema.lists.id, listIds)).all().map(l => [l.id, l.name])
+    );
+    const tasksWithAttachments = new Set(
+      db.select({ taskId: schema.attachments.taskId })
+        .from(schema.attachments)
+        .where(inArray(schema.attachments.taskId, tasks.map(task => task.id)))
+        .all()
+        .map(a => a.taskId)
+    );
+
+    return tasks.filter(task => matchesSearchFilters(task, query, {
+      listName: listNames.get(task.listId),
+      hasAttachment: tasksWithAttachments.has(task.id),
+    }, now));
+  }
+
+  function toSearchable(task: Task): SearchableTask {
+    const labels = task.labels ?? [];
+    return { id: task.id, name: task.name, description: task.description ?? '', labelNames: labels.map(l => l.name), labels };
+  }
+
+  interface SearchTaskSource {
+    getTasks(ids?: string[]): Task[];
+    getSearchable(excludeIds: string[]): SearchableTask[];
+    getMatchedTasks(items: SearchableTask[]): Task[];
+  }
+
+  function databaseSource(query: SearchQuery, now: Date): SearchTaskSource {
+    const candidates = searchFilterCondition(query, now);
+    return {
+      getTasks(ids) {
+        const where = ids ? and(inArray(schema.tasks.id, ids), candidates) : candidates;
+        return filterTasks(getTasksWithLabels(where), query, now);
+      },
+      getSearchable(excludeIds) {
+        return getSearchableTasks(and(notInArray(schema.tasks.id, excludeIds), candidates));
+      },
+      getMatchedTasks(items) {
+        if (items.length === 0) return [];
+        const labelsByTask = new Map(items.map(item => [item.id, item.labels]));
+        const rows = db.select().from(schema.tasks).where(inArray(schema.tasks.id, [...labelsByTask.keys()])).all();
+        return filterTasks(rows.map(row => ({ ...toTask(row), labels: labelsByTask.get(row.id) ?? [] })), query, now);
+      },
+    };
+  }
+
+  function taskSetSource(taskSet: SearchTaskSet, query: SearchQuery, now: Date): SearchTaskSource {
+    const passing = taskSet.tasks.filter(task => matchesSearchFilters(task, query, {
+      listName: taskSet.listNames.get(task.listId),
+      hasAttachment: taskSet.taskIdsWithAttachments.has(task.id),
+    }, now));
+    const passingById = new Map(passing.map(task => [task.id, task]));
+    return {
+      getTasks: (ids) => (ids ? ids.flatMap(id => passingById.get(id) ?? []) : passing),
+      getSearchable: (excludeIds) => passing.filter(task => !excludeIds.includes(task.id)).map(toSearchable),
+      getMatchedTasks: (items) => items.flatMap(item => passingById.get(item.id) ?? []),
+    };
+  }
+
+  function searchIndex(text: string): { taskId: string; rank: number }[] {
+    const match = buildSearchIndexMatch(text);
+    if (!match) return [];
+    return db.all<{ taskId: string; rank: number }>(searchIndexQuery(match));
+  }
+
+  function toSearchResult(task: Task, score: number, matches: SearchMatches): SearchResult {
+    return {
+      task,
+      score,
+      matches,
+      snippet: task.description ? buildSnippet(task.description, matches.description) : undefined,
+    };
   }
 
   return {
-    async search(query: string): Promise<Task[]> {
+    async search(query: string, taskSet?: SearchTaskSet): Promise<SearchResult[]> {
       if (!query || query.trim() === '') {
         return [];
       }
 
-      const taskRows = db.select().from(schema.tasks).all();
-      const searchableData: SearchableTask[] = [];
-
-      for (const row of taskRows) {
-        const task = toTask(row);
-        const labels = await getLabelsForTask(row.id);
-        task.labels = labels;
-
-        searchableData.push({
-          id: row.id,
-          name: row.name,
-          description: row.description ?? '',
-          labelNames: labels.map(l => l.name).join(' '),
-          task,
-        });
+      const parsed = parseSearchQuery(query);
+      const text = getSearchText(parsed);
+      const now = new Date();
+      const source = taskSet ? taskSetSource(taskSet, parsed, now) : databaseSource(parsed, now);
+
+      if (!text) {
+        return source.getTasks().map(task => toSearchResult(task, 1, { name: [], description: [], labels: {} }));
       }
 
-      const fuse = new Fuse(searchableData, FUSE_OPTIONS);
-      const results = fuse.search(query.trim());
+      const hits = searchIndex(text);
+      const tasksById = new Map(source.getTasks(hits.map(h => h.taskId)).map(t => [t.id, t]));
+      const words = extractSearchWords(text);
+      const results: SearchResult[] = [];
+
+      for (const hit of hits) {
+        const task = tasksById.get(hit.taskId);
+        if (!task) continue;
+        const strength = Math.max(0, -hit.rank);
+        results.push(toSearchResult(task, 0.5 + 0.5 * (strength / (1 + strength)), getWordMatches(task, words)));
+      }
 
-      return results.map(result => result.item.task);
+      if (results.length >= FUZZY_FALLBACK_THRESHOLD) {
+        return results;
+      }
+
+      const fuse = new Fuse(source.getSearchable(results.map(r => r.task.id)), FUSE_OPTIONS);
+      const fuzzyMatches = fuse.search(text);
+      const matchedById = new Map(source.getMatchedTasks(fuzzyMatches.map(match => match.item)).map(t => [t.id, t]));
+
+      for (const match of fuzzyMatches) {
+        const task = matchedById.get(match.item.id);
+        if (!task) continue;
+        results.push(toSearchResult(task, 0.5 * (1 - (match.score ?? 1)), getFuzzyMatches(task, match.matches ?? [])));
+      }
+
+      return results;
+    },
+
+    async loadTaskSet(): Promise<SearchTaskSet> {
+      return {
+        tasks: getTasksWithLabels(undefined),
+        listNames: new Map(db.select().from(schema.lists).all().map(l => [l.id, l.name])),
+        taskIdsWithAttachments: new Set(
+          db.select({ taskId: schema.attachments.taskId }).from(schema.attachments).all().map(a => a.taskId)
+        ),
+      };
     },
   };
 }
@@ -139,6 +289,10 @@ beforeAll(() => {
       color TEXT,
       emoji TEXT,
       is_inbox INTEGER NOT NULL DEFAULT 0,
+      view_mode TEXT NOT NULL DEFAULT 'list',
+      board_grouping TEXT NOT NULL DEFAULT 'status',
+      statuses TEXT,
+      rollover INTEGER NOT NULL DEFAULT 0,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL
     );
@@ -158,9 +312,11 @@ beforeAll(() => {
       list_id TEXT NOT NULL REFERENCES lists(id),
       date INTEGER,
       deadline INTEGER,
+      start_date INTEGER,
       estimate INTEGER,
       actual_time INTEGER,
       priority TEXT NOT NULL DEFAULT 'none',
+      status TEXT NOT NULL DEFAULT 'todo',
       completed INTEGER NOT NULL DEFAULT 0,
       completed_at INTEGER,
       recurrence TEXT,
@@ -174,8 +330,30 @@ beforeAll(() => {
       label_id TEXT NOT NULL REFERENCES labels(id) ON DELETE CASCADE,
       PRIMARY KEY (task_id, label_id)
     );
+
+    CREATE TABLE subtasks (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      completed INTEGER NOT NULL DEFAULT 0,
+      "order" INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE attachments (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      file_name TEXT NOT NULL,
+      file_type TEXT NOT NULL,
+      file_size INTEGER NOT NULL,
+      file_path TEXT NOT NULL,
+      uploaded_at INTEGER NOT NULL
+    );
   `);
 
+  ensureSearchIndex(sqlite);
+
   searchService = createTestSearchService(testDb);
 });
 
@@ -184,6 +362,8 @@ afterAll(() => {
 });
 
 beforeEach(() => {
+  sqlite.exec('DELETE FROM attachments');
+  sqlite.exec('DELETE FROM subtasks');
   sqlite.exec('DELETE FROM task_labels');
   sqlite.exec('DELETE FROM tasks');
   sqlite.exec('DELETE FROM labels');
@@ -192,6 +372,18 @@ beforeEach(() => {
 
 
 // Helper functions
+function getTasksWithLabelsForTest(): Task[] {
+  const labelRows = testDb
+    .select({ taskId: schema.taskLabels.taskId, label: schema.labels })
+    .from(schema.taskLabels)
+    .innerJoin(schema.labels, eq(schema.taskLabels.labelId, schema.labels.id))
+    .all();
+  return testDb.select().from(schema.tasks).all().map(row => ({
+    ...toTask(row),
+    labels: labelRows.filter(r => r.taskId === row.id).map(r => ({ ...r.label, icon: r.label.icon ?? undefined })),
+  }));
+}
+
 function createTestList(): string {
   const listId = uuidv4();
   const now = new Date();
@@ -267,7 +459,7 @@ describe('Property 34: Fuzzy Search Matching', () => {
         const results = await searchService.search(taskName);
 
         expect(results.length).toBeGreaterThanOrEqual(1);
-        expect(results.some(t => t.id === taskId)).toBe(true);
+        expect(results.some(r => r.task.id === taskId)).toBe(true);
       }),
       { numRuns: 50 }
     );
@@ -288,7 +480,7 @@ describe('Property 34: Fuzzy Search Matching', () => {
           const results = await searchService.search(partialQuery);
 
           // Fuzzy search should find the task with partial match
-          expect(results.some(t => t.id === taskId)).toBe(true);
+          expect(results.some(r => r.task.id === taskId)).toBe(true);
         }
       ),
       { numRuns: 50 }
@@ -312,7 +504,7 @@ describe('Property 34: Fuzzy Search Matching', () => {
         // At minimum, verify search completes without error and returns array
         expect(Array.isArray(results)).toBe(true);
         // If found, verify the task is in results
-        if (results.some(t => t.id === taskId)) {
+        if (results.some(r => r.task.id === taskId)) {
           expect(results.length).toBeGreaterThan(0);
         }
       }),
@@ -331,7 +523,7 @@ describe('Property 34: Fuzzy Search Matching', () => {
         const results = await searchService.search(labelName);
 
         // Should find the task via label name match
-        expect(results.some(t => t.id === taskId)).toBe(true);
+        expect(results.some(r => r.task.id === taskId)).toBe(true);
       }),
       { numRuns: 50 }
     );
@@ -398,15 +590,15 @@ describe('Property 35: Search Result Ranking', () => {
           const results = await searchService.search(baseName);
 
           // Exact match should appear before partial matches
-          const exactIndex = results.findIndex(t => t.id === exactTaskId);
-          const partialIndex = results.findIndex(t => t.id === partialTaskId);
+          const exactIndex = results.findIndex(r => r.task.id === exactTaskId);
+          const partialIndex = results.findIndex(r => r.task.id === partialTaskId);
 
           if (exactIndex !== -1 && partialIndex !== -1) {
             expect(exactIndex).toBeLessThanOrEqual(partialIndex);
           }
 
           // At minimum, exact match should be found
-          expect(results.some(t => t.id === exactTaskId)).toBe(true);
+          expect(results.some(r => r.task.id === exactTaskId)).toBe(true);
         }
       ),
       { numRuns: 30 }
@@ -428,8 +620,8 @@ describe('Property 35: Search Result Ranking', () => {
 
           const results = await searchService.search(searchTerm);
 
-          const nameMatchIndex = results.findIndex(t => t.id === nameMatchId);
-          const descMatchIndex = results.findIndex(t => t.id === descMatchId);
+          const nameMatchIndex = results.findIndex(r => r.task.id === nameMatchId);
+          const descMatchIndex = results.findIndex(r => r.task.id === descMatchId);
 
           // Name match should rank higher (lower index) than description match
           if (nameMatchIndex !== -1 && descMatchIndex !== -1) {
@@ -437,7 +629,7 @@ describe('Property 35: Search Result Ranking', () => {
           }
 
           // Name match should definitely be found
-          expect(results.some(t => t.id === nameMatchId)).toBe(true);
+          expect(results.some(r => r.task.id === nameMatchId)).toBe(true);
         }
       ),
       { numRuns: 30 }
@@ -466,7 +658,7 @@ describe('Property 35: Search Result Ranking', () => {
           const results2 = await searchService.search(query);
 
           // Results should be in the same order
-          expect(results1.map(t => t.id)).toEqual(results2.map(t => t.id));
+          expect(results1.map(r => r.task.id)).toEqual(results2.map(r => r.task.id));
         }
       ),
       { numRuns: 20 }
@@ -492,7 +684,7 @@ describe('Property 35: Search Result Ranking', () => {
 
           // All tasks containing the word should be returned
           for (const taskId of taskIds) {
-            expect(results.some(t => t.id === taskId)).toBe(true);
+            expect(results.some(r => r.task.id === taskId)).toBe(true);
           }
         }
       ),
@@ -500,3 +692,392 @@ describe('Property 35: Search Result Ranking', () => {
     );
   });
 });
+
+
+describe('Property 58: Full-Text Search Index', () => {
+  /**
+   * **Feature: daily-task-planner, Property 58: Full-Text Search Index**
+   * **Validates: Requirements 17.1, 17.2, 17.3**
+   *
+   * For any task, the full-text index SHALL reflect its current name, description,
+   * subtask names and label names after every write, results SHALL be ranked by
+   * bm25, and fuzzy matches SHALL only be added when there are too few text hits.
+   * The SQL conditions that narrow the loaded tasks SHALL keep every task that
+   * passes the query's filters.
+   */
+  const wordArb = fc.stringMatching(/^[a-z]{5,10}$/);
+
+  function indexRowCount(taskId: string): number {
+    const row = sqlite.prepare('SELECT count(*) AS count FROM task_search WHERE task_id = ?').get(taskId) as { count: number };
+    return row.count;
+  }
+
+  function createTestSubtask(taskId: string, name: string): string {
+    const subtaskId = uuidv4();
+    const now = new Date();
+    testDb.insert(schema.subtasks).values({
+      id: subtaskId,
+      taskId,
+      name,
+      completed: false,
+      order: 0,
+      createdAt: now,
+      updatedAt: now,
+    }).run();
+    return subtaskId;
+  }
+
+  async function searchIds(query: string): Promise<string[]> {
+    return (await searchService.search(query)).map(r => r.task.id);
+  }
+
+  test('Task writes keep the index in sync', async () => {
+    await fc.assert(
+      fc.asyncProperty(wordArb, wordArb, wordArb, async (oldName, newName, description) => {
+        // Index matches are prefix matches, so no word may start another
+        const words = [oldName, newName, description];
+        fc.pre(words.every((word, i) => words.every((other, j) => i === j || !other.startsWith(word))));
+        const listId = createTestList();
+        const taskId = createTestTask(listId, oldName);
+
+        try {
+          testDb.update(schema.tasks).set({ name: newName, description }).where(eq(schema.tasks.id, taskId)).run();
+          const match = buildSearchIndexMatch(oldName)!;
+          expect(testDb.all(searchIndexQuery(match))).toEqual([]);
+          expect(await searchIds(newName)).toContain(taskId);
+          expect(await searchIds(description)).toContain(taskId);
+        } finally {
+          // A failing run must not leave the task behind for the shrunk ones
+          testDb.delete(schema.tasks).where(eq(schema.tasks.id, taskId)).run();
+        }
+        expect(indexRowCount(taskId)).toBe(0);
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Subtask and label writes keep the index in sync', async () => {
+    await fc.assert(
+      fc.asyncProperty(wordArb, wordArb, wordArb, wordArb, async (subtaskName, renamedSubtask, labelName, renamedLabel) => {
+        // Index matches are prefix matches, so no word may start another, the task's name included
+        const words = [subtaskName, renamedSubtask, labelName, renamedLabel, 'indexed', 'task'];
+        fc.pre(words.every((word, i) => words.every((other, j) => i === j || !other.startsWith(word))));
+        const listId = createTestList();
+        const taskId = createTestTask(listId, 'Indexed task');
+        const subtaskId = createTestSubtask(taskId, subtaskName);
+        const labelId = createTestLabel(labelName);
+        assignLabelToTask(taskId, labelId);
+
+        expect(await searchIds(subtaskName)).toContain(taskId);
+        expect(await searchIds(labelName)).toContain(taskId);
+
+        testDb.update(schema.subtasks).set({ name: renamedSubtask }).where(eq(schema.subtasks.id, subtaskId)).run();
+        testDb.update(schema.labels).set({ name: renamedLabel }).where(eq(schema.labels.id, labelId)).run();
+        expect(await searchIds(renamedSubtask)).toContain(taskId);
+        expect(await searchIds(renamedLabel)).toContain(taskId);
+        expect(testDb.all(searchIndexQuery(buildSearchIndexMatch(subtaskName)!))).toEqual([]);
+        expect(testDb.all(searchIndexQuery(buildSearchIndexMatch(labelName)!))).toEqual([]);
+
+        testDb.delete(schema.subtasks).where(eq(schema.subtasks.id, subtaskId)).run();
+        testDb.delete(schema.labels).where(eq(schema.labels.id, labelId)).run();
+        expect(testDb.all(searchIndexQuery(buildSearchIndexMatch(renamedSubtask)!))).toEqual([]);
+        expect(testDb.all(searchIndexQuery(buildSearchIndexMatch(renamedLabel)!))).toEqual([]);
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Existing tasks are indexed when the index is created', () => {
+    const db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE tasks (id TEXT PRIMARY KEY, name TEXT NOT NULL, description TEXT);
+      CREATE TABLE subtasks (id TEXT PRIMARY KEY, task_id TEXT NOT NULL, name TEXT NOT NULL);
+      CREATE TABLE labels (id TEXT PRIMARY KEY, name TEXT NOT NULL);
+      CREATE TABLE task_labels (task_id TEXT NOT NULL, label_id TEXT NOT NULL);
+      INSERT INTO tasks VALUES ('t1', 'Quarterly report', 'Numbers for finance');
+      INSERT INTO subtasks VALUES ('s1', 't1', 'Collect invoices');
+      INSERT INTO labels VALUES ('l1', 'accounting');
+      INSERT INTO task_labels VALUES ('t1', 'l1');
+    `);
+
+    ensureSearchIndex(db);
+    // Running it again neither fails nor indexes tasks twice
+    ensureSearchIndex(db);
+
+    const rows = db.prepare('SELECT * FROM task_search').all();
+    expect(rows).toEqual([{
+      task_id: 't1',
+      name: 'Quarterly report',
+      description: 'Numbers for finance',
+      subtasks: 'Collect invoices',
+      labels: 'accounting',
+    }]);
+    db.close();
+  });
+
+  test('Text hits are ranked by bm25 with the name weighted highest', async () => {
+    await fc.assert(
+      fc.asyncProperty(wordArb, async (word) => {
+        // Tasks from earlier runs may start with the word too, so start empty
+        sqlite.exec('DELETE FROM task_labels');
+        sqlite.exec('DELETE FROM tasks');
+        sqlite.exec('DELETE FROM labels');
+
+        const listId = createTestList();
+        const labelMatchId = createTestTask(listId, 'Unrelated label task');
+        assignLabelToTask(labelMatchId, createTestLabel(word));
+        const descMatchId = createTestTask(listId, 'Unrelated description task', `Notes about ${word}`);
+        const nameMatchId = createTestTask(listId, `${word} plan`);
+
+        const ids = await searchIds(word);
+        expect(ids.indexOf(nameMatchId)).toBe(0);
+        expect(ids).toContain(descMatchId);
+        expect(ids).toContain(labelMatchId);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('Fuzzy matches are added only when there are too few text hits', async () => {
+    const listId = createTestList();
+    const typoId = createTestTask(listId, 'Prepare budgte');
+
+    // One text hit: the misspelled task is found by fuzzy matching, after it
+    const exactId = createTestTask(listId, 'Review budget');
+    const fewHits = await searchIds('budget');
+    expect(fewHits[0]).toBe(exactId);
+    expect(fewHits).toContain(typoId);
+
+    // Enough text hits: fuzzy matching is skipped
+    for (let i = 0; i < FUZZY_FALLBACK_THRESHOLD; i++) {
+      createTestTask(listId, `Budget item ${i}`);
+    }
+    const manyHits = await searchIds('budget');
+    expect(manyHits).toHaveLength(FUZZY_FALLBACK_THRESHOLD + 1);
+    expect(manyHits).not.toContain(typoId);
+  });
+
+  test('Filters apply to text hits and fuzzy matches', async () => {
+    const listId = createTestList();
+    const openId = createTestTask(listId, 'Invoice customer');
+    const doneId = createTestTask(listId, 'Invoice supplier');
+    testDb.update(schema.tasks).set({ completed: true }).where(eq(schema.tasks.id, doneId)).run();
+
+    expect(await searchIds('invoice is:completed')).toEqual([doneId]);
+    expect(await searchIds('invoce -is:completed')).toEqual([openId]);
+    expect(await searchIds('is:completed')).toEqual([doneId]);
+  });
+
+  test('SQL filter conditions keep every task the filters pass', () => {
+    const filterArb = fc.constantFrom(
+      'list:work', 'list:éducation', 'label:bug', 'label:ürgent',
+      'priority:high', 'priority:>=medium', 'priority:<low',
+      'due:today', 'due:<today', 'due:<=today', 'due:>today', 'due:>=tomorrow',
+      'estimate:>60', 'estimate:<=30', 'estimate:45',
+      'is:completed', 'is:overdue', 'has:attachment'
+    );
+    const taskArb = fc.record({
+      listIndex: fc.nat(2),
+      labelIndexes: fc.subarray([0, 1]),
+      priority: fc.constantFrom('none' as const, 'low' as const, 'medium' as const, 'high' as const),
+      deadlineHours: fc.option(fc.integer({ min: -72, max: 72 }), { nil: undefined }),
+      startHours: fc.option(fc.integer({ min: -24, max: 24 }), { nil: undefined }),
+      estimate: fc.option(fc.constantFrom(15, 30, 45, 60, 90), { nil: undefined }),
+      completed: fc.boolean(),
+      attachment: fc.boolean(),
+    });
+
+    fc.assert(
+      fc.property(
+        fc.array(taskArb, { minLength: 1, maxLength: 8 }),
+        fc.array(fc.tuple(filterArb, fc.boolean()), { minLength: 1, maxLength: 3 }),
+        (specs, filters) => {
+          sqlite.exec('DELETE FROM attachments');
+          sqlite.exec('DELETE FROM task_labels');
+          sqlite.exec('DELETE FROM tasks');
+          sqlite.exec('DELETE FROM labels');
+          sqlite.exec('DELETE FROM lists');
+
+          const now = new Date();
+          const listNames = ['Work', 'Éducation', 'Home'];
+          const listIds = listNames.map(name => {
+            const id = createTestList();
+            testDb.update(schema.lists).set({ name }).where(eq(schema.lists.id, id)).run();
+            return id;
+          });
+          const labelIds = ['Bug', 'Ürgent'].map(createTestLabel);
+
+          for (const spec of specs) {
+            const taskId = createTestTask(listIds[spec.listIndex], 'Task');
+            const hoursFromNow = (hours?: number) =>
+              hours === undefined ? null : new Date(Math.floor(now.getTime() / 1000) * 1000 + hours * 60 * 60 * 1000);
+            testDb.update(schema.tasks).set({
+              priority: spec.priority,
+              deadline: hoursFromNow(spec.deadlineHours),
+              startDate: hoursFromNow(spec.startHours),
+              estimate: spec.estimate ?? null,
+              completed: spec.completed,
+            }).where(eq(schema.tasks.id, taskId)).run();
+            for (const index of spec.labelIndexes) assignLabelToTask(taskId, labelIds[index]);
+            if (spec.attachment) {
+              testDb.insert(schema.attachments).values({
+                id: uuidv4(),
+                taskId,
+                fileName: 'notes.txt',
+                fileType: 'text/plain',
+                fileSize: 1,
+                filePath: 'notes.txt',
+                uploadedAt: now,
+              }).run();
+            }
+          }
+
+          const query = parseSearchQuery(filters.map(([filter, negated]) => `${negated ? '-' : ''}${filter}`).join(' '), now);
+          const candidateIds = new Set(
+            testDb.select({ id: schema.tasks.id }).from(schema.tasks).where(searchFilterCondition(query, now)).all().map(r => r.id)
+          );
+
+          const attachmentIds = new Set(testDb.select().from(schema.attachments).all().map(a => a.taskId));
+          const passing = getTasksWithLabelsForTest().filter(task => matchesSearchFilters(task, query, {
+            listName: listNames[listIds.indexOf(task.listId)],
+            hasAttachment: attachmentIds.has(task.id),
+          }, now));
+
+          for (const task of passing) {
+            expect(candidateIds.has(task.id)).toBe(true);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Filter-only queries find exactly the tasks passing their filters', async () => {
+    const listId = createTestList();
+    const highId = createTestTask(listId, 'Ship release');
+    createTestTask(listId, 'Water plants');
+    testDb.update(schema.tasks).set({ priority: 'high', estimate: 90 }).where(eq(schema.tasks.id, highId)).run();
+
+    expect(await searchIds('priority:high')).toEqual([highId]);
+    expect(await searchIds('estimate:>60 list:"test list"')).toEqual([highId]);
+    expect(await searchIds('-priority:high')).not.toContain(highId);
+  });
+
+  test('Deferred tasks are not overdue until their start date', async () => {
+    const listId = createTestList();
+    const lateId = createTestTask(listId, 'Renew passport');
+    const deferredId = createTestTask(listId, 'Renew licence');
+    // Dates are stored to the second
+    const now = Math.floor(Date.now() / 1000) * 1000;
+    const startDate = new Date(now + 24 * 60 * 60 * 1000);
+    testDb.update(schema.tasks).set({ deadline: new Date(now - 60 * 60 * 1000) }).run();
+    testDb.update(schema.tasks).set({ startDate }).where(eq(schema.tasks.id, deferredId)).run();
+
+    const taskSet = await searchService.loadTaskSet();
+    expect((await searchService.search('is:overdue', taskSet)).map(r => r.task.id)).toEqual([lateId]);
+    expect(await searchIds('is:overdue')).toEqual([lateId]);
+    expect(await searchIds('renew -is:overdue')).toEqual([deferredId]);
+
+    const [deferred] = await searchService.search('renew -is:overdue');
+    expect(deferred.task.startDate).toEqual(startDate);
+  });
+
+  test('Searching a loaded task set gives the same results as searching the database', async () => {
+    const listId = createTestList();
+    const bugId = createTestLabel('bug');
+    const fixId = createTestTask(listId, 'Fix login', 'Users get logged out');
+    assignLabelToTask(fixId, bugId);
+    createTestTask(listId, 'Fix logo alignment');
+    const doneId = createTestTask(listId, 'Loging cleanup');
+    testDb.update(schema.tasks).set({ completed: true, priority: 'high' }).where(eq(schema.tasks.id, doneId)).run();
+
+    const taskSet = await searchService.loadTaskSet();
+    for (const query of ['fix', 'login', 'logn', 'label:bug', 'fix -label:bug', 'is:completed', 'priority:high log']) {
+      expect(await searchService.search(query, taskSet)).toEqual(await searchService.search(query));
+    }
+  });
+
+  test('The search index migration builds the same index', () => {
+    const db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE tasks (id TEXT PRIMARY KEY, name TEXT NOT NULL, description TEXT);
+      CREATE TABLE subtasks (id TEXT PRIMARY KEY, task_id TEXT NOT NULL, name TEXT NOT NULL);
+      CREATE TABLE labels (id TEXT PRIMARY KEY, name TEXT NOT NULL);
+      CREATE TABLE task_labels (task_id TEXT NOT NULL, label_id TEXT NOT NULL);
+      INSERT INTO tasks VALUES ('t1', 'Quarterly report', 'Numbers for finance');
+      INSERT INTO subtasks VALUES ('s1', 't1', 'Collect invoices');
+      INSERT INTO labels VALUES ('l1', 'accounting');
+      INSERT INTO task_labels VALUES ('t1', 'l1');
+    `);
+
+    const migration = readFileSync(join(process.cwd(), 'src/lib/db/migrations/0012_search_index.sql'), 'utf8');
+    for (const statement of migration.split('--> statement-breakpoint')) {
+      db.exec(statement);
+    }
+    // The runtime setup on top of the migration neither fails nor indexes tasks twice
+    ensureSearchIndex(db);
+
+    db.exec(`
+      INSERT INTO subtasks VALUES ('s2', 't1', 'Check totals');
+      UPDATE labels SET name = 'finance' WHERE id = 'l1';
+    `);
+    expect(db.prepare('SELECT * FROM task_search').all()).toEqual([{
+      task_id: 't1',
+      name: 'Quarterly report',
+      description: 'Numbers for finance',
+      subtasks: 'Collect invoices Check totals',
+      labels: 'finance',
+    }]);
+    db.close();
+  });
+
+  test('The search index is not set up without the tasks table', () => {
+    const db = new Database(':memory:');
+    expect(() => ensureSearchIndex(db)).toThrow('tasks table');
+    db.close();
+  });
+});
+
+
+describe('Property 59: Search Result Highlighting', () => {
+  /**
+   * **Feature: daily-task-planner, Property 59: Search Result Highlighting**
+   * **Validates: Requirements 17.2**
+   *
+   * For any search result, the returned ranges SHALL point at the matched text
+   * in the name, description and labels, and text hits SHALL score above
+   * fuzzy matches.
+   */
+  test('Results carry match ranges and a description snippet', async () => {
+    const listId = createTestList();
+    const taskId = createTestTask(listId, 'Budget review', 'Check the budget before Friday');
+    const labelId = createTestLabel('budgeting');
+    assignLabelToTask(taskId, labelId);
+
+    const [result] = await searchService.search('budg');
+    expect(result.task.id).toBe(taskId);
+    expect(result.matches.name).toEqual([{ start: 0, end: 4 }]);
+    expect(result.matches.description).toEqual([{ start: 10, end: 14 }]);
+    expect(result.matches.labels).toEqual({ [labelId]: [{ start: 0, end: 4 }] });
+    expect(result.snippet).toEqual({
+      text: 'Check the budget before Friday',
+      ranges: [{ start: 10, end: 14 }],
+    });
+  });
+
+  test('Text hits score above fuzzy matches', async () => {
+    const listId = createTestList();
+    const exactId = createTestTask(listId, 'Review budget');
+    const typoId = createTestTask(listId, 'Prepare budgte');
+
+    const results = await searchService.search('budget');
+    const exact = results.find(r => r.task.id === exactId)!;
+    const typo = results.find(r => r.task.id === typoId)!;
+
+    expect(exact.score).toBeGreaterThan(typo.score);
+    for (const result of results) {
+      expect(result.score).toBeGreaterThan(0);
+      expect(result.score).toBeLessThanOrEqual(1);
+    }
+  });
+});
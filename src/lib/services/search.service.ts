@@ -1,15 +1,20 @@
 import Fuse from 'fuse.js';
-import { db, schema } from '@/lib/db';
-import { eq } from 'drizzle-orm';
-import type { Task, Label, ISearchService } from '@/types';
-
-/**
- * Search result with relevance score
- */
-export interface SearchResult {
-  task: Task;
-  score: number;
-}
+import { db, schema, ensureSearchIndexReady } from '@/lib/db';
+import { and, eq, inArray, notInArray, type SQL } from 'drizzle-orm';
+import { buildSearchIndexMatch, searchIndexQuery } from '@/lib/db/search-index';
+import { searchFilterCondition } from '@/lib/db/search-filters';
+import type { Task, Label, ISearchService, SearchMatches, SearchQuery, SearchResult, SearchTaskSet } from '@/types';
+import {
+  parseSearchQuery,
+  getSearchText,
+  matchesSearchFilters,
+} from '@/lib/utils/search-query';
+import {
+  extractSearchWords,
+  getWordMatches,
+  getFuzzyMatches,
+  buildSnippet,
+} from '@/lib/utils/search-highlight';
 
 /**
  * Internal type for searchable task data
@@ -18,8 +23,8 @@ interface SearchableTask {
   id: string;
   name: string;
   description: string;
-  labelNames: string;
-  task: Task;
+  labelNames: string[];
+  labels: Label[];
 }
 
 /**
@@ -33,9 +38,11 @@ function toTask(row: typeof schema.tasks.$inferSelect): Task {
     listId: row.listId,
     date: row.date ?? undefined,
     deadline: row.deadline ?? undefined,
+    startDate: row.startDate ?? undefined,
     estimate: row.estimate ?? undefined,
     actualTime: row.actualTime ?? undefined,
     priority: row.priority as Task['priority'],
+    status: row.status as Task['status'],
     completed: row.completed,
     completedAt: row.completedAt ?? undefined,
     recurrence: row.recurrence as Task['recurrence'],
@@ -60,25 +67,204 @@ function toLabel(row: typeof schema.labels.$inferSelect): Label {
 
 
 /**
- * Fetches labels for a task
+ * Fetches labels for the given tasks
+ * @returns Labels keyed by task ID
  */
-async function getLabelsForTask(taskId: string): Promise<Label[]> {
+async function getLabelsByTask(taskIds: string[]): Promise<Map<string, Label[]>> {
+  const labelsByTask = new Map<string, Label[]>();
+  if (taskIds.length === 0) return labelsByTask;
+
   const rows = await db
     .select({
+      taskId: schema.taskLabels.taskId,
       label: schema.labels,
     })
     .from(schema.taskLabels)
     .innerJoin(schema.labels, eq(schema.taskLabels.labelId, schema.labels.id))
-    .where(eq(schema.taskLabels.taskId, taskId));
+    .where(inArray(schema.taskLabels.taskId, taskIds));
+
+  for (const row of rows) {
+    const labels = labelsByTask.get(row.taskId) ?? [];
+    labels.push(toLabel(row.label));
+    labelsByTask.set(row.taskId, labels);
+  }
+  return labelsByTask;
+}
+
+/**
+ * Fetches the tasks matching a condition, with their labels
+ */
+async function getTasksWithLabels(where: SQL | undefined): Promise<Task[]> {
+  const rows = await db.select().from(schema.tasks).where(where);
+  const labelsByTask = await getLabelsByTask(rows.map(row => row.id));
 
-  return rows.map(r => toLabel(r.label));
+  return rows.map(row => ({ ...toTask(row), labels: labelsByTask.get(row.id) ?? [] }));
 }
 
+/**
+ * Fetches the names, descriptions and labels of the tasks matching a
+ * condition, which is all fuzzy matching needs
+ */
+async function getSearchableTasks(where: SQL | undefined): Promise<SearchableTask[]> {
+  const rows = await db
+    .select({ id: schema.tasks.id, name: schema.tasks.name, description: schema.tasks.description })
+    .from(schema.tasks)
+    .where(where);
+  const labelsByTask = await getLabelsByTask(rows.map(row => row.id));
+
+  return rows.map(row => {
+    const labels = labelsByTask.get(row.id) ?? [];
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? '',
+      labelNames: labels.map(l => l.name),
+      labels,
+    };
+  });
+}
+
+/**
+ * Keeps the tasks that pass a query's filters, fetching the list names and
+ * attachments the filters refer to for just those tasks
+ */
+async function filterTasks(tasks: Task[], query: SearchQuery, now: Date): Promise<Task[]> {
+  if (tasks.length === 0) return [];
+
+  const listIds = [...new Set(tasks.map(task => task.listId))];
+  const listRows = await db
+    .select({ id: schema.lists.id, name: schema.lists.name })
+    .from(schema.lists)
+    .where(inArray(schema.lists.id, listIds));
+  const attachmentRows = await db
+    .select({ taskId: schema.attachments.taskId })
+    .from(schema.attachments)
+    .where(inArray(schema.attachments.taskId, tasks.map(task => task.id)));
+
+  const listNames = new Map(listRows.map(l => [l.id, l.name]));
+  const tasksWithAttachments = new Set(attachmentRows.map(a => a.taskId));
+
+  return tasks.filter(task => matchesSearchFilters(task, query, {
+    listName: listNames.get(task.listId),
+    hasAttachment: tasksWithAttachments.has(task.id),
+  }, now));
+}
+
+/**
+ * Gets the fuzzy-matchable data of a task
+ */
+function toSearchable(task: Task): SearchableTask {
+  const labels = task.labels ?? [];
+  return {
+    id: task.id,
+    name: task.name,
+    description: task.description ?? '',
+    labelNames: labels.map(l => l.name),
+    labels,
+  };
+}
+
+/**
+ * Where a search gets its tasks from: the database, narrowed by the query's
+ * filters, or a task set loaded once for several searches
+ */
+interface SearchTaskSource {
+  /** The tasks passing the query's filters, only those with the given IDs if any */
+  getTasks(ids?: string[]): Promise<Task[]>;
+  /** Fuzzy-matchable data of the tasks that can pass the filters, except the given ones */
+  getSearchable(excludeIds: string[]): Promise<SearchableTask[]>;
+  /** The fuzzy-matched tasks that pass the query's filters */
+  getMatchedTasks(items: SearchableTask[]): Promise<Task[]>;
+}
+
+/**
+ * Loads tasks from the database, only those that can pass the query's filters
+ */
+function databaseSource(query: SearchQuery, now: Date): SearchTaskSource {
+  const candidates = searchFilterCondition(query, now);
+
+  return {
+    async getTasks(ids) {
+      const where = ids ? and(inArray(schema.tasks.id, ids), candidates) : candidates;
+      return filterTasks(await getTasksWithLabels(where), query, now);
+    },
+
+    getSearchable(excludeIds) {
+      return getSearchableTasks(and(notInArray(schema.tasks.id, excludeIds), candidates));
+    },
+
+    // Labels come from the fuzzy-matched data, so label match ranges line up
+    async getMatchedTasks(items) {
+      if (items.length === 0) return [];
+
+      const labelsByTask = new Map(items.map(item => [item.id, item.labels]));
+      const rows = await db
+        .select()
+        .from(schema.tasks)
+        .where(inArray(schema.tasks.id, [...labelsByTask.keys()]));
+      return filterTasks(rows.map(row => ({ ...toTask(row), labels: labelsByTask.get(row.id) ?? [] })), query, now);
+    },
+  };
+}
+
+/**
+ * Searches a task set that is already loaded
+ */
+function taskSetSource(taskSet: SearchTaskSet, query: SearchQuery, now: Date): SearchTaskSource {
+  const passing = taskSet.tasks.filter(task => matchesSearchFilters(task, query, {
+    listName: taskSet.listNames.get(task.listId),
+    hasAttachment: taskSet.taskIdsWithAttachments.has(task.id),
+  }, now));
+  const passingById = new Map(passing.map(task => [task.id, task]));
+
+  return {
+    async getTasks(ids) {
+      return ids ? ids.flatMap(id => passingById.get(id) ?? []) : passing;
+    },
+
+    async getSearchable(excludeIds) {
+      const excluded = new Set(excludeIds);
+      return passing.filter(task => !excluded.has(task.id)).map(toSearchable);
+    },
+
+    async getMatchedTasks(items) {
+      return items.flatMap(item => passingById.get(item.id) ?? []);
+    },
+  };
+}
+
+/**
+ * Gets tasks matching free text in the full-text index, best match first
+ * @returns Task IDs with their bm25 rank (lower is better)
+ */
+async function searchIndex(text: string): Promise<{ taskId: string; rank: number }[]> {
+  const match = buildSearchIndexMatch(text);
+  if (!match) return [];
+
+  ensureSearchIndexReady();
+  return db.all<{ taskId: string; rank: number }>(searchIndexQuery(match));
+}
+
+/**
+ * Builds a search result, with a snippet of the task's description
+ */
+function toSearchResult(task: Task, score: number, matches: SearchMatches): SearchResult {
+  return {
+    task,
+    score,
+    matches,
+    snippet: task.description ? buildSnippet(task.description, matches.description) : undefined,
+  };
+}
+
+// With fewer full-text hits than this, fuzzy matching adds typo-tolerant results
+const FUZZY_FALLBACK_THRESHOLD = 5;
+
 /**
  * Fuse.js configuration for fuzzy search
  * - Searches across name, description, and label names
  * - Uses extended search for better matching
- * - Returns results ranked by relevance score
+ * - Returns results ranked by relevance score, with matched ranges
  */
 const FUSE_OPTIONS = {
   keys: [
@@ -92,56 +278,98 @@ const FUSE_OPTIONS = {
   minMatchCharLength: 1,    // Minimum characters to match
   shouldSort: true,         // Sort by score
   findAllMatches: true,     // Find all matches in the string
+  includeMatches: true,     // Include matched ranges for highlighting
 };
 
 /**
  * Search Service Implementation
- * Provides fuzzy search across tasks using Fuse.js
+ * Provides filtered full-text search across tasks using SQLite FTS5,
+ * with a Fuse.js fallback for typo tolerance
  */
 export const searchService: ISearchService = {
   /**
-   * Searches for tasks matching the query using fuzzy matching.
-   * Searches across task names, descriptions, and label names.
-   * Returns results ranked by relevance score (higher scores first).
+   * Searches for tasks matching the query.
+   * Filters such as `list:Work`, `label:bug`, `priority:high`, `due:<2026-11-01`,
+   * `is:overdue`, `is:completed`, `has:attachment` and `estimate:>60` narrow the
+   * tasks; any remaining text is looked up in the full-text index of task names,
+   * descriptions, subtask names and label names, ranked by bm25. When that finds
+   * too few tasks, fuzzy matches are appended so typos still find results.
    * 
    * @param query - The search query string
-   * @returns Tasks matching the query, ranked by relevance
+   * @param taskSet - Tasks from loadTaskSet to search instead of loading them
+   * @returns Matching tasks ranked by relevance, with where each matched
+   *   and a snippet of its description
+   * @throws SearchQueryError if the query contains an invalid filter
    * 
    * Requirements: 17.1, 17.2, 17.3, 17.4
    */
-  async search(query: string): Promise<Task[]> {
+  async search(query: string, taskSet?: SearchTaskSet): Promise<SearchResult[]> {
     // Return empty array for empty query (Requirement 17.4)
     if (!query || query.trim() === '') {
       return [];
     }
 
-    // Fetch all tasks from database
-    const taskRows = await db.select().from(schema.tasks);
-
-    // Build searchable data with labels
-    const searchableData: SearchableTask[] = [];
-    
-    for (const row of taskRows) {
-      const task = toTask(row);
-      const labels = await getLabelsForTask(row.id);
-      task.labels = labels;
-      
-      searchableData.push({
-        id: row.id,
-        name: row.name,
-        description: row.description ?? '',
-        labelNames: labels.map(l => l.name).join(' '),
-        task,
-      });
+    const parsed = parseSearchQuery(query);
+    const text = getSearchText(parsed);
+    const now = new Date();
+    const source = taskSet ? taskSetSource(taskSet, parsed, now) : databaseSource(parsed, now);
+
+    // A query of only filters returns every task that passes them
+    if (!text) {
+      return (await source.getTasks())
+        .map(task => toSearchResult(task, 1, { name: [], description: [], labels: {} }));
+    }
+
+    // Full-text matches, ranked by bm25. Ranks are negative, lower is better;
+    // they are mapped into 0.5-1 so text hits always outrank fuzzy matches.
+    const hits = await searchIndex(text);
+    const tasksById = new Map((await source.getTasks(hits.map(h => h.taskId))).map(t => [t.id, t]));
+    const words = extractSearchWords(text);
+    const results: SearchResult[] = [];
+
+    for (const hit of hits) {
+      const task = tasksById.get(hit.taskId);
+      if (!task) continue;
+      const strength = Math.max(0, -hit.rank);
+      results.push(toSearchResult(task, 0.5 + 0.5 * (strength / (1 + strength)), getWordMatches(task, words)));
     }
 
-    // Create Fuse instance and search
-    const fuse = new Fuse(searchableData, FUSE_OPTIONS);
-    const results = fuse.search(query.trim());
+    if (results.length >= FUZZY_FALLBACK_THRESHOLD) {
+      return results;
+    }
+
+    // Too few hits: fuzzy match the other candidates so typos still find something.
+    // Fuse scores run from 0 (perfect) to 1, and Fuse already sorts by score
+    const fuse = new Fuse(await source.getSearchable(results.map(r => r.task.id)), FUSE_OPTIONS);
+    const fuzzyMatches = fuse.search(text);
+    const matchedById = new Map(
+      (await source.getMatchedTasks(fuzzyMatches.map(match => match.item))).map(t => [t.id, t])
+    );
+
+    for (const match of fuzzyMatches) {
+      const task = matchedById.get(match.item.id);
+      if (!task) continue;
+      results.push(toSearchResult(task, 0.5 * (1 - (match.score ?? 1)), getFuzzyMatches(task, match.matches ?? [])));
+    }
+
+    return results;
+  },
+
+  /**
+   * Loads every task with what search filters refer to, so several searches
+   * can run without each loading the tasks again.
+   * @returns The tasks with their labels, list names and attachments
+   */
+  async loadTaskSet(): Promise<SearchTaskSet> {
+    const tasks = await getTasksWithLabels(undefined);
+    const listRows = await db.select({ id: schema.lists.id, name: schema.lists.name }).from(schema.lists);
+    const attachmentRows = await db.selectDistinct({ taskId: schema.attachments.taskId }).from(schema.attachments);
 
-    // Return tasks ranked by relevance (Fuse already sorts by score)
-    // Lower score = better match in Fuse.js
-    return results.map(result => result.item.task);
+    return {
+      tasks,
+      listNames: new Map(listRows.map(l => [l.id, l.name])),
+      taskIdsWithAttachments: new Set(attachmentRows.map(a => a.taskId)),
+    };
   },
 };
 
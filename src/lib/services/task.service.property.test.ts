@@ -9,15 +9,17 @@ import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:tes
 import * as fc from 'fast-check';
 import { Database } from 'bun:sqlite';
 import { drizzle } from 'drizzle-orm/bun-sqlite';
-import { eq, desc, asc } from 'drizzle-orm';
+import { eq, desc, asc, inArray } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import * as schema from '@/lib/db/schema';
 import type { 
   Task, 
   Subtask, 
   Label,
+  TaskDependency,
   CreateTaskInput, 
   UpdateTaskInput, 
+  UpdateSubtaskInput,
   TaskHistoryEntry,
   ITaskService,
   IListService,
@@ -26,8 +28,26 @@ import type {
   UpdateListInput,
   RecurrencePattern,
   Priority,
+  WorkflowStatus,
 } from '@/types';
-import { validateCreateTask, validateUpdateTask, validateCreateList, validateUpdateList, DEFAULT_PRIORITY } from '@/lib/utils/validation';
+import {
+  validateCreateTask,
+  validateUpdateTask,
+  validateCreateList,
+  validateUpdateList,
+  DEFAULT_PRIORITY,
+} from '@/lib/utils/validation';
+import { getOpenBlockers, wouldCreateCycle } from '@/lib/utils/dependencies';
+import { getSnoozeDate, isDeferred } from '@/lib/utils/defer';
+import { isOverdueScheduled } from '@/lib/utils/rollover';
+import {
+  DEFAULT_WORKFLOW_STATUSES,
+  getDefaultStatus,
+  getListStatuses,
+  getStatusCompletion,
+  isDoneStatus,
+  mapStatus,
+} from '@/lib/utils/workflow';
 
 // Test database setup
 let testDb: ReturnType<typeof drizzle>;
@@ -42,9 +62,11 @@ function toTask(row: typeof schema.tasks.$inferSelect): Task {
     listId: row.listId,
     date: row.date ?? undefined,
     deadline: row.deadline ?? undefined,
+    startDate: row.startDate ?? undefined,
     estimate: row.estimate ?? undefined,
     actualTime: row.actualTime ?? undefined,
     priority: row.priority as Task['priority'],
+    status: row.status as Task['status'],
     completed: row.completed,
     completedAt: row.completedAt ?? undefined,
     recurrence: row.recurrence as RecurrencePattern | undefined,
@@ -61,6 +83,10 @@ function toList(row: typeof schema.lists.$inferSelect): List {
     color: row.color ?? undefined,
     emoji: row.emoji ?? undefined,
     isInbox: row.isInbox,
+    viewMode: row.viewMode as List['viewMode'],
+    boardGrouping: row.boardGrouping as List['boardGrouping'],
+    statuses: getListStatuses({ statuses: (row.statuses as WorkflowStatus[] | null) ?? [] }),
+    rollover: row.rollover,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   };
@@ -122,6 +148,13 @@ class SubtaskNotFoundError extends Error {
   }
 }
 
+class TaskBlockedError extends Error {
+  constructor(name: string, blockers: TaskDependency[]) {
+    super(`"${name}" is blocked by ${blockers.map(blocker => `"${blocker.name}"`).join(', ')}`);
+    this.name = 'TaskBlockedError';
+  }
+}
+
 class ListValidationError extends Error {
   constructor(message: string, public errors: Record<string, string[]>) {
     super(message);
@@ -237,9 +270,17 @@ function createTestListService(db: ReturnType<typeof drizzle>): IListService {
       if (data.name !== undefined) updateData.name = data.name.trim();
       if (data.color !== undefined) updateData.color = data.color;
       if (data.emoji !== undefined) updateData.emoji = data.emoji;
+      if (data.viewMode !== undefined) updateData.viewMode = data.viewMode;
+      if (data.boardGrouping !== undefined) updateData.boardGrouping = data.boardGrouping;
+      if (data.statuses !== undefined) updateData.statuses = data.statuses;
+      if (data.rollover !== undefined) updateData.rollover = data.rollover;
 
       db.update(schema.lists).set(updateData).where(eq(schema.lists.id, id)).run();
 
+      if (data.statuses !== undefined) {
+        remapTaskStatuses(db, id, toList(existing).statuses, data.statuses);
+      }
+
       const [updated] = db.select().from(schema.lists).where(eq(schema.lists.id, id)).all();
       return toList(updated);
     },
@@ -274,7 +315,65 @@ function createTestListService(db: ReturnType<typeof drizzle>): IListService {
 
 
 // Create test-specific task service
+function remapTaskStatuses(
+  db: ReturnType<typeof drizzle>,
+  listId: string,
+  from: WorkflowStatus[],
+  to: WorkflowStatus[]
+): void {
+  const tasks = db.select().from(schema.tasks).where(eq(schema.tasks.listId, listId)).all();
+  const blockedIds = new Set(
+    db.select({ taskId: schema.taskDependencies.taskId })
+      .from(schema.taskDependencies)
+      .innerJoin(schema.tasks, eq(schema.taskDependencies.blockedById, schema.tasks.id))
+      .where(eq(schema.tasks.completed, false))
+      .all()
+      .map(row => row.taskId)
+  );
+  const now = new Date();
+  for (const task of tasks) {
+    let status = mapStatus(task.status, from, to);
+    if (!task.completed && isDoneStatus(to, status) && (task.recurrence || blockedIds.has(task.id))) {
+      status = getDefaultStatus(to, false);
+    }
+    const { completed, completedAt } = getStatusCompletion(
+      { completed: task.completed, completedAt: task.completedAt ?? undefined },
+      status,
+      to,
+      now
+    );
+    if (status === task.status && completed === task.completed) continue;
+
+    db.update(schema.tasks)
+      .set({ status, completed, completedAt, updatedAt: now })
+      .where(eq(schema.tasks.id, task.id))
+      .run();
+
+    const changes: [string, string, string][] = [];
+    if (status !== task.status) changes.push(['status', task.status, status]);
+    if (completed !== task.completed) changes.push(['completed', String(task.completed), String(completed)]);
+    for (const [field, previousValue, newValue] of changes) {
+      db.insert(schema.taskHistory)
+        .values({ id: uuidv4(), taskId: task.id, field, previousValue, newValue, changedAt: now })
+        .run();
+    }
+  }
+}
+
 function createTestTaskService(db: ReturnType<typeof drizzle>, listService: IListService): ITaskService {
+  function getStatusesForList(listId: string): WorkflowStatus[] {
+    const [list] = db.select({ statuses: schema.lists.statuses }).from(schema.lists).where(eq(schema.lists.id, listId)).all();
+    return getListStatuses({ statuses: (list?.statuses as WorkflowStatus[] | null) ?? [] });
+  }
+
+  function assertKnownStatus(statuses: WorkflowStatus[], status: string): void {
+    if (!statuses.some(s => s.id === status)) {
+      throw new TaskValidationError('Invalid task data', {
+        status: [`Status "${status}" is not one of the list's statuses`],
+      });
+    }
+  }
+
   async function logHistory(
     taskId: string,
     field: string,
@@ -319,6 +418,68 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
     return rows.map(toSubtask);
   }
 
+  function toDependency(row: typeof schema.tasks.$inferSelect): TaskDependency {
+    return {
+      id: row.id,
+      name: row.name,
+      listId: row.listId,
+      completed: row.completed,
+      date: row.date ?? undefined,
+      estimate: row.estimate ?? undefined,
+    };
+  }
+
+  async function getBlockersForTask(taskId: string): Promise<TaskDependency[]> {
+    const rows = db
+      .select({ task: schema.tasks })
+      .from(schema.taskDependencies)
+      .innerJoin(schema.tasks, eq(schema.taskDependencies.blockedById, schema.tasks.id))
+      .where(eq(schema.taskDependencies.taskId, taskId))
+      .all();
+    return rows.map(r => toDependency(r.task));
+  }
+
+  async function getBlockedTasksForTask(taskId: string): Promise<TaskDependency[]> {
+    const rows = db
+      .select({ task: schema.tasks })
+      .from(schema.taskDependencies)
+      .innerJoin(schema.tasks, eq(schema.taskDependencies.taskId, schema.tasks.id))
+      .where(eq(schema.taskDependencies.blockedById, taskId))
+      .all();
+    return rows.map(r => toDependency(r.task));
+  }
+
+  async function getDependenciesByIds(ids: string[]): Promise<TaskDependency[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(schema.tasks).where(inArray(schema.tasks.id, ids)).all().map(toDependency);
+  }
+
+  async function validateBlockers(taskId: string, blockedByIds: string[]): Promise<void> {
+    if (blockedByIds.length === 0) return;
+    const found = await getDependenciesByIds(blockedByIds);
+    if (found.length < new Set(blockedByIds).size) {
+      throw new TaskValidationError('Invalid task data', { blockedByIds: ['Blocking task not found'] });
+    }
+    const edges = db.select().from(schema.taskDependencies).all();
+    if (wouldCreateCycle(edges, taskId, blockedByIds)) {
+      throw new TaskValidationError('Invalid task data', {
+        blockedByIds: ['A task cannot depend on itself, directly or through other tasks'],
+      });
+    }
+  }
+
+  async function setBlockers(taskId: string, blockedByIds: string[]): Promise<void> {
+    db.delete(schema.taskDependencies).where(eq(schema.taskDependencies.taskId, taskId)).run();
+    for (const blockedById of new Set(blockedByIds)) {
+      db.insert(schema.taskDependencies).values({ taskId, blockedById }).run();
+    }
+  }
+
+  function assertNotBlocked(name: string, blockers: TaskDependency[]): void {
+    const openBlockers = getOpenBlockers({ blockedBy: blockers });
+    if (openBlockers.length > 0) throw new TaskBlockedError(name, openBlockers);
+  }
+
   return {
     async create(data: CreateTaskInput): Promise<Task> {
       const validation = validateCreateTask(data);
@@ -326,15 +487,26 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
         throw new TaskValidationError('Invalid task data', validation.errors);
       }
 
+      const id = uuidv4();
+      const priority = data.priority ?? DEFAULT_PRIORITY;
+
       let listId = data.listId;
       if (!listId) {
         const inbox = await listService.getInbox();
         listId = inbox.id;
       }
 
+      const statuses = getStatusesForList(listId);
+      const status = data.status ?? getDefaultStatus(statuses, false);
+      assertKnownStatus(statuses, status);
+      const completed = isDoneStatus(statuses, status);
+
+      await validateBlockers(id, data.blockedByIds ?? []);
+      if (completed) {
+        assertNotBlocked(data.name.trim(), await getDependenciesByIds(data.blockedByIds ?? []));
+      }
+
       const now = new Date();
-      const id = uuidv4();
-      const priority = data.priority ?? DEFAULT_PRIORITY;
 
       db.insert(schema.tasks).values({
         id,
@@ -343,11 +515,13 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
         listId,
         date: data.date ?? null,
         deadline: data.deadline ?? null,
+        startDate: data.startDate ?? null,
         estimate: data.estimate ?? null,
         actualTime: data.actualTime ?? null,
         priority,
-        completed: false,
-        completedAt: null,
+        status,
+        completed,
+        completedAt: completed ? now : null,
         recurrence: data.recurrence ?? null,
         parentTaskId: null,
         createdAt: now,
@@ -362,10 +536,16 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
         }
       }
 
+      if (data.blockedByIds && data.blockedByIds.length > 0) {
+        await setBlockers(id, data.blockedByIds);
+      }
+
       const [task] = db.select().from(schema.tasks).where(eq(schema.tasks.id, id)).all();
       const result = toTask(task);
       result.labels = await getLabelsForTask(id);
       result.subtasks = [];
+      result.blockedBy = await getBlockersForTask(id);
+      result.blocking = [];
       return result;
     },
 
@@ -379,6 +559,32 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
       if (!existing) throw new TaskNotFoundError(id);
 
       const now = new Date();
+
+      const listId = data.listId ?? existing.listId;
+      const statuses = getStatusesForList(listId);
+      let status = existing.status;
+      if (data.status !== undefined) {
+        assertKnownStatus(statuses, data.status);
+        status = data.status;
+      } else if (data.completed !== undefined && data.completed !== existing.completed) {
+        status = getDefaultStatus(statuses, data.completed);
+      } else if (listId !== existing.listId) {
+        status = mapStatus(existing.status, getStatusesForList(existing.listId), statuses);
+      }
+      const completion = status !== existing.status || listId !== existing.listId
+        ? getStatusCompletion({ completed: existing.completed, completedAt: existing.completedAt ?? undefined }, status, statuses, now)
+        : null;
+
+      if (data.blockedByIds !== undefined) {
+        await validateBlockers(id, data.blockedByIds);
+      }
+      if (completion?.completed && !existing.completed) {
+        const blockers = data.blockedByIds !== undefined
+          ? await getDependenciesByIds(data.blockedByIds)
+          : await getBlockersForTask(id);
+        assertNotBlocked(existing.name, blockers);
+      }
+
       const updateData: Record<string, unknown> = { updatedAt: now };
 
       if (data.name !== undefined && data.name !== existing.name) {
@@ -397,25 +603,54 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
         updateData.priority = data.priority;
         await logHistory(id, 'priority', existing.priority, data.priority);
       }
-      if (data.completed !== undefined && data.completed !== existing.completed) {
-        updateData.completed = data.completed;
-        updateData.completedAt = data.completed ? now : null;
-        await logHistory(id, 'completed', String(existing.completed), String(data.completed));
+      if (data.startDate !== undefined && data.startDate?.getTime() !== existing.startDate?.getTime()) {
+        updateData.startDate = data.startDate ?? null;
+        await logHistory(id, 'startDate', existing.startDate?.toISOString() ?? null, data.startDate?.toISOString() ?? null);
+      }
+      if (status !== existing.status) {
+        updateData.status = status;
+        await logHistory(id, 'status', existing.status, status);
+      }
+      if (completion && completion.completed !== existing.completed) {
+        updateData.completed = completion.completed;
+        updateData.completedAt = completion.completedAt;
+        await logHistory(id, 'completed', String(existing.completed), String(completion.completed));
       }
 
       db.update(schema.tasks).set(updateData).where(eq(schema.tasks.id, id)).run();
 
       if (data.labelIds !== undefined) {
+        const previousLabels = await getLabelsForTask(id);
         db.delete(schema.taskLabels).where(eq(schema.taskLabels.taskId, id)).run();
         for (const labelId of data.labelIds) {
           db.insert(schema.taskLabels).values({ taskId: id, labelId }).run();
         }
+        const newLabels = await getLabelsForTask(id);
+        const key = (labels: Label[]) => labels.map(l => l.id).sort().join(',');
+        const names = (labels: Label[]) => labels.length > 0 ? labels.map(l => l.name).sort().join(', ') : null;
+        if (key(previousLabels) !== key(newLabels)) {
+          await logHistory(id, 'labels', names(previousLabels), names(newLabels));
+        }
+      }
+
+      if (data.blockedByIds !== undefined) {
+        const previousBlockers = await getBlockersForTask(id);
+        await setBlockers(id, data.blockedByIds);
+        const newBlockers = await getBlockersForTask(id);
+        const key = (blockers: TaskDependency[]) => blockers.map(b => b.id).sort().join(',');
+        const names = (blockers: TaskDependency[]) =>
+          blockers.length > 0 ? blockers.map(b => b.name).sort().join(', ') : null;
+        if (key(previousBlockers) !== key(newBlockers)) {
+          await logHistory(id, 'blockedBy', names(previousBlockers), names(newBlockers));
+        }
       }
 
       const [updated] = db.select().from(schema.tasks).where(eq(schema.tasks.id, id)).all();
       const result = toTask(updated);
       result.labels = await getLabelsForTask(id);
       result.subtasks = await getSubtasksForTask(id);
+      result.blockedBy = await getBlockersForTask(id);
+      result.blocking = await getBlockedTasksForTask(id);
       return result;
     },
 
@@ -426,6 +661,8 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
       db.delete(schema.taskHistory).where(eq(schema.taskHistory.taskId, id)).run();
       db.delete(schema.taskLabels).where(eq(schema.taskLabels.taskId, id)).run();
       db.delete(schema.subtasks).where(eq(schema.subtasks.taskId, id)).run();
+      db.delete(schema.taskDependencies).where(eq(schema.taskDependencies.taskId, id)).run();
+      db.delete(schema.taskDependencies).where(eq(schema.taskDependencies.blockedById, id)).run();
       db.delete(schema.tasks).where(eq(schema.tasks.id, id)).run();
     },
 
@@ -435,6 +672,8 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
       const task = toTask(row);
       task.labels = await getLabelsForTask(id);
       task.subtasks = await getSubtasksForTask(id);
+      task.blockedBy = await getBlockersForTask(id);
+      task.blocking = await getBlockedTasksForTask(id);
       return task;
     },
 
@@ -468,18 +707,38 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
       return tasks;
     },
 
+    async getByDeadlineRange(start: Date, end: Date, includeCompleted = true): Promise<Task[]> {
+      const rows = db.select().from(schema.tasks).all();
+      const filtered = rows.filter(r => {
+        if (!r.deadline) return false;
+        if (!includeCompleted && r.completed) return false;
+        return r.deadline >= start && r.deadline < end;
+      });
+      filtered.sort((a, b) => a.deadline!.getTime() - b.deadline!.getTime());
+      const tasks: Task[] = [];
+      for (const row of filtered) {
+        const task = toTask(row);
+        task.labels = await getLabelsForTask(row.id);
+        task.subtasks = await getSubtasksForTask(row.id);
+        tasks.push(task);
+      }
+      return tasks;
+    },
+
     async getToday(includeCompleted = true): Promise<Task[]> {
-      const today = new Date();
+      const now = new Date();
+      const today = new Date(now);
       today.setHours(0, 0, 0, 0);
       const tomorrow = new Date(today);
       tomorrow.setDate(tomorrow.getDate() + 1);
-      return this.getByDateRange(today, tomorrow, includeCompleted);
+      const tasks = await this.getByDateRange(today, tomorrow, includeCompleted);
+      return tasks.filter(task => !isDeferred(task, now));
     },
 
     async getOverdue(): Promise<Task[]> {
       const now = new Date();
       const rows = db.select().from(schema.tasks).all();
-      const filtered = rows.filter(r => !r.completed && r.deadline && r.deadline < now);
+      const filtered = rows.filter(r => !r.completed && r.deadline && r.deadline < now && !isDeferred(toTask(r), now));
       const tasks: Task[] = [];
       for (const row of filtered) {
         const task = toTask(row);
@@ -490,9 +749,28 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
       return tasks;
     },
 
-    async getAll(includeCompleted = true): Promise<Task[]> {
+    async getOverdueScheduled(): Promise<Task[]> {
+      const now = new Date();
       const rows = db.select().from(schema.tasks).all();
-      const filtered = includeCompleted ? rows : rows.filter(r => !r.completed);
+      const filtered = rows
+        .filter(r => isOverdueScheduled(toTask(r), now))
+        .sort((a, b) => a.date!.getTime() - b.date!.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
+      const tasks: Task[] = [];
+      for (const row of filtered) {
+        const task = toTask(row);
+        task.labels = await getLabelsForTask(row.id);
+        task.subtasks = await getSubtasksForTask(row.id);
+        tasks.push(task);
+      }
+      return tasks;
+    },
+
+    async getAll(includeCompleted = true, includeDeferred = false): Promise<Task[]> {
+      const now = new Date();
+      const rows = db.select().from(schema.tasks).all();
+      const filtered = rows.filter(r =>
+        (includeCompleted || !r.completed) && (includeDeferred || !isDeferred(toTask(r), now))
+      );
       const tasks: Task[] = [];
       for (const row of filtered) {
         const task = toTask(row);
@@ -509,13 +787,22 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
 
       const now = new Date();
       const newCompleted = !existing.completed;
+      const newStatus = getDefaultStatus(getStatusesForList(existing.listId), newCompleted);
+
+      if (newCompleted) {
+        assertNotBlocked(existing.name, await getBlockersForTask(id));
+      }
 
       db.update(schema.tasks).set({
+        status: newStatus,
         completed: newCompleted,
         completedAt: newCompleted ? now : null,
         updatedAt: now,
       }).where(eq(schema.tasks.id, id)).run();
 
+      if (newStatus !== existing.status) {
+        await logHistory(id, 'status', existing.status, newStatus);
+      }
       await logHistory(id, 'completed', String(existing.completed), String(newCompleted));
 
       const [updated] = db.select().from(schema.tasks).where(eq(schema.tasks.id, id)).all();
@@ -567,12 +854,131 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
       return toSubtask(updated);
     },
 
+    async updateSubtask(subtaskId: string, data: UpdateSubtaskInput): Promise<Subtask> {
+      if (data.name !== undefined && data.name.trim() === '') {
+        throw new TaskValidationError('Invalid subtask data', { name: ['Name is required'] });
+      }
+
+      const [existing] = db.select().from(schema.subtasks).where(eq(schema.subtasks.id, subtaskId)).all();
+      if (!existing) throw new SubtaskNotFoundError(subtaskId);
+
+      db.update(schema.subtasks).set({
+        ...(data.name !== undefined && { name: data.name.trim() }),
+        ...(data.completed !== undefined && { completed: data.completed }),
+        updatedAt: new Date(),
+      }).where(eq(schema.subtasks.id, subtaskId)).run();
+
+      const [updated] = db.select().from(schema.subtasks).where(eq(schema.subtasks.id, subtaskId)).all();
+      return toSubtask(updated);
+    },
+
+    async reorderSubtasks(taskId: string, subtaskIds: string[]): Promise<Subtask[]> {
+      const [task] = db.select().from(schema.tasks).where(eq(schema.tasks.id, taskId)).all();
+      if (!task) throw new TaskNotFoundError(taskId);
+
+      const existing = await getSubtasksForTask(taskId);
+      const existingIds = new Set(existing.map(s => s.id));
+      const isPermutation =
+        subtaskIds.length === existing.length &&
+        new Set(subtaskIds).size === subtaskIds.length &&
+        subtaskIds.every(id => existingIds.has(id));
+
+      if (!isPermutation) {
+        throw new TaskValidationError('Invalid subtask order', {
+          subtaskIds: ['subtaskIds must list every subtask of the task exactly once'],
+        });
+      }
+
+      const now = new Date();
+      for (const [index, id] of subtaskIds.entries()) {
+        db.update(schema.subtasks).set({ order: index, updatedAt: now })
+          .where(eq(schema.subtasks.id, id)).run();
+      }
+
+      return getSubtasksForTask(taskId);
+    },
+
     async deleteSubtask(subtaskId: string): Promise<void> {
       const [existing] = db.select().from(schema.subtasks).where(eq(schema.subtasks.id, subtaskId)).all();
       if (!existing) throw new SubtaskNotFoundError(subtaskId);
       db.delete(schema.subtasks).where(eq(schema.subtasks.id, subtaskId)).run();
     },
 
+    async promoteSubtask(subtaskId: string): Promise<Task> {
+      const [subtask] = db.select().from(schema.subtasks).where(eq(schema.subtasks.id, subtaskId)).all();
+      if (!subtask) throw new SubtaskNotFoundError(subtaskId);
+
+      const [parent] = db.select().from(schema.tasks).where(eq(schema.tasks.id, subtask.taskId)).all();
+
+      const now = new Date();
+      const id = uuidv4();
+
+      db.insert(schema.tasks).values({
+        id,
+        name: subtask.name,
+        description: null,
+        listId: parent.listId,
+        date: parent.date,
+        deadline: null,
+        estimate: null,
+        actualTime: null,
+        priority: DEFAULT_PRIORITY,
+        status: getDefaultStatus(getStatusesForList(parent.listId), subtask.completed),
+        completed: subtask.completed,
+        completedAt: subtask.completed ? now : null,
+        recurrence: null,
+        parentTaskId: null,
+        createdAt: now,
+        updatedAt: now,
+      }).run();
+
+      for (const label of await getLabelsForTask(parent.id)) {
+        db.insert(schema.taskLabels).values({ taskId: id, labelId: label.id }).run();
+      }
+
+      db.delete(schema.subtasks).where(eq(schema.subtasks.id, subtaskId)).run();
+
+      await logHistory(id, 'created', null, `Promoted from a subtask of "${parent.name}"`);
+      await logHistory(parent.id, 'subtasks', subtask.name, 'Promoted to a task');
+
+      const [task] = db.select().from(schema.tasks).where(eq(schema.tasks.id, id)).all();
+      const result = toTask(task);
+      result.labels = await getLabelsForTask(id);
+      result.subtasks = [];
+      return result;
+    },
+
+    async demoteToSubtask(taskId: string, parentTaskId: string): Promise<Subtask> {
+      if (taskId === parentTaskId) {
+        throw new TaskValidationError('Invalid demotion', {
+          parentTaskId: ['A task cannot become its own subtask'],
+        });
+      }
+
+      const [task] = db.select().from(schema.tasks).where(eq(schema.tasks.id, taskId)).all();
+      if (!task) throw new TaskNotFoundError(taskId);
+
+      const [parent] = db.select().from(schema.tasks).where(eq(schema.tasks.id, parentTaskId)).all();
+      if (!parent) throw new TaskNotFoundError(parentTaskId);
+
+      if ((await getSubtasksForTask(taskId)).length > 0) {
+        throw new TaskValidationError('Invalid demotion', {
+          subtasks: ['Only tasks without subtasks can be demoted'],
+        });
+      }
+
+      const subtask = await this.addSubtask(parentTaskId, task.name);
+      if (task.completed) {
+        db.update(schema.subtasks).set({ completed: true }).where(eq(schema.subtasks.id, subtask.id)).run();
+        subtask.completed = true;
+      }
+
+      await this.delete(taskId);
+      await logHistory(parentTaskId, 'subtasks', null, `Demoted task "${task.name}" to a subtask`);
+
+      return subtask;
+    },
+
     async getHistory(taskId: string): Promise<TaskHistoryEntry[]> {
       const rows = db.select().from(schema.taskHistory)
         .where(eq(schema.taskHistory.taskId, taskId))
@@ -600,6 +1006,10 @@ beforeAll(() => {
       color TEXT,
       emoji TEXT,
       is_inbox INTEGER NOT NULL DEFAULT 0,
+      view_mode TEXT NOT NULL DEFAULT 'list',
+      board_grouping TEXT NOT NULL DEFAULT 'status',
+      statuses TEXT,
+      rollover INTEGER NOT NULL DEFAULT 0,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL
     );
@@ -619,9 +1029,11 @@ beforeAll(() => {
       list_id TEXT NOT NULL REFERENCES lists(id),
       date INTEGER,
       deadline INTEGER,
+      start_date INTEGER,
       estimate INTEGER,
       actual_time INTEGER,
       priority TEXT NOT NULL DEFAULT 'none',
+      status TEXT NOT NULL DEFAULT 'todo',
       completed INTEGER NOT NULL DEFAULT 0,
       completed_at INTEGER,
       recurrence TEXT,
@@ -645,6 +1057,11 @@ beforeAll(() => {
       label_id TEXT NOT NULL REFERENCES labels(id) ON DELETE CASCADE
     );
     
+    CREATE TABLE task_dependencies (
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      blocked_by_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE
+    );
+    
     CREATE TABLE task_history (
       id TEXT PRIMARY KEY,
       task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
@@ -667,6 +1084,7 @@ beforeEach(() => {
   // Clean up tables before each test
   sqlite.exec('DELETE FROM task_history');
   sqlite.exec('DELETE FROM task_labels');
+  sqlite.exec('DELETE FROM task_dependencies');
   sqlite.exec('DELETE FROM subtasks');
   sqlite.exec('DELETE FROM tasks');
   sqlite.exec('DELETE FROM labels');
@@ -965,6 +1383,48 @@ describe('Property 9: Task History Logging', () => {
     );
   });
 
+  test('Label changes log history with previous and new label names', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validTaskName,
+        fc.uniqueArray(fc.constantFrom('home', 'urgent', 'work'), { maxLength: 3 }),
+        fc.uniqueArray(fc.constantFrom('home', 'urgent', 'work'), { maxLength: 3 }),
+        async (taskName, before, after) => {
+          // Clean up
+          sqlite.exec('DELETE FROM task_history');
+          sqlite.exec('DELETE FROM task_labels');
+          sqlite.exec('DELETE FROM labels');
+          sqlite.exec('DELETE FROM tasks');
+          sqlite.exec('DELETE FROM lists');
+
+          await listService.ensureInboxExists();
+
+          // Labels are named after their IDs
+          const now = new Date();
+          for (const name of ['home', 'urgent', 'work']) {
+            testDb.insert(schema.labels).values({ id: name, name, createdAt: now, updatedAt: now }).run();
+          }
+
+          const task = await taskService.create({ name: taskName, labelIds: before });
+          await taskService.update(task.id, { labelIds: after });
+
+          const history = await taskService.getHistory(task.id);
+          const labelEntries = history.filter(h => h.field === 'labels');
+          const summary = (names: string[]) => names.length > 0 ? [...names].sort().join(', ') : undefined;
+
+          if (summary(before) === summary(after)) {
+            expect(labelEntries).toHaveLength(0);
+          } else {
+            expect(labelEntries).toHaveLength(1);
+            expect(labelEntries[0].previousValue).toBe(summary(before));
+            expect(labelEntries[0].newValue).toBe(summary(after));
+          }
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
   test('All history entries have timestamps', async () => {
     await fc.assert(
       fc.asyncProperty(validTaskName, validTaskName, validPriority, async (name1, name2, priority) => {
@@ -1393,3 +1853,765 @@ describe('Property 13: Subtask Cascade Delete', () => {
     );
   });
 });
+
+
+describe('Property 52: Subtask Reorder And Rename', () => {
+  /**
+   * **Feature: daily-task-planner, Property 52: Subtask Reorder And Rename**
+   * **Validates: Requirements 6.1, 6.2**
+   * 
+   * For any task with subtasks and any permutation of them, reordering SHALL return
+   * the subtasks in exactly that order; renaming a subtask SHALL change only its name.
+   */
+  test('Reordering subtasks persists the given order', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validTaskName,
+        fc.array(validTaskName, { minLength: 1, maxLength: 6 }),
+        fc.infiniteStream(fc.double({ min: 0, max: 1, noNaN: true })),
+        async (taskName, subtaskNames, randoms) => {
+          // Clean up
+          sqlite.exec('DELETE FROM task_history');
+          sqlite.exec('DELETE FROM subtasks');
+          sqlite.exec('DELETE FROM tasks');
+          sqlite.exec('DELETE FROM lists');
+          
+          await listService.ensureInboxExists();
+          
+          const task = await taskService.create({ name: taskName });
+          const ids: string[] = [];
+          for (const name of subtaskNames) {
+            ids.push((await taskService.addSubtask(task.id, name)).id);
+          }
+          
+          // Shuffle the IDs
+          const shuffled = ids
+            .map(id => ({ id, key: randoms.next().value as number }))
+            .sort((a, b) => a.key - b.key)
+            .map(entry => entry.id);
+          
+          const reordered = await taskService.reorderSubtasks(task.id, shuffled);
+          expect(reordered.map(s => s.id)).toEqual(shuffled);
+          
+          const retrievedTask = await taskService.getById(task.id);
+          expect(retrievedTask!.subtasks!.map(s => s.id)).toEqual(shuffled);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Reordering rejects IDs that are not exactly the task subtasks', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validTaskName,
+        fc.array(validTaskName, { minLength: 2, maxLength: 5 }),
+        async (taskName, subtaskNames) => {
+          // Clean up
+          sqlite.exec('DELETE FROM task_history');
+          sqlite.exec('DELETE FROM subtasks');
+          sqlite.exec('DELETE FROM tasks');
+          sqlite.exec('DELETE FROM lists');
+          
+          await listService.ensureInboxExists();
+          
+          const task = await taskService.create({ name: taskName });
+          const ids: string[] = [];
+          for (const name of subtaskNames) {
+            ids.push((await taskService.addSubtask(task.id, name)).id);
+          }
+          
+          // Missing, duplicated and foreign IDs are all rejected
+          await expect(taskService.reorderSubtasks(task.id, ids.slice(1))).rejects.toBeInstanceOf(TaskValidationError);
+          await expect(taskService.reorderSubtasks(task.id, [ids[0], ...ids.slice(0, -1)])).rejects.toBeInstanceOf(TaskValidationError);
+          await expect(taskService.reorderSubtasks(task.id, [...ids.slice(1), uuidv4()])).rejects.toBeInstanceOf(TaskValidationError);
+          
+          // The original order is kept
+          const retrievedTask = await taskService.getById(task.id);
+          expect(retrievedTask!.subtasks!.map(s => s.id)).toEqual(ids);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Renaming a subtask keeps its completion and position', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validTaskName,
+        fc.array(validTaskName, { minLength: 1, maxLength: 5 }),
+        validTaskName,
+        fc.boolean(),
+        async (taskName, subtaskNames, newName, completed) => {
+          // Clean up
+          sqlite.exec('DELETE FROM task_history');
+          sqlite.exec('DELETE FROM subtasks');
+          sqlite.exec('DELETE FROM tasks');
+          sqlite.exec('DELETE FROM lists');
+          
+          await listService.ensureInboxExists();
+          
+          const task = await taskService.create({ name: taskName });
+          const created: Subtask[] = [];
+          for (const name of subtaskNames) {
+            created.push(await taskService.addSubtask(task.id, name));
+          }
+          
+          const target = created[created.length - 1];
+          await taskService.updateSubtask(target.id, { completed });
+          const renamed = await taskService.updateSubtask(target.id, { name: newName });
+          
+          expect(renamed.name).toBe(newName.trim());
+          expect(renamed.completed).toBe(completed);
+          expect(renamed.order).toBe(target.order);
+          
+          await expect(taskService.updateSubtask(target.id, { name: '   ' })).rejects.toBeInstanceOf(TaskValidationError);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+});
+
+
+describe('Property 53: Subtask Promotion And Demotion', () => {
+  /**
+   * **Feature: daily-task-planner, Property 53: Subtask Promotion And Demotion**
+   * **Validates: Requirements 6.1, 6.4**
+   * 
+   * For any subtask, promoting it SHALL create a task with the subtask's name and
+   * completion status in the parent's list, with the parent's labels and date, and
+   * remove the subtask. For any childless task, demoting it SHALL add a subtask with
+   * its name to the new parent and remove the task. Both are logged in history.
+   */
+  test('Promoted subtasks keep the parent list, labels and date', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validTaskName,
+        validTaskName,
+        fc.option(fc.date({ min: new Date('2020-01-01'), max: new Date('2030-12-31'), noInvalidDate: true }), { nil: undefined }),
+        fc.boolean(),
+        async (taskName, subtaskName, date, completed) => {
+          // Clean up
+          sqlite.exec('DELETE FROM task_history');
+          sqlite.exec('DELETE FROM task_labels');
+          sqlite.exec('DELETE FROM labels');
+          sqlite.exec('DELETE FROM subtasks');
+          sqlite.exec('DELETE FROM tasks');
+          sqlite.exec('DELETE FROM lists');
+          
+          const list = await listService.create({ name: 'Work' });
+          const labelId = uuidv4();
+          const now = new Date();
+          testDb.insert(schema.labels).values({ id: labelId, name: 'urgent', createdAt: now, updatedAt: now }).run();
+          
+          const parent = await taskService.create({ name: taskName, listId: list.id, date, labelIds: [labelId] });
+          const subtask = await taskService.addSubtask(parent.id, subtaskName);
+          if (completed) {
+            await taskService.toggleSubtask(subtask.id);
+          }
+          
+          const promoted = await taskService.promoteSubtask(subtask.id);
+          
+          expect(promoted.name).toBe(subtask.name);
+          expect(promoted.completed).toBe(completed);
+          expect(promoted.listId).toBe(list.id);
+          expect(promoted.date?.getTime()).toBe(parent.date?.getTime());
+          expect(promoted.labels!.map(l => l.id)).toEqual([labelId]);
+          
+          // The subtask is gone from the parent
+          const parentAfter = await taskService.getById(parent.id);
+          expect(parentAfter!.subtasks).toHaveLength(0);
+          
+          // Both tasks record the conversion
+          const promotedHistory = await taskService.getHistory(promoted.id);
+          expect(promotedHistory.some(h => h.newValue?.startsWith('Promoted from a subtask'))).toBe(true);
+          const parentHistory = await taskService.getHistory(parent.id);
+          expect(parentHistory.some(h => h.field === 'subtasks' && h.previousValue === subtask.name)).toBe(true);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Demoted tasks become a subtask of the new parent', async () => {
+    await fc.assert(
+      fc.asyncProperty(validTaskName, validTaskName, fc.boolean(), async (parentName, taskName, completed) => {
+        // Clean up
+        sqlite.exec('DELETE FROM task_history');
+        sqlite.exec('DELETE FROM subtasks');
+        sqlite.exec('DELETE FROM tasks');
+        sqlite.exec('DELETE FROM lists');
+        
+        await listService.ensureInboxExists();
+        
+        const parent = await taskService.create({ name: parentName });
+        const task = await taskService.create({ name: taskName });
+        if (completed) {
+          await taskService.toggleComplete(task.id);
+        }
+        
+        const subtask = await taskService.demoteToSubtask(task.id, parent.id);
+        
+        expect(subtask.taskId).toBe(parent.id);
+        expect(subtask.name).toBe(task.name);
+        expect(subtask.completed).toBe(completed);
+        expect(await taskService.getById(task.id)).toBeNull();
+        
+        const parentAfter = await taskService.getById(parent.id);
+        expect(parentAfter!.subtasks!.map(s => s.id)).toEqual([subtask.id]);
+        
+        const parentHistory = await taskService.getHistory(parent.id);
+        expect(parentHistory.some(h => h.field === 'subtasks' && h.newValue?.includes(task.name))).toBe(true);
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Tasks with subtasks cannot be demoted', async () => {
+    await fc.assert(
+      fc.asyncProperty(validTaskName, validTaskName, validTaskName, async (parentName, taskName, subtaskName) => {
+        // Clean up
+        sqlite.exec('DELETE FROM task_history');
+        sqlite.exec('DELETE FROM subtasks');
+        sqlite.exec('DELETE FROM tasks');
+        sqlite.exec('DELETE FROM lists');
+        
+        await listService.ensureInboxExists();
+        
+        const parent = await taskService.create({ name: parentName });
+        const task = await taskService.create({ name: taskName });
+        await taskService.addSubtask(task.id, subtaskName);
+        
+        await expect(taskService.demoteToSubtask(task.id, parent.id)).rejects.toBeInstanceOf(TaskValidationError);
+        await expect(taskService.demoteToSubtask(parent.id, parent.id)).rejects.toBeInstanceOf(TaskValidationError);
+        
+        // Nothing changed
+        expect(await taskService.getById(task.id)).not.toBeNull();
+        expect((await taskService.getById(parent.id))!.subtasks).toHaveLength(0);
+      }),
+      { numRuns: 30 }
+    );
+  });
+});
+
+describe('Property 67: Task Status And Completion Sync', () => {
+  /**
+   * **Feature: daily-task-planner, Property 67: Task Status And Completion Sync**
+   * **Validates: Requirements 5.2, 22.1, 22.2**
+   *
+   * For any sequence of status changes, completion toggles and completion
+   * updates, a task SHALL be completed exactly when its status is done, and
+   * every status change SHALL be logged in its history.
+   */
+  const DEFAULT_STATUS_IDS = DEFAULT_WORKFLOW_STATUSES.map(status => status.id);
+
+  type StatusStep =
+    | { kind: 'status'; status: Task['status'] }
+    | { kind: 'completed'; completed: boolean }
+    | { kind: 'toggle' };
+
+  const statusStepArb: fc.Arbitrary<StatusStep> = fc.oneof(
+    fc.constantFrom(...DEFAULT_STATUS_IDS).map(status => ({ kind: 'status' as const, status })),
+    fc.boolean().map(completed => ({ kind: 'completed' as const, completed })),
+    fc.constant({ kind: 'toggle' as const })
+  );
+
+  test('Completed matches a done status after any change', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validTaskName,
+        fc.constantFrom(...DEFAULT_STATUS_IDS),
+        fc.array(statusStepArb, { maxLength: 8 }),
+        async (taskName, initialStatus, steps) => {
+          // Clean up
+          sqlite.exec('DELETE FROM task_history');
+          sqlite.exec('DELETE FROM tasks');
+          sqlite.exec('DELETE FROM lists');
+
+          await listService.ensureInboxExists();
+
+          let task = await taskService.create({ name: taskName, status: initialStatus });
+          expect(task.completed).toBe(isDoneStatus(DEFAULT_WORKFLOW_STATUSES, initialStatus));
+
+          let statusChanges = 0;
+          for (const step of steps) {
+            const previous = task.status;
+            if (step.kind === 'status') {
+              task = await taskService.update(task.id, { status: step.status });
+              expect(task.status).toBe(step.status);
+            } else if (step.kind === 'completed') {
+              task = await taskService.update(task.id, { completed: step.completed });
+              expect(task.completed).toBe(step.completed);
+            } else {
+              task = await taskService.toggleComplete(task.id);
+            }
+
+            expect(task.completed).toBe(isDoneStatus(DEFAULT_WORKFLOW_STATUSES, task.status));
+            expect(task.completedAt !== undefined).toBe(task.completed);
+            if (task.status !== previous) statusChanges++;
+          }
+
+          const history = await taskService.getHistory(task.id);
+          expect(history.filter(h => h.field === 'status')).toHaveLength(statusChanges);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('Status changes log the previous and new status', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validTaskName,
+        fc.constantFrom(...DEFAULT_STATUS_IDS),
+        fc.constantFrom(...DEFAULT_STATUS_IDS),
+        async (taskName, from, to) => {
+          if (from === to) return;
+
+          // Clean up
+          sqlite.exec('DELETE FROM task_history');
+          sqlite.exec('DELETE FROM tasks');
+          sqlite.exec('DELETE FROM lists');
+
+          await listService.ensureInboxExists();
+
+          const task = await taskService.create({ name: taskName, status: from });
+          await taskService.update(task.id, { status: to });
+
+          const history = await taskService.getHistory(task.id);
+          const statusEntry = history.find(h => h.field === 'status');
+          expect(statusEntry).toBeDefined();
+          expect(statusEntry!.previousValue).toBe(from);
+          expect(statusEntry!.newValue).toBe(to);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('New tasks start in the default status', async () => {
+    sqlite.exec('DELETE FROM task_history');
+    sqlite.exec('DELETE FROM tasks');
+    sqlite.exec('DELETE FROM lists');
+    await listService.ensureInboxExists();
+
+    const task = await taskService.create({ name: 'Plan the week' });
+    expect(task.status).toBe('todo');
+    expect(task.completed).toBe(false);
+
+    await expect(
+      taskService.update(task.id, { status: 'blocked' as Task['status'] })
+    ).rejects.toBeInstanceOf(TaskValidationError);
+  });
+});
+
+describe('Property 72: Task Dependencies', () => {
+  /**
+   * **Feature: daily-task-planner, Property 72: Task Dependencies**
+   * **Validates: Requirements 5.2, 22.1**
+   *
+   * For any chain of dependencies, a task SHALL NOT be completed, by toggling
+   * or by updating, while any of its blockers are open; blockers that would
+   * make a task wait on itself SHALL be rejected without changing anything;
+   * and each dependency SHALL appear on both of its tasks.
+   */
+  const resetTables = async (): Promise<void> => {
+    sqlite.exec('DELETE FROM task_history');
+    sqlite.exec('DELETE FROM task_dependencies');
+    sqlite.exec('DELETE FROM tasks');
+    sqlite.exec('DELETE FROM lists');
+    await listService.ensureInboxExists();
+  };
+
+  test('Tasks complete only once their blockers are done', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 5 }),
+        fc.constantFrom('toggle', 'completed', 'status'),
+        async (length, method) => {
+          await resetTables();
+
+          // Each task in the chain waits on the one before it
+          const chain: Task[] = [];
+          for (let i = 0; i < length; i++) {
+            chain.push(await taskService.create({
+              name: `Step ${i}`,
+              blockedByIds: i > 0 ? [chain[i - 1].id] : [],
+            }));
+          }
+
+          const complete = (id: string): Promise<Task> =>
+            method === 'toggle'
+              ? taskService.toggleComplete(id)
+              : taskService.update(id, method === 'completed' ? { completed: true } : { status: 'done' });
+
+          for (let i = length - 1; i > 0; i--) {
+            await expect(complete(chain[i].id)).rejects.toBeInstanceOf(TaskBlockedError);
+            expect((await taskService.getById(chain[i].id))!.completed).toBe(false);
+          }
+
+          for (const task of chain) {
+            expect((await complete(task.id)).completed).toBe(true);
+          }
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Blockers that close a loop are rejected', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 5 }), fc.nat(), async (length, pick) => {
+        await resetTables();
+
+        const chain: Task[] = [];
+        for (let i = 0; i < length; i++) {
+          chain.push(await taskService.create({
+            name: `Step ${i}`,
+            blockedByIds: i > 0 ? [chain[i - 1].id] : [],
+          }));
+        }
+
+        // The first task waiting on any later one, or itself, would wait on itself
+        const first = chain[0];
+        const later = chain[pick % length];
+        await expect(
+          taskService.update(first.id, { blockedByIds: [later.id], name: 'Renamed' })
+        ).rejects.toBeInstanceOf(TaskValidationError);
+
+        const unchanged = (await taskService.getById(first.id))!;
+        expect(unchanged.name).toBe(first.name);
+        expect(unchanged.blockedBy).toEqual([]);
+        expect((await taskService.getHistory(first.id)).map(h => h.field)).toEqual(['created']);
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Each dependency appears on both tasks and changes are logged', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.boolean(), { minLength: 1, maxLength: 5 }),
+        async (picks) => {
+          await resetTables();
+
+          const others: Task[] = [];
+          for (let i = 0; i < picks.length; i++) {
+            others.push(await taskService.create({ name: `Other ${i}` }));
+          }
+          const task = await taskService.create({ name: 'Waiting task' });
+          const blockerIds = others.filter((_, i) => picks[i]).map(other => other.id);
+
+          const updated = await taskService.update(task.id, { blockedByIds: blockerIds });
+          expect(updated.blockedBy!.map(b => b.id).sort()).toEqual([...blockerIds].sort());
+
+          for (const other of others) {
+            const fetched = (await taskService.getById(other.id))!;
+            expect(fetched.blocking!.map(b => b.id)).toEqual(blockerIds.includes(other.id) ? [task.id] : []);
+          }
+
+          const history = (await taskService.getHistory(task.id)).filter(h => h.field === 'blockedBy');
+          expect(history).toHaveLength(blockerIds.length > 0 ? 1 : 0);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Unknown blockers are rejected', async () => {
+    await resetTables();
+
+    await expect(
+      taskService.create({ name: 'Waiting task', blockedByIds: ['missing'] })
+    ).rejects.toBeInstanceOf(TaskValidationError);
+    expect(await taskService.getAll()).toEqual([]);
+  });
+});
+
+describe('Property 74: Workflow Statuses', () => {
+  /**
+   * **Feature: daily-task-planner, Property 74: Workflow Statuses**
+   * **Validates: Requirements 5.2, 22.1, 22.2**
+   *
+   * For any list workflow, a task SHALL be completed exactly when its status
+   * counts as done in its list, and completedAt SHALL be set on entering a
+   * done status and kept between them. Removing a status or changing whether
+   * it is done SHALL move the list's tasks along, logging each change.
+   */
+  const WORKFLOW: WorkflowStatus[] = [
+    { id: 'backlog', name: 'Backlog', done: false },
+    { id: 'review', name: 'In review', done: false },
+    { id: 'shipped', name: 'Shipped', done: true },
+    { id: 'dropped', name: 'Dropped', done: true },
+  ];
+
+  const resetTables = async (): Promise<List> => {
+    sqlite.exec('DELETE FROM task_history');
+    sqlite.exec('DELETE FROM task_dependencies');
+    sqlite.exec('DELETE FROM tasks');
+    sqlite.exec('DELETE FROM lists');
+    await listService.ensureInboxExists();
+    const list = await listService.create({ name: 'Releases' });
+    return listService.update(list.id, { statuses: WORKFLOW });
+  };
+
+  test('Completion follows the list\'s done statuses', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.constantFrom(...WORKFLOW.map(status => status.id)), { minLength: 1, maxLength: 6 }),
+        async (steps) => {
+          const list = await resetTables();
+          let task = await taskService.create({ name: 'Ship it', listId: list.id });
+          expect(task.status).toBe('backlog');
+
+          for (const status of steps) {
+            const previous = task;
+            task = await taskService.update(task.id, { status });
+
+            expect(task.completed).toBe(isDoneStatus(WORKFLOW, status));
+            if (!task.completed) {
+              expect(task.completedAt).toBeUndefined();
+            } else if (previous.completed) {
+              expect(task.completedAt).toEqual(previous.completedAt);
+            } else {
+              expect(task.completedAt).toBeDefined();
+            }
+          }
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Setting completed moves to the first done or not done status', async () => {
+    const list = await resetTables();
+    const task = await taskService.create({ name: 'Ship it', listId: list.id, status: 'review' });
+
+    const done = await taskService.update(task.id, { completed: true });
+    expect(done.status).toBe('shipped');
+    const reopened = await taskService.toggleComplete(task.id);
+    expect(reopened.status).toBe('backlog');
+    expect(reopened.completed).toBe(false);
+
+    await expect(taskService.update(task.id, { status: 'doing' })).rejects.toBeInstanceOf(TaskValidationError);
+    await expect(
+      taskService.create({ name: 'Other', listId: list.id, status: 'todo' })
+    ).rejects.toBeInstanceOf(TaskValidationError);
+  });
+
+  test('Removed statuses move their tasks and are logged', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.constantFrom(...WORKFLOW.map(status => status.id)), { minLength: 1, maxLength: 6 }),
+        fc.constantFrom(...WORKFLOW.map(status => status.id)),
+        async (statuses, removedId) => {
+          const list = await resetTables();
+          const tasks: Task[] = [];
+          for (const [i, status] of statuses.entries()) {
+            tasks.push(await taskService.create({ name: `Task ${i}`, listId: list.id, status }));
+          }
+
+          const remaining = WORKFLOW.filter(status => status.id !== removedId);
+          if (!remaining.some(s => s.done) || !remaining.some(s => !s.done)) return;
+          await listService.update(list.id, { statuses: remaining });
+
+          for (const before of tasks) {
+            const after = (await taskService.getById(before.id))!;
+            const history = (await taskService.getHistory(before.id)).filter(h => h.field === 'status');
+            if (before.status === removedId) {
+              expect(after.status).toBe(getDefaultStatus(remaining, before.completed));
+              expect(history[0].previousValue).toBe(removedId);
+            } else {
+              expect(after.status).toBe(before.status);
+              expect(history).toHaveLength(0);
+            }
+            expect(after.completed).toBe(before.completed);
+          }
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Changing whether a status is done updates its tasks', async () => {
+    const list = await resetTables();
+    const task = await taskService.create({ name: 'Ship it', listId: list.id, status: 'review' });
+
+    await listService.update(list.id, {
+      statuses: WORKFLOW.map(status => (status.id === 'review' ? { ...status, done: true } : status)),
+    });
+
+    const updated = (await taskService.getById(task.id))!;
+    expect(updated.status).toBe('review');
+    expect(updated.completed).toBe(true);
+    expect(updated.completedAt).toBeDefined();
+    const history = await taskService.getHistory(task.id);
+    expect(history.find(h => h.field === 'completed')?.newValue).toBe('true');
+  });
+
+  test('Changing whether a status is done leaves blocked and recurring tasks open', async () => {
+    const list = await resetTables();
+    const blocker = await taskService.create({ name: 'Build it', listId: list.id });
+    const blocked = await taskService.create({
+      name: 'Ship it',
+      listId: list.id,
+      status: 'review',
+      blockedByIds: [blocker.id],
+    });
+    const recurring = await taskService.create({
+      name: 'Weekly release',
+      listId: list.id,
+      status: 'review',
+      recurrence: { type: 'weekly', interval: 1 },
+    });
+
+    await listService.update(list.id, {
+      statuses: WORKFLOW.map(status => (status.id === 'review' ? { ...status, done: true } : status)),
+    });
+
+    for (const task of [blocked, recurring]) {
+      const updated = (await taskService.getById(task.id))!;
+      expect(updated.status).toBe('backlog');
+      expect(updated.completed).toBe(false);
+      expect(updated.completedAt).toBeUndefined();
+    }
+    expect((await taskService.getAll()).filter(task => task.name === 'Weekly release')).toHaveLength(1);
+  });
+
+  test('Moving to another list keeps only statuses it has', async () => {
+    const list = await resetTables();
+    const inbox = await listService.getInbox();
+    const shipped = await taskService.create({ name: 'Shipped', listId: list.id, status: 'shipped' });
+    const review = await taskService.create({ name: 'In review', listId: list.id, status: 'review' });
+
+    const movedShipped = await taskService.update(shipped.id, { listId: inbox.id });
+    expect(movedShipped.status).toBe('done');
+    expect(movedShipped.completed).toBe(true);
+    expect(movedShipped.completedAt).toEqual(shipped.completedAt);
+
+    const movedReview = await taskService.update(review.id, { listId: inbox.id });
+    expect(movedReview.status).toBe('todo');
+    expect(movedReview.completed).toBe(false);
+  });
+});
+
+describe('Property 76: Deferred Tasks', () => {
+  /**
+   * **Feature: daily-task-planner, Property 76: Deferred Tasks**
+   * **Validates: Requirements 5.2, 12.1, 15.1, 16.1**
+   *
+   * For any task with a start date still to come, the task SHALL be left out
+   * of the Today view, the All view and the overdue tasks, while staying in
+   * its list. Once the start date is cleared or has passed it SHALL show up
+   * again, and each change of start date SHALL be logged.
+   */
+  const resetTables = async (): Promise<List> => {
+    sqlite.exec('DELETE FROM task_history');
+    sqlite.exec('DELETE FROM task_dependencies');
+    sqlite.exec('DELETE FROM tasks');
+    sqlite.exec('DELETE FROM lists');
+    await listService.ensureInboxExists();
+    return listService.create({ name: 'Someday' });
+  };
+
+  test('Deferred tasks stay out of Today, All and overdue until they start', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validTaskName,
+        fc.integer({ min: -7 * 24 * 60, max: 7 * 24 * 60 }).filter(minutes => minutes !== 0),
+        async (name, startOffsetMinutes) => {
+          const list = await resetTables();
+          const now = new Date();
+          const startDate = new Date(now.getTime() + startOffsetMinutes * 60 * 1000);
+          const deferred = startOffsetMinutes > 0;
+
+          const task = await taskService.create({
+            name,
+            listId: list.id,
+            date: now,
+            deadline: new Date(now.getTime() - 60 * 1000),
+            startDate,
+          });
+
+          const ids = (tasks: Task[]) => tasks.map(t => t.id);
+          expect(ids(await taskService.getToday()).includes(task.id)).toBe(!deferred);
+          expect(ids(await taskService.getAll()).includes(task.id)).toBe(!deferred);
+          expect(ids(await taskService.getOverdue()).includes(task.id)).toBe(!deferred);
+          expect(ids(await taskService.getAll(true, true))).toContain(task.id);
+          expect(ids(await taskService.getByListId(list.id))).toContain(task.id);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('Clearing the start date brings the task back and is logged', async () => {
+    const list = await resetTables();
+    const startDate = getSnoozeDate('tomorrow');
+    const task = await taskService.create({ name: 'Renew passport', listId: list.id, startDate });
+    expect((await taskService.getAll()).map(t => t.id)).not.toContain(task.id);
+
+    const updated = await taskService.update(task.id, { startDate: null });
+    expect(updated.startDate).toBeUndefined();
+    expect((await taskService.getAll()).map(t => t.id)).toContain(task.id);
+
+    const history = (await taskService.getHistory(task.id)).filter(h => h.field === 'startDate');
+    expect(history).toHaveLength(1);
+    expect(history[0].previousValue).toBe(startDate.toISOString());
+    expect(history[0].newValue).toBeUndefined();
+  });
+});
+
+describe('Property 79: Overdue Scheduled Tasks', () => {
+  /**
+   * **Feature: daily-task-planner, Property 79: Overdue Scheduled Tasks**
+   * **Validates: Requirements 5.2, 12.1**
+   *
+   * For any set of tasks, the overdue scheduled tasks SHALL be exactly the
+   * incomplete, not deferred tasks dated before today, earliest date first,
+   * whatever their deadline.
+   */
+  test('Only incomplete tasks dated before today are overdue, earliest first', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(
+          fc.record({
+            dayOffset: fc.integer({ min: -10, max: 3 }),
+            completed: fc.boolean(),
+            deferred: fc.boolean(),
+          }),
+          { minLength: 1, maxLength: 8 }
+        ),
+        async (specs) => {
+          sqlite.exec('DELETE FROM task_history');
+          sqlite.exec('DELETE FROM task_dependencies');
+          sqlite.exec('DELETE FROM tasks');
+          const inbox = await listService.ensureInboxExists();
+
+          const expected: string[] = [];
+          for (const spec of specs) {
+            const date = new Date();
+            date.setDate(date.getDate() + spec.dayOffset);
+            date.setHours(9, 0, 0, 0);
+            const task = await taskService.create({
+              name: `Task ${spec.dayOffset}`,
+              listId: inbox.id,
+              date,
+              startDate: spec.deferred ? getSnoozeDate('tomorrow') : undefined,
+            });
+            if (spec.completed) await taskService.toggleComplete(task.id);
+            if (spec.dayOffset < 0 && !spec.completed && !spec.deferred) expected.push(task.id);
+          }
+
+          const overdue = await taskService.getOverdueScheduled();
+          expect(overdue.map(t => t.id).sort()).toEqual([...expected].sort());
+          for (let i = 1; i < overdue.length; i++) {
+            expect(overdue[i - 1].date!.getTime()).toBeLessThanOrEqual(overdue[i].date!.getTime());
+          }
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+});
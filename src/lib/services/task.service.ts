@@ -1,20 +1,38 @@
 import { db, schema } from '@/lib/db';
-import { eq, and, desc, asc, gte, lt } from 'drizzle-orm';
+import { eq, and, or, desc, asc, gte, lt, lte, inArray, isNull } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import type {
   Task,
   Subtask,
   Label,
+  TaskDependency,
   CreateTaskInput,
   UpdateTaskInput,
+  UpdateSubtaskInput,
   TaskHistoryEntry,
   ITaskService,
   RecurrencePattern,
   GroupedTasks,
+  TaskStatus,
+  WorkflowStatus,
 } from '@/types';
-import { validateCreateTask, validateUpdateTask, DEFAULT_PRIORITY } from '@/lib/utils/validation';
+import {
+  validateCreateTask,
+  validateUpdateTask,
+  DEFAULT_PRIORITY,
+} from '@/lib/utils/validation';
 import { calculateNextOccurrence } from '@/lib/utils/recurrence';
+import { getOpenBlockers, wouldCreateCycle } from '@/lib/utils/dependencies';
+import { isDeferred } from '@/lib/utils/defer';
+import {
+  getDefaultStatus,
+  getListStatuses,
+  getStatusCompletion,
+  isDoneStatus,
+  mapStatus,
+} from '@/lib/utils/workflow';
 import { listService } from './list.service';
+import { reminderService, validateReminderInput } from './reminder.service';
 
 // Custom error classes for Task service
 export class TaskValidationError extends Error {
@@ -41,6 +59,13 @@ export class SubtaskNotFoundError extends Error {
   }
 }
 
+export class TaskBlockedError extends Error {
+  constructor(name: string, blockers: TaskDependency[]) {
+    super(`"${name}" is blocked by ${blockers.map(blocker => `"${blocker.name}"`).join(', ')}`);
+    this.name = 'TaskBlockedError';
+  }
+}
+
 /**
  * Converts a database row to a Task entity
  */
@@ -52,9 +77,11 @@ function toTask(row: typeof schema.tasks.$inferSelect): Task {
     listId: row.listId,
     date: row.date ?? undefined,
     deadline: row.deadline ?? undefined,
+    startDate: row.startDate ?? undefined,
     estimate: row.estimate ?? undefined,
     actualTime: row.actualTime ?? undefined,
     priority: row.priority as Task['priority'],
+    status: row.status as Task['status'],
     completed: row.completed,
     completedAt: row.completedAt ?? undefined,
     recurrence: row.recurrence as RecurrencePattern | undefined,
@@ -127,6 +154,28 @@ async function logHistory(
   });
 }
 
+/**
+ * Gets the workflow statuses of a list
+ */
+async function getStatusesForList(listId: string): Promise<WorkflowStatus[]> {
+  const [list] = await db
+    .select({ statuses: schema.lists.statuses })
+    .from(schema.lists)
+    .where(eq(schema.lists.id, listId));
+  return getListStatuses({ statuses: (list?.statuses as WorkflowStatus[] | null) ?? [] });
+}
+
+/**
+ * Throws when a status isn't one of a list's statuses
+ */
+function assertKnownStatus(statuses: WorkflowStatus[], status: TaskStatus): void {
+  if (!statuses.some(s => s.id === status)) {
+    throw new TaskValidationError('Invalid task data', {
+      status: [`Status "${status}" is not one of the list's statuses`],
+    });
+  }
+}
+
 /**
  * Serializes a value for history logging
  */
@@ -143,6 +192,27 @@ function serializeValue(value: unknown): string | null {
   return String(value);
 }
 
+/**
+ * Query condition for tasks that aren't deferred: no start date, or one that has come
+ */
+function notDeferred(now: Date) {
+  return or(isNull(schema.tasks.startDate), lte(schema.tasks.startDate, now));
+}
+
+/**
+ * Gets a comparable key for a set of labels or tasks
+ */
+function idsKey(items: { id: string }[]): string {
+  return items.map(item => item.id).sort().join(',');
+}
+
+/**
+ * Gets label names for history, or null when there are none
+ */
+function labelNames(labels: Label[]): string | null {
+  return labels.length > 0 ? labels.map(label => label.name).sort().join(', ') : null;
+}
+
 /**
  * Fetches labels for a task
  */
@@ -158,6 +228,111 @@ async function getLabelsForTask(taskId: string): Promise<Label[]> {
   return rows.map(r => toLabel(r.label));
 }
 
+/**
+ * Converts a database row to the other end of a dependency
+ */
+function toDependency(row: typeof schema.tasks.$inferSelect): TaskDependency {
+  return {
+    id: row.id,
+    name: row.name,
+    listId: row.listId,
+    completed: row.completed,
+    date: row.date ?? undefined,
+    estimate: row.estimate ?? undefined,
+  };
+}
+
+/**
+ * Gets blocker names for history, or null when there are none
+ */
+function blockerNames(blockers: TaskDependency[]): string | null {
+  return blockers.length > 0 ? blockers.map(blocker => blocker.name).sort().join(', ') : null;
+}
+
+/**
+ * Fetches the tasks blocking a task
+ */
+async function getBlockersForTask(taskId: string): Promise<TaskDependency[]> {
+  const rows = await db
+    .select({
+      task: schema.tasks,
+    })
+    .from(schema.taskDependencies)
+    .innerJoin(schema.tasks, eq(schema.taskDependencies.blockedById, schema.tasks.id))
+    .where(eq(schema.taskDependencies.taskId, taskId));
+
+  return rows.map(r => toDependency(r.task));
+}
+
+/**
+ * Fetches the tasks a task is blocking
+ */
+async function getBlockedTasksForTask(taskId: string): Promise<TaskDependency[]> {
+  const rows = await db
+    .select({
+      task: schema.tasks,
+    })
+    .from(schema.taskDependencies)
+    .innerJoin(schema.tasks, eq(schema.taskDependencies.taskId, schema.tasks.id))
+    .where(eq(schema.taskDependencies.blockedById, taskId));
+
+  return rows.map(r => toDependency(r.task));
+}
+
+/**
+ * Checks that a task's new blockers exist and don't make it wait on itself
+ * @throws TaskValidationError if a blocker is missing or would form a cycle
+ */
+async function validateBlockers(taskId: string, blockedByIds: string[]): Promise<void> {
+  if (blockedByIds.length === 0) return;
+
+  const found = await getDependenciesByIds(blockedByIds);
+  if (found.length < new Set(blockedByIds).size) {
+    throw new TaskValidationError('Invalid task data', { blockedByIds: ['Blocking task not found'] });
+  }
+
+  const edges = await db.select().from(schema.taskDependencies);
+  if (wouldCreateCycle(edges, taskId, blockedByIds)) {
+    throw new TaskValidationError('Invalid task data', {
+      blockedByIds: ['A task cannot depend on itself, directly or through other tasks'],
+    });
+  }
+}
+
+/**
+ * Replaces the blockers of a task
+ */
+async function setBlockers(taskId: string, blockedByIds: string[]): Promise<void> {
+  await db.delete(schema.taskDependencies).where(eq(schema.taskDependencies.taskId, taskId));
+  for (const blockedById of new Set(blockedByIds)) {
+    await db.insert(schema.taskDependencies).values({ taskId, blockedById });
+  }
+}
+
+/**
+ * Fetches tasks by ID as the other ends of dependencies
+ */
+async function getDependenciesByIds(ids: string[]): Promise<TaskDependency[]> {
+  if (ids.length === 0) return [];
+  const rows = await db
+    .select()
+    .from(schema.tasks)
+    .where(inArray(schema.tasks.id, ids));
+
+  return rows.map(toDependency);
+}
+
+/**
+ * Refuses to complete a task while any of its blockers are open
+ * @throws TaskBlockedError if a blocker is still open
+ */
+function assertNotBlocked(name: string, blockers: TaskDependency[]): void {
+  const openBlockers = getOpenBlockers({ blockedBy: blockers });
+  if (openBlockers.length > 0) {
+    throw new TaskBlockedError(name, openBlockers);
+  }
+}
+
 /**
  * Fetches subtasks for a task
  */
@@ -204,15 +379,8 @@ function groupTasksByDate(tasks: Task[]): GroupedTasks[] {
   return result;
 }
 
-/**
- * Checks if a task is overdue.
- * A task is overdue if it's incomplete and has a deadline in the past.
- */
-export function isOverdue(task: Task): boolean {
-  if (task.completed) return false;
-  if (!task.deadline) return false;
-  return task.deadline < new Date();
-}
+// Shared with the client, which cannot import this module
+export { isOverdue } from '@/lib/utils/overdue';
 
 /**
  * Creates the next occurrence of a recurring task.
@@ -232,6 +400,7 @@ async function createNextRecurringOccurrence(task: typeof schema.tasks.$inferSel
 
   const now = new Date();
   const newId = uuidv4();
+  const statuses = await getStatusesForList(task.listId);
 
   await db.insert(schema.tasks).values({
     id: newId,
@@ -240,9 +409,11 @@ async function createNextRecurringOccurrence(task: typeof schema.tasks.$inferSel
     listId: task.listId,
     date: nextDate,
     deadline: task.deadline ? new Date(nextDate.getTime() + (task.deadline.getTime() - task.date.getTime())) : null,
+    startDate: task.startDate ? new Date(nextDate.getTime() + (task.startDate.getTime() - task.date.getTime())) : null,
     estimate: task.estimate,
     actualTime: null,
     priority: task.priority,
+    status: getDefaultStatus(statuses, false),
     completed: false,
     completedAt: null,
     recurrence: task.recurrence,
@@ -277,9 +448,11 @@ export const taskService: ITaskService = {
    * Creates a new task.
    * If no listId is provided, assigns to Inbox.
    * Priority defaults to 'none' if not specified.
+   * Status defaults to the list's first status that isn't done.
    * @param data - The task creation data
    * @returns The created task
-   * @throws TaskValidationError if validation fails
+   * @throws TaskValidationError if validation fails, the list lacks the status or a blocker is missing
+   * @throws TaskBlockedError if created done with open blockers
    */
   async create(data: CreateTaskInput): Promise<Task> {
     const validation = validateCreateTask(data);
@@ -287,6 +460,19 @@ export const taskService: ITaskService = {
       throw new TaskValidationError('Invalid task data', validation.errors);
     }
 
+    // Validate reminders up front so no task is created with broken reminders
+    for (const reminder of data.reminders ?? []) {
+      const reminderErrors = validateReminderInput(reminder);
+      if (Object.keys(reminderErrors).length > 0) {
+        throw new TaskValidationError('Invalid task data', {
+          reminders: Object.values(reminderErrors).flat(),
+        });
+      }
+    }
+
+    const id = uuidv4();
+    const priority = data.priority ?? DEFAULT_PRIORITY;
+
     // Get Inbox if no listId provided
     let listId = data.listId;
     if (!listId) {
@@ -294,9 +480,17 @@ export const taskService: ITaskService = {
       listId = inbox.id;
     }
 
+    const statuses = await getStatusesForList(listId);
+    const status = data.status ?? getDefaultStatus(statuses, false);
+    assertKnownStatus(statuses, status);
+    const completed = isDoneStatus(statuses, status);
+
+    await validateBlockers(id, data.blockedByIds ?? []);
+    if (completed) {
+      assertNotBlocked(data.name.trim(), await getDependenciesByIds(data.blockedByIds ?? []));
+    }
+
     const now = new Date();
-    const id = uuidv4();
-    const priority = data.priority ?? DEFAULT_PRIORITY;
 
     await db.insert(schema.tasks).values({
       id,
@@ -305,11 +499,13 @@ export const taskService: ITaskService = {
       listId,
       date: data.date ?? null,
       deadline: data.deadline ?? null,
+      startDate: data.startDate ?? null,
       estimate: data.estimate ?? null,
       actualTime: data.actualTime ?? null,
       priority,
-      completed: false,
-      completedAt: null,
+      status,
+      completed,
+      completedAt: completed ? now : null,
       recurrence: data.recurrence ?? null,
       parentTaskId: null,
       createdAt: now,
@@ -329,6 +525,16 @@ export const taskService: ITaskService = {
       }
     }
 
+    // Handle blockers if provided
+    if (data.blockedByIds && data.blockedByIds.length > 0) {
+      await setBlockers(id, data.blockedByIds);
+    }
+
+    // Schedule reminders if provided
+    for (const reminder of data.reminders ?? []) {
+      await reminderService.scheduleReminder(id, reminder);
+    }
+
     const [task] = await db
       .select()
       .from(schema.tasks)
@@ -337,6 +543,9 @@ export const taskService: ITaskService = {
     const result = toTask(task);
     result.labels = await getLabelsForTask(id);
     result.subtasks = [];
+    result.blockedBy = await getBlockersForTask(id);
+    result.blocking = [];
+    result.reminders = await reminderService.getByTaskId(id);
 
     return result;
   },
@@ -344,11 +553,17 @@ export const taskService: ITaskService = {
   /**
    * Updates an existing task.
    * Logs all changes to task history.
+   * Status and completion are kept in sync: a task is completed exactly when
+   * its status counts as done in its list. Setting completed moves it to the
+   * list's first done or not done status, and moving it to another list keeps
+   * its status only when that list has it.
+   * Blockers that would make the task wait on itself are rejected.
    * @param id - The task ID
    * @param data - The update data
    * @returns The updated task
    * @throws TaskNotFoundError if task doesn't exist
-   * @throws TaskValidationError if validation fails
+   * @throws TaskValidationError if validation fails, the list lacks the status or the blockers are invalid
+   * @throws TaskBlockedError if completing a task with open blockers
    */
   async update(id: string, data: UpdateTaskInput): Promise<Task> {
     const validation = validateUpdateTask(data);
@@ -367,6 +582,34 @@ export const taskService: ITaskService = {
     }
 
     const now = new Date();
+
+    // Work out the status and completion before anything is changed or logged
+    const listId = data.listId ?? existing.listId;
+    const statuses = await getStatusesForList(listId);
+    let status = existing.status;
+    if (data.status !== undefined) {
+      assertKnownStatus(statuses, data.status);
+      status = data.status;
+    } else if (data.completed !== undefined && data.completed !== existing.completed) {
+      status = getDefaultStatus(statuses, data.completed);
+    } else if (listId !== existing.listId) {
+      status = mapStatus(existing.status, await getStatusesForList(existing.listId), statuses);
+    }
+    const completion = status !== existing.status || listId !== existing.listId
+      ? getStatusCompletion({ completed: existing.completed, completedAt: existing.completedAt ?? undefined }, status, statuses, now)
+      : null;
+
+    // Check dependencies before anything is changed or logged
+    if (data.blockedByIds !== undefined) {
+      await validateBlockers(id, data.blockedByIds);
+    }
+    if (completion?.completed && !existing.completed) {
+      const blockers = data.blockedByIds !== undefined
+        ? await getDependenciesByIds(data.blockedByIds)
+        : await getBlockersForTask(id);
+      assertNotBlocked(existing.name, blockers);
+    }
+
     const updateData: Partial<typeof schema.tasks.$inferInsert> = {
       updatedAt: now,
     };
@@ -405,6 +648,15 @@ export const taskService: ITaskService = {
       }
     }
 
+    if (data.startDate !== undefined) {
+      const newStartDate = data.startDate ?? null;
+      const existingStartDate = existing.startDate;
+      if (serializeValue(newStartDate) !== serializeValue(existingStartDate)) {
+        updateData.startDate = newStartDate;
+        await logHistory(id, 'startDate', serializeValue(existingStartDate), serializeValue(newStartDate));
+      }
+    }
+
     if (data.estimate !== undefined) {
       const newEstimate = data.estimate ?? null;
       if (newEstimate !== existing.estimate) {
@@ -426,10 +678,16 @@ export const taskService: ITaskService = {
       await logHistory(id, 'priority', existing.priority, data.priority);
     }
 
-    if (data.completed !== undefined && data.completed !== existing.completed) {
-      updateData.completed = data.completed;
-      updateData.completedAt = data.completed ? now : null;
-      await logHistory(id, 'completed', String(existing.completed), String(data.completed));
+    // Status and completion move together; completedAt is kept between done statuses
+    if (status !== existing.status) {
+      updateData.status = status;
+      await logHistory(id, 'status', existing.status, status);
+    }
+
+    if (completion && completion.completed !== existing.completed) {
+      updateData.completed = completion.completed;
+      updateData.completedAt = completion.completedAt;
+      await logHistory(id, 'completed', String(existing.completed), String(completion.completed));
     }
 
     if (data.recurrence !== undefined) {
@@ -445,8 +703,23 @@ export const taskService: ITaskService = {
       .set(updateData)
       .where(eq(schema.tasks.id, id));
 
+    // Completing a recurring task here, e.g. from a board, rolls it forward like toggling does
+    if (updateData.completed && existing.recurrence) {
+      await createNextRecurringOccurrence(existing);
+    }
+
+    // Re-arm reminders when the deadline moves so they fire for the new deadline
+    if (updateData.deadline !== undefined) {
+      await db
+        .update(schema.reminders)
+        .set({ sent: false })
+        .where(eq(schema.reminders.taskId, id));
+    }
+
     // Handle label updates if provided
     if (data.labelIds !== undefined) {
+      const previousLabels = await getLabelsForTask(id);
+
       // Remove existing labels
       await db.delete(schema.taskLabels).where(eq(schema.taskLabels.taskId, id));
       
@@ -457,6 +730,22 @@ export const taskService: ITaskService = {
           labelId,
         });
       }
+
+      const newLabels = await getLabelsForTask(id);
+      if (idsKey(previousLabels) !== idsKey(newLabels)) {
+        await logHistory(id, 'labels', labelNames(previousLabels), labelNames(newLabels));
+      }
+    }
+
+    // Handle blocker updates if provided
+    if (data.blockedByIds !== undefined) {
+      const previousBlockers = await getBlockersForTask(id);
+      await setBlockers(id, data.blockedByIds);
+
+      const newBlockers = await getBlockersForTask(id);
+      if (idsKey(previousBlockers) !== idsKey(newBlockers)) {
+        await logHistory(id, 'blockedBy', blockerNames(previousBlockers), blockerNames(newBlockers));
+      }
     }
 
     const [updated] = await db
@@ -467,6 +756,8 @@ export const taskService: ITaskService = {
     const result = toTask(updated);
     result.labels = await getLabelsForTask(id);
     result.subtasks = await getSubtasksForTask(id);
+    result.blockedBy = await getBlockersForTask(id);
+    result.blocking = await getBlockedTasksForTask(id);
 
     return result;
   },
@@ -511,6 +802,9 @@ export const taskService: ITaskService = {
     const task = toTask(row);
     task.labels = await getLabelsForTask(id);
     task.subtasks = await getSubtasksForTask(id);
+    task.blockedBy = await getBlockersForTask(id);
+    task.blocking = await getBlockedTasksForTask(id);
+    task.reminders = await reminderService.getByTaskId(id);
 
     return task;
   },
@@ -537,6 +831,8 @@ export const taskService: ITaskService = {
       const task = toTask(row);
       task.labels = await getLabelsForTask(row.id);
       task.subtasks = await getSubtasksForTask(row.id);
+      task.blockedBy = await getBlockersForTask(row.id);
+      task.blocking = await getBlockedTasksForTask(row.id);
       tasks.push(task);
     }
 
@@ -571,6 +867,44 @@ export const taskService: ITaskService = {
       const task = toTask(row);
       task.labels = await getLabelsForTask(row.id);
       task.subtasks = await getSubtasksForTask(row.id);
+      task.blockedBy = await getBlockersForTask(row.id);
+      task.blocking = await getBlockedTasksForTask(row.id);
+      tasks.push(task);
+    }
+
+    return tasks;
+  },
+
+  /**
+   * Gets tasks with a deadline within a date range.
+   * @param start - Start date (inclusive)
+   * @param end - End date (exclusive)
+   * @param includeCompleted - Whether to include completed tasks (default: true)
+   * @returns Tasks due within the date range, earliest deadline first
+   */
+  async getByDeadlineRange(start: Date, end: Date, includeCompleted = true): Promise<Task[]> {
+    const conditions = [
+      gte(schema.tasks.deadline, start),
+      lt(schema.tasks.deadline, end),
+    ];
+
+    if (!includeCompleted) {
+      conditions.push(eq(schema.tasks.completed, false));
+    }
+
+    const rows = await db
+      .select()
+      .from(schema.tasks)
+      .where(and(...conditions))
+      .orderBy(asc(schema.tasks.deadline), asc(schema.tasks.createdAt));
+
+    const tasks: Task[] = [];
+    for (const row of rows) {
+      const task = toTask(row);
+      task.labels = await getLabelsForTask(row.id);
+      task.subtasks = await getSubtasksForTask(row.id);
+      task.blockedBy = await getBlockersForTask(row.id);
+      task.blocking = await getBlockedTasksForTask(row.id);
       tasks.push(task);
     }
 
@@ -579,33 +913,37 @@ export const taskService: ITaskService = {
 
   /**
    * Gets tasks scheduled for today.
-   * Tasks with date matching the current date (ignoring time).
+   * Tasks with date matching the current date (ignoring time), leaving out deferred tasks.
    * @param includeCompleted - Whether to include completed tasks (default: true)
    * @returns Today's tasks
    */
   async getToday(includeCompleted = true): Promise<Task[]> {
-    const today = new Date();
+    const now = new Date();
+    const today = new Date(now);
     today.setHours(0, 0, 0, 0);
     
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
 
-    return this.getByDateRange(today, tomorrow, includeCompleted);
+    const tasks = await this.getByDateRange(today, tomorrow, includeCompleted);
+    return tasks.filter(task => !isDeferred(task, now));
   },
 
   /**
-   * Gets tasks for the next 7 days (from today through 7 days ahead).
+   * Gets tasks for the next 7 days (from today through 7 days ahead), leaving out deferred tasks.
    * @param includeCompleted - Whether to include completed tasks (default: true)
    * @returns Tasks for the next 7 days
    */
   async getNext7Days(includeCompleted = true): Promise<Task[]> {
-    const today = new Date();
+    const now = new Date();
+    const today = new Date(now);
     today.setHours(0, 0, 0, 0);
     
     const endDate = new Date(today);
     endDate.setDate(endDate.getDate() + 8); // +8 because end is exclusive
 
-    return this.getByDateRange(today, endDate, includeCompleted);
+    const tasks = await this.getByDateRange(today, endDate, includeCompleted);
+    return tasks.filter(task => !isDeferred(task, now));
   },
 
   /**
@@ -646,6 +984,8 @@ export const taskService: ITaskService = {
       const task = toTask(row);
       task.labels = await getLabelsForTask(row.id);
       task.subtasks = await getSubtasksForTask(row.id);
+      task.blockedBy = await getBlockersForTask(row.id);
+      task.blocking = await getBlockedTasksForTask(row.id);
       tasks.push(task);
     }
 
@@ -663,7 +1003,7 @@ export const taskService: ITaskService = {
   },
 
   /**
-   * Gets all overdue tasks (incomplete with deadline in the past).
+   * Gets all overdue tasks (incomplete and not deferred, with deadline in the past).
    * @returns Overdue tasks
    */
   async getOverdue(): Promise<Task[]> {
@@ -675,7 +1015,8 @@ export const taskService: ITaskService = {
       .where(
         and(
           eq(schema.tasks.completed, false),
-          lt(schema.tasks.deadline, now)
+          lt(schema.tasks.deadline, now),
+          notDeferred(now)
         )
       )
       .orderBy(asc(schema.tasks.deadline));
@@ -685,6 +1026,8 @@ export const taskService: ITaskService = {
       const task = toTask(row);
       task.labels = await getLabelsForTask(row.id);
       task.subtasks = await getSubtasksForTask(row.id);
+      task.blockedBy = await getBlockersForTask(row.id);
+      task.blocking = await getBlockedTasksForTask(row.id);
       tasks.push(task);
     }
 
@@ -704,23 +1047,68 @@ export const taskService: ITaskService = {
       .where(
         and(
           eq(schema.tasks.completed, false),
-          lt(schema.tasks.deadline, now)
+          lt(schema.tasks.deadline, now),
+          notDeferred(now)
         )
       );
 
     return rows.length;
   },
 
+  /**
+   * Gets incomplete tasks that aren't deferred and are scheduled before today,
+   * the tasks that rollover and rescheduling move forward.
+   * @returns Overdue scheduled tasks, earliest date first
+   */
+  async getOverdueScheduled(): Promise<Task[]> {
+    const now = new Date();
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+
+    const rows = await db
+      .select()
+      .from(schema.tasks)
+      .where(
+        and(
+          eq(schema.tasks.completed, false),
+          lt(schema.tasks.date, today),
+          notDeferred(now)
+        )
+      )
+      .orderBy(asc(schema.tasks.date), asc(schema.tasks.createdAt));
+
+    const tasks: Task[] = [];
+    for (const row of rows) {
+      const task = toTask(row);
+      task.labels = await getLabelsForTask(row.id);
+      task.subtasks = await getSubtasksForTask(row.id);
+      task.blockedBy = await getBlockersForTask(row.id);
+      task.blocking = await getBlockedTasksForTask(row.id);
+      tasks.push(task);
+    }
+
+    return tasks;
+  },
+
   /**
    * Gets all tasks.
    * @param includeCompleted - Whether to include completed tasks (default: true)
+   * @param includeDeferred - Whether to include tasks whose start date hasn't come yet (default: false)
    * @returns All tasks
    */
-  async getAll(includeCompleted = true): Promise<Task[]> {
+  async getAll(includeCompleted = true, includeDeferred = false): Promise<Task[]> {
+    const conditions = [];
+    if (!includeCompleted) {
+      conditions.push(eq(schema.tasks.completed, false));
+    }
+    if (!includeDeferred) {
+      conditions.push(notDeferred(new Date()));
+    }
+
     const rows = await db
       .select()
       .from(schema.tasks)
-      .where(includeCompleted ? undefined : eq(schema.tasks.completed, false))
+      .where(and(...conditions))
       .orderBy(asc(schema.tasks.createdAt));
 
     const tasks: Task[] = [];
@@ -728,6 +1116,8 @@ export const taskService: ITaskService = {
       const task = toTask(row);
       task.labels = await getLabelsForTask(row.id);
       task.subtasks = await getSubtasksForTask(row.id);
+      task.blockedBy = await getBlockersForTask(row.id);
+      task.blocking = await getBlockedTasksForTask(row.id);
       tasks.push(task);
     }
 
@@ -737,11 +1127,14 @@ export const taskService: ITaskService = {
 
   /**
    * Toggles the completion status of a task.
+   * Moves it to its list's first done or not done status.
    * Logs the change to history.
    * If the task is recurring and being completed, creates the next occurrence.
+   * A task can't be completed while any of its blockers are open.
    * @param id - The task ID
    * @returns The updated task
    * @throws TaskNotFoundError if task doesn't exist
+   * @throws TaskBlockedError if completing a task with open blockers
    */
   async toggleComplete(id: string): Promise<Task> {
     const [existing] = await db
@@ -755,16 +1148,25 @@ export const taskService: ITaskService = {
 
     const now = new Date();
     const newCompleted = !existing.completed;
+    const newStatus = getDefaultStatus(await getStatusesForList(existing.listId), newCompleted);
+
+    if (newCompleted) {
+      assertNotBlocked(existing.name, await getBlockersForTask(id));
+    }
 
     await db
       .update(schema.tasks)
       .set({
+        status: newStatus,
         completed: newCompleted,
         completedAt: newCompleted ? now : null,
         updatedAt: now,
       })
       .where(eq(schema.tasks.id, id));
 
+    if (newStatus !== existing.status) {
+      await logHistory(id, 'status', existing.status, newStatus);
+    }
     await logHistory(id, 'completed', String(existing.completed), String(newCompleted));
 
     // Handle recurring task - create next occurrence when completing
@@ -780,6 +1182,8 @@ export const taskService: ITaskService = {
     const result = toTask(updated);
     result.labels = await getLabelsForTask(id);
     result.subtasks = await getSubtasksForTask(id);
+    result.blockedBy = await getBlockersForTask(id);
+    result.blocking = await getBlockedTasksForTask(id);
 
     return result;
   },
@@ -867,6 +1271,92 @@ export const taskService: ITaskService = {
     return toSubtask(updated);
   },
 
+  /**
+   * Updates a subtask's name and/or completion status.
+   * @param subtaskId - The subtask ID
+   * @param data - The fields to update
+   * @returns The updated subtask
+   * @throws SubtaskNotFoundError if subtask doesn't exist
+   * @throws TaskValidationError if the name is empty
+   */
+  async updateSubtask(subtaskId: string, data: UpdateSubtaskInput): Promise<Subtask> {
+    if (data.name !== undefined && (typeof data.name !== 'string' || data.name.trim() === '')) {
+      throw new TaskValidationError('Invalid subtask data', { name: ['Name is required'] });
+    }
+
+    if (data.completed !== undefined && typeof data.completed !== 'boolean') {
+      throw new TaskValidationError('Invalid subtask data', { completed: ['completed must be a boolean'] });
+    }
+
+    const [existing] = await db
+      .select()
+      .from(schema.subtasks)
+      .where(eq(schema.subtasks.id, subtaskId));
+
+    if (!existing) {
+      throw new SubtaskNotFoundError(subtaskId);
+    }
+
+    await db
+      .update(schema.subtasks)
+      .set({
+        ...(data.name !== undefined && { name: data.name.trim() }),
+        ...(data.completed !== undefined && { completed: data.completed }),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.subtasks.id, subtaskId));
+
+    const [updated] = await db
+      .select()
+      .from(schema.subtasks)
+      .where(eq(schema.subtasks.id, subtaskId));
+
+    return toSubtask(updated);
+  },
+
+  /**
+   * Reorders all subtasks of a task.
+   * The given IDs must be exactly the task's subtasks, in the new order.
+   * @param taskId - The parent task ID
+   * @param subtaskIds - Subtask IDs in their new order
+   * @returns The subtasks in their new order
+   * @throws TaskNotFoundError if parent task doesn't exist
+   * @throws TaskValidationError if the IDs don't match the task's subtasks
+   */
+  async reorderSubtasks(taskId: string, subtaskIds: string[]): Promise<Subtask[]> {
+    const [task] = await db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.id, taskId));
+
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    const existing = await getSubtasksForTask(taskId);
+    const existingIds = new Set(existing.map(s => s.id));
+    const isPermutation =
+      subtaskIds.length === existing.length &&
+      new Set(subtaskIds).size === subtaskIds.length &&
+      subtaskIds.every(id => existingIds.has(id));
+
+    if (!isPermutation) {
+      throw new TaskValidationError('Invalid subtask order', {
+        subtaskIds: ['subtaskIds must list every subtask of the task exactly once'],
+      });
+    }
+
+    const now = new Date();
+    for (const [index, id] of subtaskIds.entries()) {
+      await db
+        .update(schema.subtasks)
+        .set({ order: index, updatedAt: now })
+        .where(eq(schema.subtasks.id, id));
+    }
+
+    return getSubtasksForTask(taskId);
+  },
+
   /**
    * Deletes a subtask.
    * @param subtaskId - The subtask ID
@@ -885,6 +1375,140 @@ export const taskService: ITaskService = {
     await db.delete(schema.subtasks).where(eq(schema.subtasks.id, subtaskId));
   },
 
+  /**
+   * Promotes a subtask to a full task.
+   * The new task keeps the parent's list, labels and date, and the subtask's
+   * name and completion status. The subtask is removed from the parent.
+   * The conversion is logged in the history of both tasks.
+   * @param subtaskId - The subtask ID
+   * @returns The new task
+   * @throws SubtaskNotFoundError if subtask doesn't exist
+   */
+  async promoteSubtask(subtaskId: string): Promise<Task> {
+    const [subtask] = await db
+      .select()
+      .from(schema.subtasks)
+      .where(eq(schema.subtasks.id, subtaskId));
+
+    if (!subtask) {
+      throw new SubtaskNotFoundError(subtaskId);
+    }
+
+    const [parent] = await db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.id, subtask.taskId));
+
+    const now = new Date();
+    const id = uuidv4();
+
+    await db.insert(schema.tasks).values({
+      id,
+      name: subtask.name,
+      description: null,
+      listId: parent.listId,
+      date: parent.date,
+      deadline: null,
+      estimate: null,
+      actualTime: null,
+      priority: DEFAULT_PRIORITY,
+      status: getDefaultStatus(await getStatusesForList(parent.listId), subtask.completed),
+      completed: subtask.completed,
+      completedAt: subtask.completed ? now : null,
+      recurrence: null,
+      parentTaskId: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const parentLabels = await getLabelsForTask(parent.id);
+    for (const label of parentLabels) {
+      await db.insert(schema.taskLabels).values({
+        taskId: id,
+        labelId: label.id,
+      });
+    }
+
+    await db.delete(schema.subtasks).where(eq(schema.subtasks.id, subtaskId));
+
+    await logHistory(id, 'created', null, `Promoted from a subtask of "${parent.name}"`);
+    await logHistory(parent.id, 'subtasks', subtask.name, 'Promoted to a task');
+
+    const [task] = await db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.id, id));
+
+    const result = toTask(task);
+    result.labels = await getLabelsForTask(id);
+    result.subtasks = [];
+    result.blockedBy = [];
+    result.blocking = [];
+    result.reminders = [];
+
+    return result;
+  },
+
+  /**
+   * Demotes a task to a subtask of another task.
+   * Only tasks without subtasks can be demoted. The subtask keeps the task's
+   * name and completion status; the task itself is deleted along with its
+   * reminders, attachments and history.
+   * The conversion is logged in the new parent's history.
+   * @param taskId - The task to demote
+   * @param parentTaskId - The task that receives the new subtask
+   * @returns The new subtask
+   * @throws TaskNotFoundError if either task doesn't exist
+   * @throws TaskValidationError if the task has subtasks or is its own parent
+   */
+  async demoteToSubtask(taskId: string, parentTaskId: string): Promise<Subtask> {
+    if (taskId === parentTaskId) {
+      throw new TaskValidationError('Invalid demotion', {
+        parentTaskId: ['A task cannot become its own subtask'],
+      });
+    }
+
+    const [task] = await db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.id, taskId));
+
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    const [parent] = await db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.id, parentTaskId));
+
+    if (!parent) {
+      throw new TaskNotFoundError(parentTaskId);
+    }
+
+    const childSubtasks = await getSubtasksForTask(taskId);
+    if (childSubtasks.length > 0) {
+      throw new TaskValidationError('Invalid demotion', {
+        subtasks: ['Only tasks without subtasks can be demoted'],
+      });
+    }
+
+    const subtask = await this.addSubtask(parentTaskId, task.name);
+    if (task.completed) {
+      await db
+        .update(schema.subtasks)
+        .set({ completed: true })
+        .where(eq(schema.subtasks.id, subtask.id));
+      subtask.completed = true;
+    }
+
+    await db.delete(schema.tasks).where(eq(schema.tasks.id, taskId));
+
+    await logHistory(parentTaskId, 'subtasks', null, `Demoted task "${task.name}" to a subtask`);
+
+    return subtask;
+  },
+
   /**
    * Gets the history of changes for a task.
    * @param taskId - The task ID
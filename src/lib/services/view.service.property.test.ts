@@ -26,8 +26,11 @@ import type {
   UpdateListInput,
   Priority,
   GroupedTasks,
+  WorkflowStatus,
 } from '@/types';
 import { validateCreateTask, validateUpdateTask, validateCreateList, validateUpdateList, DEFAULT_PRIORITY } from '@/lib/utils/validation';
+import { getListStatuses } from '@/lib/utils/workflow';
+import { isOverdueScheduled } from '@/lib/utils/rollover';
 
 // Test database setup
 let testDb: ReturnType<typeof drizzle>;
@@ -45,6 +48,7 @@ function toTask(row: typeof schema.tasks.$inferSelect): Task {
     estimate: row.estimate ?? undefined,
     actualTime: row.actualTime ?? undefined,
     priority: row.priority as Task['priority'],
+    status: row.status as Task['status'],
     completed: row.completed,
     completedAt: row.completedAt ?? undefined,
     recurrence: undefined,
@@ -61,6 +65,10 @@ function toList(row: typeof schema.lists.$inferSelect): List {
     color: row.color ?? undefined,
     emoji: row.emoji ?? undefined,
     isInbox: row.isInbox,
+    viewMode: row.viewMode as List['viewMode'],
+    boardGrouping: row.boardGrouping as List['boardGrouping'],
+    statuses: getListStatuses({ statuses: (row.statuses as WorkflowStatus[] | null) ?? [] }),
+    rollover: row.rollover,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   };
@@ -470,6 +478,24 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
       return tasks;
     },
 
+    async getByDeadlineRange(start: Date, end: Date, includeCompleted = true): Promise<Task[]> {
+      const rows = db.select().from(schema.tasks).all();
+      const filtered = rows.filter(r => {
+        if (!r.deadline) return false;
+        if (!includeCompleted && r.completed) return false;
+        return r.deadline >= start && r.deadline < end;
+      });
+      filtered.sort((a, b) => a.deadline!.getTime() - b.deadline!.getTime());
+      const tasks: Task[] = [];
+      for (const row of filtered) {
+        const task = toTask(row);
+        task.labels = await getLabelsForTask(row.id);
+        task.subtasks = await getSubtasksForTask(row.id);
+        tasks.push(task);
+      }
+      return tasks;
+    },
+
     async getToday(includeCompleted = true): Promise<Task[]> {
       const today = new Date();
       today.setHours(0, 0, 0, 0);
@@ -533,6 +559,22 @@ function createTestTaskService(db: ReturnType<typeof drizzle>, listService: ILis
       return tasks;
     },
 
+    async getOverdueScheduled(): Promise<Task[]> {
+      const now = new Date();
+      const rows = db.select().from(schema.tasks).all();
+      const filtered = rows
+        .filter(r => isOverdueScheduled(toTask(r), now))
+        .sort((a, b) => a.date!.getTime() - b.date!.getTime());
+      const tasks: Task[] = [];
+      for (const row of filtered) {
+        const task = toTask(row);
+        task.labels = await getLabelsForTask(row.id);
+        task.subtasks = await getSubtasksForTask(row.id);
+        tasks.push(task);
+      }
+      return tasks;
+    },
+
     async getAll(includeCompleted = true): Promise<Task[]> {
       const rows = db.select().from(schema.tasks).all();
       const filtered = includeCompleted ? rows : rows.filter(r => !r.completed);
@@ -629,6 +671,10 @@ beforeAll(() => {
       color TEXT,
       emoji TEXT,
       is_inbox INTEGER NOT NULL DEFAULT 0,
+      view_mode TEXT NOT NULL DEFAULT 'list',
+      board_grouping TEXT NOT NULL DEFAULT 'status',
+      statuses TEXT,
+      rollover INTEGER NOT NULL DEFAULT 0,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL
     );
@@ -648,9 +694,11 @@ beforeAll(() => {
       list_id TEXT NOT NULL REFERENCES lists(id),
       date INTEGER,
       deadline INTEGER,
+      start_date INTEGER,
       estimate INTEGER,
       actual_time INTEGER,
       priority TEXT NOT NULL DEFAULT 'none',
+      status TEXT NOT NULL DEFAULT 'todo',
       completed INTEGER NOT NULL DEFAULT 0,
       completed_at INTEGER,
       recurrence TEXT,
@@ -1662,3 +1710,68 @@ describe('Property 33: Overdue Completion Clearing', () => {
     );
   });
 });
+
+describe('Property 65: Date Range Queries', () => {
+  /**
+   * **Feature: daily-task-planner, Property 65: Date Range Queries**
+   * **Validates: Requirements 13.1, 16.1**
+   *
+   * For any tasks and range, the date range query SHALL return exactly the
+   * tasks scheduled within the range and the deadline range query exactly
+   * the tasks due within it, in order, leaving out completed tasks when asked.
+   */
+  const rangeTask = fc.record({
+    name: validTaskName,
+    dateHours: fc.option(fc.integer({ min: -40 * 24, max: 40 * 24 }), { nil: undefined }),
+    deadlineHours: fc.option(fc.integer({ min: -40 * 24, max: 40 * 24 }), { nil: undefined }),
+    completed: fc.boolean(),
+  });
+
+  const rangeArb = fc
+    .tuple(fc.integer({ min: -35, max: 35 }), fc.integer({ min: 1, max: 42 }))
+    .map(([startOffset, days]) => {
+      const start = addDays(dateAtMidnight(new Date()), startOffset);
+      return { start, end: addDays(start, days) };
+    });
+
+  test('Date and deadline range queries return exactly the tasks in the range', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(rangeTask, { maxLength: 15 }),
+        rangeArb,
+        fc.boolean(),
+        async (taskDataList, { start, end }, includeCompleted) => {
+          sqlite.exec('DELETE FROM task_history');
+          sqlite.exec('DELETE FROM tasks');
+          sqlite.exec('DELETE FROM lists');
+          await listService.ensureInboxExists();
+
+          const now = new Date();
+          const created: Task[] = [];
+          for (const data of taskDataList) {
+            let task = await taskService.create({
+              name: data.name,
+              date: data.dateHours !== undefined ? new Date(now.getTime() + data.dateHours * 3600 * 1000) : undefined,
+              deadline: data.deadlineHours !== undefined ? new Date(now.getTime() + data.deadlineHours * 3600 * 1000) : undefined,
+            });
+            if (data.completed) task = await taskService.toggleComplete(task.id);
+            created.push(task);
+          }
+
+          const inRange = (date?: Date): boolean => !!date && date >= start && date < end;
+          const visible = created.filter(t => includeCompleted || !t.completed);
+
+          const scheduled = await taskService.getByDateRange(start, end, includeCompleted);
+          const due = await taskService.getByDeadlineRange(start, end, includeCompleted);
+
+          expect(scheduled.map(t => t.id).sort()).toEqual(visible.filter(t => inRange(t.date)).map(t => t.id).sort());
+          expect(due.map(t => t.id).sort()).toEqual(visible.filter(t => inRange(t.deadline)).map(t => t.id).sort());
+          for (let i = 1; i < due.length; i++) {
+            expect(due[i - 1].deadline!.getTime()).toBeLessThanOrEqual(due[i].deadline!.getTime());
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Property-based tests for auto-planning
+ *
+ * Tests Property 62 for packing unscheduled tasks into free working time
+ * **Validates: Requirements 29.3**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { compareForPlanning, isPlannable, planTasks } from './auto-plan';
+import {
+  DEFAULT_SCHEDULING_PROFILE,
+  fromZonedTime,
+  getWorkingPeriods,
+  getZonedDateTime,
+  type TimeSlot,
+} from './working-hours';
+import type { Priority, SchedulingProfile, Task, TaskDependency } from '@/types';
+
+// Monday 19 October 2026, 10:07 in the profile's timezone
+const TIMEZONE = 'Europe/Berlin';
+const TODAY = '2026-10-19';
+const NOW = fromZonedTime(TODAY, 10 * 60 + 7, TIMEZONE);
+
+const PROFILE: SchedulingProfile = {
+  ...DEFAULT_SCHEDULING_PROFILE,
+  timezone: TIMEZONE,
+  workingDays: DEFAULT_SCHEDULING_PROFILE.workingDays.map((day, weekday) => ({
+    ...day,
+    enabled: weekday !== 0 && weekday !== 6,
+    breaks: [{ start: '12:00', end: '13:00' }],
+  })),
+  slotMinutes: 15,
+};
+
+function task(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task',
+    name: 'Task',
+    listId: 'inbox',
+    priority: 'none',
+    status: 'todo',
+    completed: false,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function toDependency(blocker: Task): TaskDependency {
+  const { id, name, listId, completed, date, estimate } = blocker;
+  return { id, name, listId, completed, date, estimate };
+}
+
+function overlaps(a: TimeSlot, b: TimeSlot): boolean {
+  return a.start < b.end && a.end > b.start;
+}
+
+const priorityArb = fc.constantFrom<Priority>('high', 'medium', 'low', 'none');
+
+// Dates with no time of day, from three days ago to ten days ahead
+const dateOnlyArb = fc.integer({ min: -3, max: 10 }).map(offset => {
+  const date = new Date(`${TODAY}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + offset);
+  return fromZonedTime(date.toISOString().slice(0, 10), 0, TIMEZONE);
+});
+
+const tasksArb = fc
+  .array(
+    fc.record({
+      estimate: fc.option(fc.integer({ min: 15, max: 180 }), { nil: undefined }),
+      priority: priorityArb,
+      completed: fc.boolean(),
+      date: fc.option(dateOnlyArb, { nil: undefined }),
+      deadlineHours: fc.option(fc.integer({ min: 1, max: 240 }), { nil: undefined }),
+    }),
+    { maxLength: 25 }
+  )
+  .map(records => records.map((record, index) => task({
+    id: `task-${index}`,
+    name: `Task ${index}`,
+    estimate: record.estimate,
+    priority: record.priority,
+    completed: record.completed,
+    date: record.date,
+    deadline: record.deadlineHours ? new Date(NOW.getTime() + record.deadlineHours * 3600 * 1000) : undefined,
+    createdAt: new Date(NOW.getTime() - index * 1000),
+  })));
+
+// Times already taken, inside working hours of the next few days
+const busyArb = fc.array(
+  fc.record({ day: fc.integer({ min: 0, max: 4 }), start: fc.integer({ min: 9 * 4, max: 17 * 4 }), quarters: fc.integer({ min: 1, max: 8 }) }),
+  { maxLength: 8 }
+).map(records => records.map(({ day, start, quarters }) => {
+  const date = new Date(`${TODAY}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + day);
+  const slotStart = fromZonedTime(date.toISOString().slice(0, 10), start * 15, TIMEZONE);
+  return { start: slotStart, end: new Date(slotStart.getTime() + quarters * 15 * 60 * 1000) };
+}));
+
+const daysArb = fc.integer({ min: 1, max: 7 });
+
+describe('Property 62: Auto-Plan Packing', () => {
+  /**
+   * **Feature: daily-task-planner, Property 62: Auto-Plan Packing**
+   * **Validates: Requirements 29.3**
+   *
+   * For any set of tasks and busy times, auto-planning SHALL place each
+   * plannable task at most once, in future working time within the window,
+   * without overlapping busy times or other planned tasks.
+   */
+  test('Planned tasks never overlap each other or busy time', () => {
+    fc.assert(
+      fc.property(tasksArb, busyArb, daysArb, (tasks, busy, days) => {
+        const { assignments } = planTasks(tasks, busy, PROFILE, NOW, days);
+        const slots = assignments.map(a => ({ start: a.startTime, end: a.endTime }));
+
+        slots.forEach((slot, i) => {
+          for (const other of [...busy, ...slots.slice(i + 1)]) {
+            expect(overlaps(slot, other)).toBe(false);
+          }
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Planned tasks fall in future working time within the window', () => {
+    fc.assert(
+      fc.property(tasksArb, busyArb, daysArb, (tasks, busy, days) => {
+        const { assignments } = planTasks(tasks, busy, PROFILE, NOW, days);
+
+        for (const { task: planned, startTime, endTime } of assignments) {
+          const start = getZonedDateTime(startTime, TIMEZONE);
+          const periods = getWorkingPeriods(start.date, PROFILE);
+
+          expect(startTime > NOW).toBe(true);
+          expect((endTime.getTime() - startTime.getTime()) / 60000).toBe(planned.estimate!);
+          expect(start.date >= TODAY).toBe(true);
+          expect(fromZonedTime(start.date, 0, TIMEZONE) < fromZonedTime(TODAY, days * 24 * 60, TIMEZONE)).toBe(true);
+          expect(periods.some(([from, to]) => start.minutes >= from && start.minutes + planned.estimate! <= to)).toBe(true);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Each plannable task in the window is either planned or reported once', () => {
+    fc.assert(
+      fc.property(tasksArb, busyArb, daysArb, (tasks, busy, days) => {
+        const { assignments, unplanned } = planTasks(tasks, busy, PROFILE, NOW, days);
+        const lastDay = fromZonedTime(TODAY, days * 24 * 60, TIMEZONE);
+        const expected = tasks
+          .filter(t => isPlannable(t, TIMEZONE) && (!t.date || t.date < lastDay))
+          .map(t => t.id)
+          .sort();
+        const seen = [...assignments.map(a => a.task.id), ...unplanned.map(t => t.id)].sort();
+
+        expect(seen).toEqual(expected);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Tasks dated within the window stay on their day', () => {
+    fc.assert(
+      fc.property(tasksArb, busyArb, daysArb, (tasks, busy, days) => {
+        const { assignments } = planTasks(tasks, busy, PROFILE, NOW, days);
+
+        for (const { task: planned, startTime } of assignments) {
+          if (!planned.date) continue;
+          const dated = getZonedDateTime(planned.date, TIMEZONE).date;
+          if (dated >= TODAY) {
+            expect(getZonedDateTime(startTime, TIMEZONE).date).toBe(dated);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Among equally long undated tasks, earlier planning order gets an earlier slot', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.record({ priority: priorityArb, deadlineHours: fc.option(fc.integer({ min: 1, max: 200 }), { nil: undefined }) }), { maxLength: 30 }),
+        fc.integer({ min: 15, max: 120 }),
+        busyArb,
+        (records, estimate, busy) => {
+          const tasks = records.map((record, index) => task({
+            id: `task-${index}`,
+            estimate,
+            priority: record.priority,
+            deadline: record.deadlineHours ? new Date(NOW.getTime() + record.deadlineHours * 3600 * 1000) : undefined,
+            createdAt: new Date(NOW.getTime() + index * 1000),
+          }));
+          const { assignments } = planTasks(tasks, busy, PROFILE, NOW, 7);
+          const ordered = [...assignments].sort((a, b) => compareForPlanning(a.task, b.task));
+
+          for (let i = 1; i < ordered.length; i++) {
+            expect(ordered[i - 1].startTime <= ordered[i].startTime).toBe(true);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('No task is planned before its open blockers end', () => {
+    fc.assert(
+      fc.property(
+        tasksArb,
+        fc.array(fc.array(fc.nat(), { maxLength: 3 }), { maxLength: 25 }),
+        busyArb,
+        daysArb,
+        (tasks, picks, busy, days) => {
+          // Each task waits on some of the tasks before it, so there are no loops
+          const blocked = tasks.map((t, index) => ({
+            ...t,
+            blockedBy: index === 0 ? [] : (picks[index] ?? []).map(pick => toDependency(tasks[pick % index])),
+          }));
+          const { assignments } = planTasks(blocked, busy, PROFILE, NOW, days);
+          const plannedAt = new Map(assignments.map(a => [a.task.id, a]));
+
+          for (const { task: planned, startTime } of assignments) {
+            for (const blocker of planned.blockedBy ?? []) {
+              if (blocker.completed) continue;
+              const blockerEnd = plannedAt.get(blocker.id)?.endTime
+                ?? (blocker.date && new Date(blocker.date.getTime() + (blocker.estimate ?? 0) * 60000));
+              if (blockerEnd) expect(startTime >= blockerEnd).toBe(true);
+            }
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('No task is planned before its start date', () => {
+    fc.assert(
+      fc.property(
+        tasksArb,
+        fc.array(fc.option(fc.integer({ min: -48, max: 240 }), { nil: undefined }), { maxLength: 25 }),
+        busyArb,
+        daysArb,
+        (tasks, startHours, busy, days) => {
+          const deferred = tasks.map((t, index) => ({
+            ...t,
+            startDate: startHours[index] === undefined ? undefined : new Date(NOW.getTime() + startHours[index]! * 3600 * 1000),
+          }));
+          const { assignments } = planTasks(deferred, busy, PROFILE, NOW, days);
+
+          for (const { task: planned, startTime } of assignments) {
+            if (planned.startDate) expect(startTime >= planned.startDate).toBe(true);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('A task deferred to a later day is planned from that day', () => {
+    const tomorrow = fromZonedTime('2026-10-20', 0, TIMEZONE);
+    const tasks = [task({ id: 'deferred', estimate: 30, startDate: tomorrow })];
+
+    expect(planTasks(tasks, [], PROFILE, NOW, 1)).toEqual({ assignments: [], unplanned: tasks });
+    expect(planTasks(tasks, [], PROFILE, NOW, 2).assignments[0].startTime).toEqual(fromZonedTime('2026-10-20', 9 * 60, TIMEZONE));
+  });
+
+  test('A blocker is planned before the task waiting on it, whatever their priorities', () => {
+    const blocker = task({ id: 'blocker', estimate: 60, priority: 'low' });
+    const tasks = [
+      task({ id: 'waiting', estimate: 30, priority: 'high', blockedBy: [toDependency(blocker)] }),
+      blocker,
+    ];
+
+    const { assignments } = planTasks(tasks, [], PROFILE, NOW, 1);
+
+    expect(assignments.map(a => a.task.id)).toEqual(['blocker', 'waiting']);
+    expect(assignments[0].startTime).toEqual(fromZonedTime(TODAY, 10 * 60 + 15, TIMEZONE));
+    expect(assignments[1].startTime).toEqual(fromZonedTime(TODAY, 11 * 60 + 15, TIMEZONE));
+  });
+
+  test('Tasks that do not fit are reported as unplanned', () => {
+    // Today has 10:15-12:00 and 13:00-18:00 left
+    const tasks = [
+      task({ id: 'long', estimate: 6 * 60, date: fromZonedTime(TODAY, 0, TIMEZONE), priority: 'high' }),
+      task({ id: 'short', estimate: 90 }),
+      task({ id: 'timed', estimate: 30, date: fromZonedTime(TODAY, 15 * 60, TIMEZONE) }),
+      task({ id: 'done', estimate: 30, completed: true }),
+    ];
+
+    const { assignments, unplanned } = planTasks(tasks, [], PROFILE, NOW, 1);
+
+    expect(unplanned.map(t => t.id)).toEqual(['long']);
+    expect(assignments.map(a => a.task.id)).toEqual(['short']);
+    expect(assignments[0].startTime).toEqual(fromZonedTime(TODAY, 10 * 60 + 15, TIMEZONE));
+  });
+
+  test('Priority comes before deadline in planning order', () => {
+    const soon = new Date(NOW.getTime() + 3600 * 1000);
+    const later = new Date(NOW.getTime() + 48 * 3600 * 1000);
+    const tasks = [
+      task({ id: 'low-soon', priority: 'low', deadline: soon }),
+      task({ id: 'high-later', priority: 'high', deadline: later }),
+      task({ id: 'high-none', priority: 'high' }),
+      task({ id: 'high-soon', priority: 'high', deadline: soon }),
+    ];
+
+    expect([...tasks].sort(compareForPlanning).map(t => t.id)).toEqual([
+      'high-soon',
+      'high-later',
+      'high-none',
+      'low-soon',
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import type { AutoPlan, AutoPlanAssignment, Priority, SchedulingProfile, Task } from '@/types';
+import {
+  addDaysToDateKey,
+  generateWorkingSlots,
+  getZonedDateTime,
+  type TimeSlot,
+} from './working-hours';
+import { getBlockersEnd, getOpenBlockers } from './dependencies';
+
+// Higher priority tasks are planned first
+const PRIORITY_RANK: Record<Priority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+  none: 3,
+};
+
+/**
+ * Checks whether a date carries a time of day, as opposed to a date picked
+ * without one (stored as midnight in the profile's timezone)
+ */
+export function hasTimeOfDay(date: Date, timezone: string): boolean {
+  return getZonedDateTime(date, timezone).minutes !== 0;
+}
+
+/**
+ * Checks whether auto-planning should find a time for a task:
+ * it is incomplete, has an estimate and has no time of day yet
+ */
+export function isPlannable(task: Task, timezone: string): boolean {
+  if (task.completed || !task.estimate || task.estimate <= 0) return false;
+  return !task.date || !hasTimeOfDay(task.date, timezone);
+}
+
+/**
+ * Orders tasks for planning: by priority, then by deadline (earliest first,
+ * tasks without one last), then by creation so the order is stable
+ */
+export function compareForPlanning(a: Task, b: Task): number {
+  const byPriority = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+  if (byPriority !== 0) return byPriority;
+
+  const aDeadline = a.deadline?.getTime() ?? Infinity;
+  const bDeadline = b.deadline?.getTime() ?? Infinity;
+  if (aDeadline !== bDeadline) return aDeadline < bDeadline ? -1 : 1;
+
+  return a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+function overlaps(a: TimeSlot, b: TimeSlot): boolean {
+  return a.start < b.end && a.end > b.start;
+}
+
+/**
+ * Takes the next task to plan: the first in planning order that isn't
+ * waiting on a blocker still to be planned
+ */
+function takeNextCandidate(pending: Task[]): Task {
+  const ready = pending.findIndex(task =>
+    !getOpenBlockers(task).some(blocker => pending.some(other => other.id === blocker.id))
+  );
+  return pending.splice(Math.max(ready, 0), 1)[0];
+}
+
+/**
+ * Packs unscheduled tasks into free working slots, one task at a time in
+ * planning order, each taking the earliest slot that overlaps neither busy
+ * time nor a task planned before it.
+ * Tasks dated within the window stay on their day; tasks dated after it
+ * are left alone. No task starts before its start date or before its
+ * scheduled open blockers end, counting blockers planned in the same run at
+ * their new times.
+ * @param tasks - Candidate tasks, with their blockers; those that are not plannable are ignored
+ * @param busy - Times already taken, such as tasks that have a time
+ * @param profile - The scheduling profile
+ * @param now - Slots must start after this instant
+ * @param days - Number of days to plan, starting today
+ */
+export function planTasks(
+  tasks: Task[],
+  busy: TimeSlot[],
+  profile: SchedulingProfile,
+  now: Date,
+  days: number
+): AutoPlan {
+  const today = getZonedDateTime(now, profile.timezone).date;
+  const lastDay = addDaysToDateKey(today, days - 1);
+  const taken = [...busy];
+  const assignments: AutoPlanAssignment[] = [];
+  const unplanned: Task[] = [];
+
+  const pending = tasks
+    .filter(task => isPlannable(task, profile.timezone))
+    .sort(compareForPlanning);
+  const planned = new Map<string, TimeSlot>();
+
+  while (pending.length > 0) {
+    const task = takeNextCandidate(pending);
+    const dateKey = task.date ? getZonedDateTime(task.date, profile.timezone).date : undefined;
+    if (dateKey && dateKey > lastDay) continue;
+
+    // A date before today no longer pins the task to a day
+    const planDays = dateKey && dateKey >= today
+      ? [dateKey]
+      : Array.from({ length: days }, (_, day) => addDaysToDateKey(today, day));
+
+    // The task can't start until the last of its blockers is done
+    const blockersEnd = getBlockersEnd((task.blockedBy ?? []).map(blocker => {
+      const slot = planned.get(blocker.id);
+      return slot ? { ...blocker, date: slot.start } : blocker;
+    }));
+
+    let slot: TimeSlot | undefined;
+    for (const date of planDays) {
+      slot = generateWorkingSlots(date, profile, task.estimate).find(candidate =>
+        candidate.start > now &&
+        !(task.startDate && candidate.start < task.startDate) &&
+        !(blockersEnd && candidate.start < blockersEnd) &&
+        !taken.some(time => overlaps(candidate, time))
+      );
+      if (slot) break;
+    }
+
+    if (slot) {
+      taken.push(slot);
+      planned.set(task.id, slot);
+      assignments.push({ task, startTime: slot.start, endTime: slot.end });
+    } else {
+      unplanned.push(task);
+    }
+  }
+
+  assignments.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  return { assignments, unplanned };
+}
@@ -0,0 +1,148 @@
+/**
+ * Property-based tests for splitting a list's tasks into board columns
+ *
+ * Tests Property 69 for board columns and moves between them
+ * **Validates: Requirements 8.2, 9.1**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { NO_LABEL_COLUMN, getBoardColumns, getBoardMove, getTaskColumnIds } from './board';
+import { VALID_BOARD_GROUPINGS, VALID_PRIORITIES } from './validation';
+import { DEFAULT_WORKFLOW_STATUSES } from './workflow';
+import type { Label, Task, UpdateTaskInput } from '@/types';
+
+const NOW = new Date(2026, 9, 19);
+
+const LABELS: Label[] = ['home', 'urgent', 'work'].map(name => ({
+  id: `label-${name}`,
+  name,
+  createdAt: NOW,
+  updatedAt: NOW,
+}));
+
+const tasksArb: fc.Arbitrary<Task[]> = fc
+  .array(
+    fc.record({
+      status: fc.constantFrom(...DEFAULT_WORKFLOW_STATUSES),
+      priority: fc.constantFrom(...VALID_PRIORITIES),
+      labels: fc.subarray(LABELS),
+    }),
+    { maxLength: 20 }
+  )
+  .map(records => records.map((record, index) => ({
+    id: `task-${index}`,
+    name: `Task ${index}`,
+    listId: 'list',
+    priority: record.priority,
+    status: record.status.id,
+    completed: record.status.done,
+    labels: record.labels,
+    createdAt: NOW,
+    updatedAt: NOW,
+  })));
+
+/**
+ * Applies a board move the way the task service does
+ */
+function applyMove(task: Task, data: UpdateTaskInput): Task {
+  return {
+    ...task,
+    status: data.status ?? task.status,
+    priority: data.priority ?? task.priority,
+    labels: data.labelIds ? LABELS.filter(label => data.labelIds!.includes(label.id)) : task.labels,
+  };
+}
+
+describe('Property 69: Board Columns', () => {
+  /**
+   * **Feature: daily-task-planner, Property 69: Board Columns**
+   * **Validates: Requirements 8.2, 9.1**
+   *
+   * For any tasks and grouping, each task SHALL appear, in order, in
+   * exactly the columns of its status, priority or labels. Moving a card
+   * to another column SHALL put the task in that column and take it out of
+   * the one it was dragged from.
+   */
+  test('Each task sits in exactly its own columns, in order', () => {
+    fc.assert(
+      fc.property(tasksArb, fc.constantFrom(...VALID_BOARD_GROUPINGS), (tasks, grouping) => {
+        const columns = getBoardColumns(tasks, grouping, LABELS);
+
+        for (const column of columns) {
+          expect(column.tasks).toEqual(tasks.filter(task => getTaskColumnIds(task, grouping).includes(column.id)));
+        }
+        for (const task of tasks) {
+          const ids = columns.filter(column => column.tasks.includes(task)).map(column => column.id);
+          expect(ids.length).toBeGreaterThan(0);
+          if (grouping !== 'label') expect(ids).toHaveLength(1);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Columns follow the workflow, priority and label order', () => {
+    expect(getBoardColumns([], 'status').map(column => column.id)).toEqual([
+      'todo', 'doing', 'waiting', 'done', 'cancelled',
+    ]);
+    const statuses = [
+      { id: 'backlog', name: 'Backlog', done: false },
+      { id: 'shipped', name: 'Shipped', done: true },
+    ];
+    expect(getBoardColumns([], 'status', [], statuses).map(column => column.title)).toEqual(['Backlog', 'Shipped']);
+    expect(getBoardColumns([], 'priority').map(column => column.id)).toEqual(['high', 'medium', 'low', 'none']);
+    expect(getBoardColumns([], 'label', LABELS).map(column => column.id)).toEqual([
+      ...LABELS.map(label => label.id),
+      NO_LABEL_COLUMN,
+    ]);
+  });
+
+  test('Moving a card puts the task in the target column only', () => {
+    fc.assert(
+      fc.property(
+        tasksArb.filter(tasks => tasks.length > 0),
+        fc.constantFrom(...VALID_BOARD_GROUPINGS),
+        fc.nat(),
+        fc.nat(),
+        (tasks, grouping, taskIndex, columnIndex) => {
+          const columns = getBoardColumns(tasks, grouping, LABELS);
+          const task = tasks[taskIndex % tasks.length];
+          const fromColumnId = getTaskColumnIds(task, grouping)[0];
+          const toColumnId = columns[columnIndex % columns.length].id;
+
+          const data = getBoardMove(task, grouping, fromColumnId, toColumnId);
+          if (getTaskColumnIds(task, grouping).includes(toColumnId)) {
+            expect(data).toBeNull();
+            return;
+          }
+
+          expect(data).not.toBeNull();
+          const moved = getTaskColumnIds(applyMove(task, data!), grouping);
+          expect(moved).toContain(toColumnId);
+          expect(moved).not.toContain(fromColumnId);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Moving between label columns keeps the other labels', () => {
+    const [home, urgent, work] = LABELS;
+    const task: Task = {
+      id: 'task',
+      name: 'Task',
+      listId: 'list',
+      priority: 'none',
+      status: 'todo',
+      completed: false,
+      labels: [home, urgent],
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+
+    expect(getBoardMove(task, 'label', home.id, work.id)).toEqual({ labelIds: [urgent.id, work.id] });
+    expect(getBoardMove(task, 'label', home.id, NO_LABEL_COLUMN)).toEqual({ labelIds: [] });
+    expect(getBoardMove(task, 'label', home.id, urgent.id)).toBeNull();
+  });
+});
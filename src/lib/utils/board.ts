@@ -0,0 +1,95 @@
+import type { BoardGrouping, Label, Priority, Task, UpdateTaskInput, WorkflowStatus } from '@/types';
+import { DEFAULT_WORKFLOW_STATUSES } from './workflow';
+
+// Column for tasks without labels when grouping by label
+export const NO_LABEL_COLUMN = 'no-label';
+
+export const BOARD_GROUPING_TITLES: Record<BoardGrouping, string> = {
+  status: 'By status',
+  priority: 'By priority',
+  label: 'By label',
+};
+
+// Priority columns run from most to least urgent
+const PRIORITY_COLUMNS: { id: Priority; title: string }[] = [
+  { id: 'high', title: 'High' },
+  { id: 'medium', title: 'Medium' },
+  { id: 'low', title: 'Low' },
+  { id: 'none', title: 'No priority' },
+];
+
+/**
+ * A column of the board and the tasks in it
+ */
+export interface BoardColumn {
+  id: string;
+  title: string;
+  tasks: Task[];
+}
+
+/**
+ * Gets the IDs of the columns a task sits in.
+ * A task with several labels sits in each of their columns.
+ */
+export function getTaskColumnIds(task: Task, grouping: BoardGrouping): string[] {
+  if (grouping === 'status') return [task.status];
+  if (grouping === 'priority') return [task.priority];
+  const labelIds = (task.labels ?? []).map(label => label.id);
+  return labelIds.length > 0 ? labelIds : [NO_LABEL_COLUMN];
+}
+
+/**
+ * Splits tasks into the board's columns, keeping their order within each column
+ * @param tasks - Tasks on the board
+ * @param grouping - What the columns are
+ * @param labels - All labels, in the order their columns are shown
+ * @param statuses - The list's workflow statuses, in the order their columns are shown
+ */
+export function getBoardColumns(
+  tasks: Task[],
+  grouping: BoardGrouping,
+  labels: Label[] = [],
+  statuses: WorkflowStatus[] = DEFAULT_WORKFLOW_STATUSES
+): BoardColumn[] {
+  const columns: BoardColumn[] =
+    grouping === 'status'
+      ? statuses.map(status => ({ id: status.id, title: status.name, tasks: [] }))
+      : grouping === 'priority'
+        ? PRIORITY_COLUMNS.map(column => ({ ...column, tasks: [] }))
+        : [
+            ...labels.map(label => ({ id: label.id, title: label.name, tasks: [] })),
+            { id: NO_LABEL_COLUMN, title: 'No label', tasks: [] },
+          ];
+
+  const byId = new Map(columns.map(column => [column.id, column]));
+  for (const task of tasks) {
+    for (const columnId of getTaskColumnIds(task, grouping)) {
+      byId.get(columnId)?.tasks.push(task);
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Gets the update that moves a task from one column to another,
+ * or null when it is already there.
+ * Moving between label columns swaps the label it was dragged from for the
+ * target label; moving to "No label" clears its labels.
+ */
+export function getBoardMove(
+  task: Task,
+  grouping: BoardGrouping,
+  fromColumnId: string,
+  toColumnId: string
+): UpdateTaskInput | null {
+  if (fromColumnId === toColumnId || getTaskColumnIds(task, grouping).includes(toColumnId)) {
+    return null;
+  }
+  if (grouping === 'status') return { status: toColumnId };
+  if (grouping === 'priority') return { priority: toColumnId as Priority };
+  if (toColumnId === NO_LABEL_COLUMN) return { labelIds: [] };
+
+  const labelIds = (task.labels ?? []).map(label => label.id).filter(id => id !== fromColumnId);
+  return { labelIds: [...labelIds, toColumnId] };
+}
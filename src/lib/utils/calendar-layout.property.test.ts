@@ -0,0 +1,222 @@
+/**
+ * Property-based tests for laying out tasks on the calendar time grid
+ *
+ * Tests Property 64 for placing task blocks on a day
+ * **Validates: Requirements 13.2, 15.3**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { addDays, addMinutes, isSameDay, isSameMonth } from 'date-fns';
+import {
+  DEFAULT_BLOCK_MINUTES,
+  SNAP_MINUTES,
+  getMonthGridDays,
+  hasTimeOfDay,
+  layoutDayBlocks,
+  snapMinutes,
+  summarizeMonthDay,
+  type CalendarBlock,
+} from './calendar-layout';
+import { isOverdue } from './overdue';
+import type { Task } from '@/types';
+
+// Local midnight, as the grid works in the browser's timezone
+const DAY = new Date(2026, 9, 19);
+
+function task(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task',
+    name: 'Task',
+    listId: 'inbox',
+    priority: 'none',
+    status: 'todo',
+    completed: false,
+    createdAt: DAY,
+    updatedAt: DAY,
+    ...overrides,
+  };
+}
+
+function overlaps(a: CalendarBlock, b: CalendarBlock): boolean {
+  return a.top < b.top + b.height && b.top < a.top + a.height;
+}
+
+// Tasks from the day before to the day after, some timed, some date-only, some undated
+const tasksArb = fc
+  .array(
+    fc.record({
+      dayOffset: fc.integer({ min: -1, max: 1 }),
+      minutes: fc.option(fc.integer({ min: 1, max: 24 * 60 - 1 }), { nil: undefined }),
+      estimate: fc.option(fc.integer({ min: 1, max: 600 }), { nil: undefined }),
+      dated: fc.boolean(),
+    }),
+    { maxLength: 30 }
+  )
+  .map(records => records.map((record, index) => task({
+    id: `task-${index}`,
+    estimate: record.estimate,
+    date: record.dated ? addMinutes(addDays(DAY, record.dayOffset), record.minutes ?? 0) : undefined,
+  })));
+
+describe('Property 64: Calendar Block Layout', () => {
+  /**
+   * **Feature: daily-task-planner, Property 64: Calendar Block Layout**
+   * **Validates: Requirements 13.2, 15.3**
+   *
+   * For any tasks, the day's layout SHALL contain exactly the tasks with a
+   * time on that day, each starting at its time and as long as its
+   * estimate within the day, and overlapping blocks SHALL sit in
+   * different columns.
+   */
+  test('Each timed task on the day gets one block at its time', () => {
+    fc.assert(
+      fc.property(tasksArb, (tasks) => {
+        const blocks = layoutDayBlocks(tasks, DAY);
+        const expected = tasks
+          .filter(t => t.date && hasTimeOfDay(t) && t.date >= DAY && t.date < addDays(DAY, 1))
+          .map(t => t.id)
+          .sort();
+
+        expect(blocks.map(block => block.task.id).sort()).toEqual(expected);
+        for (const block of blocks) {
+          const minutes = block.task.estimate ?? DEFAULT_BLOCK_MINUTES;
+          expect(block.start).toEqual(block.task.date!);
+          expect(block.top).toBe(block.task.date!.getHours() * 60 + block.task.date!.getMinutes());
+          expect(block.height).toBe(Math.min(minutes, 24 * 60 - block.top));
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Overlapping blocks never share a column', () => {
+    fc.assert(
+      fc.property(tasksArb, (tasks) => {
+        const blocks = layoutDayBlocks(tasks, DAY);
+
+        blocks.forEach((block, i) => {
+          expect(block.column).toBeGreaterThanOrEqual(0);
+          expect(block.column).toBeLessThan(block.columns);
+          for (const other of blocks.slice(i + 1)) {
+            if (overlaps(block, other)) {
+              expect(block.column).not.toBe(other.column);
+              expect(block.columns).toBe(other.columns);
+            }
+          }
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Blocks that overlap nothing take the full width', () => {
+    fc.assert(
+      fc.property(tasksArb, (tasks) => {
+        const blocks = layoutDayBlocks(tasks, DAY);
+
+        for (const block of blocks) {
+          if (!blocks.some(other => other !== block && overlaps(block, other))) {
+            expect(block.column).toBe(0);
+            expect(block.columns).toBe(1);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Snapped minutes are whole steps within the day', () => {
+    fc.assert(
+      fc.property(fc.double({ min: -500, max: 2000, noNaN: true }), (minutes) => {
+        const snapped = snapMinutes(minutes);
+
+        expect(snapped % SNAP_MINUTES).toBe(0);
+        expect(snapped).toBeGreaterThanOrEqual(0);
+        expect(snapped).toBeLessThanOrEqual(24 * 60 - SNAP_MINUTES);
+        if (minutes >= 0 && minutes <= 24 * 60 - SNAP_MINUTES) {
+          expect(Math.abs(snapped - minutes)).toBeLessThanOrEqual(SNAP_MINUTES / 2);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Date-only tasks at midnight are not placed on the grid', () => {
+    const blocks = layoutDayBlocks([
+      task({ id: 'date-only', date: DAY, estimate: 60 }),
+      task({ id: 'timed', date: addMinutes(DAY, 9 * 60), estimate: 60 }),
+      task({ id: 'undated', estimate: 60 }),
+    ], DAY);
+
+    expect(blocks.map(block => block.task.id)).toEqual(['timed']);
+  });
+});
+
+describe('Property 66: Month Day Summary', () => {
+  /**
+   * **Feature: daily-task-planner, Property 66: Month Day Summary**
+   * **Validates: Requirements 13.2, 16.1**
+   *
+   * For any month, the grid SHALL cover whole Monday-first weeks holding
+   * every day of the month. For any day, each task SHALL be counted as
+   * scheduled on its date, marked due on its deadline only when that is a
+   * different day, and the day SHALL be overdue exactly when one of them is.
+   */
+  const monthArb = fc.integer({ min: -24, max: 24 }).map(offset => new Date(2026, 9 + offset, 15));
+
+  const monthTasksArb = fc
+    .array(
+      fc.record({
+        dateHours: fc.option(fc.integer({ min: -72, max: 72 }), { nil: undefined }),
+        deadlineHours: fc.option(fc.integer({ min: -72, max: 72 }), { nil: undefined }),
+        completed: fc.boolean(),
+      }),
+      { maxLength: 20 }
+    )
+    .map(records => records.map((record, index) => task({
+      id: `task-${index}`,
+      date: record.dateHours !== undefined ? addMinutes(DAY, record.dateHours * 60) : undefined,
+      deadline: record.deadlineHours !== undefined ? addMinutes(DAY, record.deadlineHours * 60) : undefined,
+      completed: record.completed,
+    })));
+
+  test('The grid is whole weeks covering the month', () => {
+    fc.assert(
+      fc.property(monthArb, (month) => {
+        const days = getMonthGridDays(month);
+
+        expect(days.length % 7).toBe(0);
+        expect(days[0].getDay()).toBe(1);
+        expect(days[days.length - 1].getDay()).toBe(0);
+        days.slice(1).forEach((day, i) => expect(isSameDay(day, addDays(days[i], 1))).toBe(true));
+
+        const inMonth = days.filter(day => isSameMonth(day, month));
+        expect(inMonth[0].getDate()).toBe(1);
+        expect(isSameMonth(addDays(inMonth[inMonth.length - 1], 1), month)).toBe(false);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('Days count scheduled tasks and mark other-day deadlines and overdue tasks', () => {
+    fc.assert(
+      fc.property(monthTasksArb, fc.integer({ min: -3, max: 3 }), (tasks, dayOffset) => {
+        const day = addDays(DAY, dayOffset);
+        const now = addMinutes(DAY, 12 * 60);
+        const { scheduled, deadlines, overdue } = summarizeMonthDay(tasks, day, now);
+
+        expect(scheduled.map(t => t.id)).toEqual(
+          tasks.filter(t => t.date && isSameDay(t.date, day)).map(t => t.id)
+        );
+        expect(deadlines.map(t => t.id)).toEqual(
+          tasks
+            .filter(t => t.deadline && isSameDay(t.deadline, day) && !(t.date && isSameDay(t.date, day)))
+            .map(t => t.id)
+        );
+        expect(overdue).toBe([...scheduled, ...deadlines].some(t => isOverdue(t, now)));
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  endOfMonth,
+  endOfWeek,
+  isSameDay,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import type { Task } from '@/types';
+import { isOverdue } from './overdue';
+
+// Length of the block shown for a task without an estimate
+export const DEFAULT_BLOCK_MINUTES = 30;
+
+// Dragging and resizing snap to this many minutes
+export const SNAP_MINUTES = 15;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Weeks start on Monday, as most work weeks are written
+export const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+/**
+ * A task placed on a day of the time grid
+ */
+export interface CalendarBlock {
+  task: Task;
+  start: Date;
+  end: Date;
+  top: number;      // Minutes from the start of the day
+  height: number;   // Minutes shown, cut off at the end of the day
+  column: number;   // Side-by-side column among overlapping blocks
+  columns: number;  // Number of columns in the overlapping group
+}
+
+/**
+ * What a day of the month grid holds
+ */
+export interface MonthDaySummary {
+  scheduled: Task[];  // Tasks scheduled on the day
+  deadlines: Task[];  // Tasks due on the day but scheduled on another day, or not at all
+  overdue: boolean;   // Whether any of them is overdue
+}
+
+/**
+ * Checks whether a task has a time of day, rather than a date only.
+ * Date-only tasks are stored at local midnight.
+ */
+export function hasTimeOfDay(task: Task): boolean {
+  return !!task.date && (task.date.getHours() !== 0 || task.date.getMinutes() !== 0);
+}
+
+/**
+ * Gets how long a task's block is, from its estimate
+ */
+export function getBlockMinutes(task: Task): number {
+  return task.estimate && task.estimate > 0 ? task.estimate : DEFAULT_BLOCK_MINUTES;
+}
+
+/**
+ * Rounds minutes to the nearest snap step within a day, leaving room for one step
+ */
+export function snapMinutes(minutes: number, step: number = SNAP_MINUTES): number {
+  const snapped = Math.round(minutes / step) * step;
+  return Math.min(Math.max(snapped, 0), MINUTES_PER_DAY - step);
+}
+
+/**
+ * Lays out the timed tasks starting on a day as blocks.
+ * Overlapping blocks share the width in columns; each group of
+ * overlapping blocks uses as few columns as a greedy fill allows.
+ * @param tasks - Tasks to place; those without a time on this day are left out
+ * @param day - Any time on the day
+ */
+export function layoutDayBlocks(tasks: Task[], day: Date): CalendarBlock[] {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+
+  const blocks: CalendarBlock[] = tasks
+    .filter(task => hasTimeOfDay(task) && task.date! >= dayStart && task.date! < dayEnd)
+    .map(task => {
+      const start = task.date!;
+      const end = addMinutes(start, getBlockMinutes(task));
+      const top = differenceInMinutes(start, dayStart);
+      return {
+        task,
+        start,
+        end,
+        top,
+        height: Math.min(differenceInMinutes(end, start), MINUTES_PER_DAY - top),
+        column: 0,
+        columns: 1,
+      };
+    })
+    .sort((a, b) => a.top - b.top || b.height - a.height || a.task.id.localeCompare(b.task.id));
+
+  let group: CalendarBlock[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = (): void => {
+    for (const block of group) block.columns = columnEnds.length;
+    group = [];
+    columnEnds = [];
+  };
+
+  for (const block of blocks) {
+    if (block.top >= groupEnd) closeGroup();
+
+    let column = columnEnds.findIndex(end => end <= block.top);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(0);
+    }
+    columnEnds[column] = block.top + block.height;
+    block.column = column;
+    group.push(block);
+    groupEnd = Math.max(groupEnd, block.top + block.height);
+  }
+  closeGroup();
+
+  return blocks;
+}
+
+/**
+ * Gets the days of the month grid: whole weeks from the one holding the
+ * first of the month to the one holding its last day
+ * @param month - Any day in the month
+ */
+export function getMonthGridDays(month: Date): Date[] {
+  const first = startOfWeek(startOfMonth(month), WEEK_OPTIONS);
+  const last = endOfWeek(endOfMonth(month), WEEK_OPTIONS);
+  const days: Date[] = [];
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Sums up the tasks scheduled and due on a day of the month grid
+ * @param tasks - Tasks to look through
+ * @param day - Any time on the day
+ * @param now - The current time, for overdue checks
+ */
+export function summarizeMonthDay(tasks: Task[], day: Date, now: Date = new Date()): MonthDaySummary {
+  const scheduled = tasks.filter(task => task.date && isSameDay(task.date, day));
+  const deadlines = tasks.filter(task =>
+    task.deadline && isSameDay(task.deadline, day) && !(task.date && isSameDay(task.date, task.deadline))
+  );
+  return {
+    scheduled,
+    deadlines,
+    overdue: [...scheduled, ...deadlines].some(task => isOverdue(task, now)),
+  };
+}
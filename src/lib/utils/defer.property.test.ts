@@ -0,0 +1,82 @@
+/**
+ * Property-based tests for deferring tasks
+ *
+ * Tests Property 77 for deferred tasks and the snooze quick actions
+ * **Validates: Requirements 12.1, 16.1**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { addMinutes, differenceInCalendarDays, getDay, startOfDay } from 'date-fns';
+import { getSnoozeDate, isDeferred } from './defer';
+import { isOverdue } from './overdue';
+import type { Task } from '@/types';
+
+const nowArb = fc.date({ min: new Date(2025, 0, 1), max: new Date(2027, 11, 31), noInvalidDate: true });
+
+const createTask = (overrides: Partial<Task>): Task => ({
+  id: 'task',
+  name: 'Task',
+  listId: 'inbox',
+  priority: 'none',
+  status: 'todo',
+  completed: false,
+  createdAt: new Date(2025, 0, 1),
+  updatedAt: new Date(2025, 0, 1),
+  ...overrides,
+});
+
+describe('Property 77: Task Snoozing', () => {
+  /**
+   * **Feature: daily-task-planner, Property 77: Task Snoozing**
+   * **Validates: Requirements 12.1, 16.1**
+   *
+   * For any time, snoozing to tomorrow SHALL defer a task to the start of the
+   * next day and snoozing to next week to the start of the next Monday. A task
+   * SHALL be deferred exactly while its start date is still to come, and a
+   * deferred task SHALL never count as overdue.
+   */
+  test('Snoozing defers to the start of tomorrow or next Monday', () => {
+    fc.assert(
+      fc.property(nowArb, (now) => {
+        const tomorrow = getSnoozeDate('tomorrow', now);
+        expect(tomorrow.getTime()).toBe(startOfDay(tomorrow).getTime());
+        expect(differenceInCalendarDays(tomorrow, now)).toBe(1);
+
+        const nextWeek = getSnoozeDate('next-week', now);
+        expect(nextWeek.getTime()).toBe(startOfDay(nextWeek).getTime());
+        expect(getDay(nextWeek)).toBe(1);
+        const days = differenceInCalendarDays(nextWeek, now);
+        expect(days).toBeGreaterThanOrEqual(1);
+        expect(days).toBeLessThanOrEqual(7);
+
+        expect(isDeferred({ startDate: tomorrow }, now)).toBe(true);
+        expect(isDeferred({ startDate: nextWeek }, now)).toBe(true);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('Deferred tasks are never overdue', () => {
+    fc.assert(
+      fc.property(
+        nowArb,
+        fc.option(fc.integer({ min: -7 * 24 * 60, max: 7 * 24 * 60 }), { nil: undefined }),
+        fc.integer({ min: -7 * 24 * 60, max: 7 * 24 * 60 }),
+        fc.boolean(),
+        (now, startMinutes, deadlineMinutes, completed) => {
+          const task = createTask({
+            startDate: startMinutes !== undefined ? addMinutes(now, startMinutes) : undefined,
+            deadline: addMinutes(now, deadlineMinutes),
+            completed,
+          });
+
+          const deferred = startMinutes !== undefined && startMinutes > 0;
+          expect(isDeferred(task, now)).toBe(deferred);
+          expect(isOverdue(task, now)).toBe(!completed && !deferred && deadlineMinutes < 0);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
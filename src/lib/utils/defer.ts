@@ -0,0 +1,25 @@
+import { addDays, startOfDay, startOfWeek } from 'date-fns';
+import type { Task } from '@/types';
+
+// Quick ways to push a task's start date back
+export type SnoozeOption = 'tomorrow' | 'next-week';
+
+/**
+ * Checks if a task is deferred: its start date hasn't come yet.
+ * Deferred tasks stay in their list but are left out of the date views
+ * and the overdue counts.
+ * @param task - The task to check
+ * @param now - The current time (default: now)
+ */
+export function isDeferred(task: Pick<Task, 'startDate'>, now: Date = new Date()): boolean {
+  return !!task.startDate && task.startDate > now;
+}
+
+/**
+ * Gets the start date a snooze option defers a task to: the start of
+ * tomorrow, or the start of next Monday
+ */
+export function getSnoozeDate(option: SnoozeOption, now: Date = new Date()): Date {
+  if (option === 'tomorrow') return startOfDay(addDays(now, 1));
+  return startOfWeek(addDays(now, 7), { weekStartsOn: 1 });
+}
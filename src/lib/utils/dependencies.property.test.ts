@@ -0,0 +1,123 @@
+/**
+ * Property-based tests for task dependencies
+ *
+ * Tests Property 71 for dependency cycles and when blocked tasks can start
+ * **Validates: Requirements 22.1, 29.3**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { addMinutes } from 'date-fns';
+import { getBlockersEnd, isBlocked, wouldCreateCycle, type DependencyEdge } from './dependencies';
+import type { TaskDependency } from '@/types';
+
+const NOW = new Date(2026, 9, 19, 9);
+const TASK_IDS = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+const edgesArb: fc.Arbitrary<DependencyEdge[]> = fc.array(
+  fc.record({
+    taskId: fc.constantFrom(...TASK_IDS),
+    blockedById: fc.constantFrom(...TASK_IDS),
+  }),
+  { maxLength: 12 }
+);
+
+const blockersArb: fc.Arbitrary<TaskDependency[]> = fc
+  .array(
+    fc.record({
+      minutes: fc.option(fc.integer({ min: -24 * 60, max: 7 * 24 * 60 }), { nil: undefined }),
+      estimate: fc.option(fc.integer({ min: 1, max: 480 }), { nil: undefined }),
+      completed: fc.boolean(),
+    }),
+    { maxLength: 6 }
+  )
+  .map(records => records.map((record, index) => ({
+    id: `blocker-${index}`,
+    name: `Blocker ${index}`,
+    listId: 'list',
+    completed: record.completed,
+    date: record.minutes !== undefined ? addMinutes(NOW, record.minutes) : undefined,
+    estimate: record.estimate,
+  })));
+
+/**
+ * Collects every task a task waits on, directly or through other tasks
+ */
+function reachableBlockers(edges: DependencyEdge[], from: string): Set<string> {
+  const reached = new Set<string>();
+  let frontier = [from];
+  while (frontier.length > 0) {
+    frontier = edges
+      .filter(edge => frontier.includes(edge.taskId) && !reached.has(edge.blockedById))
+      .map(edge => edge.blockedById);
+    frontier.forEach(id => reached.add(id));
+  }
+  return reached;
+}
+
+describe('Property 71: Task Dependencies', () => {
+  /**
+   * **Feature: daily-task-planner, Property 71: Task Dependencies**
+   * **Validates: Requirements 22.1, 29.3**
+   *
+   * For any dependencies, giving a task new blockers SHALL form a cycle
+   * exactly when the task could then reach itself through them. A task
+   * SHALL be blocked exactly when it is open with an open blocker, and can
+   * start no earlier than the end of its last scheduled open blocker.
+   */
+  test('A cycle is found exactly when the task would wait on itself', () => {
+    fc.assert(
+      fc.property(
+        edgesArb,
+        fc.constantFrom(...TASK_IDS),
+        fc.subarray(TASK_IDS),
+        (edges, taskId, blockedByIds) => {
+          const replaced = [
+            ...edges.filter(edge => edge.taskId !== taskId),
+            ...blockedByIds.map(blockedById => ({ taskId, blockedById })),
+          ];
+
+          expect(wouldCreateCycle(edges, taskId, blockedByIds)).toBe(
+            reachableBlockers(replaced, taskId).has(taskId)
+          );
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  test('A task cannot wait on itself', () => {
+    expect(wouldCreateCycle([], 'a', ['a'])).toBe(true);
+    expect(wouldCreateCycle([{ taskId: 'b', blockedById: 'a' }], 'a', ['b'])).toBe(true);
+    expect(wouldCreateCycle([{ taskId: 'a', blockedById: 'b' }], 'b', [])).toBe(false);
+  });
+
+  test('Blocked tasks are open tasks with an open blocker', () => {
+    fc.assert(
+      fc.property(blockersArb, fc.boolean(), (blockers, completed) => {
+        expect(isBlocked({ blockedBy: blockers, completed })).toBe(
+          !completed && blockers.some(blocker => !blocker.completed)
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Blockers end when the last scheduled open blocker does', () => {
+    fc.assert(
+      fc.property(blockersArb, (blockers) => {
+        const end = getBlockersEnd(blockers);
+        const ends = blockers
+          .filter(blocker => !blocker.completed && blocker.date)
+          .map(blocker => addMinutes(blocker.date!, blocker.estimate ?? 0).getTime());
+
+        if (ends.length === 0) {
+          expect(end).toBeNull();
+        } else {
+          expect(end!.getTime()).toBe(Math.max(...ends));
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { addMinutes } from 'date-fns';
+import type { Task, TaskDependency } from '@/types';
+
+/**
+ * A dependency between two tasks: taskId can't be completed until blockedById is
+ */
+export interface DependencyEdge {
+  taskId: string;
+  blockedById: string;
+}
+
+/**
+ * Gets the blockers of a task that are still open
+ */
+export function getOpenBlockers(task: Pick<Task, 'blockedBy'>): TaskDependency[] {
+  return (task.blockedBy ?? []).filter(blocker => !blocker.completed);
+}
+
+/**
+ * Checks whether a task is waiting on an open blocker
+ */
+export function isBlocked(task: Pick<Task, 'blockedBy' | 'completed'>): boolean {
+  return !task.completed && getOpenBlockers(task).length > 0;
+}
+
+/**
+ * Checks whether giving a task a new set of blockers would make a task
+ * (indirectly) wait on itself. The task's current blockers are replaced,
+ * so only the other tasks' dependencies are followed.
+ * @param edges - All current dependencies
+ * @param taskId - The task whose blockers change
+ * @param blockedByIds - Its new blockers
+ */
+export function wouldCreateCycle(edges: DependencyEdge[], taskId: string, blockedByIds: string[]): boolean {
+  const blockersOf = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (edge.taskId === taskId) continue;
+    blockersOf.set(edge.taskId, [...(blockersOf.get(edge.taskId) ?? []), edge.blockedById]);
+  }
+
+  // Walk from the new blockers to everything they wait on; reaching the task closes a loop
+  const visited = new Set<string>();
+  const pending = [...blockedByIds];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === taskId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    pending.push(...(blockersOf.get(id) ?? []));
+  }
+  return false;
+}
+
+/**
+ * Gets when the last scheduled open blocker ends: its date plus its estimate.
+ * A task should not be scheduled before then. Returns null when no open
+ * blocker is scheduled.
+ */
+export function getBlockersEnd(blockers: TaskDependency[]): Date | null {
+  let end: Date | null = null;
+  for (const blocker of blockers) {
+    if (blocker.completed || !blocker.date) continue;
+    const blockerEnd = addMinutes(blocker.date, blocker.estimate ?? 0);
+    if (!end || blockerEnd > end) end = blockerEnd;
+  }
+  return end;
+}
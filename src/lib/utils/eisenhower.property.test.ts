@@ -0,0 +1,102 @@
+/**
+ * Property-based tests for sorting tasks into the urgent/important matrix
+ *
+ * Tests Property 70 for matrix quadrants and moves between them
+ * **Validates: Requirements 9.1, 16.1**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { addHours, addMinutes } from 'date-fns';
+import { MATRIX_QUADRANTS, MATRIX_QUADRANT_INFO, getQuadrant, getQuadrantMove, isUrgent } from './eisenhower';
+import { VALID_PRIORITIES } from './validation';
+import type { Task, UpdateTaskInput } from '@/types';
+
+// Mid-afternoon, so "end of today" and the urgent window can fall either way round
+const NOW = new Date(2026, 9, 19, 15, 30);
+
+const taskArb: fc.Arbitrary<Task> = fc
+  .record({
+    priority: fc.constantFrom(...VALID_PRIORITIES),
+    deadlineMinutes: fc.option(fc.integer({ min: -3 * 24 * 60, max: 30 * 24 * 60 }), { nil: undefined }),
+  })
+  .map(record => ({
+    id: 'task',
+    name: 'Task',
+    listId: 'list',
+    priority: record.priority,
+    status: 'todo',
+    completed: false,
+    deadline: record.deadlineMinutes !== undefined ? addMinutes(NOW, record.deadlineMinutes) : undefined,
+    createdAt: NOW,
+    updatedAt: NOW,
+  }));
+
+const thresholdsArb = fc.integer({ min: 1, max: 720 }).map(hours => ({ deadlineUrgentHours: hours }));
+
+describe('Property 70: Matrix Quadrants', () => {
+  /**
+   * **Feature: daily-task-planner, Property 70: Matrix Quadrants**
+   * **Validates: Requirements 9.1, 16.1**
+   *
+   * For any task, it SHALL be important exactly when its priority is high
+   * or medium, and urgent exactly when it has a deadline within the urgent
+   * threshold. Moving it to another quadrant SHALL put it in that quadrant,
+   * changing only what differs between the two.
+   */
+  test('Quadrants follow priority and deadline proximity', () => {
+    fc.assert(
+      fc.property(taskArb, thresholdsArb, (task, thresholds) => {
+        const info = MATRIX_QUADRANT_INFO[getQuadrant(task, NOW, thresholds)];
+        const urgent = !!task.deadline && task.deadline <= addHours(NOW, thresholds.deadlineUrgentHours);
+
+        expect(info.important).toBe(task.priority === 'high' || task.priority === 'medium');
+        expect(info.urgent).toBe(urgent);
+        expect(isUrgent(task, NOW, thresholds)).toBe(urgent);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Moving a task puts it in the target quadrant', () => {
+    fc.assert(
+      fc.property(taskArb, thresholdsArb, fc.constantFrom(...MATRIX_QUADRANTS), (task, thresholds, to) => {
+        const from = getQuadrant(task, NOW, thresholds);
+        const data = getQuadrantMove(task, to, NOW, thresholds);
+        if (from === to) {
+          expect(data).toBeNull();
+          return;
+        }
+
+        expect(data).not.toBeNull();
+        const moved: Task = { ...task, ...(data as UpdateTaskInput) } as Task;
+        expect(getQuadrant(moved, NOW, thresholds)).toBe(to);
+
+        const sameImportance = MATRIX_QUADRANT_INFO[from].important === MATRIX_QUADRANT_INFO[to].important;
+        const sameUrgency = MATRIX_QUADRANT_INFO[from].urgent === MATRIX_QUADRANT_INFO[to].urgent;
+        expect('priority' in data!).toBe(!sameImportance);
+        expect('deadline' in data!).toBe(!sameUrgency);
+        if (data!.deadline) expect(data!.deadline.getTime()).toBeGreaterThan(NOW.getTime());
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('A wider urgent window makes more tasks urgent', () => {
+    const task: Task = {
+      id: 'task',
+      name: 'Task',
+      listId: 'list',
+      priority: 'high',
+      status: 'todo',
+      completed: false,
+      deadline: addHours(NOW, 36),
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+
+    expect(getQuadrant(task, NOW, { deadlineUrgentHours: 24 })).toBe('schedule');
+    expect(getQuadrant(task, NOW, { deadlineUrgentHours: 48 })).toBe('do');
+    expect(getQuadrant({ ...task, deadline: undefined }, NOW, { deadlineUrgentHours: 720 })).toBe('schedule');
+  });
+});
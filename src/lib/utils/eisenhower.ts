@@ -0,0 +1,79 @@
+import { addDays, addHours, endOfDay, min } from 'date-fns';
+import type { SchedulingProfile, Task, UpdateTaskInput } from '@/types';
+
+/**
+ * A quadrant of the urgent/important matrix
+ */
+export type MatrixQuadrant = 'do' | 'schedule' | 'delegate' | 'eliminate';
+
+// Quadrants in reading order: important first, urgent on the left
+export const MATRIX_QUADRANTS: MatrixQuadrant[] = ['do', 'schedule', 'delegate', 'eliminate'];
+
+export const MATRIX_QUADRANT_INFO: Record<MatrixQuadrant, { title: string; description: string; urgent: boolean; important: boolean }> = {
+  do: { title: 'Do first', description: 'Urgent and important', urgent: true, important: true },
+  schedule: { title: 'Schedule', description: 'Important, not urgent', urgent: false, important: true },
+  delegate: { title: 'Delegate', description: 'Urgent, not important', urgent: true, important: false },
+  eliminate: { title: 'Eliminate', description: 'Neither urgent nor important', urgent: false, important: false },
+};
+
+// The urgency threshold shared with the scheduler's deadline bonus
+export type UrgencyThresholds = Pick<SchedulingProfile, 'deadlineUrgentHours'>;
+
+/**
+ * Checks whether a task is important: high or medium priority
+ */
+export function isImportant(task: Task): boolean {
+  return task.priority === 'high' || task.priority === 'medium';
+}
+
+/**
+ * Checks whether a task is urgent: its deadline has passed or falls
+ * within the urgent threshold
+ */
+export function isUrgent(task: Task, now: Date, thresholds: UrgencyThresholds): boolean {
+  return !!task.deadline && task.deadline <= addHours(now, thresholds.deadlineUrgentHours);
+}
+
+/**
+ * Gets the quadrant a task belongs in
+ */
+export function getQuadrant(task: Task, now: Date, thresholds: UrgencyThresholds): MatrixQuadrant {
+  const urgent = isUrgent(task, now, thresholds);
+  if (isImportant(task)) return urgent ? 'do' : 'schedule';
+  return urgent ? 'delegate' : 'eliminate';
+}
+
+/**
+ * Gets the update that moves a task to another quadrant, or null when it is already there.
+ * Becoming important raises the priority to high and becoming unimportant lowers it to low.
+ * Becoming urgent brings the deadline in to the end of today, or the end of the urgent
+ * window if sooner; becoming non-urgent pushes it out to the end of the day the window closes.
+ */
+export function getQuadrantMove(
+  task: Task,
+  to: MatrixQuadrant,
+  now: Date,
+  thresholds: UrgencyThresholds
+): UpdateTaskInput | null {
+  const from = getQuadrant(task, now, thresholds);
+  if (from === to) return null;
+
+  const data: UpdateTaskInput = {};
+  const target = MATRIX_QUADRANT_INFO[to];
+
+  if (target.important !== MATRIX_QUADRANT_INFO[from].important) {
+    data.priority = target.important ? 'high' : 'low';
+  }
+
+  if (target.urgent !== MATRIX_QUADRANT_INFO[from].urgent) {
+    const windowEnd = addHours(now, thresholds.deadlineUrgentHours);
+    if (target.urgent) {
+      data.deadline = min([endOfDay(now), windowEnd]);
+    } else {
+      const closingDay = endOfDay(windowEnd);
+      data.deadline = closingDay > windowEnd ? closingDay : endOfDay(addDays(windowEnd, 1));
+    }
+  }
+
+  return data;
+}
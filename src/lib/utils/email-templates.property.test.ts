@@ -0,0 +1,81 @@
+/**
+ * Property-based tests for reminder email templates
+ *
+ * Tests Property 50 for email reminder content
+ * **Validates: Requirements 27.2, 27.3**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { buildTaskLink, escapeHtml, renderReminderEmail } from './email-templates';
+
+const nameArb = fc.string({ minLength: 1, maxLength: 100 });
+
+const deadlineArb = fc
+  .integer({ min: 1_700_000_000, max: 1_900_000_000 })
+  .map(seconds => new Date(seconds * 1000));
+
+describe('Property 50: Reminder Email Content', () => {
+  /**
+   * **Feature: daily-task-planner, Property 50: Reminder Email Content**
+   * **Validates: Requirements 27.2, 27.3**
+   *
+   * For any task, the reminder email SHALL include the task name, list and a
+   * deep link in both bodies, and the HTML body SHALL escape user content.
+   */
+  test('Plaintext body contains task name, list and link', () => {
+    fc.assert(
+      fc.property(nameArb, nameArb, fc.uuid(), fc.uuid(), deadlineArb, (taskName, listName, listId, taskId, deadline) => {
+        const link = buildTaskLink('http://localhost:3000', listId, taskId);
+        const email = renderReminderEmail({ taskName, deadline, listName, link });
+
+        expect(email.subject).toContain(taskName);
+        expect(email.text).toContain(taskName);
+        expect(email.text).toContain(listName);
+        expect(email.text).toContain(link);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('HTML body contains escaped task name, list and link', () => {
+    fc.assert(
+      fc.property(nameArb, nameArb, fc.uuid(), fc.uuid(), (taskName, listName, listId, taskId) => {
+        const link = buildTaskLink('http://localhost:3000', listId, taskId);
+        const email = renderReminderEmail({ taskName, listName, link });
+
+        expect(email.html).toContain(escapeHtml(taskName));
+        expect(email.html).toContain(escapeHtml(listName));
+        expect(email.html).toContain(`href="${escapeHtml(link)}"`);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Escaped HTML contains no markup characters', () => {
+    fc.assert(
+      fc.property(fc.string(), (value) => {
+        expect(escapeHtml(value)).not.toMatch(/[<>"']/);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Deep link points at the task list and opens the task', () => {
+    fc.assert(
+      fc.property(fc.uuid(), fc.uuid(), fc.constantFrom('http://localhost:3000', 'https://tasks.example.com/'), (listId, taskId, appUrl) => {
+        const link = buildTaskLink(appUrl, listId, taskId);
+        const url = new URL(link);
+
+        expect(url.pathname).toBe(`/list/${listId}`);
+        expect(url.searchParams.get('task')).toBe(taskId);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Emails without a deadline say so', () => {
+    const email = renderReminderEmail({ taskName: 'Pay rent', listName: 'Home', link: 'http://localhost:3000/list/1' });
+    expect(email.text).toContain('Deadline: No deadline');
+  });
+});
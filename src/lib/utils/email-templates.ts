@@ -0,0 +1,83 @@
+import { format } from 'date-fns';
+import { getTaskPath } from '@/lib/utils/reminders';
+
+/**
+ * Data needed to render a reminder email
+ */
+export interface ReminderEmailData {
+  taskName: string;
+  deadline?: Date;
+  listName: string;
+  link: string;
+}
+
+/**
+ * A rendered email with plaintext and HTML bodies
+ */
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Escapes text for safe use inside HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Builds the deep link to a task's list.
+ * The task ID is passed so the list page opens the task directly.
+ * @param appUrl - Base URL of the app (e.g. http://localhost:3000)
+ * @param listId - The list the task belongs to
+ * @param taskId - The task to open
+ */
+export function buildTaskLink(appUrl: string, listId: string, taskId: string): string {
+  const base = appUrl.replace(/\/+$/, '');
+  return `${base}${getTaskPath(listId, taskId)}`;
+}
+
+/**
+ * Renders the reminder email for a task.
+ * @param data - Task name, deadline, list name and deep link
+ * @returns Subject, plaintext and HTML bodies
+ */
+export function renderReminderEmail(data: ReminderEmailData): RenderedEmail {
+  const deadlineText = data.deadline
+    ? format(data.deadline, "EEEE, MMM d 'at' h:mm a")
+    : 'No deadline';
+
+  const subject = `Reminder: ${data.taskName}`;
+
+  const text = [
+    `Reminder: ${data.taskName}`,
+    '',
+    `Deadline: ${deadlineText}`,
+    `List: ${data.listName}`,
+    '',
+    `Open task: ${data.link}`,
+  ].join('\n');
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<body style="font-family: sans-serif; line-height: 1.5;">',
+    `<h2 style="margin: 0 0 12px;">${escapeHtml(data.taskName)}</h2>`,
+    '<table style="border-collapse: collapse;">',
+    `<tr><td style="padding: 2px 12px 2px 0; color: #666;">Deadline</td><td>${escapeHtml(deadlineText)}</td></tr>`,
+    `<tr><td style="padding: 2px 12px 2px 0; color: #666;">List</td><td>${escapeHtml(data.listName)}</td></tr>`,
+    '</table>',
+    `<p style="margin-top: 16px;"><a href="${escapeHtml(data.link)}">Open task</a></p>`,
+    '</body>',
+    '</html>',
+  ].join('\n');
+
+  return { subject, text, html };
+}
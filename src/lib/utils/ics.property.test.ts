@@ -0,0 +1,230 @@
+/**
+ * Property-based tests for iCalendar parsing and busy time expansion
+ *
+ * Tests Property 63 for turning calendar events into busy time
+ * **Validates: Requirements 29.3**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { parseIcs, expandBusyIntervals, IcsParseError } from './ics';
+import { addDaysToDateKey, fromZonedTime, getZonedDateTime } from './working-hours';
+
+const TIMEZONE = 'Europe/Berlin';
+
+/**
+ * Wraps event lines in a calendar, with CRLF line endings as files use
+ */
+function calendar(...events: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * Formats a date key as an iCalendar DATE
+ */
+function icsDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+/**
+ * Formats a date key and minutes as a local iCalendar DATE-TIME
+ */
+function icsDateTime(date: string, minutes: number): string {
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mins = String(minutes % 60).padStart(2, '0');
+  return `${icsDate(date)}T${hours}${mins}00`;
+}
+
+function expand(text: string, from: string, to: string) {
+  return expandBusyIntervals(
+    parseIcs(text),
+    fromZonedTime(from, 0, TIMEZONE),
+    fromZonedTime(to, 0, TIMEZONE),
+    TIMEZONE
+  );
+}
+
+// A Monday in 2026, with a year of dates on either side to start from
+const startDateArb = fc.integer({ min: -365, max: 365 }).map(offset => addDaysToDateKey('2026-10-19', offset));
+
+// Start times from 06:00 so no occurrence falls in a DST gap
+const startMinutesArb = fc.integer({ min: 6 * 4, max: 20 * 4 }).map(quarter => quarter * 15);
+
+const durationArb = fc.integer({ min: 15, max: 180 });
+
+describe('Property 63: Calendar Busy Time', () => {
+  /**
+   * **Feature: daily-task-planner, Property 63: Calendar Busy Time**
+   * **Validates: Requirements 29.3**
+   *
+   * For any calendar, the busy time SHALL contain every non-cancelled,
+   * opaque occurrence of its events that overlaps the range, expanded from
+   * their recurrence rules minus excluded and overridden dates, in order.
+   */
+  test('A daily event with COUNT has exactly that many occurrences', () => {
+    fc.assert(
+      fc.property(startDateArb, startMinutesArb, durationArb, fc.integer({ min: 1, max: 60 }), fc.integer({ min: 1, max: 3 }),
+        (date, minutes, duration, count, interval) => {
+          const text = calendar([
+            'UID:daily',
+            `DTSTART;TZID=${TIMEZONE}:${icsDateTime(date, minutes)}`,
+            `DURATION:PT${duration}M`,
+            `RRULE:FREQ=DAILY;INTERVAL=${interval};COUNT=${count}`,
+          ]);
+
+          const intervals = expand(text, addDaysToDateKey(date, -1), addDaysToDateKey(date, count * interval + 1));
+
+          expect(intervals.length).toBe(count);
+          intervals.forEach((busy, index) => {
+            const start = getZonedDateTime(busy.start, TIMEZONE);
+            expect(start.date).toBe(addDaysToDateKey(date, index * interval));
+            expect(start.minutes).toBe(minutes);
+            expect((busy.end.getTime() - busy.start.getTime()) / 60000).toBe(duration);
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Weekly occurrences fall on the BYDAY weekdays, minus EXDATEs', () => {
+    fc.assert(
+      fc.property(
+        startDateArb,
+        startMinutesArb,
+        fc.uniqueArray(fc.integer({ min: 0, max: 6 }), { minLength: 1, maxLength: 7 }),
+        fc.array(fc.integer({ min: 0, max: 27 }), { maxLength: 5 }),
+        (date, minutes, weekdays, excludedOffsets) => {
+          const codes = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+          const excluded = excludedOffsets.map(offset => addDaysToDateKey(date, offset));
+          const text = calendar([
+            'UID:weekly',
+            `DTSTART;TZID=${TIMEZONE}:${icsDateTime(date, minutes)}`,
+            'DURATION:PT30M',
+            `RRULE:FREQ=WEEKLY;BYDAY=${weekdays.map(day => codes[day]).join(',')}`,
+            ...excluded.map(day => `EXDATE;TZID=${TIMEZONE}:${icsDateTime(day, minutes)}`),
+          ]);
+
+          const days = expand(text, date, addDaysToDateKey(date, 28))
+            .map(busy => getZonedDateTime(busy.start, TIMEZONE));
+
+          const expected = Array.from({ length: 28 }, (_, offset) => addDaysToDateKey(date, offset))
+            .filter(day => weekdays.includes(new Date(`${day}T00:00:00Z`).getUTCDay()))
+            .filter(day => !excluded.includes(day));
+
+          expect(days.map(day => day.date)).toEqual(expected);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Busy intervals overlap the range and are sorted by start', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.tuple(startDateArb, startMinutesArb, durationArb, fc.constantFrom('', 'DAILY', 'WEEKLY', 'MONTHLY')), { maxLength: 6 }),
+        startDateArb,
+        fc.integer({ min: 1, max: 60 }),
+        (events, from, days) => {
+          const text = calendar(...events.map(([date, minutes, duration, freq], index) => [
+            `UID:event-${index}`,
+            `DTSTART;TZID=${TIMEZONE}:${icsDateTime(date, minutes)}`,
+            `DURATION:PT${duration}M`,
+            ...(freq ? [`RRULE:FREQ=${freq}`] : []),
+          ]));
+          const rangeStart = fromZonedTime(from, 0, TIMEZONE);
+          const rangeEnd = fromZonedTime(addDaysToDateKey(from, days), 0, TIMEZONE);
+
+          const intervals = expandBusyIntervals(parseIcs(text), rangeStart, rangeEnd, TIMEZONE);
+
+          intervals.forEach((busy, index) => {
+            expect(busy.start < rangeEnd && busy.end > rangeStart).toBe(true);
+            if (index > 0) expect(intervals[index - 1].start <= busy.start).toBe(true);
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Folded lines and escaped text are read, and alarms are ignored', () => {
+    const events = parseIcs(calendar([
+      'UID:review',
+      'SUMMARY:Quarterly review\\, planning and a very long title that',
+      '  gets folded',
+      'DTSTART:20261019T090000Z',
+      'DTEND:20261019T100000Z',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT10M',
+      'DTSTART:20000101T000000Z',
+      'END:VALARM',
+    ]));
+
+    expect(events.length).toBe(1);
+    expect(events[0].summary).toBe('Quarterly review, planning and a very long title that gets folded');
+    expect(events[0].start).toEqual({ date: '2026-10-19', minutes: 9 * 60, utc: true, tzid: undefined });
+  });
+
+  test('Monthly BYDAY with an ordinal picks the last Friday', () => {
+    const intervals = expand(calendar([
+      'UID:retro',
+      'DTSTART:20260130T150000Z',
+      'DURATION:PT1H',
+      'RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=12',
+    ]), '2026-10-01', '2027-01-01');
+
+    expect(intervals.map(busy => busy.start.toISOString())).toEqual([
+      '2026-10-30T15:00:00.000Z',
+      '2026-11-27T15:00:00.000Z',
+      '2026-12-25T15:00:00.000Z',
+    ]);
+  });
+
+  test('UNTIL ends a recurrence and RECURRENCE-ID moves one occurrence', () => {
+    const intervals = expand(calendar(
+      [
+        'UID:standup',
+        'SUMMARY:Standup',
+        `DTSTART;TZID=${TIMEZONE}:20261019T093000`,
+        `DTEND;TZID=${TIMEZONE}:20261019T094500`,
+        'RRULE:FREQ=DAILY;UNTIL=20261022T000000Z',
+      ],
+      [
+        'UID:standup',
+        'SUMMARY:Moved standup',
+        `RECURRENCE-ID;TZID=${TIMEZONE}:20261020T093000`,
+        `DTSTART;TZID=${TIMEZONE}:20261020T140000`,
+        `DTEND;TZID=${TIMEZONE}:20261020T141500`,
+      ]
+    ), '2026-10-19', '2026-10-30');
+
+    expect(intervals.map(busy => [busy.start.toISOString(), busy.summary])).toEqual([
+      ['2026-10-19T07:30:00.000Z', 'Standup'],
+      ['2026-10-20T12:00:00.000Z', 'Moved standup'],
+      ['2026-10-21T07:30:00.000Z', 'Standup'],
+    ]);
+  });
+
+  test('All-day events take whole days; cancelled and free events take none', () => {
+    const intervals = expand(calendar(
+      ['UID:trip', 'DTSTART;VALUE=DATE:20261022', 'DTEND;VALUE=DATE:20261024'],
+      ['UID:cancelled', 'DTSTART:20261020T090000Z', 'DTEND:20261020T100000Z', 'STATUS:CANCELLED'],
+      ['UID:free', 'DTSTART:20261021T090000Z', 'DTEND:20261021T100000Z', 'TRANSP:TRANSPARENT']
+    ), '2026-10-19', '2026-10-30');
+
+    expect(intervals.length).toBe(1);
+    expect(intervals[0].start).toEqual(fromZonedTime('2026-10-22', 0, TIMEZONE));
+    expect(intervals[0].end).toEqual(fromZonedTime('2026-10-24', 0, TIMEZONE));
+  });
+
+  test('Text that is not a calendar is rejected', () => {
+    expect(() => parseIcs('')).toThrow(IcsParseError);
+    expect(() => parseIcs('BEGIN:VCARD\r\nEND:VCARD')).toThrow(IcsParseError);
+  });
+});
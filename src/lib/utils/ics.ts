@@ -0,0 +1,508 @@
+import { addDaysToDateKey, fromZonedTime, isValidTimezone } from './working-hours';
+
+// Upper bound on recurrence periods walked per event, so odd rules always end
+const MAX_RECURRENCE_PERIODS = 20000;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+
+/**
+ * A DATE or DATE-TIME value as written in the file
+ */
+export interface IcsDateTime {
+  date: string;                // YYYY-MM-DD
+  minutes: number | null;      // Minutes since midnight, null for all-day dates
+  utc: boolean;
+  tzid?: string;
+}
+
+export type IcsFrequency = (typeof FREQUENCIES)[number];
+
+/**
+ * A BYDAY entry, such as MO or -1FR
+ */
+export interface IcsWeekday {
+  weekday: number;             // 0 = Sunday
+  ordinal?: number;            // Nth weekday of the month, negative from its end
+}
+
+/**
+ * The supported parts of an RRULE
+ */
+export interface IcsRecurrenceRule {
+  freq: IcsFrequency;
+  interval: number;
+  count?: number;
+  until?: IcsDateTime;
+  byDay: IcsWeekday[];
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+/**
+ * The parts of a VEVENT that decide when it is busy
+ */
+export interface IcsEvent {
+  uid: string;
+  summary?: string;
+  start: IcsDateTime;
+  end?: IcsDateTime;
+  durationMinutes?: number;
+  rrule?: IcsRecurrenceRule;
+  exdates: IcsDateTime[];
+  recurrenceId?: IcsDateTime;
+  cancelled: boolean;
+  transparent: boolean;
+}
+
+/**
+ * A span of time taken by a calendar event
+ */
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+  summary?: string;
+}
+
+/**
+ * Thrown when a file is not an iCalendar file
+ */
+export class IcsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IcsParseError';
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Splits a content line into its name, parameters and value.
+ * Colons and semicolons inside quoted parameter values are not separators.
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, separator).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const equals = part.indexOf('=');
+    if (equals > 0) {
+      params[part.slice(0, equals).toUpperCase()] = part.slice(equals + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+/**
+ * Reverses TEXT escaping
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Parses a DATE (20261019) or DATE-TIME (20261019T090000, optionally ending in Z)
+ */
+function parseDateTime(value: string, tzid?: string): IcsDateTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, , utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (hour === undefined) {
+    return { date, minutes: null, utc: false };
+  }
+  return {
+    date,
+    minutes: parseInt(hour, 10) * 60 + parseInt(minute, 10),
+    utc: utc === 'Z',
+    tzid: utc === 'Z' ? undefined : tzid,
+  };
+}
+
+/**
+ * Parses a DURATION such as PT1H30M or P1D into minutes
+ */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = (parseInt(weeks ?? '0', 10) * 7 + parseInt(days ?? '0', 10)) * 24 * 60
+    + parseInt(hours ?? '0', 10) * 60
+    + parseInt(minutes ?? '0', 10);
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * Parses the supported parts of an RRULE value.
+ * Returns null for frequencies below a day, which are not expanded.
+ */
+function parseRecurrenceRule(value: string): IcsRecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, partValue] = part.split('=');
+    if (key && partValue !== undefined) parts[key.toUpperCase()] = partValue.toUpperCase();
+  }
+
+  const freq = FREQUENCIES.find(frequency => frequency === parts.FREQ);
+  if (!freq) return null;
+
+  const numbers = (list?: string): number[] =>
+    (list ?? '').split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0);
+
+  const byDay = (parts.BYDAY ?? '')
+    .split(',')
+    .map((entry): IcsWeekday | null => {
+      const match = entry.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) return null;
+      return {
+        weekday: WEEKDAY_CODES.indexOf(match[2]),
+        ordinal: match[1] ? parseInt(match[1], 10) : undefined,
+      };
+    })
+    .filter((entry): entry is IcsWeekday => entry !== null);
+
+  const interval = parseInt(parts.INTERVAL ?? '1', 10);
+  const count = parts.COUNT ? parseInt(parts.COUNT, 10) : undefined;
+
+  return {
+    freq,
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+    count: count !== undefined && Number.isInteger(count) && count > 0 ? count : undefined,
+    until: parts.UNTIL ? parseDateTime(parts.UNTIL) ?? undefined : undefined,
+    byDay,
+    byMonthDay: numbers(parts.BYMONTHDAY).filter(n => Math.abs(n) <= 31),
+    byMonth: numbers(parts.BYMONTH).filter(n => n >= 1 && n <= 12),
+  };
+}
+
+/**
+ * Parses the events of an iCalendar (.ics) file.
+ * Events without a valid start are skipped; time zone definitions are not
+ * read, as TZID values are expected to be IANA names.
+ * @param text - Contents of the file
+ * @throws IcsParseError if the text is not an iCalendar file
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new IcsParseError('Not an iCalendar file: BEGIN:VCALENDAR is missing');
+  }
+
+  const events: IcsEvent[] = [];
+  const components: string[] = [];
+  let event: Partial<IcsEvent> & { exdates: IcsDateTime[] } = { exdates: [] };
+
+  for (const rawLine of lines) {
+    const line = parseContentLine(rawLine.trim());
+    if (!line) continue;
+
+    if (line.name === 'BEGIN') {
+      components.push(line.value.toUpperCase());
+      if (line.value.toUpperCase() === 'VEVENT') {
+        event = { exdates: [], cancelled: false, transparent: false };
+      }
+      continue;
+    }
+
+    if (line.name === 'END') {
+      const component = components.pop();
+      if (component === 'VEVENT' && event.start) {
+        events.push({
+          uid: event.uid ?? `event-${events.length}`,
+          cancelled: false,
+          transparent: false,
+          ...event,
+          start: event.start,
+        });
+      }
+      continue;
+    }
+
+    // Only properties of the event itself, not of its alarms
+    if (components[components.length - 1] !== 'VEVENT') continue;
+
+    switch (line.name) {
+      case 'UID':
+        event.uid = line.value;
+        break;
+      case 'SUMMARY':
+        event.summary = unescapeText(line.value);
+        break;
+      case 'DTSTART':
+        event.start = parseDateTime(line.value, line.params.TZID) ?? undefined;
+        break;
+      case 'DTEND':
+        event.end = parseDateTime(line.value, line.params.TZID) ?? undefined;
+        break;
+      case 'DURATION':
+        event.durationMinutes = parseDuration(line.value) ?? undefined;
+        break;
+      case 'RRULE':
+        event.rrule = parseRecurrenceRule(line.value) ?? undefined;
+        break;
+      case 'EXDATE':
+        for (const value of line.value.split(',')) {
+          const exdate = parseDateTime(value, line.params.TZID);
+          if (exdate) event.exdates.push(exdate);
+        }
+        break;
+      case 'RECURRENCE-ID':
+        event.recurrenceId = parseDateTime(line.value, line.params.TZID) ?? undefined;
+        break;
+      case 'STATUS':
+        event.cancelled = line.value.toUpperCase() === 'CANCELLED';
+        break;
+      case 'TRANSP':
+        event.transparent = line.value.toUpperCase() === 'TRANSPARENT';
+        break;
+    }
+  }
+
+  return events;
+}
+
+// ============================================================================
+// Expansion
+// ============================================================================
+
+/**
+ * Gets the instant of a date-time; all-day dates start at midnight.
+ * Unknown TZIDs and floating times are read in the default timezone.
+ */
+function toInstant(value: IcsDateTime, defaultTimezone: string): Date {
+  return fromZonedTime(value.date, value.minutes ?? 0, getTimezone(value, defaultTimezone));
+}
+
+/**
+ * Gets the timezone a date-time is written in
+ */
+function getTimezone(value: IcsDateTime, defaultTimezone: string): string {
+  if (value.utc) return 'UTC';
+  return value.tzid && isValidTimezone(value.tzid) ? value.tzid : defaultTimezone;
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function toDateKey(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/**
+ * Checks a date against BYMONTHDAY values, which count from the end of the month when negative
+ */
+function matchesMonthDay(date: string, byMonthDay: number[]): boolean {
+  const [year, month, day] = date.split('-').map(Number);
+  const length = daysInMonth(year, month);
+  return byMonthDay.some(value => (value > 0 ? value : length + value + 1) === day);
+}
+
+/**
+ * Gets the days of a month selected by BYMONTHDAY and BYDAY,
+ * or the start's day of the month when neither is given
+ */
+function monthDays(year: number, month: number, rule: IcsRecurrenceRule, startDay: number): string[] {
+  const length = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay
+      .map(day => (day > 0 ? day : length + day + 1))
+      .filter(day => day >= 1 && day <= length);
+    if (rule.byDay.length > 0) {
+      days = days.filter(day => rule.byDay.some(entry => entry.weekday === weekdayOf(toDateKey(year, month, day))));
+    }
+  } else if (rule.byDay.length > 0) {
+    days = rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const first = ((weekday - weekdayOf(toDateKey(year, month, 1)) + 7) % 7) + 1;
+      const matching: number[] = [];
+      for (let day = first; day <= length; day += 7) matching.push(day);
+      if (ordinal === undefined) return matching;
+      const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      return picked === undefined ? [] : [picked];
+    });
+  } else {
+    days = startDay <= length ? [startDay] : [];
+  }
+
+  return days.map(day => toDateKey(year, month, day));
+}
+
+/**
+ * Generates the dates of a recurrence in order, starting from its first date
+ */
+function* recurrenceDates(start: string, rule: IcsRecurrenceRule): Generator<string> {
+  const [startYear, startMonth, startDay] = start.split('-').map(Number);
+  // Weeks start on Monday
+  const startWeek = addDaysToDateKey(start, -((weekdayOf(start) + 6) % 7));
+
+  for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+    let candidates: string[];
+
+    switch (rule.freq) {
+      case 'DAILY':
+        candidates = [addDaysToDateKey(start, period * rule.interval)].filter(date =>
+          (rule.byDay.length === 0 || rule.byDay.some(entry => entry.weekday === weekdayOf(date)))
+          && (rule.byMonthDay.length === 0 || matchesMonthDay(date, rule.byMonthDay))
+        );
+        break;
+      case 'WEEKLY': {
+        const week = addDaysToDateKey(startWeek, period * rule.interval * 7);
+        const weekdays = rule.byDay.length > 0 ? rule.byDay.map(entry => entry.weekday) : [weekdayOf(start)];
+        candidates = weekdays.map(weekday => addDaysToDateKey(week, (weekday + 6) % 7));
+        break;
+      }
+      case 'MONTHLY': {
+        const monthIndex = startMonth - 1 + period * rule.interval;
+        candidates = monthDays(startYear + Math.floor(monthIndex / 12), (monthIndex % 12) + 1, rule, startDay);
+        break;
+      }
+      case 'YEARLY': {
+        const year = startYear + period * rule.interval;
+        const months = rule.byMonth.length > 0 ? rule.byMonth : [startMonth];
+        candidates = months.flatMap(month => monthDays(year, month, rule, startDay));
+        break;
+      }
+    }
+
+    if (rule.byMonth.length > 0 && rule.freq !== 'YEARLY') {
+      candidates = candidates.filter(date => rule.byMonth.includes(Number(date.slice(5, 7))));
+    }
+
+    yield* [...new Set(candidates)].filter(date => date >= start).sort();
+  }
+}
+
+/**
+ * Key identifying an occurrence, for EXDATE and RECURRENCE-ID matching
+ */
+function occurrenceKey(value: IcsDateTime, defaultTimezone: string): string {
+  return value.minutes === null ? `date:${value.date}` : `time:${toInstant(value, defaultTimezone).getTime()}`;
+}
+
+/**
+ * Expands events into the busy intervals that overlap a range.
+ * Recurring events are expanded from their RRULE, minus EXDATEs and
+ * occurrences replaced by a RECURRENCE-ID override. Cancelled and
+ * transparent (free) events take no time.
+ * @param events - Parsed events
+ * @param rangeStart - Start of the range
+ * @param rangeEnd - End of the range (exclusive)
+ * @param defaultTimezone - Timezone for floating times and unknown TZIDs
+ */
+export function expandBusyIntervals(
+  events: IcsEvent[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  defaultTimezone: string
+): BusyInterval[] {
+  const intervals: BusyInterval[] = [];
+
+  // Occurrences that have their own override event
+  const overridden = new Map<string, Set<string>>();
+  for (const event of events) {
+    if (event.recurrenceId) {
+      const keys = overridden.get(event.uid) ?? new Set<string>();
+      keys.add(occurrenceKey(event.recurrenceId, defaultTimezone));
+      overridden.set(event.uid, keys);
+    }
+  }
+
+  for (const event of events) {
+    if (event.cancelled || event.transparent) continue;
+
+    const allDay = event.start.minutes === null;
+    // Occurrences keep the wall clock time of the first one in its timezone
+    const timezone = getTimezone(event.start, defaultTimezone);
+    const firstStart = toInstant(event.start, defaultTimezone);
+
+    // All-day events last whole days; timed events keep their length
+    let lengthDays = 1;
+    let lengthMs = 0;
+    if (allDay) {
+      if (event.end) {
+        lengthDays = Math.max(1, Math.round((Date.parse(event.end.date) - Date.parse(event.start.date)) / 86400000));
+      } else if (event.durationMinutes) {
+        lengthDays = Math.max(1, Math.round(event.durationMinutes / (24 * 60)));
+      }
+    } else if (event.end) {
+      lengthMs = toInstant(event.end, defaultTimezone).getTime() - firstStart.getTime();
+    } else if (event.durationMinutes) {
+      lengthMs = event.durationMinutes * 60 * 1000;
+    }
+    if (!allDay && lengthMs <= 0) continue;
+
+    const occurrence = (date: string): BusyInterval => {
+      const start = allDay ? fromZonedTime(date, 0, timezone) : fromZonedTime(date, event.start.minutes!, timezone);
+      const end = allDay
+        ? fromZonedTime(addDaysToDateKey(date, lengthDays), 0, timezone)
+        : new Date(start.getTime() + lengthMs);
+      return { start, end, summary: event.summary };
+    };
+
+    const addIfInRange = (interval: BusyInterval): void => {
+      if (interval.start < rangeEnd && interval.end > rangeStart) intervals.push(interval);
+    };
+
+    if (!event.rrule || event.recurrenceId) {
+      addIfInRange(occurrence(event.start.date));
+      continue;
+    }
+
+    const rule = event.rrule;
+    const skipped = new Set([
+      ...event.exdates.map(exdate => occurrenceKey(exdate, defaultTimezone)),
+      ...(overridden.get(event.uid) ?? []),
+    ]);
+    const until = rule.until;
+    let count = 0;
+
+    for (const date of recurrenceDates(event.start.date, rule)) {
+      count++;
+      if (rule.count !== undefined && count > rule.count) break;
+
+      const interval = occurrence(date);
+      if (until) {
+        const pastUntil = until.minutes === null || allDay
+          ? date > until.date
+          : interval.start > toInstant(until, timezone);
+        if (pastUntil) break;
+      }
+      if (interval.start >= rangeEnd) break;
+
+      const key = allDay ? `date:${date}` : `time:${interval.start.getTime()}`;
+      if (!skipped.has(key)) addIfInRange(interval);
+    }
+  }
+
+  return intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
@@ -0,0 +1,36 @@
+// Longest allowed snooze (1 week, in minutes)
+export const MAX_SNOOZE_MINUTES = 10080;
+
+/**
+ * Validates a snooze duration.
+ * @param minutes - Minutes to snooze for
+ * @returns Validation errors object (empty if valid)
+ */
+export function validateSnoozeMinutes(minutes: unknown): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+
+  if (typeof minutes !== 'number' || !Number.isInteger(minutes)) {
+    errors.minutes = ['minutes must be an integer'];
+  } else if (minutes < 1) {
+    errors.minutes = ['minutes must be at least 1'];
+  } else if (minutes > MAX_SNOOZE_MINUTES) {
+    errors.minutes = [`minutes must be at most ${MAX_SNOOZE_MINUTES}`];
+  }
+
+  return errors;
+}
+
+/**
+ * Checks whether a notification belongs in the inbox at the given time.
+ * Snoozed notifications are hidden until their snooze ends.
+ * @param notification - The notification to check
+ * @param now - The reference time
+ * @returns True if the notification should be shown
+ */
+export function isNotificationVisible(
+  notification: { snoozedUntil?: Date | null },
+  now: Date
+): boolean {
+  if (!notification.snoozedUntil) return true;
+  return notification.snoozedUntil.getTime() <= now.getTime();
+}
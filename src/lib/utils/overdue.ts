@@ -0,0 +1,15 @@
+import type { Task } from '@/types';
+import { isDeferred } from './defer';
+
+/**
+ * Checks if a task is overdue.
+ * A task is overdue if it's incomplete, not deferred and has a deadline in the past.
+ * @param task - The task to check
+ * @param now - The current time (default: now)
+ */
+export function isOverdue(task: Task, now: Date = new Date()): boolean {
+  if (task.completed) return false;
+  if (!task.deadline) return false;
+  if (isDeferred(task, now)) return false;
+  return task.deadline < now;
+}
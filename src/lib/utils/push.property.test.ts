@@ -0,0 +1,149 @@
+/**
+ * Property-based tests for push reminder delivery
+ *
+ * Tests Property 51 for push messages sent to a local stub push service
+ * **Validates: Requirements 27.2, 27.3**
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import * as fc from 'fast-check';
+import webpush from 'web-push';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  buildReminderPushPayload,
+  generateSubscriptionKeys,
+  sendPushMessage,
+  validatePushSubscription,
+  PushSubscriptionGoneError,
+  type VapidDetails,
+} from './push';
+
+interface ReceivedPush {
+  path: string;
+  contentEncoding: string | null;
+  authorization: string | null;
+  size: number;
+}
+
+// Local stub push service: records messages, answers with the status for its path
+let server: Server;
+let received: ReceivedPush[] = [];
+let vapid: VapidDetails;
+
+beforeAll(async () => {
+  vapid = { subject: 'mailto:test@example.com', ...webpush.generateVAPIDKeys() };
+
+  server = createServer((req, res) => {
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+    });
+    req.on('end', () => {
+      const path = req.url ?? '/';
+      received.push({
+        path,
+        contentEncoding: req.headers['content-encoding'] ?? null,
+        authorization: req.headers.authorization ?? null,
+        size,
+      });
+
+      res.statusCode = path === '/gone' ? 410 : path === '/error' ? 500 : 201;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+function stubEndpoint(path: string): string {
+  const { port } = server.address() as AddressInfo;
+  return `http://127.0.0.1:${port}${path}`;
+}
+
+describe('Property 51: Push Reminder Delivery', () => {
+  /**
+   * **Feature: daily-task-planner, Property 51: Push Reminder Delivery**
+   * **Validates: Requirements 27.2, 27.3**
+   *
+   * For any due push reminder, an encrypted, VAPID-signed message SHALL be sent
+   * to each subscription, and its payload SHALL open the reminded task.
+   */
+  test('Payload opens the task and is tagged with the reminder', () => {
+    fc.assert(
+      fc.property(fc.uuid(), fc.uuid(), fc.uuid(), fc.string({ minLength: 1, maxLength: 100 }), (taskId, listId, reminderId, name) => {
+        const payload = buildReminderPushPayload({ id: taskId, name, listId }, reminderId);
+
+        expect(payload.title).toBe(name);
+        expect(payload.url).toBe(`/list/${listId}?task=${taskId}`);
+        expect(payload.tag).toBe(reminderId);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Messages are encrypted and VAPID-signed', async () => {
+    const subscription = { endpoint: stubEndpoint('/push/abc'), keys: generateSubscriptionKeys() };
+    const payload = buildReminderPushPayload(
+      { id: 'task-1', name: 'Submit report', listId: 'list-1', deadline: new Date() },
+      'reminder-1'
+    );
+
+    await sendPushMessage(subscription, payload, vapid);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].path).toBe('/push/abc');
+    expect(received[0].contentEncoding).toBe('aes128gcm');
+    expect(received[0].authorization).toStartWith('vapid ');
+    // The encrypted payload is sent in the request body
+    expect(received[0].size).toBeGreaterThan(0);
+  });
+
+  test('Expired subscriptions are reported as gone', async () => {
+    const subscription = { endpoint: stubEndpoint('/gone'), keys: generateSubscriptionKeys() };
+    const payload = buildReminderPushPayload({ id: 't', name: 'Task', listId: 'l' }, 'r');
+
+    await expect(sendPushMessage(subscription, payload, vapid)).rejects.toBeInstanceOf(PushSubscriptionGoneError);
+  });
+
+  test('Push service errors are thrown', async () => {
+    const subscription = { endpoint: stubEndpoint('/error'), keys: generateSubscriptionKeys() };
+    const payload = buildReminderPushPayload({ id: 't', name: 'Task', listId: 'l' }, 'r');
+
+    await expect(sendPushMessage(subscription, payload, vapid)).rejects.toThrow('500');
+  });
+
+  test('Generated subscriptions are valid', () => {
+    fc.assert(
+      fc.property(fc.webUrl({ validSchemes: ['https'] }), (endpoint) => {
+        expect(validatePushSubscription({ endpoint, keys: generateSubscriptionKeys() })).toEqual({});
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('http endpoints are only accepted when explicitly allowed', () => {
+    fc.assert(
+      fc.property(fc.webUrl({ validSchemes: ['http'] }), (endpoint) => {
+        const keys = generateSubscriptionKeys();
+        expect(Object.keys(validatePushSubscription({ endpoint, keys }))).toEqual(['endpoint']);
+        expect(validatePushSubscription({ endpoint, keys }, true)).toEqual({});
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('Subscriptions without endpoint or keys are rejected', () => {
+    expect(Object.keys(validatePushSubscription({}))).toEqual(['endpoint', 'p256dh', 'auth']);
+    expect(Object.keys(validatePushSubscription({ endpoint: 'not a url', keys: generateSubscriptionKeys() }))).toEqual(['endpoint']);
+    expect(Object.keys(validatePushSubscription({ endpoint: 'ftp://example.com', keys: generateSubscriptionKeys() }))).toEqual(['endpoint']);
+  });
+});
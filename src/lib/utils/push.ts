@@ -0,0 +1,130 @@
+import webpush from 'web-push';
+import { createECDH, randomBytes } from 'crypto';
+import { format } from 'date-fns';
+import type { PushPayload, PushSubscriptionInput } from '@/types';
+import { getTaskPath } from '@/lib/utils/reminders';
+
+// How long the push service should keep an undelivered message (seconds)
+const PUSH_TTL_SECONDS = 60 * 60;
+
+/**
+ * VAPID identity used to sign push requests
+ */
+export interface VapidDetails {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+/**
+ * Thrown when the push service reports that a subscription no longer exists
+ * (HTTP 404 or 410). The subscription should be removed.
+ */
+export class PushSubscriptionGoneError extends Error {
+  constructor(endpoint: string) {
+    super(`Push subscription "${endpoint}" is no longer valid`);
+    this.name = 'PushSubscriptionGoneError';
+  }
+}
+
+/**
+ * Validates a push subscription received from the browser.
+ * Push services are always https; since the server posts to the endpoint,
+ * anything else is rejected unless explicitly allowed.
+ * @param data - The subscription to validate
+ * @param allowInsecure - Whether an http endpoint is accepted (default: false)
+ * @returns Validation errors object (empty if valid)
+ */
+export function validatePushSubscription(data: unknown, allowInsecure = false): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  const input = (data ?? {}) as Partial<PushSubscriptionInput>;
+
+  if (typeof input.endpoint !== 'string' || !input.endpoint) {
+    errors.endpoint = ['endpoint is required'];
+  } else {
+    try {
+      const url = new URL(input.endpoint);
+      if (url.protocol !== 'https:' && !(allowInsecure && url.protocol === 'http:')) {
+        errors.endpoint = [allowInsecure ? 'endpoint must be an http(s) URL' : 'endpoint must be an https URL'];
+      }
+    } catch {
+      errors.endpoint = ['endpoint must be a valid URL'];
+    }
+  }
+
+  if (typeof input.keys?.p256dh !== 'string' || !input.keys.p256dh) {
+    errors.p256dh = ['keys.p256dh is required'];
+  }
+
+  if (typeof input.keys?.auth !== 'string' || !input.keys.auth) {
+    errors.auth = ['keys.auth is required'];
+  }
+
+  return errors;
+}
+
+/**
+ * Generates client keys for a subscription that is not backed by a browser,
+ * such as one pointing at the local stub push service.
+ * @returns A P-256 public key and auth secret, URL-safe base64 encoded
+ */
+export function generateSubscriptionKeys(): PushSubscriptionInput['keys'] {
+  const ecdh = createECDH('prime256v1');
+  return {
+    p256dh: ecdh.generateKeys().toString('base64url'),
+    auth: randomBytes(16).toString('base64url'),
+  };
+}
+
+/**
+ * Builds the push payload for a reminder.
+ * Clicking the notification opens the task.
+ * @param task - The task the reminder belongs to
+ * @param reminderId - Used as the notification tag so repeats replace each other
+ */
+export function buildReminderPushPayload(
+  task: { id: string; name: string; listId: string; deadline?: Date },
+  reminderId: string
+): PushPayload {
+  return {
+    title: task.name,
+    body: task.deadline ? `Due ${format(task.deadline, 'MMM d, h:mm a')}` : undefined,
+    url: getTaskPath(task.listId, task.id),
+    tag: reminderId,
+  };
+}
+
+/**
+ * Sends an encrypted push message to a subscription.
+ * The request is built with web-push and sent with fetch, so plain http
+ * endpoints (like the local stub push service) work as well as real ones.
+ * @param subscription - The browser subscription
+ * @param payload - The payload to deliver
+ * @param vapid - VAPID identity used to sign the request
+ * @throws PushSubscriptionGoneError if the subscription has expired
+ * @throws Error if the push service rejects the message
+ */
+export async function sendPushMessage(
+  subscription: PushSubscriptionInput,
+  payload: PushPayload,
+  vapid: VapidDetails
+): Promise<void> {
+  const request = webpush.generateRequestDetails(subscription, JSON.stringify(payload), {
+    vapidDetails: vapid,
+    TTL: PUSH_TTL_SECONDS,
+  });
+
+  const res = await fetch(request.endpoint, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body ? new Uint8Array(request.body) : undefined,
+  });
+
+  if (res.status === 404 || res.status === 410) {
+    throw new PushSubscriptionGoneError(subscription.endpoint);
+  }
+
+  if (!res.ok) {
+    throw new Error(`Push service responded with ${res.status}`);
+  }
+}
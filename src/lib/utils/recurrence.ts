@@ -589,6 +589,166 @@ export function parseFormattedRecurrence(formatted: string): RecurrencePattern |
   return null;
 }
 
+// Weekday words accepted in recurrence phrases, longest forms first
+const WEEKDAY_WORD = '(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)';
+
+// Ordinal words accepted in recurrence phrases
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+};
+
+const ORDINAL_WORD = '(first|second|third|fourth|fifth|[1-5](?:st|nd|rd|th))';
+
+/**
+ * Maps a weekday word ("tues", "thursday") to its weekday number (0-6)
+ */
+function weekdayFromWord(word: string): number {
+  return WEEKDAY_SHORT_NAMES.findIndex(name => word.toLowerCase().startsWith(name.toLowerCase()));
+}
+
+/**
+ * Maps an ordinal word ("third", "3rd") to its number
+ */
+function ordinalFromWord(word: string): number {
+  return ORDINAL_WORDS[word.toLowerCase()] ?? parseInt(word, 10);
+}
+
+/**
+ * Recurrence phrases recognized in free text.
+ * Each phrase is rewritten to the canonical form read by parseFormattedRecurrence.
+ */
+const RECURRENCE_PHRASES: { pattern: RegExp; toFormatted: (match: RegExpMatchArray) => string }[] = [
+  // "every weekday", "on weekdays"
+  {
+    pattern: /\b(?:every\s+weekday|on\s+weekdays)\b/i,
+    toFormatted: () => 'every weekday',
+  },
+  // "every 3rd Monday", "every first Friday of the month"
+  {
+    pattern: new RegExp(`\\bevery\\s+${ORDINAL_WORD}\\s+(${WEEKDAY_WORD})(?:\\s+of\\s+(?:the|every|each)\\s+month)?\\b`, 'i'),
+    toFormatted: (m) => `every ${ordinalFromWord(m[1])}th ${WEEKDAY_NAMES[weekdayFromWord(m[2])]} of the month`,
+  },
+  // "on the 2nd Tuesday of every month"
+  {
+    pattern: new RegExp(`\\b(?:on\\s+)?the\\s+${ORDINAL_WORD}\\s+(${WEEKDAY_WORD})\\s+of\\s+(?:every|each)\\s+month\\b`, 'i'),
+    toFormatted: (m) => `every ${ordinalFromWord(m[1])}th ${WEEKDAY_NAMES[weekdayFromWord(m[2])]} of the month`,
+  },
+  // "on the 1st of every month"
+  {
+    pattern: /\b(?:on\s+)?the\s+(\d{1,2})(?:st|nd|rd|th)\s+of\s+(?:every|each)\s+month\b/i,
+    toFormatted: (m) => `every ${m[1]}th of the month`,
+  },
+  // "every 15th", "every 15th of the month"
+  {
+    pattern: /\bevery\s+(\d{1,2})(?:st|nd|rd|th)(?:\s+of\s+(?:the|every|each)\s+month)?\b/i,
+    toFormatted: (m) => `every ${m[1]}th of the month`,
+  },
+  // "every 3 days", "every other week"
+  {
+    pattern: /\bevery\s+(\d+|other)\s+(day|week|month|year)s?\b/i,
+    toFormatted: (m) => `every ${m[1].toLowerCase() === 'other' ? 2 : m[1]} ${m[2].toLowerCase()}s`,
+  },
+  // "every Monday", "every Mon, Wed and Fri"
+  {
+    pattern: new RegExp(`\\bevery\\s+(${WEEKDAY_WORD}(?:(?:\\s*,\\s*(?:and\\s+)?|\\s+and\\s+)${WEEKDAY_WORD})*)\\b`, 'i'),
+    toFormatted: (m) => {
+      const days = m[1].split(/\s*,\s*(?:and\s+)?|\s+and\s+/).map(word => WEEKDAY_SHORT_NAMES[weekdayFromWord(word)]);
+      return `every ${days.join(', ')}`;
+    },
+  },
+  // "every day", "every week", "every month", "every year"
+  {
+    pattern: /\bevery\s+(day|week|month|year)\b/i,
+    toFormatted: (m) => `every ${m[1].toLowerCase()}`,
+  },
+];
+
+/**
+ * A recurrence phrase found in free text
+ */
+export interface RecurrencePhraseMatch {
+  pattern: RecurrencePattern;
+  index: number;               // Position of the phrase in the text
+  text: string;                // The phrase as written
+}
+
+/**
+ * Finds a recurrence phrase such as "every weekday" or "on the 1st of every month"
+ * in free text. Phrases are rewritten to the form produced by formatRecurrencePattern
+ * and read back with parseFormattedRecurrence.
+ * @param text - The text to search
+ * @returns The recognized pattern and where it was found, or null if none
+ */
+export function findRecurrencePhrase(text: string): RecurrencePhraseMatch | null {
+  for (const { pattern, toFormatted } of RECURRENCE_PHRASES) {
+    const match = text.match(pattern);
+    if (!match || match.index === undefined) continue;
+
+    const recurrence = parseFormattedRecurrence(toFormatted(match));
+    if (recurrence && validateRecurrencePattern(recurrence).valid) {
+      return { pattern: recurrence, index: match.index, text: match[0] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a date falls on a day the recurrence pattern occurs.
+ * Interval-only patterns occur on any day.
+ */
+function occursOn(date: Date, pattern: RecurrencePattern): boolean {
+  const day = date.getDay();
+
+  if (pattern.type === 'weekday') {
+    return day !== 0 && day !== 6;
+  }
+
+  if (pattern.type !== 'custom') {
+    return true;
+  }
+
+  if (pattern.weekdays && pattern.weekdays.length > 0) {
+    return pattern.weekdays.includes(day);
+  }
+
+  if (pattern.ordinal !== undefined && pattern.ordinalWeekday !== undefined) {
+    return day === pattern.ordinalWeekday && Math.ceil(date.getDate() / 7) === pattern.ordinal;
+  }
+
+  if (pattern.monthDay !== undefined) {
+    const daysInMonth = getDaysInMonth(date.getFullYear(), date.getMonth());
+    return date.getDate() === Math.min(pattern.monthDay, daysInMonth);
+  }
+
+  return true;
+}
+
+/**
+ * Finds the first date on or after a start date on which a pattern occurs.
+ * The time of day of the start date is kept.
+ * @param pattern - The recurrence pattern
+ * @param from - The earliest allowed date
+ * @returns The first occurrence date
+ */
+export function getFirstOccurrence(pattern: RecurrencePattern, from: Date): Date {
+  const date = new Date(from);
+
+  // Every pattern occurs at least once within a year
+  for (let i = 0; i < 366; i++) {
+    if (occursOn(date, pattern)) {
+      return date;
+    }
+    date.setDate(date.getDate() + 1);
+  }
+
+  return new Date(from);
+}
+
 /**
  * Creates a simple daily recurrence pattern.
  */
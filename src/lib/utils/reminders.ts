@@ -0,0 +1,45 @@
+import type { Reminder } from '@/types';
+
+/**
+ * Calculates when a reminder should fire.
+ * Reminders are offset from the task deadline, so the due time is
+ * `deadline - offsetMinutes`.
+ * @param deadline - The task deadline
+ * @param offsetMinutes - Minutes before the deadline
+ * @returns The moment the reminder becomes due
+ */
+export function getReminderDueAt(deadline: Date, offsetMinutes: number): Date {
+  return new Date(deadline.getTime() - offsetMinutes * 60 * 1000);
+}
+
+/**
+ * Checks whether a reminder should be delivered at the given time.
+ * A reminder is due when it has not been sent, its task is incomplete,
+ * the task has a deadline, and the due time is not in the future.
+ * Reminders whose due time passed while nothing was running are still due,
+ * so missed reminders are caught up on the next check.
+ * @param reminder - The reminder to check
+ * @param task - The task the reminder belongs to
+ * @param now - The reference time
+ * @returns True if the reminder should be delivered
+ */
+export function isReminderDue(
+  reminder: Pick<Reminder, 'offsetMinutes' | 'sent'>,
+  task: { deadline?: Date | null; completed: boolean },
+  now: Date
+): boolean {
+  if (reminder.sent) return false;
+  if (task.completed) return false;
+  if (!task.deadline) return false;
+  return getReminderDueAt(task.deadline, reminder.offsetMinutes).getTime() <= now.getTime();
+}
+
+/**
+ * Gets the in-app path that opens a task.
+ * The list page opens the task given in the `task` query parameter.
+ * @param listId - The list the task belongs to
+ * @param taskId - The task to open
+ */
+export function getTaskPath(listId: string, taskId: string): string {
+  return `/list/${encodeURIComponent(listId)}?task=${encodeURIComponent(taskId)}`;
+}
@@ -0,0 +1,109 @@
+/**
+ * Property-based tests for task rollover
+ *
+ * Tests Property 78 for moving overdue tasks forward and counting rollovers
+ * **Validates: Requirements 5.2, 12.1**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { addDays, addMinutes, isSameDay, startOfDay } from 'date-fns';
+import {
+  ROLLOVER_HISTORY_FIELD,
+  getNextRolloverRecord,
+  getNextRolloverTime,
+  getRescheduleDay,
+  isRolloverCandidate,
+  moveToDay,
+} from './rollover';
+import type { TaskHistoryEntry } from '@/types';
+
+const NOW = new Date(2026, 9, 19, 9);
+
+// Whole-second times within a couple of weeks of NOW
+const dateArb = fc
+  .integer({ min: -14 * 24 * 60 * 60, max: 14 * 24 * 60 * 60 })
+  .map(seconds => new Date(NOW.getTime() + seconds * 1000));
+
+const rolloverEntry = (originalDate: Date, count: number, changedAt: Date): TaskHistoryEntry => ({
+  id: `history-${count}`,
+  taskId: 'task-1',
+  field: ROLLOVER_HISTORY_FIELD,
+  previousValue: originalDate.toISOString(),
+  newValue: String(count),
+  changedAt,
+});
+
+describe('Property 78: Task Rollover', () => {
+  /**
+   * **Feature: daily-task-planner, Property 78: Task Rollover**
+   * **Validates: Requirements 5.2, 12.1**
+   *
+   * For any overdue task, moving it to today or tomorrow SHALL keep its time
+   * of day. Only incomplete, non-recurring tasks dated before today SHALL
+   * roll over, and each rollover SHALL keep the originally planned date and
+   * count up while the task stays where the last rollover put it.
+   */
+  test('Moving a task to another day keeps its time of day', () => {
+    fc.assert(
+      fc.property(dateArb, fc.constantFrom('today' as const, 'tomorrow' as const), (date, target) => {
+        const day = getRescheduleDay(target, NOW);
+        const moved = moveToDay(date, day);
+
+        expect(isSameDay(moved, target === 'today' ? NOW : addDays(NOW, 1))).toBe(true);
+        expect(moved.getHours()).toBe(date.getHours());
+        expect(moved.getMinutes()).toBe(date.getMinutes());
+        expect(moved.getSeconds()).toBe(date.getSeconds());
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Only incomplete, non-recurring tasks dated before today roll over', () => {
+    fc.assert(
+      fc.property(dateArb, fc.boolean(), fc.boolean(), (date, completed, recurring) => {
+        const task = {
+          date,
+          completed,
+          recurrence: recurring ? { type: 'daily' as const, interval: 1 } : undefined,
+        };
+
+        expect(isRolloverCandidate(task, NOW)).toBe(!completed && !recurring && date < startOfDay(NOW));
+        expect(isRolloverCandidate({ ...task, startDate: addMinutes(NOW, 1) }, NOW)).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Rollovers count up from the original date until the task is moved', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 10 }), fc.integer({ min: 1, max: 10 }), (daysBack, rollovers) => {
+        const originalDate = addDays(startOfDay(NOW), -daysBack - rollovers);
+        const history: TaskHistoryEntry[] = [];
+        let date = originalDate;
+
+        for (let i = 1; i <= rollovers; i++) {
+          const record = getNextRolloverRecord({ date }, history);
+          expect(record).toEqual({ originalDate, count: i });
+
+          // The rollover moves the task to that night's day, where it stays overdue
+          date = addDays(originalDate, i);
+          history.push(rolloverEntry(record.originalDate, record.count, date));
+        }
+
+        // Rescheduled by hand to another day, the task starts a new chain
+        const rescheduled = addDays(date, -1);
+        expect(getNextRolloverRecord({ date: rescheduled }, history)).toEqual({
+          originalDate: rescheduled,
+          count: 1,
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('The next rollover runs at the start of tomorrow', () => {
+    expect(getNextRolloverTime(NOW)).toEqual(new Date(2026, 9, 20));
+    expect(getNextRolloverTime(new Date(2026, 9, 19, 23, 59))).toEqual(new Date(2026, 9, 20));
+  });
+});
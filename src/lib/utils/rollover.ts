@@ -0,0 +1,89 @@
+import { addDays, isSameDay, startOfDay } from 'date-fns';
+import type { Task, TaskHistoryEntry } from '@/types';
+import { isDeferred } from './defer';
+
+// History field of rollover entries. The previous value is the date the task
+// was originally planned for and the new value how many times it rolled over.
+export const ROLLOVER_HISTORY_FIELD = 'rollover';
+
+// Days the "Reschedule all overdue" dialog can move tasks to
+export type RescheduleTarget = 'today' | 'tomorrow';
+
+export const VALID_RESCHEDULE_TARGETS: RescheduleTarget[] = ['today', 'tomorrow'];
+
+/**
+ * Where a task's rollovers started and how many there have been
+ */
+export interface RolloverRecord {
+  originalDate: Date;
+  count: number;
+}
+
+/**
+ * Moves a date to another day, keeping its time of day
+ */
+export function moveToDay(date: Date, day: Date): Date {
+  const moved = new Date(day);
+  moved.setHours(date.getHours(), date.getMinutes(), date.getSeconds(), 0);
+  return moved;
+}
+
+/**
+ * Gets the day a reschedule target stands for
+ */
+export function getRescheduleDay(target: RescheduleTarget, now: Date = new Date()): Date {
+  const today = startOfDay(now);
+  return target === 'tomorrow' ? addDays(today, 1) : today;
+}
+
+/**
+ * Checks if a task is scheduled before today without being done: incomplete,
+ * not deferred and dated before the start of today
+ */
+export function isOverdueScheduled(task: Pick<Task, 'date' | 'completed' | 'startDate'>, now: Date = new Date()): boolean {
+  if (task.completed || !task.date) return false;
+  if (isDeferred(task, now)) return false;
+  return task.date < startOfDay(now);
+}
+
+/**
+ * Checks if the nightly rollover moves a task. Recurring tasks are left
+ * alone, since moving one would shift the rest of its series.
+ */
+export function isRolloverCandidate(
+  task: Pick<Task, 'date' | 'completed' | 'startDate' | 'recurrence'>,
+  now: Date = new Date()
+): boolean {
+  return !task.recurrence && isOverdueScheduled(task, now);
+}
+
+/**
+ * Gets a task's rollover record once it rolls over again. The count carries
+ * on from its last rollover as long as the task is still on the day that
+ * rollover moved it to; a task rescheduled since then starts over.
+ * @param task - The task before it rolls over
+ * @param history - The task's history, in any order
+ */
+export function getNextRolloverRecord(task: Pick<Task, 'date'>, history: TaskHistoryEntry[]): RolloverRecord {
+  const last = history
+    .filter(entry => entry.field === ROLLOVER_HISTORY_FIELD && entry.previousValue)
+    .reduce<TaskHistoryEntry | null>(
+      (latest, entry) => (!latest || entry.changedAt > latest.changedAt ? entry : latest),
+      null
+    );
+
+  if (last && task.date && isSameDay(last.changedAt, task.date)) {
+    return {
+      originalDate: new Date(last.previousValue!),
+      count: (parseInt(last.newValue ?? '', 10) || 0) + 1,
+    };
+  }
+  return { originalDate: task.date!, count: 1 };
+}
+
+/**
+ * Gets when the next nightly rollover runs: the start of tomorrow
+ */
+export function getNextRolloverTime(now: Date = new Date()): Date {
+  return startOfDay(addDays(now, 1));
+}
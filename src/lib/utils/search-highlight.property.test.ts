@@ -0,0 +1,143 @@
+/**
+ * Property-based tests for search result highlighting
+ *
+ * Tests Property 59 for match ranges and description snippets
+ * **Validates: Requirements 17.2**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import type { FuseResultMatch } from 'fuse.js';
+import {
+  extractSearchWords,
+  findPrefixMatches,
+  getFuzzyMatches,
+  buildSnippet,
+} from './search-highlight';
+import type { SearchMatchRange, Task } from '@/types';
+
+const NOW = new Date(2026, 9, 14, 10, 0, 0);
+
+const wordArb = fc.stringMatching(/^[a-z]{1,10}$/);
+const textArb = fc.array(wordArb, { minLength: 1, maxLength: 40 }).map(words => words.join(' '));
+
+function task(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    name: 'Task',
+    listId: 'inbox',
+    priority: 'none',
+    status: 'todo',
+    completed: false,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function isSortedAndDisjoint(ranges: SearchMatchRange[]): boolean {
+  return ranges.every((range, i) => range.start < range.end && (i === 0 || ranges[i - 1].end <= range.start));
+}
+
+describe('Property 59: Search Result Highlighting', () => {
+  /**
+   * **Feature: daily-task-planner, Property 59: Search Result Highlighting**
+   * **Validates: Requirements 17.2**
+   *
+   * For any text and search words, every highlighted range SHALL cover the
+   * start of a word that begins with one of the search words.
+   */
+  test('Prefix matches cover words starting with a search word', () => {
+    fc.assert(
+      fc.property(textArb, fc.array(wordArb, { minLength: 1, maxLength: 3 }), (text, searchWords) => {
+        const ranges = findPrefixMatches(text, searchWords);
+        expect(isSortedAndDisjoint(ranges)).toBe(true);
+
+        for (const range of ranges) {
+          const highlighted = text.slice(range.start, range.end);
+          expect(searchWords).toContain(highlighted);
+          expect(range.start === 0 || text[range.start - 1] === ' ').toBe(true);
+        }
+
+        const expected = extractSearchWords(text).filter(word => searchWords.some(s => word.startsWith(s)));
+        expect(ranges).toHaveLength(expected.length);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Prefix matches ignore case and accents', () => {
+    const text = 'Café CAFÉS and Crème brûlée';
+    const highlighted = (words: string[]) =>
+      findPrefixMatches(text, words).map(range => text.slice(range.start, range.end));
+
+    expect(highlighted(['cafe'])).toEqual(['Café', 'CAFÉ']);
+    expect(highlighted(['CREME', 'brul'])).toEqual(['Crème', 'brûl']);
+    expect(highlighted(['x'])).toEqual([]);
+  });
+
+  /**
+   * For any description and matches, the snippet SHALL stay within the length
+   * bound and its ranges SHALL highlight the same text as in the description.
+   */
+  test('Snippets keep their highlights', () => {
+    fc.assert(
+      fc.property(textArb, wordArb, fc.integer({ min: 20, max: 120 }), (text, searchWord, maxLength) => {
+        const ranges = findPrefixMatches(text, [searchWord]);
+        const snippet = buildSnippet(text, ranges, maxLength);
+        const body = snippet.text.replace(/^…/, '').replace(/…$/, '');
+
+        expect(body.length).toBeLessThanOrEqual(maxLength);
+        expect(text).toContain(body);
+        expect(isSortedAndDisjoint(snippet.ranges)).toBe(true);
+
+        for (const range of snippet.ranges) {
+          const highlighted = snippet.text.slice(range.start, range.end);
+          expect(highlighted.length).toBeGreaterThan(0);
+          expect(searchWord.startsWith(highlighted)).toBe(true);
+        }
+
+        // The first match is shown whenever it fits
+        if (ranges.length > 0 && ranges[0].end - ranges[0].start <= maxLength / 2) {
+          expect(snippet.ranges.length).toBeGreaterThan(0);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Snippets mark cut text with ellipses', () => {
+    const text = `${'lorem '.repeat(30)}budget review ${'ipsum '.repeat(30)}`.trim();
+    const snippet = buildSnippet(text, findPrefixMatches(text, ['budget']), 60);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text.slice(snippet.ranges[0].start, snippet.ranges[0].end)).toBe('budget');
+
+    expect(buildSnippet('short text', [], 60)).toEqual({ text: 'short text', ranges: [] });
+  });
+
+  test('Fuzzy matches are mapped to fields and labels', () => {
+    const labeled = task({
+      name: 'Budget review',
+      description: 'Quarterly numbers',
+      labels: [
+        { id: 'label-a', name: 'finance', createdAt: NOW, updatedAt: NOW },
+        { id: 'label-b', name: 'urgent', createdAt: NOW, updatedAt: NOW },
+      ],
+    });
+    const fuseMatches: FuseResultMatch[] = [
+      { key: 'name', indices: [[0, 5], [8, 8]] },
+      { key: 'description', indices: [[0, 2], [3, 6], [10, 12]] },
+      { key: 'labelNames', refIndex: 1, indices: [[0, 3]] },
+    ];
+
+    expect(getFuzzyMatches(labeled, fuseMatches)).toEqual({
+      // Single-character matches are dropped
+      name: [{ start: 0, end: 6 }],
+      // Touching ranges are merged
+      description: [{ start: 0, end: 7 }, { start: 10, end: 13 }],
+      labels: { 'label-b': [{ start: 0, end: 4 }] },
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import type { FuseResultMatch } from 'fuse.js';
+import type { SearchMatchRange, SearchMatches, SearchSnippet, Task } from '@/types';
+
+// Characters that make up a word, as for the FTS5 unicode61 tokenizer
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}]+/gu;
+
+// Longest description excerpt returned with a search result
+export const SNIPPET_LENGTH = 120;
+
+// Fuzzy matches shorter than this are too noisy to highlight
+const MIN_FUZZY_MATCH_LENGTH = 2;
+
+/**
+ * Splits free text into the words that are looked up in the search index
+ */
+export function extractSearchWords(text: string): string[] {
+  return text.match(WORD_PATTERN) ?? [];
+}
+
+/**
+ * Lowercases text and strips accents, as the search index does
+ */
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Sorts ranges and merges overlapping or touching ones
+ */
+function mergeRanges(ranges: SearchMatchRange[]): SearchMatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: SearchMatchRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Finds the words of a text that start with one of the search words,
+ * ignoring case and accents like the search index.
+ * @param text - The field to highlight
+ * @param searchWords - Words from extractSearchWords
+ * @returns Ranges of the matched word prefixes, in order
+ */
+export function findPrefixMatches(text: string, searchWords: string[]): SearchMatchRange[] {
+  const prefixes = searchWords.map(fold).filter(Boolean);
+  const ranges: SearchMatchRange[] = [];
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    const folded = fold(word);
+    const prefix = prefixes
+      .filter(p => folded.startsWith(p))
+      .reduce((longest, p) => (p.length > longest.length ? p : longest), '');
+    if (!prefix) continue;
+
+    // Map the folded prefix back onto the original word, keeping trailing accents
+    let length = 0;
+    while (length < word.length && fold(word.slice(0, length)).length < prefix.length) length++;
+    while (length < word.length && /\p{M}/u.test(word[length])) length++;
+
+    ranges.push({ start: match.index, end: match.index + length });
+  }
+
+  return ranges;
+}
+
+/**
+ * Finds where a task matched words looked up in the search index
+ */
+export function getWordMatches(task: Task, searchWords: string[]): SearchMatches {
+  const labels: Record<string, SearchMatchRange[]> = {};
+  for (const label of task.labels ?? []) {
+    const ranges = findPrefixMatches(label.name, searchWords);
+    if (ranges.length > 0) labels[label.id] = ranges;
+  }
+
+  return {
+    name: findPrefixMatches(task.name, searchWords),
+    description: findPrefixMatches(task.description ?? '', searchWords),
+    labels,
+  };
+}
+
+/**
+ * Converts Fuse.js match indices (inclusive) to ranges, dropping noise
+ */
+function fromFuseIndices(indices: ReadonlyArray<readonly [number, number]>): SearchMatchRange[] {
+  return mergeRanges(
+    indices
+      .map(([start, end]) => ({ start, end: end + 1 }))
+      .filter(range => range.end - range.start >= MIN_FUZZY_MATCH_LENGTH)
+  );
+}
+
+/**
+ * Finds where a task matched a fuzzy search.
+ * Expects Fuse.js keys `name`, `description` and `labelNames` (one entry per label).
+ */
+export function getFuzzyMatches(task: Task, fuseMatches: ReadonlyArray<FuseResultMatch>): SearchMatches {
+  const matches: SearchMatches = { name: [], description: [], labels: {} };
+
+  for (const match of fuseMatches) {
+    const ranges = fromFuseIndices(match.indices);
+    if (ranges.length === 0) continue;
+
+    if (match.key === 'name') {
+      matches.name = ranges;
+    } else if (match.key === 'description') {
+      matches.description = ranges;
+    } else if (match.key === 'labelNames' && match.refIndex !== undefined) {
+      const label = task.labels?.[match.refIndex];
+      if (label) matches.labels[label.id] = ranges;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Builds a short excerpt of a description around its first match.
+ * The excerpt starts and ends on word boundaries, with an ellipsis where
+ * text was cut, and its ranges are relative to the excerpt.
+ * @param text - The full description
+ * @param ranges - Matches within the description
+ * @param maxLength - Longest excerpt, not counting ellipses
+ */
+export function buildSnippet(
+  text: string,
+  ranges: SearchMatchRange[],
+  maxLength: number = SNIPPET_LENGTH
+): SearchSnippet {
+  if (text.length <= maxLength) {
+    return { text, ranges };
+  }
+
+  // Start a little before the first match so it has some context
+  let start = ranges.length > 0 ? Math.max(0, ranges[0].start - Math.floor(maxLength / 3)) : 0;
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && ranges.length > 0 && space < ranges[0].start) start = space + 1;
+  }
+
+  let end = Math.min(text.length, start + maxLength);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > start + maxLength / 2) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: ranges
+      .filter(range => range.end > start && range.start < end)
+      .map(range => ({
+        start: Math.max(range.start, start) + offset,
+        end: Math.min(range.end, end) + offset,
+      })),
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Property-based tests for the search query language
+ *
+ * Tests Property 57 for filter parsing, evaluation and autocompletion
+ * **Validates: Requirements 17.1, 17.2**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import {
+  parseSearchQuery,
+  getSearchText,
+  matchesSearchFilters,
+  getSearchSuggestions,
+  SearchQueryError,
+  SEARCH_FILTER_FIELDS,
+} from './search-query';
+import type { Priority, SearchFilterNode, Task } from '@/types';
+
+// Wednesday, 2026-10-14 10:00 local time
+const NOW = new Date(2026, 9, 14, 10, 0, 0);
+
+const PRIORITIES: Priority[] = ['none', 'low', 'medium', 'high'];
+
+// Words that cannot be read as filters
+const wordArb = fc.stringMatching(/^[a-z]{3,10}$/).filter(w => !(SEARCH_FILTER_FIELDS as string[]).includes(w));
+const nameArb = fc.stringMatching(/^[A-Za-z][A-Za-z ]{0,14}[A-Za-z]$/).filter(n => !/\s{2,}/.test(n));
+
+const taskArb: fc.Arbitrary<Task> = fc.record({
+  id: fc.uuid(),
+  name: wordArb,
+  listId: fc.uuid(),
+  priority: fc.constantFrom(...PRIORITIES),
+  completed: fc.boolean(),
+  deadline: fc.option(fc.date({ min: new Date(2026, 8, 1), max: new Date(2026, 11, 31), noInvalidDate: true }), { nil: undefined }),
+  estimate: fc.option(fc.integer({ min: 5, max: 480 }), { nil: undefined }),
+  labels: fc.array(nameArb, { maxLength: 3 }).map(names =>
+    names.map((name, i) => ({ id: `label-${i}`, name, createdAt: NOW, updatedAt: NOW }))
+  ),
+  createdAt: fc.constant(NOW),
+  updatedAt: fc.constant(NOW),
+}).map(task => ({ ...task, status: task.completed ? 'done' as const : 'todo' as const }));
+
+function firstFilter(query: string): SearchFilterNode {
+  return parseSearchQuery(query, NOW).nodes.find(n => n.type === 'filter') as SearchFilterNode;
+}
+
+function matches(task: Task, query: string, listName = 'Inbox', hasAttachment = false): boolean {
+  return matchesSearchFilters(task, parseSearchQuery(query, NOW), { listName, hasAttachment }, NOW);
+}
+
+describe('Property 57: Search Query Language', () => {
+  /**
+   * **Feature: daily-task-planner, Property 57: Search Query Language**
+   * **Validates: Requirements 17.1, 17.2**
+   *
+   * For any query mixing filters and free text, filters SHALL be parsed into
+   * filter nodes and the rest SHALL remain as text for fuzzy matching.
+   */
+  test('Filters and free text are separated', () => {
+    fc.assert(
+      fc.property(fc.array(wordArb, { minLength: 1, maxLength: 4 }), nameArb, (words, listName) => {
+        const query = `${words[0]} list:"${listName}" ${words.slice(1).join(' ')} -is:completed`;
+        const parsed = parseSearchQuery(query, NOW);
+
+        expect(getSearchText(parsed)).toBe(words.join(' '));
+        expect(parsed.nodes.filter(n => n.type === 'filter')).toEqual([
+          { type: 'filter', field: 'list', comparison: '=', value: listName.toLowerCase(), negated: false },
+          { type: 'filter', field: 'is', comparison: '=', value: 'completed', negated: true },
+        ]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Comparisons and relative values are normalized', () => {
+    expect(firstFilter('due:<2026-11-01')).toMatchObject({ field: 'due', comparison: '<', value: '2026-11-01' });
+    expect(firstFilter('due:today')).toMatchObject({ comparison: '=', value: '2026-10-14' });
+    expect(firstFilter('due:>=tomorrow')).toMatchObject({ comparison: '>=', value: '2026-10-15' });
+    expect(firstFilter('estimate:>60')).toMatchObject({ comparison: '>', value: '60' });
+    expect(firstFilter('estimate:<=1h30m')).toMatchObject({ comparison: '<=', value: '90' });
+    expect(firstFilter('priority:HIGH')).toMatchObject({ value: 'high' });
+    expect(firstFilter('has:attachments')).toMatchObject({ value: 'attachment' });
+  });
+
+  test('Invalid filters are reported', () => {
+    const invalid = [
+      'list:',
+      'label:<bug',
+      'priority:urgent',
+      'is:done',
+      'has:files',
+      'due:2026-13-01',
+      'due:next week',
+      'estimate:lots',
+    ];
+
+    for (const query of invalid) {
+      expect(() => parseSearchQuery(query, NOW)).toThrow(SearchQueryError);
+    }
+
+    try {
+      parseSearchQuery('report priority:urgent is:', NOW);
+    } catch (error) {
+      expect((error as SearchQueryError).errors.q).toHaveLength(2);
+    }
+  });
+
+  test('Text that only looks like a filter is kept', () => {
+    const parsed = parseSearchQuery('Re: budget 10:30 note:call "is:overdue"', NOW);
+    expect(getSearchText(parsed)).toBe('Re: budget 10:30 note:call is:overdue');
+  });
+
+  test('Tasks are matched against every filter', () => {
+    fc.assert(
+      fc.property(taskArb, nameArb, fc.boolean(), (task, listName, hasAttachment) => {
+        const overdue = !task.completed && !!task.deadline && task.deadline < NOW;
+        const dueBefore = !!task.deadline && task.deadline < new Date(2026, 10, 1);
+
+        expect(matches(task, `list:"${listName}"`, listName)).toBe(true);
+        expect(matches(task, `list:"${listName}"`, `${listName}x`)).toBe(false);
+        expect(matches(task, `priority:${task.priority}`)).toBe(true);
+        expect(matches(task, 'priority:>=medium')).toBe(task.priority === 'medium' || task.priority === 'high');
+        expect(matches(task, 'is:completed')).toBe(task.completed);
+        expect(matches(task, '-is:completed')).toBe(!task.completed);
+        expect(matches(task, 'is:overdue')).toBe(overdue);
+        expect(matches(task, 'due:<2026-11-01')).toBe(dueBefore);
+        expect(matches(task, 'estimate:>60')).toBe(task.estimate !== undefined && task.estimate > 60);
+        expect(matches(task, 'has:attachment', 'Inbox', hasAttachment)).toBe(hasAttachment);
+
+        for (const label of task.labels!) {
+          expect(matches(task, `label:"${label.name.toUpperCase()}"`)).toBe(true);
+        }
+        expect(matches(task, 'label:nosuchlabel')).toBe(false);
+
+        // Filters combine with AND
+        expect(matches(task, 'is:completed is:overdue')).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Filter names and values are suggested', () => {
+    const source = { lists: ['Work', 'Side Projects'], labels: ['bug', 'backend'] };
+
+    expect(getSearchSuggestions('report l', source).map(s => s.label)).toEqual(['list:', 'label:']);
+    expect(getSearchSuggestions('report l', source)[0].query).toBe('report list:');
+    expect(getSearchSuggestions('-e', source).map(s => s.query)).toEqual(['-estimate:']);
+
+    expect(getSearchSuggestions('label:b', source).map(s => s.query)).toEqual(['label:bug ', 'label:backend ']);
+    expect(getSearchSuggestions('list:s', source).map(s => s.query)).toEqual(['list:"Side Projects" ']);
+    expect(getSearchSuggestions('is:', source).map(s => s.label)).toEqual(['is:overdue', 'is:completed']);
+    expect(getSearchSuggestions('priority:>m', source).map(s => s.query)).toEqual(['priority:>medium ']);
+
+    // Complete values and plain words get no suggestions
+    expect(getSearchSuggestions('is:overdue', source)).toEqual([]);
+    expect(getSearchSuggestions('report ', source)).toEqual([]);
+    expect(getSearchSuggestions('xyz', source)).toEqual([]);
+  });
+
+  test('Accepted suggestions parse without errors', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...SEARCH_FILTER_FIELDS), nameArb, (field, name) => {
+        for (const suggestion of getSearchSuggestions(`${field}:`, { lists: [name], labels: [name] })) {
+          expect(() => parseSearchQuery(suggestion.query, NOW)).not.toThrow();
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,361 @@
+import { addDays, format, isValid, parse } from 'date-fns';
+import type {
+  Priority,
+  SearchComparison,
+  SearchFilterField,
+  SearchFilterNode,
+  SearchQuery,
+  SearchQueryNode,
+  SearchSuggestion,
+  Task,
+} from '@/types';
+import { isOverdue } from './overdue';
+
+// Filters supported in search queries, in the order they are suggested
+export const SEARCH_FILTER_FIELDS: SearchFilterField[] = [
+  'list',
+  'label',
+  'priority',
+  'due',
+  'is',
+  'has',
+  'estimate',
+];
+
+// Shown next to filter names when autocompleting
+const FIELD_DESCRIPTIONS: Record<SearchFilterField, string> = {
+  list: 'Tasks in a list',
+  label: 'Tasks with a label',
+  priority: 'high, medium, low or none',
+  due: 'Deadline, e.g. due:<2026-11-01',
+  is: 'overdue or completed',
+  has: 'attachment',
+  estimate: 'Estimate in minutes, e.g. estimate:>60',
+};
+
+// Filters that accept <, <=, > and >= as well as an exact value
+const COMPARABLE_FIELDS: SearchFilterField[] = ['priority', 'due', 'estimate'];
+
+const PRIORITY_RANK: Record<Priority, number> = { none: 0, low: 1, medium: 2, high: 3 };
+const IS_VALUES = ['overdue', 'completed'];
+const HAS_VALUES = ['attachment'];
+
+// Relative dates accepted by due:, as days from today
+const DUE_KEYWORDS: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+
+// One query term: a filter (optionally negated with "-"), a quoted phrase or a word
+const TERM_PATTERN = /(-?)([a-z]+):("[^"]*"?|\S*)|"([^"]*)"?|\S+/gi;
+
+// Splits a filter value into its comparison and operand
+const COMPARISON_PATTERN = /^(<=|>=|<|>|=)?(.*)$/;
+
+// Estimate values: minutes (60, 90m) or hours and minutes (2h, 1h30m)
+const ESTIMATE_VALUE_PATTERN = /^(?:(\d+)h)?(?:(\d+)m?)?$/i;
+
+// The filter being typed at the end of the input, e.g. `label:bu` or `list:"Side Pr`
+const VALUE_COMPLETION_PATTERN = /(?:^|\s)(-?)([a-z]+):("[^"]*|[^\s"]*)$/i;
+
+// A word being typed at the end of the input that may become a filter name
+const FIELD_COMPLETION_PATTERN = /(?:^|\s)-?([a-z]+)$/i;
+
+/**
+ * Thrown when a search query contains an invalid filter.
+ * Errors are keyed by the `q` query parameter.
+ */
+export class SearchQueryError extends Error {
+  public errors: Record<string, string[]>;
+
+  constructor(messages: string[]) {
+    super(messages.length === 1 ? messages[0] : 'Invalid search query');
+    this.name = 'SearchQueryError';
+    this.errors = { q: messages };
+  }
+}
+
+/**
+ * Values of the data a task is filtered on that are not part of the Task itself
+ */
+export interface SearchFilterContext {
+  listName?: string;
+  hasAttachment: boolean;
+}
+
+/**
+ * Names offered when autocompleting list: and label: values
+ */
+export interface SearchSuggestionSource {
+  lists: string[];
+  labels: string[];
+}
+
+function isFilterField(field: string): field is SearchFilterField {
+  return (SEARCH_FILTER_FIELDS as string[]).includes(field);
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '');
+}
+
+function quote(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * Normalizes the operand of a filter.
+ * @returns The normalized value, or null if the operand is not valid for the field
+ */
+function normalizeFilterValue(field: SearchFilterField, operand: string, now: Date): string | null {
+  const value = operand.toLowerCase();
+
+  switch (field) {
+    case 'list':
+    case 'label':
+      return value;
+    case 'priority':
+      return value in PRIORITY_RANK ? value : null;
+    case 'is':
+      return IS_VALUES.includes(value) ? value : null;
+    case 'has':
+      return value === 'attachment' || value === 'attachments' ? 'attachment' : null;
+    case 'due': {
+      if (value in DUE_KEYWORDS) {
+        return format(addDays(now, DUE_KEYWORDS[value]), 'yyyy-MM-dd');
+      }
+      const date = parse(value, 'yyyy-MM-dd', now);
+      return isValid(date) && format(date, 'yyyy-MM-dd') === value ? value : null;
+    }
+    case 'estimate': {
+      const match = ESTIMATE_VALUE_PATTERN.exec(value);
+      if (!match || (match[1] === undefined && match[2] === undefined)) return null;
+      return String(parseInt(match[1] ?? '0', 10) * 60 + parseInt(match[2] ?? '0', 10));
+    }
+  }
+}
+
+/**
+ * Describes the values a filter accepts, for error messages
+ */
+function describeValidValues(field: SearchFilterField): string {
+  switch (field) {
+    case 'priority':
+      return 'high, medium, low or none';
+    case 'is':
+      return IS_VALUES.join(' or ');
+    case 'has':
+      return HAS_VALUES.join(' or ');
+    case 'due':
+      return 'a YYYY-MM-DD date, today, tomorrow or yesterday';
+    case 'estimate':
+      return 'minutes such as 60, 90m or 1h30m';
+    default:
+      return 'a name';
+  }
+}
+
+/**
+ * Parses a search query into its terms.
+ * Filters are written `field:value`, optionally with a comparison
+ * (`due:<2026-11-01`, `estimate:>=60`) or negated with a leading "-".
+ * Values containing spaces are quoted: `list:"Side Projects"`.
+ * Everything else is free text, matched fuzzily.
+ * @param input - The query as typed
+ * @param now - Reference time for relative dates such as due:today
+ * @throws SearchQueryError if any filter is invalid
+ */
+export function parseSearchQuery(input: string, now: Date = new Date()): SearchQuery {
+  const nodes: SearchQueryNode[] = [];
+  const errors: string[] = [];
+
+  for (const match of input.matchAll(TERM_PATTERN)) {
+    const [term, negation, rawField, rawValue, phrase] = match;
+
+    if (rawField === undefined) {
+      const value = (phrase ?? term).trim();
+      if (value) nodes.push({ type: 'text', value });
+      continue;
+    }
+
+    // Words that aren't filter names ("Re:", "note:call") are just text
+    const field = rawField.toLowerCase();
+    if (!isFilterField(field)) {
+      nodes.push({ type: 'text', value: term });
+      continue;
+    }
+
+    const [, comparison = '=', rawOperand] = COMPARISON_PATTERN.exec(rawValue)!;
+    const operand = unquote(rawOperand).trim();
+
+    if (!operand) {
+      errors.push(`Missing value for "${field}:"`);
+      continue;
+    }
+
+    if (comparison !== '=' && !COMPARABLE_FIELDS.includes(field)) {
+      errors.push(`"${field}:" does not support "${comparison}"`);
+      continue;
+    }
+
+    const value = normalizeFilterValue(field, operand, now);
+    if (value === null) {
+      errors.push(`Invalid value "${operand}" for "${field}:". Use ${describeValidValues(field)}`);
+      continue;
+    }
+
+    nodes.push({
+      type: 'filter',
+      field,
+      comparison: comparison as SearchComparison,
+      value,
+      negated: negation === '-',
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new SearchQueryError(errors);
+  }
+
+  return { type: 'and', nodes };
+}
+
+/**
+ * Gets the free text of a parsed query, to be matched fuzzily
+ */
+export function getSearchText(query: SearchQuery): string {
+  return query.nodes
+    .filter(node => node.type === 'text')
+    .map(node => node.value)
+    .join(' ');
+}
+
+function compare<T extends number | string>(actual: T, expected: T, comparison: SearchComparison): boolean {
+  switch (comparison) {
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+/**
+ * Gets the priorities a priority: filter matches, e.g. high and medium for
+ * `priority:>=medium`
+ */
+export function getMatchingPriorities(filter: SearchFilterNode): Priority[] {
+  return (Object.keys(PRIORITY_RANK) as Priority[]).filter(priority =>
+    compare(PRIORITY_RANK[priority], PRIORITY_RANK[filter.value as Priority], filter.comparison)
+  );
+}
+
+/**
+ * Checks a task against a single filter, ignoring negation.
+ * Tasks without a deadline or estimate never match due: or estimate:.
+ */
+function matchesFilter(task: Task, filter: SearchFilterNode, context: SearchFilterContext, now: Date): boolean {
+  switch (filter.field) {
+    case 'list':
+      return context.listName?.toLowerCase() === filter.value;
+    case 'label':
+      return (task.labels ?? []).some(label => label.name.toLowerCase() === filter.value);
+    case 'priority':
+      return getMatchingPriorities(filter).includes(task.priority);
+    case 'due':
+      return !!task.deadline && compare(format(task.deadline, 'yyyy-MM-dd'), filter.value, filter.comparison);
+    case 'estimate':
+      return task.estimate !== undefined && compare(task.estimate, parseInt(filter.value, 10), filter.comparison);
+    case 'is':
+      if (filter.value === 'completed') return task.completed;
+      return isOverdue(task, now);
+    case 'has':
+      return context.hasAttachment;
+  }
+}
+
+/**
+ * Checks whether a task satisfies every filter of a parsed query.
+ * Free text terms are not checked here; they are matched fuzzily by the caller.
+ * @param task - The task, with labels populated
+ * @param query - The parsed query
+ * @param context - The task's list name and whether it has attachments
+ * @param now - Reference time for is:overdue
+ */
+export function matchesSearchFilters(
+  task: Task,
+  query: SearchQuery,
+  context: SearchFilterContext,
+  now: Date = new Date()
+): boolean {
+  return query.nodes.every(
+    node => node.type === 'text' || matchesFilter(task, node, context, now) !== node.negated
+  );
+}
+
+function getFieldValues(field: SearchFilterField, source: SearchSuggestionSource): string[] {
+  switch (field) {
+    case 'list':
+      return source.lists;
+    case 'label':
+      return source.labels;
+    case 'priority':
+      return Object.keys(PRIORITY_RANK).reverse();
+    case 'is':
+      return IS_VALUES;
+    case 'has':
+      return HAS_VALUES;
+    case 'due':
+      return Object.keys(DUE_KEYWORDS);
+    case 'estimate':
+      return [];
+  }
+}
+
+/**
+ * Suggests completions for the term at the end of a search query:
+ * filter names while a word is typed, and values once a filter's colon is typed.
+ * @param query - The query as typed
+ * @param source - List and label names to suggest for list: and label:
+ * @param limit - Maximum number of suggestions
+ */
+export function getSearchSuggestions(
+  query: string,
+  source: SearchSuggestionSource,
+  limit = 8
+): SearchSuggestion[] {
+  const valueMatch = VALUE_COMPLETION_PATTERN.exec(query);
+  if (valueMatch) {
+    const field = valueMatch[2].toLowerCase();
+    if (!isFilterField(field)) return [];
+
+    const [, comparison = '', rawPartial] = COMPARISON_PATTERN.exec(valueMatch[3])!;
+    const partial = unquote(rawPartial).toLowerCase();
+    const prefix = query.slice(0, query.length - valueMatch[3].length) + comparison;
+
+    return getFieldValues(field, source)
+      .filter(value => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+      .slice(0, limit)
+      .map(value => ({
+        label: `${field}:${comparison}${quote(value)}`,
+        query: `${prefix}${quote(value)} `,
+      }));
+  }
+
+  const fieldMatch = FIELD_COMPLETION_PATTERN.exec(query);
+  if (!fieldMatch) return [];
+
+  const partial = fieldMatch[1].toLowerCase();
+  const prefix = query.slice(0, query.length - fieldMatch[1].length);
+
+  return SEARCH_FILTER_FIELDS
+    .filter(field => field.startsWith(partial))
+    .slice(0, limit)
+    .map(field => ({
+      label: `${field}:`,
+      description: FIELD_DESCRIPTIONS[field],
+      query: `${prefix}${field}:`,
+    }));
+}
@@ -3,6 +3,9 @@ import { toast } from 'sonner';
 /**
  * Toast notification utilities
  * Provides consistent toast messages for success/error feedback.
+ * Toasts are only for immediate feedback on user actions. Anything
+ * time-based (e.g. fired reminders) goes to the persisted notification
+ * inbox (NotificationCenter) so it is not lost when nobody is looking.
  * 
  * Requirements: 25.2, 25.3
  */
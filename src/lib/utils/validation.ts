@@ -1,13 +1,25 @@
 import type {
   Priority,
+  TaskStatus,
+  WorkflowStatus,
+  ListViewMode,
+  BoardGrouping,
   CreateTaskInput,
   UpdateTaskInput,
   CreateListInput,
   UpdateListInput,
   CreateLabelInput,
   UpdateLabelInput,
+  CreateSavedSearchInput,
+  UpdateSavedSearchInput,
+  UpdateSchedulingProfileInput,
+  WorkingDay,
+  CreateCalendarSourceInput,
   ValidationResult,
 } from '@/types';
+import { parseSearchQuery, SearchQueryError } from './search-query';
+import { isValidTimezone, isValidDateKey, timeToMinutes } from './working-hours';
+import { MAX_WORKFLOW_STATUSES } from './workflow';
 
 // Valid priority values
 export const VALID_PRIORITIES: Priority[] = ['high', 'medium', 'low', 'none'];
@@ -15,6 +27,13 @@ export const VALID_PRIORITIES: Priority[] = ['high', 'medium', 'low', 'none'];
 // Default priority when not specified
 export const DEFAULT_PRIORITY: Priority = 'none';
 
+// Status IDs are short lowercase slugs; which ones exist depends on the list
+const TASK_STATUS_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+// Valid list view modes and board groupings
+export const VALID_LIST_VIEW_MODES: ListViewMode[] = ['list', 'board'];
+export const VALID_BOARD_GROUPINGS: BoardGrouping[] = ['status', 'priority', 'label'];
+
 /**
  * Validates that a string is not empty or whitespace-only
  */
@@ -29,6 +48,14 @@ export function isValidPriority(value: unknown): value is Priority {
   return typeof value === 'string' && VALID_PRIORITIES.includes(value as Priority);
 }
 
+/**
+ * Validates that a value has the form of a TaskStatus ID.
+ * Whether the task's list has that status is checked by the task service.
+ */
+export function isValidTaskStatus(value: unknown): value is TaskStatus {
+  return typeof value === 'string' && TASK_STATUS_PATTERN.test(value);
+}
+
 /**
  * Validates time format HH:mm (e.g., "09:30", "23:59")
  * Returns true if valid, false otherwise
@@ -93,6 +120,7 @@ function addError(
  * Validates task creation input
  * - Name is required and cannot be empty/whitespace
  * - Priority must be a valid enum value if provided
+ * - Status must be a valid enum value if provided
  * - Estimate must be a valid positive number if provided
  * - ActualTime must be a valid positive number if provided
  */
@@ -109,6 +137,11 @@ export function validateCreateTask(input: CreateTaskInput): ValidationResult {
     addError(errors, 'priority', `Invalid priority. Must be one of: ${VALID_PRIORITIES.join(', ')}`);
   }
 
+  // Validate status if provided
+  if (input.status !== undefined && !isValidTaskStatus(input.status)) {
+    addError(errors, 'status', 'Invalid status');
+  }
+
   // Validate estimate if provided (must be positive number)
   if (input.estimate !== undefined) {
     if (typeof input.estimate !== 'number' || input.estimate < 0) {
@@ -130,6 +163,7 @@ export function validateCreateTask(input: CreateTaskInput): ValidationResult {
  * Validates task update input
  * - Name cannot be empty/whitespace if provided
  * - Priority must be a valid enum value if provided
+ * - Status must be a valid enum value if provided
  * - Estimate must be a valid positive number if provided
  * - ActualTime must be a valid positive number if provided
  */
@@ -146,6 +180,11 @@ export function validateUpdateTask(input: UpdateTaskInput): ValidationResult {
     addError(errors, 'priority', `Invalid priority. Must be one of: ${VALID_PRIORITIES.join(', ')}`);
   }
 
+  // Validate status if provided
+  if (input.status !== undefined && !isValidTaskStatus(input.status)) {
+    addError(errors, 'status', 'Invalid status');
+  }
+
   // Validate estimate if provided (must be positive number or null to clear)
   if (input.estimate !== undefined && input.estimate !== null) {
     if (typeof input.estimate !== 'number' || input.estimate < 0) {
@@ -178,9 +217,56 @@ export function validateCreateList(input: CreateListInput): ValidationResult {
   return Object.keys(errors).length === 0 ? validResult() : invalidResult(errors);
 }
 
+/**
+ * Validates a list's workflow statuses
+ * - Between 2 and MAX_WORKFLOW_STATUSES statuses with unique IDs and names
+ * - At least one done and one not done status, so completion can always be toggled
+ */
+export function validateWorkflowStatuses(statuses: WorkflowStatus[]): string[] {
+  if (!Array.isArray(statuses)) {
+    return ['Statuses must be an array'];
+  }
+
+  const errors: string[] = [];
+  if (statuses.length > MAX_WORKFLOW_STATUSES) {
+    errors.push(`A list can have at most ${MAX_WORKFLOW_STATUSES} statuses`);
+  }
+
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  for (const status of statuses) {
+    if (!isValidTaskStatus(status?.id)) {
+      errors.push('Status IDs must be lowercase letters, digits and dashes');
+    } else if (ids.has(status.id)) {
+      errors.push(`Duplicate status "${status.id}"`);
+    } else {
+      ids.add(status.id);
+    }
+    if (!isNonEmptyString(status?.name)) {
+      errors.push('Status names are required');
+    } else if (names.has(status.name.trim().toLowerCase())) {
+      errors.push(`Duplicate status name "${status.name.trim()}"`);
+    } else {
+      names.add(status.name.trim().toLowerCase());
+    }
+    if (typeof status?.done !== 'boolean') {
+      errors.push('Status done must be a boolean');
+    }
+  }
+
+  if (!statuses.some(status => status?.done === true) || !statuses.some(status => status?.done === false)) {
+    errors.push('A list needs at least one done and one not done status');
+  }
+
+  return errors;
+}
+
 /**
  * Validates list update input
  * - Name cannot be empty/whitespace if provided
+ * - View mode and board grouping must be valid enum values if provided
+ * - Statuses must form a valid workflow if provided
+ * - Rollover must be a boolean if provided
  */
 export function validateUpdateList(input: UpdateListInput): ValidationResult {
   const errors: Record<string, string[]> = {};
@@ -190,6 +276,24 @@ export function validateUpdateList(input: UpdateListInput): ValidationResult {
     addError(errors, 'name', 'Name cannot be empty');
   }
 
+  if (input.viewMode !== undefined && !VALID_LIST_VIEW_MODES.includes(input.viewMode)) {
+    addError(errors, 'viewMode', `Invalid view mode. Must be one of: ${VALID_LIST_VIEW_MODES.join(', ')}`);
+  }
+
+  if (input.boardGrouping !== undefined && !VALID_BOARD_GROUPINGS.includes(input.boardGrouping)) {
+    addError(errors, 'boardGrouping', `Invalid board grouping. Must be one of: ${VALID_BOARD_GROUPINGS.join(', ')}`);
+  }
+
+  if (input.statuses !== undefined) {
+    for (const error of validateWorkflowStatuses(input.statuses)) {
+      addError(errors, 'statuses', error);
+    }
+  }
+
+  if (input.rollover !== undefined && typeof input.rollover !== 'boolean') {
+    addError(errors, 'rollover', 'Rollover must be true or false');
+  }
+
   return Object.keys(errors).length === 0 ? validResult() : invalidResult(errors);
 }
 
@@ -223,6 +327,216 @@ export function validateUpdateLabel(input: UpdateLabelInput): ValidationResult {
   return Object.keys(errors).length === 0 ? validResult() : invalidResult(errors);
 }
 
+/**
+ * Adds the errors of an invalid search query under the query field
+ */
+function addSearchQueryErrors(errors: Record<string, string[]>, query: string): void {
+  try {
+    parseSearchQuery(query);
+  } catch (error) {
+    if (!(error instanceof SearchQueryError)) throw error;
+    for (const message of error.errors.q) {
+      addError(errors, 'query', message);
+    }
+  }
+}
+
+/**
+ * Validates saved search creation input
+ * - Name is required and cannot be empty/whitespace
+ * - Query is required and must be a valid search query
+ */
+export function validateCreateSavedSearch(input: CreateSavedSearchInput): ValidationResult {
+  const errors: Record<string, string[]> = {};
+
+  // Validate name (required)
+  if (!isNonEmptyString(input.name)) {
+    addError(errors, 'name', 'Name is required');
+  }
+
+  // Validate query (required)
+  if (!isNonEmptyString(input.query)) {
+    addError(errors, 'query', 'Query is required');
+  } else {
+    addSearchQueryErrors(errors, input.query);
+  }
+
+  return Object.keys(errors).length === 0 ? validResult() : invalidResult(errors);
+}
+
+/**
+ * Validates saved search update input
+ * - Name cannot be empty/whitespace if provided
+ * - Query cannot be empty and must be a valid search query if provided
+ */
+export function validateUpdateSavedSearch(input: UpdateSavedSearchInput): ValidationResult {
+  const errors: Record<string, string[]> = {};
+
+  // Validate name if provided (cannot be empty)
+  if (input.name !== undefined && !isNonEmptyString(input.name)) {
+    addError(errors, 'name', 'Name cannot be empty');
+  }
+
+  // Validate query if provided (cannot be empty)
+  if (input.query !== undefined) {
+    if (!isNonEmptyString(input.query)) {
+      addError(errors, 'query', 'Query cannot be empty');
+    } else {
+      addSearchQueryErrors(errors, input.query);
+    }
+  }
+
+  return Object.keys(errors).length === 0 ? validResult() : invalidResult(errors);
+}
+
+// Limits for the scheduling profile
+export const SLOT_MINUTES_RANGE = { min: 5, max: 240 };
+export const DAYS_AHEAD_RANGE = { min: 1, max: 60 };
+export const DEADLINE_HOURS_RANGE = { min: 1, max: 720 };
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Validates one weekday's working window and its breaks
+ */
+function validateWorkingDay(errors: Record<string, string[]>, day: WorkingDay, weekday: number): void {
+  const name = WEEKDAY_NAMES[weekday];
+  const start = timeToMinutes(day?.start);
+  const end = timeToMinutes(day?.end);
+
+  if (typeof day?.enabled !== 'boolean') {
+    addError(errors, 'workingDays', `${name}: enabled must be true or false`);
+  }
+  if (start === null || end === null) {
+    addError(errors, 'workingDays', `${name}: times must use HH:mm format`);
+    return;
+  }
+  if (start >= end) {
+    addError(errors, 'workingDays', `${name}: start must be before end`);
+  }
+
+  if (!Array.isArray(day.breaks)) {
+    addError(errors, 'workingDays', `${name}: breaks must be an array`);
+    return;
+  }
+  for (const range of day.breaks) {
+    const breakStart = timeToMinutes(range?.start);
+    const breakEnd = timeToMinutes(range?.end);
+    if (breakStart === null || breakEnd === null) {
+      addError(errors, 'workingDays', `${name}: break times must use HH:mm format`);
+    } else if (breakStart >= breakEnd) {
+      addError(errors, 'workingDays', `${name}: break start must be before its end`);
+    } else if (breakStart < start || breakEnd > end) {
+      addError(errors, 'workingDays', `${name}: breaks must fall within working hours`);
+    }
+  }
+}
+
+/**
+ * Validates scheduling profile update input
+ * - Timezone must be a known IANA timezone if provided
+ * - Working days must list all seven weekdays with valid windows and breaks if provided
+ * - Days off must be YYYY-MM-DD dates if provided
+ * - Slot length and look-ahead must be whole numbers within their limits if provided
+ * - Deadline thresholds must be whole hours within their limits, urgent before soon
+ */
+export function validateUpdateSchedulingProfile(input: UpdateSchedulingProfileInput): ValidationResult {
+  const errors: Record<string, string[]> = {};
+
+  if (input.timezone !== undefined && !isValidTimezone(input.timezone)) {
+    addError(errors, 'timezone', `Unknown timezone: ${input.timezone}`);
+  }
+
+  if (input.workingDays !== undefined) {
+    if (!Array.isArray(input.workingDays) || input.workingDays.length !== 7) {
+      addError(errors, 'workingDays', 'Working days must list all seven weekdays, starting on Sunday');
+    } else {
+      input.workingDays.forEach((day, weekday) => validateWorkingDay(errors, day, weekday));
+    }
+  }
+
+  if (input.daysOff !== undefined) {
+    if (!Array.isArray(input.daysOff)) {
+      addError(errors, 'daysOff', 'Days off must be an array of dates');
+    } else {
+      for (const date of input.daysOff) {
+        if (!isValidDateKey(date)) {
+          addError(errors, 'daysOff', `Invalid date: ${date}. Use YYYY-MM-DD`);
+        }
+      }
+    }
+  }
+
+  if (input.slotMinutes !== undefined) {
+    const { min, max } = SLOT_MINUTES_RANGE;
+    if (!Number.isInteger(input.slotMinutes) || input.slotMinutes < min || input.slotMinutes > max) {
+      addError(errors, 'slotMinutes', `Slot length must be a whole number of minutes from ${min} to ${max}`);
+    }
+  }
+
+  if (input.daysAhead !== undefined) {
+    const { min, max } = DAYS_AHEAD_RANGE;
+    if (!Number.isInteger(input.daysAhead) || input.daysAhead < min || input.daysAhead > max) {
+      addError(errors, 'daysAhead', `Days ahead must be a whole number from ${min} to ${max}`);
+    }
+  }
+
+  const { min, max } = DEADLINE_HOURS_RANGE;
+  const isValidHours = (hours: unknown): boolean =>
+    Number.isInteger(hours) && (hours as number) >= min && (hours as number) <= max;
+
+  if (input.deadlineUrgentHours !== undefined && !isValidHours(input.deadlineUrgentHours)) {
+    addError(errors, 'deadlineUrgentHours', `Urgent threshold must be a whole number of hours from ${min} to ${max}`);
+  }
+  if (input.deadlineSoonHours !== undefined && !isValidHours(input.deadlineSoonHours)) {
+    addError(errors, 'deadlineSoonHours', `Soon threshold must be a whole number of hours from ${min} to ${max}`);
+  }
+  if (
+    isValidHours(input.deadlineUrgentHours) &&
+    isValidHours(input.deadlineSoonHours) &&
+    input.deadlineUrgentHours! >= input.deadlineSoonHours!
+  ) {
+    addError(errors, 'deadlineSoonHours', 'Soon threshold must be longer than the urgent threshold');
+  }
+
+  return Object.keys(errors).length === 0 ? validResult() : invalidResult(errors);
+}
+
+// Largest calendar file accepted for upload (characters)
+export const MAX_CALENDAR_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+/**
+ * Validates calendar source creation input
+ * - Name is required
+ * - Exactly one of a file path or uploaded content is required
+ * - A path must point to an .ics file
+ * - Content must not be empty or larger than the upload limit
+ */
+export function validateCreateCalendarSource(input: CreateCalendarSourceInput): ValidationResult {
+  const errors: Record<string, string[]> = {};
+
+  // Validate name (required)
+  if (!isNonEmptyString(input.name)) {
+    addError(errors, 'name', 'Name is required');
+  }
+
+  const { path, content } = input;
+
+  if ((path === undefined) === (content === undefined)) {
+    addError(errors, 'source', 'Provide either a file path or an uploaded file');
+  } else if (path !== undefined) {
+    if (!isNonEmptyString(path) || !path.trim().toLowerCase().endsWith('.ics')) {
+      addError(errors, 'path', 'Path must point to an .ics file');
+    }
+  } else if (content === undefined || !isNonEmptyString(content)) {
+    addError(errors, 'content', 'Calendar file is empty');
+  } else if (content.length > MAX_CALENDAR_CONTENT_LENGTH) {
+    addError(errors, 'content', 'Calendar file is too large');
+  }
+
+  return Object.keys(errors).length === 0 ? validResult() : invalidResult(errors);
+}
+
 /**
  * Validates a time string in HH:mm format
  * Returns a ValidationResult
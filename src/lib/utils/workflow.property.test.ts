@@ -0,0 +1,107 @@
+/**
+ * Property-based tests for list workflow statuses
+ *
+ * Tests Property 73 for mapping statuses between workflows and completion
+ * **Validates: Requirements 22.1, 22.2**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { addMinutes } from 'date-fns';
+import {
+  DEFAULT_WORKFLOW_STATUSES,
+  createStatusId,
+  getDefaultStatus,
+  getStatusCompletion,
+  isDoneStatus,
+  mapStatus,
+} from './workflow';
+import { isValidTaskStatus, validateWorkflowStatuses } from './validation';
+import type { WorkflowStatus } from '@/types';
+
+const NOW = new Date(2026, 9, 19, 9);
+
+const STATUS_IDS = ['todo', 'doing', 'done', 'cancelled', 'review', 'shipped'];
+
+// Valid workflows: unique IDs with at least one done and one not done status
+const workflowArb: fc.Arbitrary<WorkflowStatus[]> = fc
+  .uniqueArray(fc.record({ id: fc.constantFrom(...STATUS_IDS), done: fc.boolean() }), {
+    selector: status => status.id,
+    minLength: 2,
+  })
+  .filter(statuses => statuses.some(s => s.done) && statuses.some(s => !s.done))
+  .map(statuses => statuses.map(status => ({ ...status, name: `Status ${status.id}` })));
+
+describe('Property 73: Workflow Status Mapping', () => {
+  /**
+   * **Feature: daily-task-planner, Property 73: Workflow Status Mapping**
+   * **Validates: Requirements 22.1, 22.2**
+   *
+   * For any two workflows, a status SHALL map to itself when the target
+   * workflow has it, and otherwise to the target's first status that is done
+   * the same way. A task SHALL be completed exactly when its status is done,
+   * with completedAt kept while it moves between done statuses.
+   */
+  test('Statuses map onto another workflow keeping whether they are done', () => {
+    fc.assert(
+      fc.property(workflowArb, workflowArb, fc.nat(), (from, to, pick) => {
+        const status = from[pick % from.length];
+        const mapped = mapStatus(status.id, from, to);
+
+        expect(to.some(s => s.id === mapped)).toBe(true);
+        if (to.some(s => s.id === status.id)) {
+          expect(mapped).toBe(status.id);
+        } else {
+          expect(mapped).toBe(getDefaultStatus(to, status.done));
+          expect(isDoneStatus(to, mapped)).toBe(status.done);
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('Completion follows the status and keeps completedAt between done statuses', () => {
+    fc.assert(
+      fc.property(
+        workflowArb,
+        fc.nat(),
+        fc.option(fc.integer({ min: 1, max: 7 * 24 * 60 }), { nil: undefined }),
+        (statuses, pick, minutesAgo) => {
+          const status = statuses[pick % statuses.length];
+          const completedAt = minutesAgo !== undefined ? addMinutes(NOW, -minutesAgo) : undefined;
+          const task = { completed: completedAt !== undefined, completedAt };
+
+          const completion = getStatusCompletion(task, status.id, statuses, NOW);
+          expect(completion.completed).toBe(status.done);
+          if (!status.done) {
+            expect(completion.completedAt).toBeNull();
+          } else {
+            expect(completion.completedAt).toEqual(completedAt ?? NOW);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Valid workflows pass validation and new status IDs are unique', () => {
+    fc.assert(
+      fc.property(workflowArb, fc.string({ maxLength: 40 }), (statuses, name) => {
+        expect(validateWorkflowStatuses(statuses)).toEqual([]);
+
+        const id = createStatusId(name, statuses);
+        expect(isValidTaskStatus(id)).toBe(true);
+        expect(statuses.some(s => s.id === id)).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('The default workflow has open and done statuses', () => {
+    expect(validateWorkflowStatuses(DEFAULT_WORKFLOW_STATUSES)).toEqual([]);
+    expect(getDefaultStatus(DEFAULT_WORKFLOW_STATUSES, false)).toBe('todo');
+    expect(getDefaultStatus(DEFAULT_WORKFLOW_STATUSES, true)).toBe('done');
+    expect(isDoneStatus(DEFAULT_WORKFLOW_STATUSES, 'cancelled')).toBe(true);
+    expect(validateWorkflowStatuses(DEFAULT_WORKFLOW_STATUSES.filter(s => !s.done))).not.toEqual([]);
+  });
+});
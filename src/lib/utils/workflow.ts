@@ -0,0 +1,76 @@
+import type { List, Task, TaskStatus, WorkflowStatus } from '@/types';
+
+// Statuses of a list that hasn't customised its workflow
+export const DEFAULT_WORKFLOW_STATUSES: WorkflowStatus[] = [
+  { id: 'todo', name: 'To do', done: false },
+  { id: 'doing', name: 'In progress', done: false },
+  { id: 'waiting', name: 'Waiting', done: false },
+  { id: 'done', name: 'Done', done: true },
+  { id: 'cancelled', name: 'Cancelled', done: true },
+];
+
+// Most statuses a list can have
+export const MAX_WORKFLOW_STATUSES = 10;
+
+/**
+ * Gets the statuses of a list, falling back to the default workflow
+ */
+export function getListStatuses(list: Pick<List, 'statuses'> | null | undefined): WorkflowStatus[] {
+  return list?.statuses && list.statuses.length > 0 ? list.statuses : DEFAULT_WORKFLOW_STATUSES;
+}
+
+/**
+ * Checks whether a status counts as done in a workflow
+ */
+export function isDoneStatus(statuses: WorkflowStatus[], status: TaskStatus): boolean {
+  return statuses.find(s => s.id === status)?.done ?? false;
+}
+
+/**
+ * Gets the first status of a workflow that is done, or not done.
+ * This is what setting completed on a task moves it to.
+ */
+export function getDefaultStatus(statuses: WorkflowStatus[], done: boolean): TaskStatus {
+  return (statuses.find(s => s.done === done) ?? statuses[0]).id;
+}
+
+/**
+ * Maps a status from one workflow onto another: it is kept when the other
+ * workflow has it, otherwise it becomes the first status done the same way
+ */
+export function mapStatus(status: TaskStatus, from: WorkflowStatus[], to: WorkflowStatus[]): TaskStatus {
+  if (to.some(s => s.id === status)) return status;
+  return getDefaultStatus(to, isDoneStatus(from, status));
+}
+
+/**
+ * Gets the completion fields that go with a task's status. completedAt is
+ * set when the task becomes done, kept while it moves between done
+ * statuses and cleared when it leaves them.
+ * @param task - The task before the change
+ * @param status - Its new status
+ * @param statuses - Its list's statuses
+ * @param now - When the change happens
+ */
+export function getStatusCompletion(
+  task: Pick<Task, 'completed' | 'completedAt'>,
+  status: TaskStatus,
+  statuses: WorkflowStatus[],
+  now: Date
+): { completed: boolean; completedAt: Date | null } {
+  const completed = isDoneStatus(statuses, status);
+  if (!completed) return { completed, completedAt: null };
+  return { completed, completedAt: task.completed ? task.completedAt ?? now : now };
+}
+
+/**
+ * Makes a status ID from its name that no other status uses
+ */
+export function createStatusId(name: string, statuses: WorkflowStatus[]): TaskStatus {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 28) || 'status';
+  let id = base;
+  for (let n = 2; statuses.some(s => s.id === id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
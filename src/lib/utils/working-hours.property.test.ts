@@ -0,0 +1,245 @@
+/**
+ * Property-based tests for working hours
+ *
+ * Tests Property 61 for the scheduling profile's working slots and timezones
+ * **Validates: Requirements 29.2**
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import {
+  DEFAULT_SCHEDULING_PROFILE,
+  addDaysToDateKey,
+  fromZonedTime,
+  generateWorkingSlots,
+  getWorkingPeriods,
+  getZonedDateTime,
+  isValidDateKey,
+  timeToMinutes,
+} from './working-hours';
+import { validateUpdateSchedulingProfile } from './validation';
+import type { SchedulingProfile, WorkingDay } from '@/types';
+
+const timezoneArb = fc.constantFrom(
+  'UTC',
+  'America/New_York',
+  'America/Los_Angeles',
+  'Europe/London',
+  'Europe/Berlin',
+  'Asia/Kolkata',
+  'Asia/Tokyo',
+  'Australia/Adelaide'
+);
+
+// Dates in 2026, including both daylight saving changes
+const dateKeyArb = fc.integer({ min: 0, max: 364 }).map(offset => addDaysToDateKey('2026-01-01', offset));
+
+const timeOfDayArb = fc.integer({ min: 0, max: 24 * 60 - 1 });
+
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * A working day with a window of at least two hours and at most one break inside it.
+ * Windows start after 04:00 so daylight saving changes never fall inside them.
+ */
+const workingDayArb: fc.Arbitrary<WorkingDay> = fc
+  .record({
+    enabled: fc.boolean(),
+    start: fc.integer({ min: 4 * 60, max: 12 * 60 }).map(m => m - (m % 15)),
+    length: fc.integer({ min: 120, max: 10 * 60 }).map(m => m - (m % 15)),
+    hasBreak: fc.boolean(),
+    breakOffset: fc.integer({ min: 15, max: 60 }),
+    breakLength: fc.integer({ min: 15, max: 60 }),
+  })
+  .map(({ enabled, start, length, hasBreak, breakOffset, breakLength }) => ({
+    enabled,
+    start: toTime(start),
+    end: toTime(start + length),
+    breaks: hasBreak
+      ? [{ start: toTime(start + breakOffset), end: toTime(start + breakOffset + breakLength) }]
+      : [],
+  }));
+
+const profileArb: fc.Arbitrary<SchedulingProfile> = fc.record({
+  timezone: timezoneArb,
+  workingDays: fc.array(workingDayArb, { minLength: 7, maxLength: 7 }),
+  daysOff: fc.array(dateKeyArb, { maxLength: 20 }),
+  slotMinutes: fc.constantFrom(15, 30, 60),
+  daysAhead: fc.constant(7),
+  deadlineUrgentHours: fc.constant(24),
+  deadlineSoonHours: fc.constant(48),
+});
+
+describe('Property 61: Working Hours Profile', () => {
+  /**
+   * **Feature: daily-task-planner, Property 61: Working Hours Profile**
+   * **Validates: Requirements 29.2**
+   *
+   * For any scheduling profile and date, generated working slots SHALL lie
+   * within the day's working window, SHALL NOT overlap its breaks, and SHALL
+   * NOT exist on days off or disabled weekdays.
+   */
+  test('Slots lie within the working window and outside breaks', () => {
+    fc.assert(
+      fc.property(profileArb, dateKeyArb, fc.integer({ min: 15, max: 120 }), (profile, date, duration) => {
+        const day = profile.workingDays[new Date(`${date}T00:00:00Z`).getUTCDay()];
+        const windowStart = timeToMinutes(day.start)!;
+        const windowEnd = timeToMinutes(day.end)!;
+
+        for (const slot of generateWorkingSlots(date, profile, duration)) {
+          const start = getZonedDateTime(slot.start, profile.timezone);
+          const durationMinutes = (slot.end.getTime() - slot.start.getTime()) / (60 * 1000);
+
+          expect(durationMinutes).toBe(duration);
+          expect(start.date).toBe(date);
+          expect(start.minutes).toBeGreaterThanOrEqual(windowStart);
+          expect(start.minutes + duration).toBeLessThanOrEqual(windowEnd);
+
+          for (const range of day.breaks) {
+            const breakStart = timeToMinutes(range.start)!;
+            const breakEnd = timeToMinutes(range.end)!;
+            expect(start.minutes + duration <= breakStart || start.minutes >= breakEnd).toBe(true);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Days off and disabled weekdays have no slots', () => {
+    fc.assert(
+      fc.property(profileArb, dateKeyArb, (profile, date) => {
+        const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+        const slots = generateWorkingSlots(date, profile);
+
+        if (profile.daysOff.includes(date) || !profile.workingDays[weekday].enabled) {
+          expect(slots).toEqual([]);
+          expect(getWorkingPeriods(date, profile)).toEqual([]);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Slots start on the slot grid from the start of each working period', () => {
+    fc.assert(
+      fc.property(profileArb, dateKeyArb, (profile, date) => {
+        const periods = getWorkingPeriods(date, profile);
+
+        for (const slot of generateWorkingSlots(date, profile)) {
+          const { minutes } = getZonedDateTime(slot.start, profile.timezone);
+          const period = periods.find(([start, end]) => minutes >= start && minutes < end);
+          expect(period).toBeDefined();
+          expect((minutes - period![0]) % profile.slotMinutes).toBe(0);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Breaks split the working window', () => {
+    const profile: SchedulingProfile = {
+      ...DEFAULT_SCHEDULING_PROFILE,
+      timezone: 'UTC',
+      workingDays: DEFAULT_SCHEDULING_PROFILE.workingDays.map(day => ({
+        ...day,
+        breaks: [{ start: '12:00', end: '13:00' }, { start: '15:30', end: '15:45' }],
+      })),
+    };
+
+    expect(getWorkingPeriods('2026-10-19', profile)).toEqual([
+      [9 * 60, 12 * 60],
+      [13 * 60, 15 * 60 + 30],
+      [15 * 60 + 45, 18 * 60],
+    ]);
+  });
+});
+
+describe('Timezone conversion', () => {
+  test('fromZonedTime and getZonedDateTime round trip outside DST gaps', () => {
+    fc.assert(
+      fc.property(timezoneArb, dateKeyArb, timeOfDayArb, (timezone, date, minutes) => {
+        const zoned = getZonedDateTime(fromZonedTime(date, minutes, timezone), timezone);
+
+        // Times skipped by a DST change move forward by the size of the gap
+        if (zoned.date === date && zoned.minutes !== minutes) {
+          expect(zoned.minutes - minutes).toBeGreaterThan(0);
+          expect(zoned.minutes - minutes).toBeLessThanOrEqual(60);
+        } else {
+          expect(zoned.date).toBe(date);
+          expect(zoned.minutes).toBe(minutes);
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('Known conversions', () => {
+    expect(fromZonedTime('2026-10-19', 9 * 60, 'America/New_York').toISOString()).toBe('2026-10-19T13:00:00.000Z');
+    expect(fromZonedTime('2026-01-15', 9 * 60, 'America/New_York').toISOString()).toBe('2026-01-15T14:00:00.000Z');
+    expect(fromZonedTime('2026-10-19', 9 * 60, 'Asia/Kolkata').toISOString()).toBe('2026-10-19T03:30:00.000Z');
+    expect(fromZonedTime('2026-10-19', 24 * 60, 'UTC').toISOString()).toBe('2026-10-20T00:00:00.000Z');
+
+    // 02:30 does not exist on 2026-03-08 in New York
+    expect(fromZonedTime('2026-03-08', 2 * 60 + 30, 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+
+    expect(getZonedDateTime(new Date('2026-10-19T02:00:00Z'), 'America/Los_Angeles')).toEqual({
+      date: '2026-10-18',
+      weekday: 0,
+      minutes: 19 * 60,
+    });
+  });
+
+  test('Date keys are validated and shifted by calendar days', () => {
+    fc.assert(
+      fc.property(dateKeyArb, fc.integer({ min: -400, max: 400 }), (date, days) => {
+        const shifted = addDaysToDateKey(date, days);
+        expect(isValidDateKey(shifted)).toBe(true);
+        expect(addDaysToDateKey(shifted, -days)).toBe(date);
+      }),
+      { numRuns: 100 }
+    );
+
+    expect(isValidDateKey('2026-02-29')).toBe(false);
+    expect(isValidDateKey('2028-02-29')).toBe(true);
+    expect(isValidDateKey('2026-1-5')).toBe(false);
+  });
+});
+
+describe('Scheduling profile validation', () => {
+  test('Generated profiles are valid', () => {
+    fc.assert(
+      fc.property(profileArb, (profile) => {
+        expect(validateUpdateSchedulingProfile(profile).valid).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Invalid fields are reported under their own keys', () => {
+    const workingDays = DEFAULT_SCHEDULING_PROFILE.workingDays;
+
+    expect(validateUpdateSchedulingProfile({ timezone: 'Mars/Olympus_Mons' }).errors).toHaveProperty('timezone');
+    expect(validateUpdateSchedulingProfile({ workingDays: workingDays.slice(0, 5) }).errors).toHaveProperty('workingDays');
+    expect(
+      validateUpdateSchedulingProfile({
+        workingDays: workingDays.map((day, i) => (i === 1 ? { ...day, start: '18:00', end: '09:00' } : day)),
+      }).errors.workingDays
+    ).toEqual(['Monday: start must be before end']);
+    expect(
+      validateUpdateSchedulingProfile({
+        workingDays: workingDays.map(day => ({ ...day, breaks: [{ start: '08:00', end: '09:30' }] })),
+      }).errors.workingDays
+    ).toContain('Sunday: breaks must fall within working hours');
+    expect(validateUpdateSchedulingProfile({ daysOff: ['2026-13-01'] }).errors).toHaveProperty('daysOff');
+    expect(validateUpdateSchedulingProfile({ slotMinutes: 2 }).errors).toHaveProperty('slotMinutes');
+    expect(validateUpdateSchedulingProfile({ daysAhead: 1.5 }).errors).toHaveProperty('daysAhead');
+    expect(validateUpdateSchedulingProfile({ deadlineUrgentHours: 0 }).errors).toHaveProperty('deadlineUrgentHours');
+    expect(
+      validateUpdateSchedulingProfile({ deadlineUrgentHours: 48, deadlineSoonHours: 24 }).errors
+    ).toHaveProperty('deadlineSoonHours');
+    expect(validateUpdateSchedulingProfile({}).valid).toBe(true);
+  });
+});
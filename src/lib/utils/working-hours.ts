@@ -0,0 +1,241 @@
+import type { SchedulingProfile, TimeRange, WorkingDay } from '@/types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Matches HH:mm between 00:00 and 24:00
+const TIME_PATTERN = /^(?:([01]\d|2[0-3]):([0-5]\d)|24:00)$/;
+
+// Matches YYYY-MM-DD
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Represents a time slot with start and end times
+ */
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * A date and time of day as seen in a timezone
+ */
+export interface ZonedDateTime {
+  date: string;                // YYYY-MM-DD
+  weekday: number;             // 0 = Sunday
+  minutes: number;             // Minutes since midnight
+}
+
+/**
+ * Working window used until a profile is saved: every day from 9 AM to 6 PM
+ * in the server's timezone, as the scheduler always did
+ */
+const DEFAULT_WORKING_DAY: WorkingDay = { enabled: true, start: '09:00', end: '18:00', breaks: [] };
+
+export const DEFAULT_SCHEDULING_PROFILE: SchedulingProfile = {
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  workingDays: Array.from({ length: 7 }, () => ({ ...DEFAULT_WORKING_DAY, breaks: [] })),
+  daysOff: [],
+  slotMinutes: 30,
+  daysAhead: 7,
+  deadlineUrgentHours: 24,
+  deadlineSoonHours: 48,
+};
+
+// Formatters are costly to create, so keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks whether a string is an IANA timezone known to the runtime
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Converts HH:mm to minutes since midnight, or null if invalid.
+ * 24:00 is accepted as the end of the day.
+ */
+export function timeToMinutes(time: string): number | null {
+  if (typeof time !== 'string') return null;
+  const match = time.match(TIME_PATTERN);
+  if (!match) return null;
+  if (match[1] === undefined) return MINUTES_PER_DAY;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Checks whether a string is a real calendar date in YYYY-MM-DD form
+ */
+export function isValidDateKey(value: string): boolean {
+  if (typeof value !== 'string') return false;
+  const match = value.match(DATE_PATTERN);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date
+ */
+export function addDaysToDateKey(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Gets the date, weekday and time of day of an instant in a timezone
+ */
+export function getZonedDateTime(instant: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+
+  const utcMidnight = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+  return {
+    date: utcMidnight.toISOString().slice(0, 10),
+    weekday: utcMidnight.getUTCDay(),
+    minutes: parts.hour * 60 + parts.minute,
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in minutes
+ */
+function getTimezoneOffset(instant: Date, timeZone: string): number {
+  const zoned = getZonedDateTime(instant, timeZone);
+  const [year, month, day] = zoned.date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day) + zoned.minutes * 60 * 1000;
+  const truncated = instant.getTime() - (instant.getTime() % (60 * 1000));
+  return Math.round((wallClock - truncated) / (60 * 1000));
+}
+
+/**
+ * Gets the instant at which a timezone's clocks show a date and time of day.
+ * Times skipped by a daylight saving change resolve to the instant after the gap.
+ * @param date - YYYY-MM-DD in the timezone
+ * @param minutes - Minutes since midnight (may be 24 * 60 for the end of the day)
+ * @param timeZone - IANA timezone
+ */
+export function fromZonedTime(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day) + minutes * 60 * 1000;
+
+  // The offset can differ between the guess and the result around DST changes
+  const guessOffset = getTimezoneOffset(new Date(wallClock), timeZone);
+  const offset = getTimezoneOffset(new Date(wallClock - guessOffset * 60 * 1000), timeZone);
+  const instant = wallClock - offset * 60 * 1000;
+  if (getTimezoneOffset(new Date(instant), timeZone) === offset) {
+    return new Date(instant);
+  }
+
+  // No instant has this wall clock time: use the offset from before the gap
+  return new Date(wallClock - Math.min(guessOffset, offset) * 60 * 1000);
+}
+
+/**
+ * Subtracts ranges from a range, all in minutes since midnight
+ */
+function subtractRanges(
+  range: [number, number],
+  removed: Array<[number, number]>
+): Array<[number, number]> {
+  let remaining: Array<[number, number]> = [range];
+
+  for (const [cutStart, cutEnd] of removed) {
+    remaining = remaining.flatMap(([start, end]): Array<[number, number]> => {
+      if (cutEnd <= start || cutStart >= end) return [[start, end]];
+      const pieces: Array<[number, number]> = [];
+      if (cutStart > start) pieces.push([start, cutStart]);
+      if (cutEnd < end) pieces.push([cutEnd, end]);
+      return pieces;
+    });
+  }
+
+  return remaining;
+}
+
+/**
+ * Converts a time range to minutes, or null if either end is invalid
+ */
+function rangeToMinutes(range: TimeRange): [number, number] | null {
+  const start = timeToMinutes(range.start);
+  const end = timeToMinutes(range.end);
+  return start === null || end === null ? null : [start, end];
+}
+
+/**
+ * Gets the working periods of a day in minutes since midnight:
+ * the day's window without its breaks, or nothing on days off
+ * @param date - YYYY-MM-DD in the profile's timezone
+ * @param profile - The scheduling profile
+ */
+export function getWorkingPeriods(date: string, profile: SchedulingProfile): Array<[number, number]> {
+  if (profile.daysOff.includes(date)) return [];
+
+  const [year, month, day] = date.split('-').map(Number);
+  const workingDay = profile.workingDays[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  if (!workingDay?.enabled) return [];
+
+  const window = rangeToMinutes(workingDay);
+  if (!window || window[0] >= window[1]) return [];
+
+  const breaks = workingDay.breaks
+    .map(rangeToMinutes)
+    .filter((range): range is [number, number] => range !== null);
+
+  return subtractRanges(window, breaks).filter(([start, end]) => end > start);
+}
+
+/**
+ * Generates working hour slots for a day.
+ * Slots start every `slotMinutes` from the start of each working period
+ * and lie entirely within it, so none overlaps a break.
+ * @param date - YYYY-MM-DD in the profile's timezone
+ * @param profile - The scheduling profile
+ * @param durationMinutes - Length of each slot (defaults to the slot spacing)
+ */
+export function generateWorkingSlots(
+  date: string,
+  profile: SchedulingProfile,
+  durationMinutes: number = profile.slotMinutes
+): TimeSlot[] {
+  const slots: TimeSlot[] = [];
+
+  for (const [periodStart, periodEnd] of getWorkingPeriods(date, profile)) {
+    for (let start = periodStart; start + durationMinutes <= periodEnd; start += profile.slotMinutes) {
+      const slotStart = fromZonedTime(date, start, profile.timezone);
+      slots.push({
+        start: slotStart,
+        end: new Date(slotStart.getTime() + durationMinutes * 60 * 1000),
+      });
+    }
+  }
+
+  return slots;
+}
@@ -3,6 +3,22 @@
 // Priority levels for tasks
 export type Priority = 'high' | 'medium' | 'low' | 'none';
 
+// Workflow status of a task: the ID of one of its list's statuses
+export type TaskStatus = string;
+
+// A step of a list's workflow; tasks in a done status count as completed
+export interface WorkflowStatus {
+  id: TaskStatus;
+  name: string;
+  done: boolean;
+}
+
+// How a list's tasks are shown
+export type ListViewMode = 'list' | 'board';
+
+// What the columns of a list's board are
+export type BoardGrouping = 'status' | 'priority' | 'label';
+
 // Recurrence pattern types
 export type RecurrenceType = 
   | 'daily' 
@@ -34,6 +50,42 @@ export interface Reminder {
   sent: boolean;
 }
 
+// In-app notification entity (created when an in-app reminder fires)
+export interface Notification {
+  id: string;
+  taskId: string;
+  listId: string;
+  reminderId?: string;
+  title: string;
+  body?: string;
+  read: boolean;
+  snoozedUntil?: Date;
+  createdAt: Date;
+}
+
+// Browser push subscription (shape of PushSubscription.toJSON())
+export interface PushSubscriptionInput {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+// Stored push subscription entity
+export interface PushSubscriptionRecord extends PushSubscriptionInput {
+  id: string;
+  createdAt: Date;
+}
+
+// Payload delivered to the service worker for a push reminder
+export interface PushPayload {
+  title: string;
+  body?: string;
+  url: string;
+  tag?: string;
+}
+
 // File attachment entity
 export interface Attachment {
   id: string;
@@ -62,6 +114,10 @@ export interface List {
   color?: string;
   emoji?: string;
   isInbox: boolean;
+  viewMode: ListViewMode;
+  boardGrouping: BoardGrouping;
+  statuses: WorkflowStatus[];  // In workflow order
+  rollover: boolean;           // Move its overdue scheduled tasks to today every night
   createdAt: Date;
   updatedAt: Date;
 }
@@ -85,9 +141,11 @@ export interface Task {
   listId: string;
   date?: Date;
   deadline?: Date;
+  startDate?: Date;            // Deferred until then: hidden from date views
   estimate?: number;           // Minutes
   actualTime?: number;         // Minutes
   priority: Priority;
+  status: TaskStatus;
   completed: boolean;
   completedAt?: Date;
   recurrence?: RecurrencePattern;
@@ -101,8 +159,13 @@ export interface Task {
   subtasks?: Subtask[];
   attachments?: Attachment[];
   reminders?: Reminder[];
+  blockedBy?: TaskDependency[];   // Tasks that must be done before this one
+  blocking?: TaskDependency[];    // Tasks waiting on this one
 }
 
+// The other end of a dependency between tasks
+export type TaskDependency = Pick<Task, 'id' | 'name' | 'listId' | 'completed' | 'date' | 'estimate'>;
+
 // Task history entry for audit trail
 export interface TaskHistoryEntry {
   id: string;
@@ -113,14 +176,103 @@ export interface TaskHistoryEntry {
   changedAt: Date;
 }
 
+// Kind of token recognized in natural language input
+export type ParsedTokenType = 'date' | 'deadline' | 'startDate' | 'recurrence' | 'priority' | 'list' | 'label' | 'estimate';
+
+// Character range of a recognized token within the parsed input
+export interface ParsedTokenSpan {
+  type: ParsedTokenType;
+  start: number;               // Index of the first character
+  end: number;                 // Index after the last character
+  text: string;
+}
+
 // Parsed result from natural language input
 export interface ParsedTaskInput {
   name: string;
   date?: Date;
   time?: string;
+  deadline?: Date;
+  startDate?: Date;
   priority?: Priority;
   listName?: string;
   labels?: string[];
+  estimate?: number;           // Minutes
+  recurrence?: RecurrencePattern;
+  spans?: ParsedTokenSpan[];   // Ordered by position in the input
+}
+
+// Field a search filter applies to (e.g. `list:Work`)
+export type SearchFilterField = 'list' | 'label' | 'priority' | 'due' | 'is' | 'has' | 'estimate';
+
+// Comparison used by a search filter (e.g. `due:<2026-11-01`)
+export type SearchComparison = '=' | '<' | '<=' | '>' | '>=';
+
+// Filter term of a parsed search query
+export interface SearchFilterNode {
+  type: 'filter';
+  field: SearchFilterField;
+  comparison: SearchComparison;
+  value: string;               // Normalized: lowercase text, YYYY-MM-DD date or minutes
+  negated: boolean;            // Written with a leading "-"
+}
+
+// Free text term of a parsed search query, matched fuzzily
+export interface SearchTextNode {
+  type: 'text';
+  value: string;
+}
+
+export type SearchQueryNode = SearchFilterNode | SearchTextNode;
+
+// Parsed search query; all terms must match
+export interface SearchQuery {
+  type: 'and';
+  nodes: SearchQueryNode[];
+}
+
+// Character range of a search match within a field
+export interface SearchMatchRange {
+  start: number;               // Index of the first character
+  end: number;                 // Index after the last character
+}
+
+// Where a task matched the free text of a search
+export interface SearchMatches {
+  name: SearchMatchRange[];
+  description: SearchMatchRange[];
+  labels: Record<string, SearchMatchRange[]>;   // Keyed by label ID
+}
+
+// Short excerpt of a task description with its matches
+export interface SearchSnippet {
+  text: string;
+  ranges: SearchMatchRange[];  // Relative to the excerpt
+}
+
+// Task found by a search
+export interface SearchResult {
+  task: Task;
+  score: number;               // Relevance 0-1, higher is better
+  matches: SearchMatches;
+  snippet?: SearchSnippet;
+}
+
+// Autocomplete suggestion for the search input
+export interface SearchSuggestion {
+  label: string;               // Text shown in the suggestion list
+  description?: string;
+  query: string;               // Full query after accepting the suggestion
+}
+
+// Search query saved as a smart list
+export interface SavedSearch {
+  id: string;
+  name: string;
+  emoji?: string;
+  query: string;               // Search query, including filters
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // Smart scheduling suggestion
@@ -131,6 +283,78 @@ export interface ScheduleSuggestion {
   reason: string;
 }
 
+// Task placed into a free time slot by auto-planning
+export interface AutoPlanAssignment {
+  task: Task;                  // As it is now, so the preview can show the change
+  startTime: Date;
+  endTime: Date;
+}
+
+// Proposed schedule for unscheduled tasks; nothing is saved until it is applied
+export interface AutoPlan {
+  assignments: AutoPlanAssignment[];
+  unplanned: Task[];           // Tasks with no free slot in the planning window
+}
+
+// Task start time to commit from an auto-plan
+export interface ApplyAutoPlanItem {
+  taskId: string;
+  date: Date;
+}
+
+// External calendar (.ics) whose events count as busy time when scheduling
+export interface CalendarSource {
+  id: string;
+  name: string;
+  path?: string;               // Local file, re-read on refresh; unset for uploads
+  lastSyncedAt?: Date;
+  lastError?: string;          // Why the last refresh failed, if it did
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A calendar is added from either a local file path or uploaded file content
+export interface CreateCalendarSourceInput {
+  name: string;
+  path?: string;
+  content?: string;
+}
+
+// Cached occurrence of a calendar event
+export interface BusyBlock {
+  id: string;
+  sourceId: string;
+  start: Date;
+  end: Date;
+  summary?: string;
+}
+
+// Time of day range in HH:mm (e.g. a lunch break)
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+// Working window of one weekday
+export interface WorkingDay {
+  enabled: boolean;            // False for a weekly day off
+  start: string;               // HH:mm
+  end: string;                 // HH:mm
+  breaks: TimeRange[];         // Non-working ranges within the window
+}
+
+// When the scheduler may place tasks
+export interface SchedulingProfile {
+  timezone: string;            // IANA timezone of the working hours
+  workingDays: WorkingDay[];   // Indexed by weekday, 0 = Sunday
+  daysOff: string[];           // YYYY-MM-DD dates without work
+  slotMinutes: number;         // Spacing of suggested start times
+  daysAhead: number;           // How far ahead to look for free time
+  deadlineUrgentHours: number; // A deadline this close makes a task urgent
+  deadlineSoonHours: number;   // A deadline this close is coming up soon
+  updatedAt?: Date;            // Unset until the profile is first saved
+}
+
 // Grouped tasks by date for views
 export interface GroupedTasks {
   date: Date;
@@ -145,11 +369,15 @@ export interface CreateTaskInput {
   listId?: string;
   date?: Date;
   deadline?: Date;
+  startDate?: Date;
   estimate?: number;
   actualTime?: number;
   priority?: Priority;
+  status?: TaskStatus;
   recurrence?: RecurrencePattern;
   labelIds?: string[];
+  blockedByIds?: string[];
+  reminders?: CreateReminderInput[];
 }
 
 export interface UpdateTaskInput {
@@ -158,12 +386,15 @@ export interface UpdateTaskInput {
   listId?: string;
   date?: Date | null;
   deadline?: Date | null;
+  startDate?: Date | null;
   estimate?: number | null;
   actualTime?: number | null;
   priority?: Priority;
+  status?: TaskStatus;         // Takes precedence over completed when both are given
   completed?: boolean;
   recurrence?: RecurrencePattern | null;
   labelIds?: string[];
+  blockedByIds?: string[];     // Replaces all of the task's blockers
 }
 
 export interface CreateListInput {
@@ -176,6 +407,10 @@ export interface UpdateListInput {
   name?: string;
   color?: string;
   emoji?: string;
+  viewMode?: ListViewMode;
+  boardGrouping?: BoardGrouping;
+  statuses?: WorkflowStatus[];  // Tasks in a removed status move to the first status done the same way
+  rollover?: boolean;
 }
 
 export interface CreateLabelInput {
@@ -188,16 +423,55 @@ export interface UpdateLabelInput {
   icon?: string;
 }
 
+export interface CreateSavedSearchInput {
+  name: string;
+  emoji?: string;
+  query: string;
+}
+
+export interface UpdateSavedSearchInput {
+  name?: string;
+  emoji?: string;
+  query?: string;
+}
+
+export interface UpdateSchedulingProfileInput {
+  timezone?: string;
+  workingDays?: WorkingDay[];
+  daysOff?: string[];
+  slotMinutes?: number;
+  daysAhead?: number;
+  deadlineUrgentHours?: number;
+  deadlineSoonHours?: number;
+}
+
 export interface CreateSubtaskInput {
   name: string;
   order?: number;
 }
 
+export interface UpdateSubtaskInput {
+  name?: string;
+  completed?: boolean;
+}
+
 export interface CreateReminderInput {
   offsetMinutes: number;
   method: ReminderMethod;
 }
 
+export interface UpdateReminderInput {
+  offsetMinutes?: number;
+  method?: ReminderMethod;
+}
+
+export interface CreateNotificationInput {
+  taskId: string;
+  reminderId?: string;
+  title: string;
+  body?: string;
+}
+
 
 // Service interfaces
 
@@ -208,6 +482,7 @@ export interface ITaskService {
   getById(id: string): Promise<Task | null>;
   getByListId(listId: string, includeCompleted?: boolean): Promise<Task[]>;
   getByDateRange(start: Date, end: Date, includeCompleted?: boolean): Promise<Task[]>;
+  getByDeadlineRange(start: Date, end: Date, includeCompleted?: boolean): Promise<Task[]>;
   getToday(includeCompleted?: boolean): Promise<Task[]>;
   getNext7Days(includeCompleted?: boolean): Promise<Task[]>;
   getNext7DaysGrouped(includeCompleted?: boolean): Promise<GroupedTasks[]>;
@@ -215,11 +490,16 @@ export interface ITaskService {
   getUpcomingGrouped(includeCompleted?: boolean): Promise<GroupedTasks[]>;
   getOverdue(): Promise<Task[]>;
   getOverdueCount(): Promise<number>;
-  getAll(includeCompleted?: boolean): Promise<Task[]>;
+  getOverdueScheduled(): Promise<Task[]>;
+  getAll(includeCompleted?: boolean, includeDeferred?: boolean): Promise<Task[]>;
   toggleComplete(id: string): Promise<Task>;
   addSubtask(taskId: string, name: string): Promise<Subtask>;
   toggleSubtask(subtaskId: string): Promise<Subtask>;
+  updateSubtask(subtaskId: string, data: UpdateSubtaskInput): Promise<Subtask>;
+  reorderSubtasks(taskId: string, subtaskIds: string[]): Promise<Subtask[]>;
   deleteSubtask(subtaskId: string): Promise<void>;
+  promoteSubtask(subtaskId: string): Promise<Task>;
+  demoteToSubtask(taskId: string, parentTaskId: string): Promise<Subtask>;
   getHistory(taskId: string): Promise<TaskHistoryEntry[]>;
 }
 
@@ -243,8 +523,25 @@ export interface ILabelService {
   removeFromTask(taskId: string, labelId: string): Promise<void>;
 }
 
+// Every task with what search filters refer to, loaded once for several searches
+export interface SearchTaskSet {
+  tasks: Task[];                        // With labels
+  listNames: Map<string, string>;       // Keyed by list ID
+  taskIdsWithAttachments: Set<string>;
+}
+
 export interface ISearchService {
-  search(query: string): Promise<Task[]>;
+  search(query: string, taskSet?: SearchTaskSet): Promise<SearchResult[]>;
+  loadTaskSet(): Promise<SearchTaskSet>;
+}
+
+export interface ISavedSearchService {
+  create(data: CreateSavedSearchInput): Promise<SavedSearch>;
+  update(id: string, data: UpdateSavedSearchInput): Promise<SavedSearch>;
+  delete(id: string): Promise<void>;
+  getAll(): Promise<SavedSearch[]>;
+  getById(id: string): Promise<SavedSearch | null>;
+  getCounts(): Promise<Record<string, number>>;
 }
 
 export interface INLPParserService {
@@ -253,14 +550,46 @@ export interface INLPParserService {
 
 export interface ISchedulerService {
   suggestTimeSlots(task: Task, count?: number): Promise<ScheduleSuggestion[]>;
+  planTasks(days?: number): Promise<AutoPlan>;
+  planOverdue(days?: number): Promise<AutoPlan>;
+  applyPlan(items: ApplyAutoPlanItem[]): Promise<Task[]>;
+}
+
+export interface ISchedulingProfileService {
+  get(): Promise<SchedulingProfile>;
+  update(data: UpdateSchedulingProfileInput): Promise<SchedulingProfile>;
+}
+
+export interface ICalendarService {
+  getSources(): Promise<CalendarSource[]>;
+  createSource(data: CreateCalendarSourceInput): Promise<CalendarSource>;
+  refreshSource(id: string): Promise<CalendarSource>;
+  deleteSource(id: string): Promise<void>;
+  getBusyBlocks(start: Date, end: Date): Promise<BusyBlock[]>;
 }
 
 export interface IReminderService {
   scheduleReminder(taskId: string, reminder: CreateReminderInput): Promise<Reminder>;
+  updateReminder(reminderId: string, data: UpdateReminderInput): Promise<Reminder>;
   cancelReminder(reminderId: string): Promise<void>;
   getByTaskId(taskId: string): Promise<Reminder[]>;
 }
 
+export interface INotificationService {
+  create(data: CreateNotificationInput): Promise<Notification>;
+  getInbox(now?: Date): Promise<Notification[]>;
+  markRead(id: string): Promise<Notification>;
+  markAllRead(now?: Date): Promise<void>;
+  snooze(id: string, minutes: number, now?: Date): Promise<Notification>;
+}
+
+export interface IPushService {
+  getPublicKey(): string;
+  subscribe(data: PushSubscriptionInput, options?: { allowInsecureEndpoint?: boolean }): Promise<PushSubscriptionRecord>;
+  unsubscribe(endpoint: string): Promise<void>;
+  getAll(): Promise<PushSubscriptionRecord[]>;
+}
+
 // Error response format
 export interface ErrorResponse {
   error: {